@@ -1,111 +1,153 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { BoatState, RockState } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
-  WIND_SPEED, 
-  MAX_BOAT_SPEED,
-  TURN_RATE, 
-  ACCELERATION, 
-  DRAG, 
-  normalizeAngle 
+  FIXED_TIMESTEP,
+  FPS,
+  MAX_FRAME_TIME,
+  MAX_LIVES,
 } from './constants';
-import { calculateTargetSpeed, calculateSailTrim, isInNoGoZone } from './utils/physics';
-import SimulationCanvas, { Rock as RockRender } from './components/SimulationCanvas';
+import { Bounds, NO_INPUT, SimulationEvent, SimulationInput, boatWind } from './utils/simulation';
+import {
+  InputSettings,
+  NO_TOUCH,
+  TouchState,
+  bindingLabel,
+  combineInputs,
+  connectedGamepads,
+  gamepadInput,
+  keyboardInput,
+  loadInputSettings,
+  saveInputSettings,
+  screenTilt,
+  shapeRudder,
+  soloBinding,
+  tiltRudder,
+  touchInput,
+} from './utils/input';
+import { calculateApparentWind } from './utils/physics';
+import {
+  BASE_ROCK_COUNT,
+  COURSE_FILE_VERSION,
+  WORLD_BOUNDS,
+  CourseFile,
+  CourseSeed,
+  customCourseSeed,
+  formatCourseCode,
+  parseCourseCode,
+  parseCourseFile,
+} from './utils/course';
+import { RunState, advanceRun, createRunState } from './utils/run';
+import { RULES } from './utils/rules';
+import { I18nContext, Locale, MessageKey, MessageValues, boatClassName, boatName, createI18n, initialLocale } from './utils/i18n';
+import { chartKey, explore, loadExploration, saveExploration } from './utils/exploration';
+import { DEFAULT_ZOOM, ZOOM_STEP, clampZoom, followCamera, overviewZoom } from './utils/camera';
+import {
+  UPGRADES,
+  UpgradeId,
+  UpgradeLevels,
+  isUpgradeId,
+  levelOf,
+  levelReward,
+  levelsFromUpgrades,
+  maxLevel,
+  nextLevelPrice,
+  parseUpgradeLevels,
+  upgradeForCode,
+  upgradesFromLevels,
+} from './utils/upgrades';
+import {
+  Replay,
+  ReplayFrame,
+  ReplayPlayer,
+  createReplay,
+  createReplayPlayer,
+  advanceReplay,
+  isOutdatedReplay,
+  parseReplay,
+  recordInput,
+  recordUpgrades,
+  seekReplay,
+  serializeReplay,
+} from './utils/replay';
+import { randomSeed } from './utils/random';
+import { currentGoal } from './utils/marks';
+import { computeRouteOverlay } from './utils/routing';
+import { DIFFICULTIES, NO_OPPONENTS, OpponentSetup, RaceEntry, isOpponentSetup, raceStandings } from './utils/opponents';
+import { BOAT_CLASSES, DEFAULT_POLAR, PolarTable, isBuiltInPolar, parsePolarCsv, polarNoGoDeg, parsePolarTable } from './utils/polar';
+import {
+  GHOST_SAMPLE_INTERVAL,
+  GhostPose,
+  ghostDelta,
+  ghostKey,
+  ghostPoseAt,
+  loadGhost,
+  saveGhostIfBest,
+  toGhostPose,
+} from './utils/ghost';
+import { TrialClock, formatTrialTime, startClock, tickClock, trialBoardKey, withUpgrades } from './utils/timeTrial';
+import { TrialDivision, TrialEntry, addTrialTime, loadBoard } from './utils/leaderboard';
+import SimulationCanvas from './components/SimulationCanvas';
 import Dashboard from './components/Dashboard';
+import ReplayControls from './components/ReplayControls';
+import CourseEditor from './components/CourseEditor';
+import Minimap from './components/Minimap';
+import SeaChart from './components/SeaChart';
+import UpgradeShop from './components/UpgradeShop';
+import ControlSettings from './components/ControlSettings';
+import Leaderboard from './components/Leaderboard';
 
-const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
-const BASE_ROCK_COUNT = 6;
-
-const generateRandomRocks = (opts: {
-  count: number;
-  width: number;
-  height: number;
-  targetZoneWidth: number;
-  margin: number;
-  startX: number;
-  startY: number;
-  startSafeRadius: number;
-  minLeftCount: number;
-  leftMaxX: number;
-}): RockState[] => {
-  const {
-    count,
-    width,
-    height,
-    targetZoneWidth,
-    margin,
-    startX,
-    startY,
-    startSafeRadius,
-    minLeftCount,
-    leftMaxX,
-  } = opts;
-
-  const rocks: RockState[] = [];
-  const maxAttempts = 3000;
-  const minGap = 22;
-
-  const minX = targetZoneWidth + margin;
-  const maxX = width - margin;
-  const minY = margin;
-  const maxY = height - margin;
-
-  const safeStartR = startSafeRadius;
-
-  const tryAddRock = (candidate: { x: number; y: number; radius: number }) => {
-    const { x, y, radius } = candidate;
-
-    // keep away from start
-    const dxs = x - startX;
-    const dys = y - startY;
-    if (dxs * dxs + dys * dys < (safeStartR + radius) * (safeStartR + radius)) return false;
-
-    // avoid overlapping with other rocks
-    for (const r of rocks) {
-      const dx = x - r.position.x;
-      const dy = y - r.position.y;
-      const minDist = radius + r.radius + minGap;
-      if (dx * dx + dy * dy < minDist * minDist) return false;
-    }
-
-    rocks.push({
-      position: { x: clamp(x, minX, maxX), y: clamp(y, minY, maxY) },
-      radius,
-    });
-    return true;
-  };
-
-  // Ensure there are always some rocks on the left side (but not inside the target zone).
-  const leftUpperX = Math.max(minX + 1, Math.min(leftMaxX, maxX));
-  if (leftUpperX > minX) {
-    let leftPlaced = 0;
-    for (let attempt = 0; attempt < maxAttempts && leftPlaced < Math.min(minLeftCount, count); attempt++) {
-      const radius = 32 + Math.random() * 28; // ~32..60
-      const x = minX + Math.random() * (leftUpperX - minX);
-      const y = minY + Math.random() * Math.max(1, maxY - minY);
-      if (tryAddRock({ x, y, radius })) leftPlaced++;
-    }
-  }
+// Ticks between two updates of the training overlay
+const ROUTE_REPLAN_TICKS = 30;
 
-  for (let attempt = 0; attempt < maxAttempts && rocks.length < count; attempt++) {
-    const radius = 32 + Math.random() * 28; // ~32..60
+const viewportBounds = (): Bounds => ({ width: window.innerWidth, height: window.innerHeight });
 
-    const x = minX + Math.random() * Math.max(1, maxX - minX);
-    const y = minY + Math.random() * Math.max(1, maxY - minY);
-    tryAddRock({ x, y, radius });
+// Upgrade levels saved under the given key; upgrades unlocked by code before the registry are carried over
+const loadUpgradeLevels = (key: string, legacyKey: string): UpgradeLevels => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (raw) return parseUpgradeLevels(JSON.parse(raw));
+    const legacy = localStorage.getItem(legacyKey);
+    return legacy ? levelsFromUpgrades(JSON.parse(legacy)) : {};
+  } catch {
+    return {};
   }
-
-  return rocks;
 };
 
+// iOS Safari only delivers orientation events after DeviceOrientationEvent.requestPermission()
+interface OrientationPermission {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+}
+
+// Replay playback state used by the game loop
+interface Playback {
+  player: ReplayPlayer;
+  frame: ReplayFrame;
+  playing: boolean;
+  speed: number;
+}
+
 const App: React.FC = () => {
+  // Language: the game loop runs on the first render's closure, so messages translate through a ref
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    try {
+      localStorage.setItem('segel_sim_locale', locale);
+    } catch {
+      // ignore storage failures
+    }
+  }, [locale]);
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  const i18nRef = useRef(i18n);
+  i18nRef.current = i18n;
+  const t = (key: MessageKey, values?: MessageValues) => i18nRef.current.t(key, values);
+
   // Game State
-  const [level, setLevel] = useState(1);
   const [message, setMessage] = useState<string | null>(null);
-  const [lives, setLives] = useState(5);
-  const livesRef = useRef(lives);
-  useEffect(() => {
-    livesRef.current = lives;
-  }, [lives]);
+
+  const showMessage = (text: string, duration: number) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), duration);
+  };
 
   const [highscoreLevel, setHighscoreLevel] = useState<number>(() => {
     try {
@@ -124,107 +166,366 @@ const App: React.FC = () => {
     }
   }, [highscoreLevel]);
 
-  // Wind direction varies by level: always mostly left->right (0 rad), but within +/-45deg.
-  const [windDirection, setWindDirection] = useState(0);
-  const pickWindDirectionForLevel = (lvl: number) => {
-    const maxAngle = Math.min(Math.PI / 4, (Math.PI / 18) + (lvl - 1) * (Math.PI / 36)); // 10deg + 5deg/level up to 45deg
-    return (Math.random() * 2 - 1) * maxAngle; // [-maxAngle, +maxAngle]
-  };
+  // Upgrade State (formerly Cheats): owned levels, the physics parameters follow from the registry
+  const [upgradeLevels, setUpgradeLevels] = useState<UpgradeLevels>(() =>
+    loadUpgradeLevels('segel_sim_upgrade_levels', 'segel_sim_upgrades')
+  );
   useEffect(() => {
-    setWindDirection(pickWindDirectionForLevel(level));
-  }, [level]);
-  
-  // Upgrade State (formerly Cheats)
-  const [upgrades, setUpgrades] = useState(() => {
-    const defaults = {
-      hasSail: false, // Start without a sail; can be unlocked via upgrade code
-      turnMultiplier: 1.0,
-      speedMultiplier: 1.0,
-      revealMap: false, // "karpi" clears fog of war and reveals all rocks
-    };
     try {
-      const raw = localStorage.getItem('segel_sim_upgrades');
-      if (!raw) return defaults;
-      const parsed = JSON.parse(raw) as Partial<typeof defaults> | null;
-      if (!parsed || typeof parsed !== 'object') return defaults;
-
-      const hasSail = typeof parsed.hasSail === 'boolean' ? parsed.hasSail : defaults.hasSail;
-      const turnMultiplier =
-        typeof parsed.turnMultiplier === 'number' && Number.isFinite(parsed.turnMultiplier)
-          ? parsed.turnMultiplier
-          : defaults.turnMultiplier;
-      const speedMultiplier =
-        typeof parsed.speedMultiplier === 'number' && Number.isFinite(parsed.speedMultiplier)
-          ? parsed.speedMultiplier
-          : defaults.speedMultiplier;
-      const revealMap =
-        typeof parsed.revealMap === 'boolean' ? parsed.revealMap : defaults.revealMap;
-
-      return { hasSail, turnMultiplier, speedMultiplier, revealMap };
+      localStorage.setItem('segel_sim_upgrade_levels', JSON.stringify(upgradeLevels));
     } catch {
-      return defaults;
+      // ignore storage failures
+    }
+  }, [upgradeLevels]);
+  const upgrades = useMemo(() => upgradesFromLevels(upgradeLevels), [upgradeLevels]);
+  const upgradeLevelsRef = useRef(upgradeLevels);
+  upgradeLevelsRef.current = upgradeLevels;
+
+  // Upgrades of player one unlocked by code instead of bought: time-trial times with them go on a separate board.
+  // Before the shop every upgrade came from a code.
+  const [codeUpgrades, setCodeUpgrades] = useState<UpgradeId[]>(() => {
+    try {
+      const raw = localStorage.getItem('segel_sim_code_upgrades');
+      if (raw) {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed.filter(isUpgradeId) : [];
+      }
+      const legacy = localStorage.getItem('segel_sim_upgrades');
+      return legacy ? (Object.keys(levelsFromUpgrades(JSON.parse(legacy))) as UpgradeId[]) : [];
+    } catch {
+      return [];
     }
   });
-  // Keep latest upgrades available inside the requestAnimationFrame loop (avoid stale closure)
-  const upgradesRef = useRef(upgrades);
   useEffect(() => {
-    upgradesRef.current = upgrades;
-  }, [upgrades]);
+    try {
+      localStorage.setItem('segel_sim_code_upgrades', JSON.stringify(codeUpgrades));
+    } catch {
+      // ignore storage failures
+    }
+  }, [codeUpgrades]);
+  const codeUpgradesRef = useRef(codeUpgrades);
+  codeUpgradesRef.current = codeUpgrades;
+
+  // Coins from clean level wins, spent in the upgrade shop
+  const [coins, setCoins] = useState<number>(() => {
+    try {
+      const n = Number(localStorage.getItem('segel_sim_coins'));
+      return Number.isInteger(n) && n >= 0 ? n : 0;
+    } catch {
+      return 0;
+    }
+  });
   useEffect(() => {
     try {
-      localStorage.setItem('segel_sim_upgrades', JSON.stringify(upgrades));
+      localStorage.setItem('segel_sim_coins', String(coins));
     } catch {
       // ignore storage failures
     }
-  }, [upgrades]);
+  }, [coins]);
+  const [showShop, setShowShop] = useState(false);
+  // Player one lost a life on the current level: winning it pays no coins
+  const levelCrashedRef = useRef(false);
 
-  // Initialize boat in center of screen
-  const [boat, setBoat] = useState<BoatState>({
-    position: { x: window.innerWidth / 2, y: window.innerHeight / 2 },
-    heading: Math.PI, // Start facing West (Against the wind)
-    speed: 0,
-    rudderAngle: 0,
-    sailAngle: 0,
+  // Two-player mode: a second boat on the same screen, with its own upgrades
+  const [twoPlayer, setTwoPlayer] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem('segel_sim_two_player') === '1';
+    } catch {
+      return false;
+    }
   });
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_two_player', twoPlayer ? '1' : '0');
+    } catch {
+      // ignore storage failures
+    }
+  }, [twoPlayer]);
+  const [upgradeLevels2, setUpgradeLevels2] = useState<UpgradeLevels>(() =>
+    loadUpgradeLevels('segel_sim_upgrade_levels_p2', 'segel_sim_upgrades_p2')
+  );
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_upgrade_levels_p2', JSON.stringify(upgradeLevels2));
+    } catch {
+      // ignore storage failures
+    }
+  }, [upgradeLevels2]);
+  const upgrades2 = useMemo(() => upgradesFromLevels(upgradeLevels2), [upgradeLevels2]);
 
-  // Felsen im Spielfeld: feste Hindernisse, die umsegelt werden müssen (random pro Run / Reset).
-  const [rockCount, setRockCount] = useState(BASE_ROCK_COUNT);
-  const [rocks, setRocks] = useState<RockState[]>(() => {
-    const w = window.innerWidth;
-    const h = window.innerHeight;
-    return generateRandomRocks({
-      count: BASE_ROCK_COUNT,
-      width: w,
-      height: h,
-      targetZoneWidth: 120,
-      margin: 40,
-      startX: w / 2,
-      startY: h / 2,
-      startSafeRadius: 220,
-      minLeftCount: 2,
-      leftMaxX: w * 0.38,
-    });
+  // Time trial: every level on the clock, sailed alone; the times go on local leaderboards
+  const [timeTrial, setTimeTrial] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem('segel_sim_time_trial') === '1';
+    } catch {
+      return false;
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_time_trial', timeTrial ? '1' : '0');
+    } catch {
+      // ignore storage failures
+    }
+  }, [timeTrial]);
+  // Name the times are entered under
+  const [playerName, setPlayerName] = useState<string>(() => {
+    try {
+      return localStorage.getItem('segel_sim_player_name') ?? '';
+    } catch {
+      return '';
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_player_name', playerName);
+    } catch {
+      // ignore storage failures
+    }
+  }, [playerName]);
+  const playerNameRef = useRef(playerName);
+  playerNameRef.current = playerName;
+
+  // Boat class (polar table): built-in or imported from CSV, persisted across sessions
+  const [polar, setPolar] = useState<PolarTable>(() => {
+    try {
+      const raw = localStorage.getItem('segel_sim_polar');
+      return (raw && parsePolarTable(JSON.parse(raw))) || DEFAULT_POLAR;
+    } catch {
+      return DEFAULT_POLAR;
+    }
   });
-  const rocksRef = useRef(rocks);
   useEffect(() => {
-    rocksRef.current = rocks;
-  }, [rocks]);
-
-  // Wind increases with level
-  const currentWindSpeed = WIND_SPEED + (level - 1) * 3;
-  const wind = { direction: windDirection, speed: currentWindSpeed };
-  // Keep latest wind available inside the requestAnimationFrame loop (avoid stale closure)
-  const windRef = useRef(wind);
+    try {
+      localStorage.setItem('segel_sim_polar', JSON.stringify(polar));
+    } catch {
+      // ignore storage failures
+    }
+  }, [polar]);
+
+  // Physics option: sail trim and polar from the apparent wind (off = true wind, the classic behaviour)
+  const [sailOnApparentWind, setSailOnApparentWind] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem('segel_sim_apparent_wind') === '1';
+    } catch {
+      return false;
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_apparent_wind', sailOnApparentWind ? '1' : '0');
+    } catch {
+      // ignore storage failures
+    }
+  }, [sailOnApparentWind]);
+
+  // Training aid: laylines, best VMG heading and fastest route on the canvas
+  const [showRoute, setShowRoute] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem('segel_sim_route_overlay') === '1';
+    } catch {
+      return false;
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_route_overlay', showRoute ? '1' : '0');
+    } catch {
+      // ignore storage failures
+    }
+  }, [showRoute]);
+
+  // Computer opponents raced on every attempt
+  const [opponentSetup, setOpponentSetup] = useState<OpponentSetup>(() => {
+    try {
+      const raw = localStorage.getItem('segel_sim_opponents');
+      const parsed = raw ? JSON.parse(raw) : null;
+      return isOpponentSetup(parsed) ? parsed : NO_OPPONENTS;
+    } catch {
+      return NO_OPPONENTS;
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_opponents', JSON.stringify(opponentSetup));
+    } catch {
+      // ignore storage failures
+    }
+  }, [opponentSetup]);
+
+  // Debug overlay: collision shapes on the canvas
+  const [debugShapes, setDebugShapes] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem('segel_sim_debug_shapes') === '1';
+    } catch {
+      return false;
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_debug_shapes', debugShapes ? '1' : '0');
+    } catch {
+      // ignore storage failures
+    }
+  }, [debugShapes]);
+
+  // Camera: zoom level of the follow camera, or the whole field at once
+  const [zoom, setZoom] = useState<number>(() => {
+    try {
+      const stored = Number(localStorage.getItem('segel_sim_zoom'));
+      return stored > 0 ? clampZoom(stored) : DEFAULT_ZOOM;
+    } catch {
+      return DEFAULT_ZOOM;
+    }
+  });
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_zoom', String(zoom));
+    } catch {
+      // ignore storage failures
+    }
+  }, [zoom]);
+  const [overview, setOverview] = useState(false);
+  const handleZoom = (factor: number) => {
+    setOverview(false);
+    setZoom(z => clampZoom(z * factor));
+  };
+
+  // Screen size, only for drawing: the playfield has its own world size
+  const [viewport, setViewport] = useState<Bounds>(viewportBounds);
+
+  // Run state: the simulation is the source of truth (runRef), React only keeps the latest snapshot for rendering.
+  // Course seed: from ?seed=CODE if present, otherwise a fresh random run.
+  const [run, setRun] = useState<RunState>(() => {
+    const fromUrl = new URLSearchParams(window.location.search).get('seed');
+    const parsed = fromUrl ? parseCourseCode(fromUrl) : null;
+    const course = parsed ?? { seed: randomSeed(), rockCount: BASE_ROCK_COUNT };
+    return createRunState(course, WORLD_BOUNDS, upgrades, null, polar, sailOnApparentWind, opponentSetup, twoPlayer ? upgrades2 : null);
+  });
+  const runRef = useRef(run);
+  const accumulatorRef = useRef(0);
+  const { boat, rocks, wind, lives } = run.sim;
+  const level = run.level;
+
+  const courseCode = formatCourseCode(run.course);
+  const isCustomCourse = run.customCourse !== null;
+  // Editor courses saved without a name are shown under a generic one
+  const customCourseName = run.customCourse ? run.customCourse.name || t('course.customName') : null;
+  // Keep the address bar shareable (editor courses are shared as JSON files instead)
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (isCustomCourse) {
+      url.searchParams.delete('seed');
+    } else {
+      url.searchParams.set('seed', courseCode);
+    }
+    window.history.replaceState(null, '', url.toString());
+  }, [courseCode, isCustomCourse]);
+
+  // Every run is recorded tick by tick so it can be replayed later
+  const recordingRef = useRef<Replay>(
+    createReplay(run.course, run.sim.bounds, upgrades, null, run.sim.polar, run.sim.sailOnApparentWind, run.opponentSetup, run.sim.player2?.upgrades ?? null)
+  );
+
+  useEffect(() => {
+    runRef.current = { ...runRef.current, sim: { ...runRef.current.sim, upgrades } };
+    recordUpgrades(recordingRef.current, upgrades);
+  }, [upgrades]);
+
+  useEffect(() => {
+    const { player2 } = runRef.current.sim;
+    if (!player2) return;
+    runRef.current = { ...runRef.current, sim: { ...runRef.current.sim, player2: { ...player2, upgrades: upgrades2 } } };
+    recordUpgrades(recordingRef.current, upgrades2, 2);
+  }, [upgrades2]);
+
+  // Ghost: best winning attempt for this course + level, and the path of the current attempt
+  const attemptPathRef = useRef<GhostPose[]>([toGhostPose(run.sim.boat)]);
+  const [ghostVersion, setGhostVersion] = useState(0);
+  const { width: boundsWidth, height: boundsHeight } = run.sim.bounds;
+  const boatClass = run.sim.polar.name;
+  const ghost = useMemo(
+    () => loadGhost(ghostKey(courseCode, { width: boundsWidth, height: boundsHeight }, level, boatClass)),
+    [courseCode, boundsWidth, boundsHeight, level, boatClass, ghostVersion]
+  );
+
+  // Time-trial clock of the current level (null when not timing), run by the game loop
+  const clockRef = useRef<TrialClock | null>(timeTrial ? startClock(upgradeLevels, codeUpgrades) : null);
+  const [trialClock, setTrialClock] = useState<TrialClock | null>(clockRef.current);
+  useEffect(() => {
+    if (clockRef.current) clockRef.current = withUpgrades(clockRef.current, upgradeLevels, codeUpgrades);
+  }, [upgradeLevels, codeUpgrades]);
+
+  // Best time on the board the level counts for, for the split deltas
+  const trialBoard = trialBoardKey(run);
+  const trialDivision: TrialDivision = trialClock?.code ? 'code' : 'clean';
+  const [boardVersion, setBoardVersion] = useState(0);
+  const [trialBest, setTrialBest] = useState<TrialEntry | null>(null);
   useEffect(() => {
-    windRef.current = wind;
-  }, [wind.direction, wind.speed]);
+    setTrialBest(null);
+    if (!timeTrial) return;
+    let cancelled = false;
+    loadBoard(trialBoard, trialDivision)
+      .then(entries => {
+        if (!cancelled) setTrialBest(entries[0] ?? null);
+      })
+      .catch(() => {
+        // no leaderboard without IndexedDB, the clock still runs
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [timeTrial, trialBoard, trialDivision, boardVersion]);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+
+  // Exploration: what has been seen of this course so far, kept across attempts and reloads.
+  // The game loop fills it in place and stores it about once a second.
+  const explorationKey = chartKey(courseCode, run.sim.bounds);
+  const exploration = useMemo(
+    () => loadExploration(explorationKey, run.sim.bounds, rocks.length),
+    [explorationKey, rocks.length]
+  );
+  const explorationRef = useRef({ key: explorationKey, exploration, dirty: false, savedAt: 0 });
+  if (explorationRef.current.exploration !== exploration) {
+    explorationRef.current = { key: explorationKey, exploration, dirty: false, savedAt: 0 };
+  }
+  const [showChart, setShowChart] = useState(false);
+
+  // Replay mode: while set, the game loop plays back instead of simulating live input
+  const playbackRef = useRef<Playback | null>(null);
+  const [playback, setPlayback] = useState<{ tick: number; length: number; playing: boolean; speed: number } | null>(null);
+
+  // Course editor: the live run is paused while it is open
+  const [editorCourse, setEditorCourse] = useState<CourseFile | null>(null);
+  const editorOpenRef = useRef(false);
 
   // Input State
   const keysPressed = useRef<{ [key: string]: boolean }>({});
+  const touchRef = useRef<TouchState>(NO_TOUCH); // Wheel and sheet slider, steer player one
+  const tiltRef = useRef<number | null>(null); // Latest screen tilt (degrees) while tilt steering is on
+  // Key bindings and the gamepad's sensitivity curve, read by the game loop through the ref
+  const [inputSettings, setInputSettings] = useState<InputSettings>(loadInputSettings);
+  const inputSettingsRef = useRef(inputSettings);
+  inputSettingsRef.current = inputSettings;
+  useEffect(() => saveInputSettings(inputSettings), [inputSettings]);
+  const [showControls, setShowControls] = useState(false);
+
+  // Tilt steering: the sensor only runs while it is switched on
+  useEffect(() => {
+    if (!inputSettings.tilt) return;
+    const handleOrientation = (e: DeviceOrientationEvent) => {
+      tiltRef.current = screenTilt(e.beta, e.gamma, screen.orientation?.angle ?? 0);
+    };
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => {
+      window.removeEventListener('deviceorientation', handleOrientation);
+      tiltRef.current = null;
+    };
+  }, [inputSettings.tilt]);
 
   // Loop Ref
-  const requestRef = useRef<number>();
-  const lastTimeRef = useRef<number>();
+  const requestRef = useRef<number | undefined>(undefined);
+  const lastTimeRef = useRef<number | undefined>(undefined);
 
   // Input Handlers
   useEffect(() => {
@@ -232,13 +533,21 @@ const App: React.FC = () => {
       // Prevent steering while typing in the upgrade box
       if ((e.target as HTMLElement).tagName === 'INPUT') return;
       keysPressed.current[e.code] = true;
+      if (e.code === 'KeyM') setShowChart(v => !v);
+      if (e.code === 'Escape') {
+        setShowChart(false);
+        setShowShop(false);
+        setShowControls(false);
+        setShowLeaderboard(false);
+      }
+      if (e.code === 'Equal' || e.code === 'NumpadAdd') handleZoom(ZOOM_STEP);
+      if (e.code === 'Minus' || e.code === 'NumpadSubtract') handleZoom(1 / ZOOM_STEP);
     };
     const handleKeyUp = (e: KeyboardEvent) => {
       keysPressed.current[e.code] = false;
     };
-    const handleResize = () => {
-        // Optional: Keep boat relative to screen on resize? 
-    };
+    // The world stays the same, only the canvas and the camera's view change
+    const handleResize = () => setViewport(viewportBounds());
 
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
@@ -250,230 +559,226 @@ const App: React.FC = () => {
     };
   }, []);
 
-  const handleUpgradeCode = (code: string) => {
-      const cleanCode = code.toLowerCase().trim();
-      
-      if (cleanCode === 'teamtage') {
-          if (!upgrades.hasSail) {
-              setUpgrades(prev => ({ ...prev, hasSail: true }));
-              setMessage("UPGRADE: Segel installiert!");
-              setTimeout(() => setMessage(null), 2500);
-          } else {
-              setMessage("Info: Segel bereits vorhanden");
-              setTimeout(() => setMessage(null), 2000);
-          }
-      } else if (cleanCode === 'kiimedias') {
-          setUpgrades(prev => ({ ...prev, turnMultiplier: 3.0 }));
-          setMessage("UPGRADE: Super-Lenkung!");
-          setTimeout(() => setMessage(null), 2000);
-      } else if (cleanCode === 'turbo') {
-          setUpgrades(prev => ({ ...prev, speedMultiplier: 1.5 }));
-          setMessage("UPGRADE: Turbo Speed!");
-          setTimeout(() => setMessage(null), 2000);
-      } else if (cleanCode === 'karpi') {
-          if (!upgrades.revealMap) {
-              setUpgrades(prev => ({ ...prev, revealMap: true }));
-              setMessage("UPGRADE: Nebel gelichtet!");
-              setTimeout(() => setMessage(null), 2500);
-          } else {
-              setMessage("Info: Karte bereits aufgedeckt");
-              setTimeout(() => setMessage(null), 2000);
-          }
+  // Upgrade codes unlock the highest level of an upgrade, for player one or for player two from its own code box
+  const handleUpgradeCode = (code: string, player: 1 | 2 = 1) => {
+      const upgrade = upgradeForCode(code);
+      if (!upgrade) return;
+      const levels = player === 2 ? upgradeLevels2 : upgradeLevels;
+      const setLevels = player === 2 ? setUpgradeLevels2 : setUpgradeLevels;
+      const who = player === 2 ? t('msg.codePrefix') : '';
+
+      if (levelOf(levels, upgrade.id) >= maxLevel(upgrade)) {
+          showMessage(t('msg.upgrade.owned', { who, name: t(upgrade.name) }), 2000);
+          return;
       }
+      setLevels(prev => ({ ...prev, [upgrade.id]: maxLevel(upgrade) }));
+      if (player === 1) setCodeUpgrades(prev => (prev.includes(upgrade.id) ? prev : [...prev, upgrade.id]));
+      showMessage(t('msg.upgrade.unlocked', { who, name: t(upgrade.name) }), 2500);
   };
 
-  // Game Loop
-  const update = (time: number) => {
-    if (lastTimeRef.current !== undefined) {
-      setBoat((prevBoat) => {
-        const newBoat = { ...prevBoat };
-        const currentUpgrades = upgradesRef.current;
-        const windNow = windRef.current;
-
-        // 1. Steering
-        let turn = 0;
-        // Apply Turn Multiplier from Upgrades
-        const effectiveTurnRate = TURN_RATE * currentUpgrades.turnMultiplier;
-
-        if (keysPressed.current['ArrowLeft'] || keysPressed.current['KeyA']) {
-          turn = -effectiveTurnRate;
-          newBoat.rudderAngle = -0.5; // Visual rudder
-        } else if (keysPressed.current['ArrowRight'] || keysPressed.current['KeyD']) {
-          turn = effectiveTurnRate;
-          newBoat.rudderAngle = 0.5;
-        } else {
-          newBoat.rudderAngle = 0;
-        }
-        
-        // Turn effectiveness
-        // If we have no sail (moving slowly/drifting), turning is sluggish unless we have super steering
-        const speedRatio = Math.min(1, prevBoat.speed / 2);
-        const turnEffectiveness = currentUpgrades.turnMultiplier > 1 ? 1 : Math.max(0.1, speedRatio);
-            
-        newBoat.heading = normalizeAngle(prevBoat.heading + turn * turnEffectiveness);
-
-        // 2. Physics / Speed
-        let driftX = 0;
-        let driftY = 0;
-
-        if (!currentUpgrades.hasSail) {
-            // NO SAIL MODE:
-            // No target speed generation from wind.
-            // Boat purely drifts with wind + drag slows down any residual momentum.
-            // Drifts downwind (along wind.direction)
-            driftX = Math.cos(windNow.direction) * windNow.speed * 0.02; // Slow drift downwind
-            driftY = Math.sin(windNow.direction) * windNow.speed * 0.02;
-            
-            // Decelerate existing speed
-            newBoat.speed *= 0.95; 
-        } else {
-            // SAILING MODE:
-            // Apply Speed Multiplier from Upgrades
-            let targetSpeed = calculateTargetSpeed(newBoat.heading, windNow);
-            targetSpeed *= currentUpgrades.speedMultiplier;
-            
-            const effectiveAcceleration = ACCELERATION * currentUpgrades.speedMultiplier;
-
-            // Accelerate or Decelerate
-            if (prevBoat.speed < targetSpeed) {
-              newBoat.speed += effectiveAcceleration;
-            } else {
-              newBoat.speed -= DRAG;
-            }
-            
-            if (targetSpeed === 0) {
-                newBoat.speed *= 0.98; // Drag stops boat eventually
-            }
-
-            // DRIFT / LEEWAY Logic (Sailing):
-            // Stronger wind should feel harder: more downwind push (especially at inefficient angles).
-            const windFactorRaw = windNow.speed / WIND_SPEED; // 1.0 at level 1
-            const windFactor = Math.max(0.8, Math.min(2.2, windFactorRaw));
+  // Buys the next level of an upgrade for player one
+  const handleBuyUpgrade = (id: UpgradeId) => {
+      const upgrade = UPGRADES.find(u => u.id === id);
+      const price = upgrade ? nextLevelPrice(upgradeLevels, upgrade) : null;
+      if (!upgrade || price === null || price > coins) return;
+      const level = levelOf(upgradeLevels, id) + 1;
+      setCoins(c => c - price);
+      setUpgradeLevels(prev => ({ ...prev, [id]: level }));
+      showMessage(t('msg.upgrade.bought', { name: t(upgrade.name), level: maxLevel(upgrade) > 1 ? level : 0 }), 2000);
+  };
 
-            const polarMax = MAX_BOAT_SPEED * windFactor;
-            const efficiency = polarMax > 0 ? Math.max(0, Math.min(1, targetSpeed / polarMax)) : 0;
+  // Game Loop: fixed-timestep simulation driven by an accumulator,
+  // so the boat moves the same on 60 Hz and 120 Hz displays.
+  // Two players split the keyboard and take one gamepad each (in plug-in order); alone everything steers the one boat
+  // Touch and tilt steer player one; `sheet` is that boat's sheet, for the sheet slider
+  const readInput = (player: 1 | 2, twoPlayers: boolean, pads: Gamepad[], sheet: number): SimulationInput => {
+    const settings = inputSettingsRef.current;
+    const binding = twoPlayers ? settings.keys[player] : soloBinding(settings.keys);
+    const playerPads = twoPlayers ? pads.slice(player - 1, player) : pads;
+    const inputs = [keyboardInput(keysPressed.current, binding), ...playerPads.map(pad => gamepadInput(pad, settings))];
+    if (player === 1) {
+      inputs.push(readTouch(sheet));
+      if (settings.tilt && tiltRef.current !== null) inputs.push({ steer: tiltRudder(tiltRef.current, settings), sheet: 0 });
+    }
+    return combineInputs(inputs);
+  };
 
-            const leewayMag = windNow.speed * 0.010 * windFactor * (1 - efficiency);
-            driftX += Math.cos(windNow.direction) * leewayMag;
-            driftY += Math.sin(windNow.direction) * leewayMag;
+  // The slider's sheet is trimmed to once, then keys and pads have the sheet again
+  const readTouch = (sheet: number): SimulationInput => {
+    const input = touchInput(touchRef.current, sheet);
+    if (input.sheet === 0 && touchRef.current.sheetTarget !== null) touchRef.current = { ...touchRef.current, sheetTarget: null };
+    return input;
+  };
 
-            // If in No-Go Zone (dead angle), drift even more with the wind (irons)
-            if (isInNoGoZone(newBoat.heading, windNow.direction)) {
-                const ironsDrift = windNow.speed * 0.020 * windFactor;
-                driftX += Math.cos(windNow.direction) * ironsDrift;
-                driftY += Math.sin(windNow.direction) * ironsDrift;
-            }
-        }
+  // Saves the attempt that just won as ghost if it is a personal best
+  const saveAttemptGhost = (prev: RunState): boolean => {
+    const key = ghostKey(formatCourseCode(prev.course), prev.sim.bounds, prev.level, prev.sim.polar.name);
+    const isBest = saveGhostIfBest(key, {
+      ticks: prev.sim.tick + 1,
+      path: attemptPathRef.current,
+      recordedAt: new Date().toISOString(),
+    });
+    if (isBest) setGhostVersion(v => v + 1);
+    return isBest;
+  };
 
-        newBoat.speed = Math.max(0, newBoat.speed);
+  // Puts the time of the level just won on its board
+  const recordTrialTime = (prev: RunState, clock: TrialClock) => {
+    const division: TrialDivision = clock.code ? 'code' : 'clean';
+    const time = formatTrialTime(clock.ticks, i18nRef.current.number);
+    addTrialTime({
+      board: trialBoardKey(prev),
+      division,
+      name: playerNameRef.current.trim() || t('trial.anonymous'),
+      date: new Date().toISOString(),
+      ticks: clock.ticks,
+      splits: clock.splits,
+      collisions: clock.collisions,
+      upgrades: clock.upgrades,
+    })
+      .then(({ rank, count }) => {
+        showMessage(t(division === 'code' ? 'msg.trial.time.code' : 'msg.trial.time', { time, rank, count }), 3000);
+        setBoardVersion(v => v + 1);
+      })
+      .catch(() => showMessage(t('msg.trial.saveFailed'), 2500));
+  };
 
-        // 3. Move
-        // Forward component: only when sailing.
-        // Without sail, the boat should drift with the wind (movement handled via driftX/driftY).
-        const forwardSpeed = currentUpgrades.hasSail ? newBoat.speed : 0;
-        newBoat.position.x += Math.cos(newBoat.heading) * forwardSpeed;
-        newBoat.position.y += Math.sin(newBoat.heading) * forwardSpeed;
+  // The clock after one tick; a won level is recorded, after a win or a game over the next level starts from zero
+  const advanceClock = (clock: TrialClock, prev: RunState, next: RunState, event: SimulationEvent | null): TrialClock => {
+    const timed = tickClock(clock, prev, next, event);
+    if (event === 'won') recordTrialTime(prev, timed);
+    return event === 'won' || event === 'gameOver' ? startClock(upgradeLevelsRef.current, codeUpgradesRef.current) : timed;
+  };
 
-        // Add Drift component
-        newBoat.position.x += driftX;
-        newBoat.position.y += driftY;
+  const handleSimulationEvent = (
+    event: SimulationEvent,
+    next: RunState,
+    personalBest = false,
+    standings: RaceEntry[] | null = null,
+    player: 1 | 2 = 1
+  ) => {
+    const who = next.sim.player2 ? t('msg.playerPrefix', { player }) : '';
+    if (event === 'won') {
+      setHighscoreLevel(h => Math.max(h, next.level));
+      // Coins only for player one, and only if the level went without losing a life
+      const reward = player === 1 ? levelReward(next.level - 1, !levelCrashedRef.current) : 0;
+      levelCrashedRef.current = false;
+      if (reward > 0) setCoins(c => c + reward);
+      const rank = standings ? standings.findIndex(e => e.isPlayer) + 1 : 0;
+      // Two players: the ranking is about who won, not where player one ended up
+      const race = next.sim.player2
+        ? t('msg.won.player', { player })
+        : standings
+          ? t('msg.won.rank', { rank, count: standings.length })
+          : '';
+      showMessage(
+        `${t('msg.won', { race })}${personalBest ? t('msg.personalBest') : ''}${reward > 0 ? t('msg.coins', { coins: reward }) : ''}`,
+        2500
+      );
+      return;
+    }
 
-        // 4. Sail Trim (Visual only)
-        if (currentUpgrades.hasSail) {
-            newBoat.sailAngle = calculateSailTrim(newBoat.heading, windNow.direction);
-        } else {
-            newBoat.sailAngle = 0;
-        }
+    if (event === 'gameOver') {
+      // Game Over: reset run
+      levelCrashedRef.current = false;
+      showMessage(t('msg.gameOver', { who }), 2500);
+      return;
+    }
 
-        return newBoat;
-      });
+    if (event === 'hitBoat' && next.sim.player2) {
+      levelCrashedRef.current = true;
+      showMessage(t('msg.hitBoat', { lives: next.sim.lives, lives2: next.sim.player2.lives, max: MAX_LIVES }), 2000);
+      return;
+    }
 
-      // Boundary- und Kollisions-Checks (Spielfeld-Rand und Felsen)
-      setBoat(prev => {
-          const { x, y } = prev.position;
-          const w = window.innerWidth;
-          const h = window.innerHeight;
-          const buffer = 20;
+    if (player === 1) levelCrashedRef.current = true;
+    const lives = player === 2 && next.sim.player2 ? next.sim.player2.lives : next.sim.lives;
+    showMessage(t(event === 'hitRock' ? 'msg.hitRock' : 'msg.hitWall', { who, lives, max: MAX_LIVES }), 2000);
+  };
 
-          let hitWall = false;
-          let hitRock = false;
-          let won = false;
+  // New fouls and finished penalty turns of the human boats
+  const announcePenalties = (prev: RunState, next: RunState) => {
+    const boats = [
+      { who: next.sim.player2 ? t('msg.playerPrefix', { player: 1 }) : '', before: prev.sim.penalty, after: next.sim.penalty },
+      { who: t('msg.playerPrefix', { player: 2 }), before: prev.sim.player2?.penalty ?? null, after: next.sim.player2?.penalty ?? null },
+    ];
+    for (const { who, before, after } of boats) {
+      if (after && !before) {
+        showMessage(t('msg.penalty', { who, rule: t(RULES[after.rule].title), against: boatName(t, after.against) }), 3000);
+      } else if (before && !after) {
+        showMessage(t('msg.penaltyServed', { who }), 1500);
+      }
+    }
+  };
 
-          // Linker Rand bleibt das Ziel (Levelaufstieg)
-          if (x < buffer) {
-             won = true;
-          }
-          // Andere Ränder bedeuten „Kollisionsfehler“
-          else if (x > w - buffer || y < buffer || y > h - buffer) {
-             hitWall = true;
-          }
+  const updatePlayback = (current: Playback, frameTime: number) => {
+    if (current.playing) {
+      accumulatorRef.current += frameTime * current.speed;
+      while (accumulatorRef.current >= FIXED_TIMESTEP) {
+        current.frame = advanceReplay(current.player, current.frame);
+        accumulatorRef.current -= FIXED_TIMESTEP;
+      }
+      if (current.frame.tick >= current.player.length) current.playing = false;
+    }
+    setRun(current.frame.run);
+    setPlayback({
+      tick: current.frame.tick,
+      length: current.player.length,
+      playing: current.playing,
+      speed: current.speed,
+    });
+  };
 
-          // Felsenkollision: Abstand Boot-Mitte zu Fels-Mitte < Felsradius + Sicherheitsabstand
-          if (!won) {
-            const safetyRadius = 25; // ungefähr halbe Bootslänge als Puffer
-            for (const rock of rocksRef.current) {
-              const dx = x - rock.position.x;
-              const dy = y - rock.position.y;
-              const distSq = dx * dx + dy * dy;
-              const minDist = rock.radius + safetyRadius;
-              if (distSq < minDist * minDist) {
-                hitRock = true;
-                break;
-              }
-            }
-          }
+  const update = (time: number) => {
+    if (lastTimeRef.current !== undefined) {
+      const frameTime = Math.min(MAX_FRAME_TIME, (time - lastTimeRef.current) / 1000);
 
-          if (won) {
-              setLevel(l => {
-                const next = l + 1;
-                setHighscoreLevel(h => Math.max(h, next));
-                return next;
-              });
-              setTimeout(() => {
-                  setMessage("Level Aufstieg! Stärkerer Wind.");
-                  setTimeout(() => setMessage(null), 2500);
-              }, 0);
-              
-              return {
-                position: { x: w / 2, y: h / 2 },
-                heading: normalizeAngle(windRef.current.direction + Math.PI), // Reset facing into the wind
-                speed: 0,
-                rudderAngle: 0,
-                sailAngle: 0,
-              };
-          }
+      if (editorOpenRef.current) {
+        // paused
+      } else if (playbackRef.current) {
+        updatePlayback(playbackRef.current, frameTime);
+      } else {
+        accumulatorRef.current += frameTime;
 
-          if (hitWall || hitRock) {
-              const nextLives = livesRef.current - 1;
-              setLives(Math.max(0, nextLives));
-
-              if (nextLives <= 0) {
-                // Game Over: reset run
-                setTimeout(() => {
-                  setMessage("Game Over! Zurück zu Level 1.");
-                  setTimeout(() => setMessage(null), 2500);
-                }, 0);
-                setLevel(1);
-                setLives(5);
-              } else {
-                setTimeout(() => {
-                    const baseMsg = hitRock ? "Felsen berührt! Zurück zum Start." : "Rand berührt! Zurück zum Start.";
-                    setMessage(`${baseMsg} Leben: ${nextLives}/5`);
-                    setTimeout(() => setMessage(null), 2000);
-                }, 0);
-              }
-              return {
-                position: { x: w / 2, y: h / 2 },
-                heading: normalizeAngle(windRef.current.direction + Math.PI), // Reset facing into the wind
-                speed: 0,
-                rudderAngle: 0,
-                sailAngle: 0,
-              };
+        let next = runRef.current;
+        const pads = connectedGamepads();
+        while (accumulatorRef.current >= FIXED_TIMESTEP) {
+          const { player2 } = next.sim;
+          const twoPlayers = player2 !== null;
+          const input = readInput(1, twoPlayers, pads, next.sim.boat.sheet);
+          const input2 = player2 ? readInput(2, twoPlayers, pads, player2.boat.sheet) : NO_INPUT;
+          recordInput(recordingRef.current, input, input2);
+          const prev = next;
+          const result = advanceRun(prev, input, FIXED_TIMESTEP, input2);
+          next = result.run;
+          accumulatorRef.current -= FIXED_TIMESTEP;
+          if (clockRef.current) clockRef.current = advanceClock(clockRef.current, prev, next, result.event);
+          if (result.event) {
+            const personalBest = result.event === 'won' && result.player === 1 && saveAttemptGhost(prev);
+            // Player two's crashes don't restart player one's attempt
+            if (next.sim.tick === 0) attemptPathRef.current = [toGhostPose(next.sim.boat)];
+            handleSimulationEvent(result.event, next, personalBest, result.standings, result.player);
+            if (result.event2) handleSimulationEvent(result.event2, next, false, null, 2);
+          } else {
+            announcePenalties(prev, next);
+            if (next.sim.tick % GHOST_SAMPLE_INTERVAL === 0) {
+              attemptPathRef.current.push(toGhostPose(next.sim.boat, next.sim.markProgress.next));
+            }
           }
-
-          return prev;
-      });
-
+        }
+        // Chart what the boats can see
+        const charting = explorationRef.current;
+        const viewers = next.sim.player2 ? [next.sim.boat.position, next.sim.player2.boat.position] : [next.sim.boat.position];
+        if (explore(charting.exploration, viewers, next.sim.rocks)) charting.dirty = true;
+        if (charting.dirty && time - charting.savedAt > 1000) {
+          saveExploration(charting.key, charting.exploration);
+          charting.dirty = false;
+          charting.savedAt = time;
+        }
+        runRef.current = next;
+        setRun(next);
+        setTrialClock(clockRef.current);
+      }
     }
     lastTimeRef.current = time;
     requestRef.current = requestAnimationFrame(update);
@@ -487,97 +792,497 @@ const App: React.FC = () => {
   }, []);
 
   // UI Handlers for Mobile
-  const handleSteer = (direction: 'left' | 'right' | 'none') => {
-      if (direction === 'left') {
-          keysPressed.current['ArrowLeft'] = true;
-          keysPressed.current['ArrowRight'] = false;
-      } else if (direction === 'right') {
-          keysPressed.current['ArrowRight'] = true;
-          keysPressed.current['ArrowLeft'] = false;
-      } else {
-          keysPressed.current['ArrowLeft'] = false;
-          keysPressed.current['ArrowRight'] = false;
+  // The wheel goes through the same sensitivity curve as a stick, without dead zone
+  const handleSteer = (rudder: number) => {
+      touchRef.current = { ...touchRef.current, steer: shapeRudder(rudder, { deadzone: 0, expo: inputSettingsRef.current.expo }) };
+  };
+
+  const handleSheetTarget = (sheet: number) => {
+      touchRef.current = { ...touchRef.current, sheetTarget: sheet };
+  };
+
+  // iOS asks for permission, and only from a tap
+  const handleToggleTilt = async () => {
+      if (inputSettings.tilt) {
+          setInputSettings(s => ({ ...s, tilt: false }));
+          showMessage(t('msg.tilt.off'), 1500);
+          return;
+      }
+      let granted = typeof DeviceOrientationEvent !== 'undefined';
+      if (granted && 'requestPermission' in DeviceOrientationEvent) {
+          const { requestPermission } = DeviceOrientationEvent as OrientationPermission;
+          if (requestPermission) {
+              granted = await requestPermission.call(DeviceOrientationEvent).then(state => state === 'granted', () => false);
+          }
+      }
+      if (!granted) {
+          showMessage(t('msg.tilt.unavailable'), 2500);
+          return;
       }
+      setInputSettings(s => ({ ...s, tilt: true }));
+      showMessage(t('msg.tilt.on'), 2500);
   };
 
-  const handleResetRun = () => {
-    const w = window.innerWidth;
-    const h = window.innerHeight;
+  // The current position becomes straight ahead
+  const handleCalibrateTilt = () => {
+      const tilt = tiltRef.current;
+      if (tilt === null) {
+          showMessage(t('msg.tilt.unavailable'), 2500);
+          return;
+      }
+      setInputSettings(s => ({ ...s, tiltZero: Math.round(tilt * 10) / 10 }));
+      showMessage(t('msg.tilt.calibrated'), 1500);
+  };
 
+  const startRun = (
+    nextCourse: CourseSeed,
+    text: string,
+    customCourse: CourseFile | null = null,
+    nextPolar: PolarTable = polar,
+    nextApparentWind: boolean = sailOnApparentWind,
+    nextOpponents: OpponentSetup = opponentSetup,
+    nextTwoPlayer: boolean = twoPlayer,
+    nextTimeTrial: boolean = timeTrial
+  ) => {
     // reset run progress (keep upgrades + highscore)
-    setLevel(1);
-    setLives(5);
-    setMessage("Neuer Run: Level zurückgesetzt & Felsen neu platziert.");
-    setTimeout(() => setMessage(null), 2500);
+    showMessage(text, 2500);
+    keysPressed.current = {};
+    touchRef.current = NO_TOUCH;
+    accumulatorRef.current = 0;
+    levelCrashedRef.current = false;
+
+    const player2Upgrades = nextTwoPlayer ? upgrades2 : null;
+    const next = createRunState(nextCourse, WORLD_BOUNDS, upgrades, customCourse, nextPolar, nextApparentWind, nextOpponents, player2Upgrades);
+    runRef.current = next;
+    recordingRef.current = createReplay(
+      next.course, next.sim.bounds, upgrades, customCourse, nextPolar, nextApparentWind, nextOpponents, player2Upgrades
+    );
+    attemptPathRef.current = [toGhostPose(next.sim.boat)];
+    clockRef.current = nextTimeTrial ? startClock(upgradeLevels, codeUpgrades) : null;
+    setTrialClock(clockRef.current);
+    setRun(next);
+  };
 
-    // new wind direction for level 1 right away
-    const nextWindDir = pickWindDirectionForLevel(1);
-    setWindDirection(nextWindDir);
+  // new seed, and make it slightly harder with each reset
+  const handleResetRun = () => {
+    startRun(
+      { seed: randomSeed(), rockCount: run.course.rockCount + 1 },
+      t('msg.newRun')
+    );
+  };
+
+  const handleLoadCourseCode = (code: string): boolean => {
+    const parsed = parseCourseCode(code);
+    if (!parsed) {
+      showMessage(t('msg.invalidCourseCode'), 2000);
+      return false;
+    }
+    startRun(parsed, t('msg.courseLoaded', { code: formatCourseCode(parsed) }));
+    return true;
+  };
 
-    // reset boat
+  // Changing the boat changes the physics, so the course is sailed again from level 1
+  const changeBoat = (next: PolarTable) => {
+    setPolar(next);
+    startRun(run.course, t('msg.boatChanged', { name: boatClassName(t, next.name) }), run.customCourse, next);
+  };
+
+  const handleSelectBoatClass = (name: string) => {
+    const next = BOAT_CLASSES.find(c => c.name === name);
+    if (next && next.name !== polar.name) changeBoat(next);
+  };
+
+  const handleToggleApparentWind = () => {
+    const next = !sailOnApparentWind;
+    setSailOnApparentWind(next);
+    startRun(
+      run.course,
+      t(next ? 'msg.apparentWind.on' : 'msg.apparentWind.off'),
+      run.customCourse,
+      polar,
+      next
+    );
+  };
+
+  // Opponents race from the start line, so the course is sailed again from level 1
+  const handleChangeOpponents = (next: OpponentSetup) => {
+    setOpponentSetup(next);
+    startRun(
+      run.course,
+      next.count > 0
+        ? t('msg.opponents', { count: next.count, difficulty: t(DIFFICULTIES[next.difficulty].label) })
+        : t('msg.noOpponents'),
+      run.customCourse,
+      polar,
+      sailOnApparentWind,
+      next
+    );
+  };
+
+  // Both boats start together, so switching the mode sails the course again from level 1
+  const handleToggleTwoPlayer = () => {
+    const next = !twoPlayer;
+    setTwoPlayer(next);
+    startRun(
+      run.course,
+      next
+        ? t('msg.twoPlayer.on', { keys1: bindingLabel(inputSettings.keys[1]), keys2: bindingLabel(inputSettings.keys[2]) })
+        : t('msg.twoPlayer.off'),
+      run.customCourse,
+      polar,
+      sailOnApparentWind,
+      opponentSetup,
+      next
+    );
+  };
+
+  // Time trials are sailed alone, opponents and player two would bring fouls and collisions into the times
+  const handleToggleTimeTrial = () => {
+    const next = !timeTrial;
+    setTimeTrial(next);
+    if (next) {
+      setOpponentSetup(NO_OPPONENTS);
+      setTwoPlayer(false);
+    }
+    startRun(
+      run.course,
+      t(next ? 'msg.timeTrial.on' : 'msg.timeTrial.off'),
+      run.customCourse,
+      polar,
+      sailOnApparentWind,
+      next ? NO_OPPONENTS : opponentSetup,
+      next ? false : twoPlayer,
+      next
+    );
+  };
+
+  const handleImportPolar = (file: File) => {
+    file.text()
+      .then(text => {
+        const baseName = file.name.replace(/\.(csv|tsv|txt|pol)$/i, '') || t('hud.import');
+        const table = parsePolarCsv(text, baseName);
+        if (!table) throw new Error('invalid polar');
+        changeBoat(isBuiltInPolar(table) ? { ...table, name: `${table.name} (CSV)` } : table);
+      })
+      .catch(() => showMessage(t('msg.polarInvalid'), 3000));
+  };
+
+  // Editor starts from the course being sailed, or the last work in progress
+  const handleOpenEditor = () => {
+    let initial = run.customCourse;
+    if (!initial) {
+      try {
+        const raw = localStorage.getItem('segel_sim_editor_course');
+        initial = raw ? parseCourseFile(JSON.parse(raw)) : null;
+      } catch {
+        initial = null;
+      }
+    }
+    editorOpenRef.current = true;
+    setEditorCourse(
+      initial ?? {
+        version: COURSE_FILE_VERSION,
+        name: t('app.courseName', { code: courseCode }),
+        bounds: run.sim.bounds,
+        start: run.sim.start,
+        finish: run.sim.finish,
+        marks: run.sim.marks,
+        wind: run.sim.wind,
+        current: run.sim.current.config,
+        rocks: run.sim.rocks,
+      }
+    );
+  };
+
+  const handleCloseEditor = () => {
+    editorOpenRef.current = false;
+    accumulatorRef.current = 0;
+    setEditorCourse(null);
+  };
+
+  const handlePlayCourse = (file: CourseFile) => {
+    handleCloseEditor();
+    startRun(customCourseSeed(file), t('msg.customCourseLoaded', { name: file.name || t('course.customName') }), file);
+  };
+
+  // Replay: the live run is paused while a replay is open and continues afterwards
+  const openReplay = (replay: Replay) => {
+    const player = createReplayPlayer(replay);
+    accumulatorRef.current = 0;
+    playbackRef.current = { player, frame: seekReplay(player, 0), playing: true, speed: 1 };
+  };
+
+  const handleWatchReplay = () => {
+    if (recordingRef.current.inputs.length === 0) {
+      showMessage(t('msg.nothingRecorded'), 2000);
+      return;
+    }
+    // Snapshot, so recording can go on once the live run resumes
+    openReplay(JSON.parse(serializeReplay(recordingRef.current)));
+  };
+
+  const handleImportReplay = (file: File) => {
+    file.text()
+      .then(text => {
+        const data: unknown = JSON.parse(text);
+        const replay = parseReplay(data);
+        if (replay) {
+          openReplay(replay);
+        } else {
+          showMessage(t(isOutdatedReplay(data) ? 'msg.replayOutdated' : 'msg.replayInvalid'), 3000);
+        }
+      })
+      .catch(() => showMessage(t('msg.replayInvalid'), 2500));
+  };
+
+  const handleExportReplay = () => {
+    const replay = playbackRef.current?.player.replay ?? recordingRef.current;
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `segel-replay-${replay.course}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCloseReplay = () => {
+    playbackRef.current = null;
+    accumulatorRef.current = 0;
     keysPressed.current = {};
-    const newWindDir = nextWindDir;
-    setBoat({
-      position: { x: w / 2, y: h / 2 },
-      heading: normalizeAngle(newWindDir + Math.PI),
-      speed: 0,
-      rudderAngle: 0,
-      sailAngle: 0,
-    });
+    touchRef.current = NO_TOUCH;
+    setPlayback(null);
+    setRun(runRef.current);
+  };
 
-    // regenerate rocks and make it slightly harder with each reset
-    setRockCount((prev) => {
-      const nextCount = prev + 1;
-      setRocks(
-        generateRandomRocks({
-          count: nextCount,
-          width: w,
-          height: h,
-          targetZoneWidth: 120,
-          margin: 40,
-          startX: w / 2,
-          startY: h / 2,
-          startSafeRadius: 220,
-          minLeftCount: 2,
-          leftMaxX: w * 0.38,
-        })
-      );
-      return nextCount;
-    });
+  const handleReplaySeek = (tick: number) => {
+    const current = playbackRef.current;
+    if (!current) return;
+    current.frame = seekReplay(current.player, tick);
   };
 
+  const handleReplayTogglePlay = () => {
+    const current = playbackRef.current;
+    if (!current) return;
+    // Restart from the beginning when play is pressed at the end
+    if (!current.playing && current.frame.tick >= current.player.length) {
+      current.frame = seekReplay(current.player, 0);
+    }
+    current.playing = !current.playing;
+  };
+
+  const handleReplaySpeed = (speed: number) => {
+    if (playbackRef.current) playbackRef.current.speed = speed;
+  };
+
+  // Wind where the boat is (gusts, lulls, shifts), for the instruments
+  const localWind = boatWind(run.sim);
+  const apparentWind = calculateApparentWind(boat.heading, boat.speed, localWind);
+  const sailWind = run.sim.sailOnApparentWind ? apparentWind : localWind;
+
+  // Not for every frame: update a few times per second and on every new goal. The route search itself
+  // is cached (see routeField) and only runs again for a new goal, wind sector or known rock.
+  const routeSlot = Math.floor(run.sim.tick / ROUTE_REPLAN_TICKS);
+  const routeOverlay = useMemo(
+    () => (showRoute ? computeRouteOverlay(run.sim, localWind, exploration) : null),
+    [showRoute, routeSlot, run.sim.markProgress.next, run.sim.lives, run.sim.upgrades.revealMap, run.sim.rocks, run.sim.polar, exploration]
+  );
+
+  const standings = run.sim.opponents.length > 0 || run.sim.player2 ? raceStandings(run.sim) : null;
+
+  // Ghost only races the live run, not replays
+  const showGhost = ghost && !playback;
+  const ghostPose = showGhost ? ghostPoseAt(ghost, run.sim.tick) : null;
+  const delta = showGhost ? ghostDelta(ghost, run.sim.tick, boat.position, run.sim.markProgress.next, run.sim.marks, run.sim.finish) : null;
+
+  // karpi: the whole map is open (in the two-player mode only if both boats have it)
+  const mapRevealed = run.sim.upgrades.revealMap && (!run.sim.player2 || run.sim.player2.upgrades.revealMap);
+
+  // The camera follows the boat (both boats in the two-player mode) through the world
+  const camera = overview
+    ? { center: { x: run.sim.bounds.width / 2, y: run.sim.bounds.height / 2 }, zoom: overviewZoom(viewport, run.sim.bounds) }
+    : followCamera(run.sim.player2 ? [boat.position, run.sim.player2.boat.position] : [boat.position], zoom, viewport, run.sim.bounds);
+
+  if (editorCourse) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <div className="relative w-full h-screen overflow-hidden">
+            <CourseEditor initialCourse={editorCourse} onPlay={handlePlayCourse} onClose={handleCloseEditor} />
+        </div>
+      </I18nContext.Provider>
+    );
+  }
+
   return (
-    <div className="relative w-full h-screen bg-white overflow-hidden font-sans">
-        <SimulationCanvas 
-            boat={boat} 
-            windSpeed={currentWindSpeed} 
-            windDirection={wind.direction}
-            hasSail={upgrades.hasSail}
-            revealMap={upgrades.revealMap}
-            rocks={rocks as RockRender[]} 
-        />
-        <Dashboard 
-            boat={boat} 
-            windDirection={wind.direction} 
-            onSteer={handleSteer} 
-            level={level} 
-            onCheatCode={handleUpgradeCode}
-            upgrades={upgrades}
-            lives={lives}
-            highscoreLevel={highscoreLevel}
-            onResetRun={handleResetRun}
-        />
+    <I18nContext.Provider value={i18n}>
+      <div className="relative w-full h-screen bg-white overflow-hidden font-sans">
+          <SimulationCanvas 
+              boat={boat} 
+              windSpeed={wind.speed} 
+              windDirection={wind.direction}
+              windField={run.sim.windField}
+              windTime={run.sim.tick / FPS}
+              bounds={run.sim.bounds}
+              current={run.sim.current}
+              sailWindDirection={sailWind.direction}
+              hasSail={run.sim.upgrades.hasSail}
+              revealMap={run.sim.upgrades.revealMap}
+              rocks={rocks}
+              seed={run.course.seed}
+              finish={run.sim.finish}
+              marks={run.sim.marks}
+              nextMark={run.sim.markProgress.next}
+              ghost={ghostPose}
+              routeOverlay={routeOverlay}
+              opponents={run.sim.opponents}
+              player2={run.sim.player2}
+              penalty={run.sim.penalty}
+              debugShapes={debugShapes}
+              camera={camera}
+              viewport={viewport}
+              onZoom={handleZoom}
+              exploration={exploration}
+          />
+          <Minimap
+              bounds={run.sim.bounds}
+              rocks={rocks}
+              finish={run.sim.finish}
+              marks={run.sim.marks}
+              nextMark={run.sim.markProgress.next}
+              boat={boat}
+              player2={run.sim.player2}
+              opponents={run.sim.opponents}
+              exploration={mapRevealed ? null : exploration}
+              camera={camera}
+              viewport={viewport}
+              overview={overview}
+              onZoomIn={() => handleZoom(ZOOM_STEP)}
+              onZoomOut={() => handleZoom(1 / ZOOM_STEP)}
+              onToggleOverview={() => setOverview(v => !v)}
+              onOpenChart={() => setShowChart(true)}
+          />
+          {showChart && (
+              <SeaChart
+                  bounds={run.sim.bounds}
+                  rocks={rocks}
+                  finish={run.sim.finish}
+                  marks={run.sim.marks}
+                  nextMark={run.sim.markProgress.next}
+                  start={run.sim.start}
+                  boat={boat}
+                  player2={run.sim.player2}
+                  opponents={run.sim.opponents}
+                  exploration={mapRevealed ? null : exploration}
+                  onClose={() => setShowChart(false)}
+              />
+          )}
+          {showShop && (
+              <UpgradeShop levels={upgradeLevels} coins={coins} onBuy={handleBuyUpgrade} onClose={() => setShowShop(false)} />
+          )}
+          {showLeaderboard && (
+              <Leaderboard
+                  board={trialBoard}
+                  title={t('trial.board.course', { course: customCourseName ?? courseCode, level, boat: boatClassName(t, boatClass) })}
+                  division={trialDivision}
+                  version={boardVersion}
+                  playerName={playerName}
+                  onChangePlayerName={setPlayerName}
+                  onClose={() => setShowLeaderboard(false)}
+              />
+          )}
+          {showControls && (
+              <ControlSettings settings={inputSettings} onChange={setInputSettings} onClose={() => setShowControls(false)} />
+          )}
+          <Dashboard 
+              boat={boat} 
+              windDirection={localWind.direction} 
+              windSpeed={localWind.speed}
+              apparentWind={apparentWind}
+              sailWindDirection={sailWind.direction}
+              sailOnApparentWind={run.sim.sailOnApparentWind}
+              onToggleApparentWind={handleToggleApparentWind}
+              noGoDeg={polarNoGoDeg(run.sim.polar)}
+              polar={run.sim.polar}
+              showRoute={showRoute}
+              onToggleRoute={() => setShowRoute(v => !v)}
+              goal={currentGoal(boat.position, run.sim.markProgress.next, run.sim.marks, run.sim.finish)}
+              meanWindSpeed={wind.speed}
+              groundSpeed={Math.hypot(run.sim.groundVelocity.x, run.sim.groundVelocity.y)}
+              onSteer={handleSteer}
+              onSheetTarget={handleSheetTarget}
+              tiltSteering={inputSettings.tilt}
+              onToggleTilt={handleToggleTilt}
+              onCalibrateTilt={handleCalibrateTilt}
+              keyBindings={inputSettings.keys}
+              onOpenControls={() => setShowControls(true)}
+              level={level} 
+              locale={locale}
+              onChangeLocale={setLocale}
+              onCheatCode={handleUpgradeCode}
+              upgrades={upgrades}
+              upgradeLevels={upgradeLevels}
+              coins={coins}
+              onOpenShop={() => setShowShop(true)}
+              lives={lives}
+              highscoreLevel={highscoreLevel}
+              onResetRun={handleResetRun}
+              courseCode={courseCode}
+              customCourseName={customCourseName}
+              marks={run.sim.marks}
+              nextMark={run.sim.markProgress.next}
+              onOpenEditor={handleOpenEditor}
+              onLoadCourseCode={handleLoadCourseCode}
+              onWatchReplay={handleWatchReplay}
+              onImportReplay={handleImportReplay}
+              ghostDelta={delta}
+              bestTicks={ghost?.ticks ?? null}
+              manoeuvres={run.sim.manoeuvres}
+              penalty={run.sim.penalty}
+              boatClass={boatClass}
+              onSelectBoatClass={handleSelectBoatClass}
+              onImportPolar={handleImportPolar}
+              opponentSetup={run.opponentSetup}
+              onChangeOpponents={timeTrial ? undefined : handleChangeOpponents}
+              standings={standings}
+              twoPlayer={run.sim.player2 !== null}
+              onToggleTwoPlayer={timeTrial ? undefined : handleToggleTwoPlayer}
+              timeTrial={timeTrial}
+              onToggleTimeTrial={handleToggleTimeTrial}
+              trialClock={trialClock}
+              trialBest={trialBest}
+              onOpenLeaderboard={() => setShowLeaderboard(true)}
+              player2={run.sim.player2}
+              player2Levels={upgradeLevels2}
+              onPlayer2Code={(code: string) => handleUpgradeCode(code, 2)}
+              debugShapes={debugShapes}
+              onToggleDebugShapes={() => setDebugShapes(v => !v)}
+          />
+
+          {playback && (
+              <ReplayControls
+                  tick={playback.tick}
+                  length={playback.length}
+                  playing={playback.playing}
+                  speed={playback.speed}
+                  onTogglePlay={handleReplayTogglePlay}
+                  onSeek={handleReplaySeek}
+                  onSpeedChange={handleReplaySpeed}
+                  onExport={handleExportReplay}
+                  onClose={handleCloseReplay}
+              />
+          )}
         
-        {/* Central Message Overlay */}
-        {message && (
-            <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none z-50">
-                <div className="bg-black/60 backdrop-blur-md text-white px-6 py-3 rounded-2xl text-lg sm:text-xl font-bold shadow-2xl">
-                    {message}
-                </div>
-            </div>
-        )}
-    </div>
+          {/* Central Message Overlay */}
+          {message && (
+              <div className="absolute top-4 left-1/2 -translate-x-1/2 pointer-events-none z-50">
+                  <div className="bg-black/60 backdrop-blur-md text-white px-6 py-3 rounded-2xl text-lg sm:text-xl font-bold shadow-2xl">
+                      {message}
+                  </div>
+              </div>
+          )}
+      </div>
+    </I18nContext.Provider>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { BoatState, Mark, Rect, RockState, Vector2D } from '../types';
+import { Bounds } from '../utils/simulation';
+import { rockPolygon } from '../utils/collision';
+import { Opponent } from '../utils/opponents';
+import { PLAYER_TWO_COLOR, PlayerTwo } from '../utils/twoPlayer';
+import { EXPLORE_CELL, Exploration, isExplored, rockInSight } from '../utils/exploration';
+
+interface Props {
+  width: number; // Breite auf dem Bildschirm, die Höhe folgt dem Seitenverhältnis des Spielfelds
+  bounds: Bounds;
+  rocks: RockState[];
+  finish: Rect;
+  marks: Mark[];
+  nextMark: number;
+  start?: Vector2D | null;
+  boat: BoatState;
+  player2?: PlayerTwo | null;
+  opponents?: Opponent[];
+  exploration: Exploration | null; // null: Karte komplett aufgedeckt (karpi)
+  view?: Rect | null; // Bildausschnitt der Kamera
+  grid?: boolean; // Gitternetz wie auf einer Seekarte
+}
+
+// Bootssymbol: Dreieck mit der Spitze in Fahrtrichtung, in Weltpixeln
+const BoatMarker: React.FC<{ boat: BoatState; color: string; size: number }> = ({ boat, color, size }) => {
+    const deg = (boat.heading * 180) / Math.PI;
+    return (
+        <polygon
+            points={`${size},0 ${-size * 0.7},${size * 0.6} ${-size * 0.7},${-size * 0.6}`}
+            transform={`translate(${boat.position.x} ${boat.position.y}) rotate(${deg})`}
+            fill={color}
+            stroke="#0f172a"
+            strokeWidth={size * 0.2}
+        />
+    );
+};
+
+const points = (polygon: Vector2D[]) => polygon.map(p => `${p.x},${p.y}`).join(' ');
+
+// Unerkundetes Wasser als ein Pfad: pro Zeile die zusammenhängenden Stücke ungesehener Zellen
+const unexploredPath = (exploration: Exploration): string => {
+  const parts: string[] = [];
+  for (let row = 0; row < exploration.rows; row++) {
+    let col = 0;
+    while (col < exploration.cols) {
+      if (isExplored(exploration, col, row)) {
+        col++;
+        continue;
+      }
+      const from = col;
+      while (col < exploration.cols && !isExplored(exploration, col, row)) col++;
+      parts.push(`M${from * EXPLORE_CELL} ${row * EXPLORE_CELL}h${(col - from) * EXPLORE_CELL}v${EXPLORE_CELL}h${-(col - from) * EXPLORE_CELL}z`);
+    }
+  }
+  return parts.join('');
+};
+
+/**
+ * Das Spielfeld als Karte (SVG in Weltkoordinaten): erkundetes Wasser, Felsen in Sicht, zuletzt gesehene
+ * Felsen als gestrichelte Umrisse, Ziel bzw. Bahnmarken und die Boote. Für die Minimap und die Seekarte.
+ */
+const ChartView: React.FC<Props> = ({ width, bounds, rocks, finish, marks, nextMark, start = null, boat, player2 = null, opponents = [], exploration, view = null, grid = false }) => {
+  const height = (width * bounds.height) / bounds.width;
+  // Symbole sollen auf der Karte gleich groß bleiben, egal wie groß die Welt ist
+  const unit = bounds.width / width;
+  const viewers = player2 ? [boat.position, player2.boat.position] : [boat.position];
+  const gridLines = grid ? Array.from({ length: Math.floor(bounds.width / 200) }, (_, i) => (i + 1) * 200) : [];
+  const gridRows = grid ? Array.from({ length: Math.floor(bounds.height / 200) }, (_, i) => (i + 1) * 200) : [];
+
+  return (
+    <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${bounds.width} ${bounds.height}`}
+        className="block rounded-md border border-slate-200 bg-sky-50"
+    >
+        {gridLines.map(x => <line key={`x${x}`} x1={x} y1={0} x2={x} y2={bounds.height} stroke="#bae6fd" strokeWidth={unit} />)}
+        {gridRows.map(y => <line key={`y${y}`} x1={0} y1={y} x2={bounds.width} y2={y} stroke="#bae6fd" strokeWidth={unit} />)}
+        {marks.length === 0 && (
+            <rect x={finish.x} y={finish.y} width={Math.max(finish.width, 3 * unit)} height={finish.height} fill="#10b981" opacity={0.6} />
+        )}
+        {exploration && <path d={unexploredPath(exploration)} fill="#1e293b" opacity={0.55} />}
+        {rocks.map((rock, i) => {
+            if (!exploration || rockInSight(rock, viewers)) {
+                return <polygon key={i} points={points(rockPolygon(rock))} fill="#4b5563" />;
+            }
+            // Schon einmal gesehen: Umriss bleibt eingezeichnet
+            return exploration.rocks[i] ? (
+                <polygon
+                    key={i}
+                    points={points(rockPolygon(rock))}
+                    fill="#94a3b8"
+                    fillOpacity={0.4}
+                    stroke="#475569"
+                    strokeWidth={unit}
+                    strokeDasharray={`${3 * unit} ${2 * unit}`}
+                />
+            ) : null;
+        })}
+        {marks.map((mark, i) => {
+            const color = i === nextMark ? '#f59e0b' : i < nextMark ? '#cbd5e1' : '#0f172a';
+            return mark.type === 'buoy' ? (
+                <circle key={i} cx={mark.position.x} cy={mark.position.y} r={3 * unit} fill={color} />
+            ) : (
+                <line key={i} x1={mark.a.x} y1={mark.a.y} x2={mark.b.x} y2={mark.b.y} stroke={color} strokeWidth={2 * unit} />
+            );
+        })}
+        {start && <circle cx={start.x} cy={start.y} r={3 * unit} fill="none" stroke="#0f172a" strokeWidth={unit} />}
+        {opponents.map(o => (
+            <circle key={o.name} cx={o.boat.position.x} cy={o.boat.position.y} r={2.5 * unit} fill={o.color} opacity={o.finishedTick !== null ? 0.4 : 1} />
+        ))}
+        {player2 && <BoatMarker boat={player2.boat} color={PLAYER_TWO_COLOR} size={5 * unit} />}
+        <BoatMarker boat={boat} color="#f8fafc" size={5 * unit} />
+        {view && (
+            <rect x={view.x} y={view.y} width={view.width} height={view.height} fill="none" stroke="#0284c7" strokeWidth={1.5 * unit} />
+        )}
+    </svg>
+  );
+};
+
+export default ChartView;
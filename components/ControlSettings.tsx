@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Gamepad2, Keyboard, RotateCcw, Smartphone, X } from 'lucide-react';
+import {
+  CONTROL_ACTIONS,
+  ControlAction,
+  DEFAULT_INPUT_SETTINGS,
+  InputSettings,
+  MAX_DEADZONE,
+  MAX_TILT_RANGE,
+  MIN_TILT_RANGE,
+  RESERVED_KEYS,
+  connectedGamepads,
+  gamepadRudder,
+  keyLabel,
+  rebindKey,
+  shapeRudder,
+} from '../utils/input';
+import { PLAYER_ONE_NAME, PLAYER_TWO_NAME } from '../utils/twoPlayer';
+import { MessageKey, boatName, useI18n } from '../utils/i18n';
+
+interface Props {
+  settings: InputSettings;
+  onChange: (settings: InputSettings) => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<ControlAction, MessageKey> = {
+  left: 'hud.keys.left',
+  right: 'hud.keys.right',
+  sheetIn: 'hud.keys.sheetIn',
+  sheetOut: 'hud.keys.sheetOut',
+};
+
+const CURVE_SIZE = 96;
+
+/**
+ * Steuerung: Tasten pro Spieler neu belegen, Gamepad-Status, die Empfindlichkeitskurve für analoges Ruder und der Bereich der Neigungssteuerung.
+ * Die Kurve zeigt live, was der Stick des ersten Gamepads gerade ans Ruder gibt.
+ */
+const ControlSettings: React.FC<Props> = ({ settings, onChange, onClose }) => {
+  const { t, number } = useI18n();
+  const [listening, setListening] = useState<{ player: 1 | 2; action: ControlAction } | null>(null);
+  const [pads, setPads] = useState('');
+  const [stick, setStick] = useState(0);
+
+  // Next key press goes to the field, before the game sees it
+  useEffect(() => {
+    if (!listening) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') {
+        setListening(null);
+      } else if (!RESERVED_KEYS.includes(e.code)) {
+        onChange(rebindKey(settings, listening.player, listening.action, e.code));
+        setListening(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, settings]);
+
+  // Gamepads are polled, not evented
+  useEffect(() => {
+    let frame = requestAnimationFrame(function poll() {
+      const connected = connectedGamepads();
+      setPads(connected.map(pad => pad.id).join('\n'));
+      setStick(connected.length > 0 ? Math.round(gamepadRudder(connected[0]) * 100) / 100 : 0);
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  const curve = Array.from({ length: 41 }, (_, i) => {
+    const x = i / 40;
+    return `${x * CURVE_SIZE},${(1 - shapeRudder(x, settings)) * CURVE_SIZE}`;
+  }).join(' ');
+  const rudder = shapeRudder(stick, settings);
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+        <div className="bg-white rounded-xl shadow-2xl p-4 text-slate-700 w-[28rem] max-w-[calc(100vw-2rem)] space-y-4" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <span className="font-bold flex items-center gap-2">
+                    <Gamepad2 className="w-5 h-5 text-sky-600" /> {t('controls.title')}
+                </span>
+                <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-700" title={t('controls.close')}>
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                <div className="font-bold text-sm flex items-center gap-2">
+                    <Keyboard className="w-4 h-4 text-slate-500" /> {t('controls.keys')}
+                </div>
+                <div className="grid grid-cols-3 gap-1 text-xs items-center">
+                    <span />
+                    <span className="font-bold text-center text-slate-500">{boatName(t, PLAYER_ONE_NAME)}</span>
+                    <span className="font-bold text-center text-slate-500">{boatName(t, PLAYER_TWO_NAME)}</span>
+                    {CONTROL_ACTIONS.map(action => (
+                        <React.Fragment key={action}>
+                            <span>{t(ACTION_LABELS[action])}</span>
+                            {([1, 2] as const).map(player => {
+                                const active = listening?.player === player && listening.action === action;
+                                const codes = settings.keys[player][action];
+                                return (
+                                    <button
+                                        key={player}
+                                        type="button"
+                                        onClick={() => setListening(active ? null : { player, action })}
+                                        className={`font-mono font-bold rounded-md border py-1 ${
+                                            active ? 'bg-sky-600 text-white border-sky-600 animate-pulse' : 'bg-slate-50 border-slate-200 hover:bg-slate-100'
+                                        }`}
+                                    >
+                                        {active ? t('controls.keys.press') : codes.length > 0 ? codes.map(keyLabel).join(' ') : t('controls.keys.unbound')}
+                                    </button>
+                                );
+                            })}
+                        </React.Fragment>
+                    ))}
+                </div>
+                <div className="text-xs text-slate-500">{t('controls.keys.hint')}</div>
+            </div>
+
+            <div className="space-y-2">
+                <div className="font-bold text-sm flex items-center gap-2">
+                    <Gamepad2 className="w-4 h-4 text-slate-500" /> {t('controls.gamepad')}
+                </div>
+                {pads ? (
+                    pads.split('\n').map((id, i) => (
+                        <div key={i} className="text-xs font-mono text-emerald-700 truncate" title={id}>
+                            {i + 1}. {id}
+                        </div>
+                    ))
+                ) : (
+                    <div className="text-xs text-slate-400">{t('controls.gamepad.none')}</div>
+                )}
+                <div className="text-xs text-slate-500">{t('controls.gamepad.help')}</div>
+
+                <div className="flex gap-3 items-center">
+                    <svg width={CURVE_SIZE} height={CURVE_SIZE} className="shrink-0 bg-slate-50 border border-slate-200 rounded" aria-label={t('controls.curve')}>
+                        <line x1={0} y1={CURVE_SIZE} x2={CURVE_SIZE} y2={0} stroke="#cbd5e1" strokeDasharray="3 3" />
+                        <polyline points={curve} fill="none" stroke="#0284c7" strokeWidth={2} />
+                        <circle cx={Math.abs(stick) * CURVE_SIZE} cy={(1 - Math.abs(rudder)) * CURVE_SIZE} r={4} fill="#f59e0b" />
+                    </svg>
+                    <div className="flex-1 space-y-2 text-xs">
+                        <div className="text-slate-400">{t('controls.curve')}</div>
+                        <label className="block">
+                            <span className="flex justify-between">
+                                <span>{t('controls.deadzone')}</span>
+                                <span className="font-mono">{Math.round(settings.deadzone * 100)}%</span>
+                            </span>
+                            <input
+                                type="range" min={0} max={MAX_DEADZONE} step={0.01} value={settings.deadzone}
+                                onChange={(e) => onChange({ ...settings, deadzone: Number(e.target.value) })}
+                                className="w-full accent-sky-600"
+                            />
+                        </label>
+                        <label className="block">
+                            <span className="flex justify-between">
+                                <span>{t('controls.expo')}</span>
+                                <span className="font-mono">{Math.round(settings.expo * 100)}%</span>
+                            </span>
+                            <input
+                                type="range" min={0} max={1} step={0.05} value={settings.expo}
+                                onChange={(e) => onChange({ ...settings, expo: Number(e.target.value) })}
+                                className="w-full accent-sky-600"
+                            />
+                        </label>
+                        <div className="font-mono text-slate-500">
+                            {number(stick, 2)} → {number(rudder, 2)}
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <div className="font-bold text-sm flex items-center gap-2">
+                    <Smartphone className="w-4 h-4 text-slate-500" /> {t('controls.tilt')}
+                </div>
+                <label className="block text-xs">
+                    <span className="flex justify-between">
+                        <span>{t('controls.tilt.range')}</span>
+                        <span className="font-mono">{Math.round(settings.tiltRange)}°</span>
+                    </span>
+                    <input
+                        type="range" min={MIN_TILT_RANGE} max={MAX_TILT_RANGE} step={1} value={settings.tiltRange}
+                        onChange={(e) => onChange({ ...settings, tiltRange: Number(e.target.value) })}
+                        className="w-full accent-sky-600"
+                    />
+                </label>
+                <div className="text-xs text-slate-500">{t('controls.tilt.hint')}</div>
+            </div>
+
+            <button
+                type="button"
+                onClick={() => onChange({ ...DEFAULT_INPUT_SETTINGS, tilt: settings.tilt })}
+                className="w-full text-xs font-bold text-slate-500 hover:text-slate-800 flex items-center justify-center gap-1"
+            >
+                <RotateCcw className="w-3 h-3" /> {t('controls.reset')}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default ControlSettings;
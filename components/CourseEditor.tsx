@@ -0,0 +1,611 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MousePointer2, Circle, Flag, Trash2, Download, Upload, Play, X, Wind, MapPin, Columns2, Minus, ChevronUp, ChevronDown, RefreshCw, Waves } from 'lucide-react';
+import { Mark, Vector2D } from '../types';
+import { CourseFile, parseCourseFile, serializeCourseFile } from '../utils/course';
+import { triangleMarks, windwardLeewardMarks } from '../utils/marks';
+import { rockOutline, rockPolygon } from '../utils/collision';
+import { radToDeg, degToRad } from '../constants';
+import { useI18n } from '../utils/i18n';
+
+interface Props {
+  initialCourse: CourseFile;
+  onPlay: (course: CourseFile) => void;
+  onClose: () => void;
+}
+
+type Tool = 'select' | 'rock' | 'finish' | 'buoy' | 'gate' | 'line';
+
+// What the pointer is currently dragging
+type Drag =
+  | { kind: 'rock'; index: number; dx: number; dy: number }
+  | { kind: 'resize'; index: number }
+  | { kind: 'start'; dx: number; dy: number }
+  | { kind: 'finishMove'; dx: number; dy: number }
+  | { kind: 'finishResize' }
+  | { kind: 'finishDraw'; ox: number; oy: number }
+  | { kind: 'buoy'; index: number; dx: number; dy: number }
+  | { kind: 'markEnd'; index: number; end: 'a' | 'b' };
+
+const MIN_ROCK_RADIUS = 12;
+const MAX_ROCK_RADIUS = 200;
+const NEW_ROCK_RADIUS = 40;
+const MIN_FINISH_SIZE = 20;
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+const MARK_COLORS = { port: '#ef4444', starboard: '#22c55e' };
+
+/**
+ * Kurs-Editor: Felsen setzen/ziehen/skalieren/löschen, Start, Zielzone und Bahnmarken festlegen, fester Wind und Strömung.
+ * Arbeitet in Spielfeld-Koordinaten (SVG viewBox = bounds), damit der Kurs 1:1 ins Spiel geht.
+ */
+const CourseEditor: React.FC<Props> = ({ initialCourse, onPlay, onClose }) => {
+  const { t, number } = useI18n();
+  const [course, setCourse] = useState<CourseFile>(initialCourse);
+  const [tool, setTool] = useState<Tool>('select');
+  const [selected, setSelected] = useState<number | null>(null); // Fels
+  const [selectedMark, setSelectedMark] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const { bounds, start, finish, rocks, wind, marks, current } = course;
+
+  const select = (rock: number | null, mark: number | null) => {
+    setSelected(rock);
+    setSelectedMark(mark);
+  };
+
+  const updateMark = (index: number, update: (m: Mark) => Mark) =>
+    setCourse(c => ({ ...c, marks: c.marks.map((m, i) => (i === index ? update(m) : m)) }));
+
+  // Client (pixel) -> course coordinates
+  const toCourse = (e: React.PointerEvent): Vector2D => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return { x: 0, y: 0 };
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const p = pt.matrixTransform(ctm.inverse());
+    return { x: clamp(p.x, 0, bounds.width), y: clamp(p.y, 0, bounds.height) };
+  };
+
+  const startDrag = (e: React.PointerEvent, drag: Drag) => {
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = drag;
+  };
+
+  const handleBackgroundDown = (e: React.PointerEvent) => {
+    const p = toCourse(e);
+    if (tool === 'rock') {
+      setCourse(c => ({ ...c, rocks: [...c.rocks, { position: p, radius: NEW_ROCK_RADIUS, outline: rockOutline(c.rocks.length) }] }));
+      select(rocks.length, null);
+    } else if (tool === 'buoy') {
+      setCourse(c => ({ ...c, marks: [...c.marks, { type: 'buoy', position: p, rounding: 'port' }] }));
+      select(null, marks.length);
+    } else if (tool === 'gate' || tool === 'line') {
+      const type = tool === 'gate' ? 'gate' : 'finish';
+      setCourse(c => ({ ...c, marks: [...c.marks, { type, a: p, b: { x: p.x + 1, y: p.y } }] }));
+      select(null, marks.length);
+      startDrag(e, { kind: 'markEnd', index: marks.length, end: 'b' });
+    } else if (tool === 'finish') {
+      setCourse(c => ({ ...c, finish: { x: p.x, y: p.y, width: MIN_FINISH_SIZE, height: MIN_FINISH_SIZE } }));
+      startDrag(e, { kind: 'finishDraw', ox: p.x, oy: p.y });
+    } else {
+      select(null, null);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toCourse(e);
+
+    setCourse(c => {
+      switch (drag.kind) {
+        case 'rock':
+          return {
+            ...c,
+            rocks: c.rocks.map((r, i) => (i === drag.index ? { ...r, position: { x: p.x - drag.dx, y: p.y - drag.dy } } : r)),
+          };
+        case 'resize':
+          return {
+            ...c,
+            rocks: c.rocks.map((r, i) =>
+              i === drag.index
+                ? { ...r, radius: clamp(Math.hypot(p.x - r.position.x, p.y - r.position.y), MIN_ROCK_RADIUS, MAX_ROCK_RADIUS) }
+                : r
+            ),
+          };
+        case 'start':
+          return { ...c, start: { x: p.x - drag.dx, y: p.y - drag.dy } };
+        case 'finishMove':
+          return {
+            ...c,
+            finish: {
+              ...c.finish,
+              x: clamp(p.x - drag.dx, 0, c.bounds.width - c.finish.width),
+              y: clamp(p.y - drag.dy, 0, c.bounds.height - c.finish.height),
+            },
+          };
+        case 'finishResize':
+          return {
+            ...c,
+            finish: {
+              ...c.finish,
+              width: Math.max(MIN_FINISH_SIZE, p.x - c.finish.x),
+              height: Math.max(MIN_FINISH_SIZE, p.y - c.finish.y),
+            },
+          };
+        case 'buoy':
+          return {
+            ...c,
+            marks: c.marks.map((m, i) =>
+              i === drag.index && m.type === 'buoy' ? { ...m, position: { x: p.x - drag.dx, y: p.y - drag.dy } } : m
+            ),
+          };
+        case 'markEnd':
+          return {
+            ...c,
+            marks: c.marks.map((m, i) => (i === drag.index && m.type !== 'buoy' ? { ...m, [drag.end]: p } : m)),
+          };
+        case 'finishDraw':
+          return {
+            ...c,
+            finish: {
+              x: Math.min(drag.ox, p.x),
+              y: Math.min(drag.oy, p.y),
+              width: Math.max(MIN_FINISH_SIZE, Math.abs(p.x - drag.ox)),
+              height: Math.max(MIN_FINISH_SIZE, Math.abs(p.y - drag.oy)),
+            },
+          };
+      }
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (dragRef.current?.kind === 'finishDraw' || (dragRef.current?.kind === 'markEnd' && tool !== 'select')) {
+      setTool('select');
+    }
+    dragRef.current = null;
+  };
+
+  const deleteSelected = () => {
+    if (selected !== null) {
+      setCourse(c => ({ ...c, rocks: c.rocks.filter((_, i) => i !== selected) }));
+    } else if (selectedMark !== null) {
+      setCourse(c => ({ ...c, marks: c.marks.filter((_, i) => i !== selectedMark) }));
+    }
+    select(null, null);
+  };
+
+  const moveMark = (index: number, by: -1 | 1) => {
+    const target = index + by;
+    if (target < 0 || target >= marks.length) return;
+    setCourse(c => {
+      const next = [...c.marks];
+      [next[index], next[target]] = [next[target], next[index]];
+      return { ...c, marks: next };
+    });
+    setSelectedMark(target);
+  };
+
+  const applyTemplate = (build: typeof windwardLeewardMarks) => {
+    setCourse(c => ({ ...c, marks: build(c.start, c.wind, c.bounds) }));
+    select(null, null);
+  };
+
+  // Entf/Backspace löscht den ausgewählten Felsen / die Marke (nicht beim Tippen im Namensfeld)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).tagName === 'INPUT') return;
+      if (e.key === 'Delete' || e.key === 'Backspace') deleteSelected();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Keep work in progress across reloads
+  useEffect(() => {
+    try {
+      localStorage.setItem('segel_sim_editor_course', serializeCourseFile(course));
+    } catch {
+      // ignore storage failures
+    }
+  }, [course]);
+
+  const handleExport = () => {
+    const blob = new Blob([serializeCourseFile(course)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${course.name.replace(/[^\w-]+/g, '_') || 'kurs'}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (file: File) => {
+    file.text()
+      .then(text => {
+        const parsed = parseCourseFile(JSON.parse(text));
+        if (!parsed) throw new Error('invalid course');
+        setCourse(parsed);
+        select(null, null);
+        setError(null);
+      })
+      .catch(() => setError(t('editor.importError')));
+  };
+
+  const selectedRock = selected !== null ? rocks[selected] : undefined;
+  const currentMark = selectedMark !== null ? marks[selectedMark] : undefined;
+  const markName = (m: Mark) => t(m.type === 'buoy' ? 'editor.tool.buoy' : m.type === 'gate' ? 'editor.tool.gate' : 'editor.tool.line');
+  const windDeg = Math.round(radToDeg(wind.direction));
+  const currentDeg = Math.round(radToDeg(current.direction));
+  const setCurrent = (patch: Partial<CourseFile['current']>) => setCourse(c => ({ ...c, current: { ...c.current, ...patch } }));
+  const arrowLen = 60;
+
+  const toolButton = (value: Tool, label: string, icon: React.ReactNode) => (
+    <button
+        type="button"
+        onClick={() => setTool(value)}
+        className={`flex-1 py-2 rounded-lg text-xs font-bold flex flex-col items-center gap-1 border ${tool === value ? 'bg-sky-600 text-white border-sky-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+    >
+        {icon}
+        {label}
+    </button>
+  );
+
+  return (
+    <div className="absolute inset-0 flex bg-slate-100 font-sans">
+        {/* Playfield */}
+        <div className="flex-1 relative">
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${bounds.width} ${bounds.height}`}
+                preserveAspectRatio="xMidYMid meet"
+                className={`absolute inset-0 w-full h-full ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+            >
+                <rect
+                    x={0} y={0} width={bounds.width} height={bounds.height}
+                    fill="#ffffff" stroke="#94a3b8" strokeWidth={2}
+                    onPointerDown={handleBackgroundDown}
+                />
+
+                {/* Finish zone (unused once the course has marks) */}
+                <g opacity={marks.length > 0 ? 0.3 : 1} onPointerDown={(e) => {
+                    if (tool !== 'select') return;
+                    const p = toCourse(e);
+                    startDrag(e, { kind: 'finishMove', dx: p.x - finish.x, dy: p.y - finish.y });
+                }}>
+                    <rect
+                        x={finish.x} y={finish.y} width={finish.width} height={finish.height}
+                        fill="rgba(16, 185, 129, 0.2)" stroke="#10b981" strokeWidth={2} strokeDasharray="10 10"
+                        className={tool === 'select' ? 'cursor-move' : ''}
+                    />
+                    <text x={finish.x + 6} y={finish.y + 18} fontSize={14} fontWeight="bold" fill="#047857" pointerEvents="none">{t('course.finish')}</text>
+                </g>
+                <rect
+                    x={finish.x + finish.width - 7} y={finish.y + finish.height - 7} width={14} height={14}
+                    fill="#10b981" className="cursor-nwse-resize"
+                    onPointerDown={(e) => startDrag(e, { kind: 'finishResize' })}
+                />
+
+                {/* Rocks */}
+                {rocks.map((rock, i) => (
+                    <polygon
+                        key={i}
+                        points={rockPolygon(rock).map(p => `${p.x},${p.y}`).join(' ')}
+                        fill="#4b5563" stroke={i === selected ? '#0ea5e9' : '#020617'} strokeWidth={i === selected ? 4 : 2}
+                        className="cursor-move"
+                        onPointerDown={(e) => {
+                            select(i, null);
+                            const p = toCourse(e);
+                            startDrag(e, { kind: 'rock', index: i, dx: p.x - rock.position.x, dy: p.y - rock.position.y });
+                        }}
+                    />
+                ))}
+                {selectedRock && selected !== null && (
+                    <circle
+                        cx={selectedRock.position.x + selectedRock.radius} cy={selectedRock.position.y} r={8}
+                        fill="#0ea5e9" stroke="#ffffff" strokeWidth={2} className="cursor-ew-resize"
+                        onPointerDown={(e) => startDrag(e, { kind: 'resize', index: selected })}
+                    />
+                )}
+
+                {/* Marks, numbered in sailing order */}
+                {marks.map((mark, i) => {
+                    const isSelected = i === selectedMark;
+                    if (mark.type === 'buoy') {
+                        return (
+                            <g key={`m${i}`}>
+                                <circle
+                                    cx={mark.position.x} cy={mark.position.y} r={12}
+                                    fill={MARK_COLORS[mark.rounding]} stroke={isSelected ? '#0ea5e9' : '#0f172a'} strokeWidth={isSelected ? 4 : 2}
+                                    className="cursor-move"
+                                    onPointerDown={(e) => {
+                                        select(null, i);
+                                        const p = toCourse(e);
+                                        startDrag(e, { kind: 'buoy', index: i, dx: p.x - mark.position.x, dy: p.y - mark.position.y });
+                                    }}
+                                />
+                                <text x={mark.position.x + 15} y={mark.position.y - 12} fontSize={14} fontWeight="bold" fill="#0f172a" pointerEvents="none">{i + 1}</text>
+                            </g>
+                        );
+                    }
+                    const color = mark.type === 'gate' ? '#f59e0b' : '#0f172a';
+                    return (
+                        <g key={`m${i}`}>
+                            <line
+                                x1={mark.a.x} y1={mark.a.y} x2={mark.b.x} y2={mark.b.y}
+                                stroke={isSelected ? '#0ea5e9' : color} strokeWidth={isSelected ? 4 : 3} strokeDasharray="10 8"
+                                onPointerDown={(e) => { e.stopPropagation(); select(null, i); }}
+                            />
+                            {(['a', 'b'] as const).map(end => (
+                                <circle
+                                    key={end}
+                                    cx={mark[end].x} cy={mark[end].y} r={10}
+                                    fill={mark.type === 'gate' ? '#f59e0b' : '#f8fafc'} stroke="#0f172a" strokeWidth={2}
+                                    className="cursor-move"
+                                    onPointerDown={(e) => {
+                                        select(null, i);
+                                        startDrag(e, { kind: 'markEnd', index: i, end });
+                                    }}
+                                />
+                            ))}
+                            <text x={mark.a.x + 14} y={mark.a.y - 12} fontSize={14} fontWeight="bold" fill="#0f172a" pointerEvents="none">
+                                {mark.type === 'finish' ? t('course.finish') : i + 1}
+                            </text>
+                        </g>
+                    );
+                })}
+
+                {/* Start (boat faces into the wind) */}
+                <g
+                    transform={`translate(${start.x} ${start.y}) rotate(${radToDeg(wind.direction + Math.PI)})`}
+                    className="cursor-move"
+                    onPointerDown={(e) => {
+                        const p = toCourse(e);
+                        startDrag(e, { kind: 'start', dx: p.x - start.x, dy: p.y - start.y });
+                    }}
+                >
+                    <circle r={30} fill="rgba(14, 165, 233, 0.1)" stroke="#0ea5e9" strokeDasharray="4 4" />
+                    <path d="M 25 0 C 10 15 -20 15 -25 10 L -25 -10 C -20 -15 10 -15 25 0 Z" fill="#f8fafc" stroke="#334155" strokeWidth={2} />
+                </g>
+
+                {/* Wind arrow */}
+                <g transform={`translate(${bounds.width - 90} 90) rotate(${windDeg})`} pointerEvents="none">
+                    <line x1={-arrowLen / 2} y1={0} x2={arrowLen / 2} y2={0} stroke="#d97706" strokeWidth={4} />
+                    <path d={`M ${arrowLen / 2} 0 l -14 -8 l 0 16 Z`} fill="#d97706" />
+                </g>
+            </svg>
+        </div>
+
+        {/* Side panel */}
+        <div className="w-72 shrink-0 bg-white shadow-xl p-4 flex flex-col gap-4 overflow-y-auto text-sm text-slate-700">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-bold text-sky-700">{t('editor.title')}</h2>
+                <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-700" title={t('editor.close')}>
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+
+            <input
+                type="text"
+                value={course.name}
+                onChange={(e) => setCourse(c => ({ ...c, name: e.target.value }))}
+                className="border border-slate-200 rounded-md px-2 py-1 outline-none focus:border-sky-400"
+                placeholder={t('editor.name')}
+            />
+
+            <div className="flex gap-2">
+                {toolButton('select', t('editor.tool.select'), <MousePointer2 className="w-4 h-4" />)}
+                {toolButton('rock', t('editor.tool.rock'), <Circle className="w-4 h-4" />)}
+                {toolButton('finish', t('editor.tool.finish'), <Flag className="w-4 h-4" />)}
+            </div>
+            <div className="flex gap-2">
+                {toolButton('buoy', t('editor.tool.buoy'), <MapPin className="w-4 h-4" />)}
+                {toolButton('gate', t('editor.tool.gate'), <Columns2 className="w-4 h-4" />)}
+                {toolButton('line', t('editor.tool.line'), <Minus className="w-4 h-4" />)}
+            </div>
+            <p className="text-xs text-slate-400">
+                {t('editor.help')}
+            </p>
+
+            <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 space-y-2">
+                <div className="font-bold text-slate-600 flex items-center justify-between">
+                    <span>{t('editor.marks', { count: marks.length })}</span>
+                    {marks.length > 0 && (
+                        <button
+                            type="button" onClick={() => applyTemplate(() => [])}
+                            className="text-xs font-normal text-slate-400 hover:text-rose-600"
+                        >
+                            {t('editor.marks.clear')}
+                        </button>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        type="button" onClick={() => applyTemplate(windwardLeewardMarks)}
+                        className="flex-1 text-xs font-bold bg-white border border-slate-200 rounded-md py-1 hover:bg-slate-100"
+                        title={t('editor.template.upDown.title')}
+                    >
+                        {t('editor.template.upDown')}
+                    </button>
+                    <button
+                        type="button" onClick={() => applyTemplate(triangleMarks)}
+                        className="flex-1 text-xs font-bold bg-white border border-slate-200 rounded-md py-1 hover:bg-slate-100"
+                        title={t('editor.template.triangle.title')}
+                    >
+                        {t('editor.template.triangle')}
+                    </button>
+                </div>
+                {currentMark && selectedMark !== null && (
+                    <div className="space-y-2 pt-1">
+                        <div className="flex items-center justify-between text-xs">
+                            <span className="font-bold">{selectedMark + 1}. {markName(currentMark)}</span>
+                            <span className="flex gap-1">
+                                <button type="button" onClick={() => moveMark(selectedMark, -1)} className="p-1 rounded hover:bg-slate-200" title={t('editor.mark.earlier')}>
+                                    <ChevronUp className="w-3 h-3" />
+                                </button>
+                                <button type="button" onClick={() => moveMark(selectedMark, 1)} className="p-1 rounded hover:bg-slate-200" title={t('editor.mark.later')}>
+                                    <ChevronDown className="w-3 h-3" />
+                                </button>
+                            </span>
+                        </div>
+                        {currentMark.type === 'buoy' && (
+                            <button
+                                type="button"
+                                onClick={() => updateMark(selectedMark, m => (m.type === 'buoy' ? { ...m, rounding: m.rounding === 'port' ? 'starboard' : 'port' } : m))}
+                                className="w-full text-xs font-bold bg-white border border-slate-200 rounded-md py-1 flex items-center justify-center gap-1 hover:bg-slate-100"
+                            >
+                                <RefreshCw className="w-3 h-3" />
+                                {t('editor.mark.rounding', { side: currentMark.rounding })}
+                            </button>
+                        )}
+                        <button
+                            type="button" onClick={deleteSelected}
+                            className="w-full text-xs font-bold text-rose-600 bg-rose-50 border border-rose-100 rounded-md py-1 flex items-center justify-center gap-1 hover:bg-rose-100"
+                        >
+                            <Trash2 className="w-3 h-3" /> {t('editor.mark.delete')}
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {selectedRock && (
+                <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 space-y-2">
+                    <div className="flex justify-between text-xs text-slate-500">
+                        <span>{t('editor.rock.radius')}</span>
+                        <span className="font-mono">{Math.round(selectedRock.radius)}</span>
+                    </div>
+                    <input
+                        type="range" min={MIN_ROCK_RADIUS} max={MAX_ROCK_RADIUS} value={selectedRock.radius}
+                        onChange={(e) => {
+                            const radius = Number(e.target.value);
+                            setCourse(c => ({ ...c, rocks: c.rocks.map((r, i) => (i === selected ? { ...r, radius } : r)) }));
+                        }}
+                        className="w-full accent-sky-600"
+                    />
+                    <button
+                        type="button" onClick={deleteSelected}
+                        className="w-full text-xs font-bold text-rose-600 bg-rose-50 border border-rose-100 rounded-md py-1 flex items-center justify-center gap-1 hover:bg-rose-100"
+                    >
+                        <Trash2 className="w-3 h-3" /> {t('editor.rock.delete')}
+                    </button>
+                </div>
+            )}
+
+            <div className="p-2 bg-amber-50 rounded-lg border border-amber-100 space-y-2">
+                <div className="font-bold text-amber-800 flex items-center gap-2">
+                    <Wind className="w-4 h-4" /> {t('editor.wind')}
+                </div>
+                <div className="flex justify-between text-xs text-amber-700">
+                    <span>{t('editor.wind.direction')}</span>
+                    <span className="font-mono">{windDeg}°</span>
+                </div>
+                <input
+                    type="range" min={-180} max={180} value={windDeg}
+                    onChange={(e) => setCourse(c => ({ ...c, wind: { ...c.wind, direction: degToRad(Number(e.target.value)) } }))}
+                    className="w-full accent-amber-600"
+                />
+                <div className="flex justify-between text-xs text-amber-700">
+                    <span>{t('editor.wind.speed')}</span>
+                    <span className="font-mono">{wind.speed} kn</span>
+                </div>
+                <input
+                    type="range" min={5} max={40} value={wind.speed}
+                    onChange={(e) => setCourse(c => ({ ...c, wind: { ...c.wind, speed: Number(e.target.value) } }))}
+                    className="w-full accent-amber-600"
+                />
+            </div>
+
+            <div className="p-2 bg-cyan-50 rounded-lg border border-cyan-100 space-y-2">
+                <div className="font-bold text-cyan-800 flex items-center gap-2">
+                    <Waves className="w-4 h-4" /> {t('editor.current')}
+                </div>
+                <div className="flex justify-between text-xs text-cyan-700">
+                    <span>{t('editor.current.direction')}</span>
+                    <span className="font-mono">{currentDeg}°</span>
+                </div>
+                <input
+                    type="range" min={-180} max={180} value={currentDeg}
+                    onChange={(e) => setCurrent({ direction: degToRad(Number(e.target.value)) })}
+                    className="w-full accent-cyan-600"
+                />
+                <div className="flex justify-between text-xs text-cyan-700">
+                    <span>{t('editor.current.speed')}</span>
+                    <span className="font-mono">{number(current.speed, 1)} kn</span>
+                </div>
+                <input
+                    type="range" min={0} max={1.5} step={0.1} value={current.speed}
+                    onChange={(e) => setCurrent({ speed: Number(e.target.value) })}
+                    className="w-full accent-cyan-600"
+                />
+                <div className="flex justify-between text-xs text-cyan-700">
+                    <span>{t('editor.current.tide')}</span>
+                    <span className="font-mono">±{number(current.tideSpeed, 1)} kn</span>
+                </div>
+                <input
+                    type="range" min={0} max={1.5} step={0.1} value={current.tideSpeed}
+                    onChange={(e) => setCurrent({ tideSpeed: Number(e.target.value) })}
+                    className="w-full accent-cyan-600"
+                />
+                {current.tideSpeed > 0 && (
+                    <>
+                        <div className="flex justify-between text-xs text-cyan-700">
+                            <span>{t('editor.current.tidePeriod')}</span>
+                            <span className="font-mono">{Math.round(current.tidePeriod)} s</span>
+                        </div>
+                        <input
+                            type="range" min={30} max={300} step={10} value={current.tidePeriod}
+                            onChange={(e) => setCurrent({ tidePeriod: Number(e.target.value) })}
+                            className="w-full accent-cyan-600"
+                        />
+                    </>
+                )}
+                <p className="text-xs text-cyan-600">{t('editor.current.hint')}</p>
+            </div>
+
+            <div className="text-xs text-slate-400">
+                {t('editor.field', { width: String(bounds.width), height: String(bounds.height), rocks: rocks.length })}
+            </div>
+
+            {error && <div className="text-xs font-bold text-rose-600">{error}</div>}
+
+            <div className="mt-auto space-y-2">
+                <div className="flex gap-2">
+                    <button
+                        type="button" onClick={handleExport}
+                        className="flex-1 bg-slate-50 text-slate-600 border border-slate-100 text-xs font-bold py-2 rounded-lg hover:bg-slate-100 flex items-center justify-center gap-1"
+                    >
+                        <Download className="w-3 h-3" /> {t('editor.save')}
+                    </button>
+                    <label className="flex-1 bg-slate-50 text-slate-600 border border-slate-100 text-xs font-bold py-2 rounded-lg hover:bg-slate-100 flex items-center justify-center gap-1 cursor-pointer">
+                        <Upload className="w-3 h-3" /> {t('editor.load')}
+                        <input
+                            type="file" accept="application/json,.json" className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImport(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                </div>
+                <button
+                    type="button" onClick={() => onPlay(course)}
+                    className="w-full bg-emerald-600 text-white text-sm font-bold py-2 rounded-lg shadow hover:bg-emerald-500 flex items-center justify-center gap-2"
+                >
+                    <Play className="w-4 h-4" /> {t('editor.play')}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default CourseEditor;
@@ -1,40 +1,185 @@
 import React, { useState } from 'react';
-import { BoatState } from '../types';
-import { Wind, Navigation, RotateCw, RotateCcw, AlertTriangle, Trophy, ArrowLeft, Zap, Ship, Heart, Award, Eye, RefreshCw } from 'lucide-react';
-import { normalizeAngle, NO_GO_ZONE_DEG, MAX_BOAT_SPEED, WIND_SPEED } from '../constants';
+import { BoatState, Mark, Upgrades, Vector2D, WindState } from '../types';
+import { markCenter } from '../utils/marks';
+import { ManoeuvreLog, manoeuvreLabel } from '../utils/manoeuvres';
+import { TrimState, calculateTargetSpeed, optimalVmg, trimEfficiency, trimError, trimStateOf, vmgToward, windAngleDeg } from '../utils/physics';
+import WindInstrument from './WindInstrument';
+import TouchControls from './TouchControls';
+import PolarPlot from './PolarPlot';
+import { BOAT_CLASSES, DEFAULT_POLAR, PolarTable } from '../utils/polar';
+import { DIFFICULTIES, Difficulty, MAX_OPPONENTS, NO_OPPONENTS, OpponentSetup, RaceEntry } from '../utils/opponents';
+import { PLAYER_ONE_NAME, PLAYER_TWO_COLOR, PLAYER_TWO_NAME, PlayerTwo } from '../utils/twoPlayer';
+import { PENALTY_TURN, Penalty, RULES } from '../utils/rules';
+import { UPGRADES, UpgradeLevels, levelOf, maxLevel } from '../utils/upgrades';
+import { LOCALES, Locale, boatClassName, boatName, isLocale, useI18n } from '../utils/i18n';
+import { CONTROL_ACTIONS, ControlAction, InputSettings, KeyBinding, keyLabel, soloBinding } from '../utils/input';
+import { TrialClock, formatTrialTime } from '../utils/timeTrial';
+import { TrialEntry } from '../utils/leaderboard';
+import { Wind, Navigation, RotateCw, AlertTriangle, Trophy, ArrowLeft, Zap, Heart, Award, RefreshCw, Hash, Film, Upload, Ghost, PenTool, Flag, ArrowUp, Repeat, Sailboat, Compass, Route, Users, Swords, Bug, Gavel, Store, Coins, Languages, Gamepad2, Timer, KeyRound } from 'lucide-react';
+import { NO_GO_ZONE_DEG, FPS } from '../constants';
 
 interface Props {
   boat: BoatState;
-  windDirection: number;
-  onSteer: (dir: 'left' | 'right' | 'none') => void;
+  windDirection: number; // Local wind at the boat
+  windSpeed?: number; // Local wind speed
+  meanWindSpeed?: number; // Mean wind of the level, to tell gusts from lulls
+  groundSpeed?: number; // Speed over ground (incl. current and leeway)
+  apparentWind?: WindState | null;
+  sailWindDirection?: number; // Wind the sail works with (true or apparent), for trim and no-go
+  sailOnApparentWind?: boolean;
+  onToggleApparentWind?: () => void;
+  noGoDeg?: number;
+  polar?: PolarTable;
+  goal?: Vector2D | null; // Next mark or nearest point of the finish, for VMG
+  showRoute?: boolean;
+  onToggleRoute?: () => void;
+  onSteer: (rudder: number) => void; // Touch wheel, raw position in [-1, 1]
+  onSheetTarget: (sheet: number) => void;
+  tiltSteering?: boolean;
+  onToggleTilt: () => void;
+  onCalibrateTilt: () => void;
+  keyBindings: InputSettings['keys'];
+  onOpenControls: () => void;
   level: number;
+  locale: Locale;
+  onChangeLocale: (locale: Locale) => void;
   lives: number;
   highscoreLevel: number;
   onResetRun: () => void;
   onCheatCode: (code: string) => void;
-  upgrades: {
-      hasSail: boolean;
-      turnMultiplier: number;
-      speedMultiplier: number;
-      revealMap: boolean;
-  };
+  upgrades: Upgrades;
+  upgradeLevels: UpgradeLevels;
+  coins: number;
+  onOpenShop: () => void;
+  courseCode: string;
+  customCourseName?: string | null; // Set while sailing a course from the editor
+  onLoadCourseCode: (code: string) => boolean;
+  onOpenEditor: () => void;
+  marks?: Mark[];
+  nextMark?: number;
+  onWatchReplay: () => void;
+  onImportReplay: (file: File) => void;
+  ghostDelta?: number | null; // Sekunden hinter (+) / vor (-) der Bestzeit
+  bestTicks?: number | null;
+  manoeuvres?: ManoeuvreLog | null;
+  penalty?: Penalty | null; // Open penalty turn after a right-of-way foul
+  boatClass: string;
+  onSelectBoatClass: (name: string) => void;
+  onImportPolar: (file: File) => void;
+  opponentSetup?: OpponentSetup;
+  onChangeOpponents?: (setup: OpponentSetup) => void;
+  standings?: RaceEntry[] | null; // Live order of the race, null without opponents
+  twoPlayer?: boolean;
+  onToggleTwoPlayer?: () => void;
+  timeTrial?: boolean;
+  onToggleTimeTrial?: () => void;
+  trialClock?: TrialClock | null; // Clock of the level being timed
+  trialBest?: TrialEntry | null; // Fastest time on the board this level counts for
+  onOpenLeaderboard?: () => void;
+  player2?: PlayerTwo | null;
+  player2Levels?: UpgradeLevels;
+  onPlayer2Code?: (code: string) => void;
+  debugShapes?: boolean;
+  onToggleDebugShapes?: () => void;
 }
 
-const Dashboard: React.FC<Props> = ({ boat, windDirection, onSteer, level, lives, highscoreLevel, onResetRun, onCheatCode, upgrades }) => {
+// Broken rule with its explanation, and how far the penalty turn has come
+const PenaltyNotice: React.FC<{ penalty: Penalty }> = ({ penalty }) => {
+    const { t } = useI18n();
+    const degrees = Math.min(360, Math.round((Math.abs(penalty.turned) / PENALTY_TURN) * 360));
+    return (
+        <div className="p-2 bg-rose-50 rounded-lg border border-rose-200 text-xs space-y-1">
+            <div className="text-rose-700 font-bold flex items-center gap-2">
+                <Gavel className="w-4 h-4 shrink-0" /> {t(RULES[penalty.rule].title)}
+            </div>
+            <div className="text-slate-600">
+                {t(RULES[penalty.rule].explanation)} {t('penalty.rightOfWay')} <span className="font-bold">{boatName(t, penalty.against)}</span>.
+            </div>
+            <div className="flex items-center justify-between font-bold text-rose-600">
+                <span className="flex items-center gap-1 animate-pulse">
+                    <RotateCw className="w-3 h-3" /> {t('penalty.turn')}
+                </span>
+                <span className="font-mono">{degrees}°/360°</span>
+            </div>
+            <div className="h-1.5 bg-rose-100 rounded-full overflow-hidden">
+                <div className="h-full bg-rose-500" style={{ width: `${(degrees / 360) * 100}%` }} />
+            </div>
+            <div className="text-slate-500">{t('penalty.finishAfter')}</div>
+        </div>
+    );
+};
+
+// Bound keys of the given actions, for the control hints
+const Keys: React.FC<{ actions: ControlAction[]; binding: KeyBinding }> = ({ actions, binding }) => (
+    <>
+        {actions.flatMap(a => binding[a]).map((code, i) => (
+            <kbd key={`${code}-${i}`} className="bg-white/20 px-2 py-1 rounded">{keyLabel(code)}</kbd>
+        ))}
+    </>
+);
+
+// Owned upgrades as small badges, with the level for upgrades that stack
+const UpgradeBadges: React.FC<{ levels: UpgradeLevels }> = ({ levels }) => {
+  const { t } = useI18n();
+  return (
+    <>
+        {UPGRADES.filter(upgrade => levelOf(levels, upgrade.id) > 0).map(upgrade => {
+            const Icon = upgrade.icon;
+            return (
+                <div key={upgrade.id} className={`${upgrade.badge.color} ${upgrade.badge.animation ?? ''} text-white text-[10px] font-bold px-2 py-1 rounded-lg shadow-lg flex items-center gap-1`}>
+                    <Icon className="w-3 h-3" />
+                    {t(upgrade.badge.label)}
+                    {maxLevel(upgrade) > 1 && ` ${levelOf(levels, upgrade.id)}`}
+                </div>
+            );
+        })}
+    </>
+  );
+};
+
+const Dashboard: React.FC<Props> = ({ boat, windDirection, windSpeed, meanWindSpeed, groundSpeed, apparentWind = null, sailWindDirection = windDirection, sailOnApparentWind = false, onToggleApparentWind, noGoDeg = NO_GO_ZONE_DEG, polar = DEFAULT_POLAR, goal = null, showRoute = false, onToggleRoute, onSteer, onSheetTarget, tiltSteering = false, onToggleTilt, onCalibrateTilt, keyBindings, onOpenControls, level, locale, onChangeLocale, lives, highscoreLevel, onResetRun, onCheatCode, upgrades, upgradeLevels, coins, onOpenShop, courseCode, customCourseName = null, onLoadCourseCode, onOpenEditor, marks = [], nextMark = 0, onWatchReplay, onImportReplay, ghostDelta = null, bestTicks = null, manoeuvres = null, penalty = null, boatClass, onSelectBoatClass, onImportPolar, opponentSetup = NO_OPPONENTS, onChangeOpponents, standings = null, twoPlayer = false, onToggleTwoPlayer, timeTrial = false, onToggleTimeTrial, trialClock = null, trialBest = null, onOpenLeaderboard, player2 = null, player2Levels = {}, onPlayer2Code, debugShapes = false, onToggleDebugShapes }) => {
   const [cheatInput, setCheatInput] = useState("");
+  const [cheatInput2, setCheatInput2] = useState("");
+  const [courseInput, setCourseInput] = useState("");
+  const [showPolar, setShowPolar] = useState(true);
+  const { t, number } = useI18n();
+  const soloKeys = soloBinding(keyBindings);
 
   // Calc relative wind angle for display
-  const angleDiff = Math.abs(normalizeAngle(boat.heading - windDirection));
-  const angleFromWindOrigin = 180 - (angleDiff * 180) / Math.PI; 
+  const angleFromWindOrigin = Math.abs(windAngleDeg(boat.heading, windDirection));
+  const sailWindAngle = Math.abs(windAngleDeg(boat.heading, sailWindDirection));
   
-  const inNoGoZone = angleFromWindOrigin < NO_GO_ZONE_DEG;
+  const inNoGoZone = sailWindAngle < noGoDeg;
   
-  // Calculate polar efficiency percentage
-  const currentWindSpeed = WIND_SPEED + (level - 1) * 3;
-  const windFactorRaw = currentWindSpeed / WIND_SPEED;
-  const windFactor = Math.max(0.6, Math.min(2.2, windFactorRaw));
-  const maxSpeed = MAX_BOAT_SPEED * windFactor * upgrades.speedMultiplier;
-  const efficiency = Math.min(100, Math.round((boat.speed / maxSpeed) * 100));
+  // Sail efficiency = trim quality: how close the sheet is to the optimum for this wind angle
+  const efficiency = Math.round(trimEfficiency(boat.sheet, boat.heading, sailWindDirection) * 100);
+  const trimState = trimStateOf(trimError(boat.sheet, boat.heading, sailWindDirection));
+  // Polar and VMG: evaluated with the same wind and polar as the physics
+  const sailWind: WindState = {
+      direction: sailWindDirection,
+      speed: sailOnApparentWind && apparentWind ? apparentWind.speed : windSpeed ?? 0,
+  };
+  const polarTwa = windAngleDeg(boat.heading, sailWindDirection);
+  const polarTarget = calculateTargetSpeed(boat.heading, sailWind, polar) * upgrades.speedMultiplier;
+  const { upwind, downwind } = optimalVmg(sailWind, polar);
+  const goalVmg = goal ? vmgToward(boat, goal) : null;
+  const goalTwa = goal
+      ? windAngleDeg(Math.atan2(goal.y - boat.position.y, goal.x - boat.position.x), sailWindDirection)
+      : null;
+  const trimHint = (state: TrimState) => t(state === 'luffing' ? 'trim.luffing' : state === 'stalled' ? 'trim.stalled' : 'trim.ok');
+
+  // Next mark: what to do there, how far, and in which screen direction
+  const currentMark = marks[nextMark];
+  const markTarget = currentMark ? markCenter(currentMark) : null;
+  const markDistance = markTarget ? Math.hypot(markTarget.x - boat.position.x, markTarget.y - boat.position.y) : 0;
+  const markBearingDeg = markTarget
+      ? (Math.atan2(markTarget.y - boat.position.y, markTarget.x - boat.position.x) * 180) / Math.PI
+      : 0;
+  const markTask = !currentMark
+      ? ''
+      : currentMark.type === 'buoy'
+          ? t('hud.mark.buoy', { side: currentMark.rounding })
+          : t(currentMark.type === 'gate' ? 'hud.mark.gate' : 'hud.mark.finish');
 
   const handleCheatSubmit = (e: React.KeyboardEvent<HTMLInputElement>) => {
       if (e.key === 'Enter') {
@@ -43,24 +188,79 @@ const Dashboard: React.FC<Props> = ({ boat, windDirection, onSteer, level, lives
       }
   };
 
+  const handleCheatSubmit2 = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter' && onPlayer2Code) {
+          onPlayer2Code(cheatInput2);
+          setCheatInput2("");
+      }
+  };
+
+  // Player two: own trim and next mark
+  const player2Mark = player2 ? marks[player2.markProgress.next] : undefined;
+  const player2Trim = player2 && player2.upgrades.hasSail
+      ? trimStateOf(trimError(player2.boat.sheet, player2.boat.heading, windDirection))
+      : null;
+
+  const handleCourseSubmit = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') {
+          if (onLoadCourseCode(courseInput)) setCourseInput("");
+      }
+  };
+
   return (
     <>
         {/* Top Right: Telemetry (moved to keep left side near goal clear) */}
         <div className="absolute top-4 right-4 bg-white/90 backdrop-blur rounded-xl p-4 shadow-xl border border-white/20 text-slate-700 min-w-[200px]">
-            <h1 className="text-xl font-bold mb-2 text-sky-700 flex items-center gap-2">
-                <Navigation className="w-5 h-5" />
-                Segel-Simulator
-            </h1>
+            <div className="flex items-start justify-between gap-2 mb-2">
+                <h1 className="text-xl font-bold text-sky-700 flex items-center gap-2">
+                    <Navigation className="w-5 h-5" />
+                    {t('hud.title')}
+                </h1>
+                {/* Language: stays across sessions */}
+                <label className="flex items-center gap-1 text-slate-400" title={t('hud.language')}>
+                    <Languages className="w-4 h-4" />
+                    <select
+                        className="bg-transparent text-xs font-bold text-slate-500 outline-none cursor-pointer"
+                        value={locale}
+                        onChange={(e) => {
+                            if (isLocale(e.target.value)) onChangeLocale(e.target.value);
+                        }}
+                    >
+                        {(Object.keys(LOCALES) as Locale[]).map(l => (
+                            <option key={l} value={l}>{LOCALES[l].name}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
 
+            {currentMark ? (
+                <div className="mb-3 px-3 py-2 rounded-lg bg-amber-50 border border-amber-100 text-amber-800 text-xs font-bold flex items-center gap-2">
+                    <ArrowUp className="w-4 h-4 text-amber-600 shrink-0" style={{ transform: `rotate(${markBearingDeg + 90}deg)` }} />
+                    <div className="flex-1">
+                        <div>{t('hud.mark', { n: nextMark + 1, count: marks.length, task: markTask })}</div>
+                        <div className="font-mono font-normal text-amber-600">{number(markDistance, 0)} m</div>
+                    </div>
+                </div>
+            ) : (
             <div className="mb-3 px-3 py-2 rounded-lg bg-emerald-50 border border-emerald-100 text-emerald-800 text-xs font-bold flex items-center gap-2">
-                <ArrowLeft className="w-4 h-4 text-emerald-600" />
-                <span>Erreiche den linken Rand!</span>
+                {customCourseName ? (
+                    <>
+                        <Flag className="w-4 h-4 text-emerald-600" />
+                        <span>{t('hud.goal.finish')}</span>
+                    </>
+                ) : (
+                    <>
+                        <ArrowLeft className="w-4 h-4 text-emerald-600" />
+                        <span>{t('hud.goal.leftEdge')}</span>
+                    </>
+                )}
             </div>
+            )}
             
             <div className="space-y-3 text-sm">
                 <div className="flex items-center justify-between p-2 bg-sky-50 rounded-lg border border-sky-100">
                     <span className="text-sky-800 font-bold flex items-center gap-2">
-                        <Trophy className="w-4 h-4" /> LEVEL
+                        <Trophy className="w-4 h-4" /> {t('hud.level')}
                     </span>
                     <span className="font-mono font-black text-xl text-sky-600">
                         {level}
@@ -69,7 +269,7 @@ const Dashboard: React.FC<Props> = ({ boat, windDirection, onSteer, level, lives
 
                 <div className="flex items-center justify-between p-2 bg-amber-50 rounded-lg border border-amber-100">
                     <span className="text-amber-800 font-bold flex items-center gap-2">
-                        <Award className="w-4 h-4" /> HIGHSCORE
+                        <Award className="w-4 h-4" /> {t('hud.highscore')}
                     </span>
                     <span className="font-mono font-black text-xl text-amber-600">
                         {highscoreLevel}
@@ -78,23 +278,296 @@ const Dashboard: React.FC<Props> = ({ boat, windDirection, onSteer, level, lives
 
                 <div className="flex items-center justify-between p-2 bg-rose-50 rounded-lg border border-rose-100">
                     <span className="text-rose-800 font-bold flex items-center gap-2">
-                        <Heart className="w-4 h-4" /> LEBEN
+                        <Heart className="w-4 h-4" /> {t(twoPlayer ? 'hud.lives.p1' : 'hud.lives')}
                     </span>
                     <span className="font-mono font-black text-xl text-rose-600">
                         {lives}/5
                     </span>
                 </div>
 
+                {/* Course Seed: share the code, or type one in to sail the same layout */}
+                <div className="p-2 bg-slate-50 rounded-lg border border-slate-100">
+                    <div className="flex items-center justify-between">
+                        <span className="text-slate-600 font-bold flex items-center gap-2">
+                            <Hash className="w-4 h-4" /> {t('hud.course')}
+                        </span>
+                        {customCourseName ? (
+                            <span className="font-bold text-slate-700 truncate max-w-[120px]" title={customCourseName}>
+                                {customCourseName}
+                            </span>
+                        ) : (
+                            <span className="font-mono font-black text-slate-700 tracking-wider select-all">
+                                {courseCode}
+                            </span>
+                        )}
+                    </div>
+                    <input
+                        type="text"
+                        placeholder={t('hud.course.placeholder')}
+                        className="mt-2 w-full bg-white border border-slate-200 rounded-md px-2 py-1 text-xs font-mono uppercase text-slate-700 outline-none focus:border-sky-400 placeholder-slate-400 placeholder:normal-case placeholder:font-sans"
+                        value={courseInput}
+                        onChange={(e) => setCourseInput(e.target.value)}
+                        onKeyDown={handleCourseSubmit}
+                    />
+                </div>
+
+                {/* Boat class: built-in polars or an imported CSV polar */}
+                <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 flex items-center gap-2">
+                    <span className="text-slate-600 font-bold flex items-center gap-2">
+                        <Sailboat className="w-4 h-4" /> {t('hud.boat')}
+                    </span>
+                    <select
+                        className="flex-1 min-w-0 bg-white border border-slate-200 rounded-md px-1 py-1 text-xs text-slate-700 outline-none focus:border-sky-400"
+                        value={boatClass}
+                        onChange={(e) => onSelectBoatClass(e.target.value)}
+                    >
+                        {BOAT_CLASSES.map(c => (
+                            <option key={c.name} value={c.name}>{boatClassName(t, c.name)}</option>
+                        ))}
+                        {!BOAT_CLASSES.some(c => c.name === boatClass) && (
+                            <option value={boatClass}>{boatClass}</option>
+                        )}
+                    </select>
+                    <label
+                        className="text-xs font-bold text-slate-500 hover:text-sky-600 cursor-pointer"
+                        title={t('hud.boat.csv')}
+                    >
+                        CSV
+                        <input
+                            type="file"
+                            accept=".csv,.tsv,.txt,.pol,text/csv,text/tab-separated-values,text/plain"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImportPolar(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
+                </div>
+
+                {/* Computer opponents: how many and how good, plus the live order */}
+                {onChangeOpponents && (
+                    <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 text-xs">
+                        <div className="flex items-center gap-2">
+                            <span className="text-slate-600 font-bold flex items-center gap-2">
+                                <Users className="w-4 h-4" /> {t('hud.opponents')}
+                            </span>
+                            <select
+                                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-md px-1 py-1 text-slate-700 outline-none focus:border-sky-400"
+                                value={opponentSetup.count}
+                                onChange={(e) => onChangeOpponents({ ...opponentSetup, count: Number(e.target.value) })}
+                                title={t('hud.opponents.count')}
+                            >
+                                {Array.from({ length: MAX_OPPONENTS + 1 }, (_, n) => (
+                                    <option key={n} value={n}>{n === 0 ? t('hud.opponents.none') : n}</option>
+                                ))}
+                            </select>
+                            <select
+                                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-md px-1 py-1 text-slate-700 outline-none focus:border-sky-400 disabled:opacity-50"
+                                value={opponentSetup.difficulty}
+                                disabled={opponentSetup.count === 0}
+                                onChange={(e) => onChangeOpponents({ ...opponentSetup, difficulty: e.target.value as Difficulty })}
+                                title={t('hud.opponents.difficulty')}
+                            >
+                                {(Object.keys(DIFFICULTIES) as Difficulty[]).map(d => (
+                                    <option key={d} value={d}>{t(DIFFICULTIES[d].label)}</option>
+                                ))}
+                            </select>
+                        </div>
+                        {standings && (
+                            <ol className="mt-2 space-y-0.5">
+                                {standings.map((entry, i) => (
+                                    <li key={entry.name} className={`flex items-center justify-between ${entry.isPlayer ? 'font-bold text-slate-800' : 'text-slate-600'}`}>
+                                        <span className="flex items-center gap-2">
+                                            <span className="font-mono w-4 text-right">{i + 1}.</span>
+                                            <span className="w-2.5 h-2.5 rounded-full border border-slate-400" style={{ backgroundColor: entry.color }} />
+                                            {boatName(t, entry.name)}
+                                        </span>
+                                        {entry.ticks !== null && (
+                                            <span className="font-mono">{number(entry.ticks / FPS, 1)}s</span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </div>
+                )}
+
+                {/* Two-player mode: split keyboard, second boat with its own panel */}
+                {onToggleTwoPlayer && (
+                    <button
+                        type="button"
+                        onClick={onToggleTwoPlayer}
+                        className={`w-full py-1.5 rounded-lg border text-xs font-bold flex items-center justify-center gap-1 transition-colors ${
+                            twoPlayer ? 'bg-yellow-400 border-yellow-400 text-slate-900' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-100'
+                        }`}
+                        title={t('hud.twoPlayer.title')}
+                    >
+                        <Swords className="w-3 h-3" />
+                        {t(twoPlayer ? 'hud.twoPlayer.on' : 'hud.twoPlayer.off')}
+                    </button>
+                )}
+
+                {/* Time trial: the level on the clock, splits at the marks against the best time */}
+                {onToggleTimeTrial && (
+                    <button
+                        type="button"
+                        onClick={onToggleTimeTrial}
+                        className={`w-full py-1.5 rounded-lg border text-xs font-bold flex items-center justify-center gap-1 transition-colors ${
+                            timeTrial ? 'bg-amber-400 border-amber-400 text-slate-900' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-100'
+                        }`}
+                        title={t('hud.timeTrial.title')}
+                    >
+                        <Timer className="w-3 h-3" />
+                        {t(timeTrial ? 'hud.timeTrial.on' : 'hud.timeTrial.off')}
+                    </button>
+                )}
+                {timeTrial && trialClock && (
+                    <div className="p-2 bg-amber-50 rounded-lg border border-amber-100 text-xs space-y-1">
+                        <div className="flex items-center justify-between">
+                            <span className="text-amber-800 font-mono font-black text-lg flex items-center gap-2">
+                                <Timer className="w-4 h-4" /> {formatTrialTime(trialClock.ticks, number)}
+                            </span>
+                            {trialBest && (
+                                <span className="text-slate-500 flex items-center gap-1" title={t('hud.trial.best')}>
+                                    <Trophy className="w-3 h-3" />
+                                    <span className="font-mono">{formatTrialTime(trialBest.ticks, number)}</span>
+                                </span>
+                            )}
+                        </div>
+                        {trialClock.splits.map((ticks, i) => {
+                            const best = trialBest?.splits[i];
+                            const delta = best !== undefined ? (ticks - best) / FPS : null;
+                            return (
+                                <div key={i} className="flex items-center justify-between text-slate-600">
+                                    <span>{t('hud.trial.split', { n: i + 1 })}</span>
+                                    <span className="font-mono">
+                                        {formatTrialTime(ticks, number)}
+                                        {delta !== null && (
+                                            <span className={`ml-2 font-bold ${delta > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                                                {delta > 0 ? '+' : '−'}{number(Math.abs(delta), 1)}
+                                            </span>
+                                        )}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                        <div className="flex items-center justify-between text-slate-500">
+                            <span>{t('hud.trial.collisions', { count: trialClock.collisions })}</span>
+                            {trialClock.code && (
+                                <span className="text-rose-600 font-bold flex items-center gap-1" title={t('hud.trial.code.title')}>
+                                    <KeyRound className="w-3 h-3" /> {t('hud.trial.code')}
+                                </span>
+                            )}
+                        </div>
+                        {onOpenLeaderboard && (
+                            <button
+                                type="button"
+                                onClick={onOpenLeaderboard}
+                                className="w-full py-1 rounded-md bg-white border border-amber-200 text-amber-800 font-bold flex items-center justify-center gap-1 hover:bg-amber-100"
+                            >
+                                <Trophy className="w-3 h-3" /> {t('hud.trial.board')}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {/* Personal best ghost for this level */}
+                {bestTicks !== null && (
+                    <div className="flex items-center justify-between p-2 bg-violet-50 rounded-lg border border-violet-100">
+                        <span className="text-violet-800 font-bold flex items-center gap-2" title={t('hud.ghost')}>
+                            <Ghost className="w-4 h-4" /> {number(bestTicks / FPS, 1)}s
+                        </span>
+                        {ghostDelta !== null && (
+                            <span className={`font-mono font-black text-lg ${ghostDelta > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                                {ghostDelta > 0 ? '+' : '−'}{number(Math.abs(ghostDelta), 1)}s
+                            </span>
+                        )}
+                    </div>
+                )}
+
                 <div className="flex items-center justify-between">
-                    <span className="text-slate-500">Geschwindigkeit</span>
+                    <span className="text-slate-500" title={t('hud.speed.title')}>{t('hud.speed')}</span>
                     <span className="font-mono font-bold text-lg text-sky-600">
-                        {boat.speed.toFixed(1)} <span className="text-xs">kn</span>
+                        {number(boat.speed, 1)} <span className="text-xs">kn</span>
                     </span>
                 </div>
+                {groundSpeed !== undefined && (
+                    <div className="flex items-center justify-between -mt-2">
+                        <span className="text-slate-500" title={t('hud.groundSpeed.title')}>{t('hud.groundSpeed')}</span>
+                        <span className={`font-mono font-bold ${groundSpeed < boat.speed - 0.2 ? 'text-rose-500' : groundSpeed > boat.speed + 0.2 ? 'text-emerald-600' : 'text-slate-600'}`}>
+                            {number(groundSpeed, 1)} <span className="text-xs">kn</span>
+                        </span>
+                    </div>
+                )}
                 
-                {/* Wind Indicator */}
+                {/* Tacks and gybes of this attempt, with the rating of the last one */}
+                {manoeuvres && upgrades.hasSail && (
+                    <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 text-xs">
+                        <div className="flex items-center justify-between">
+                            <span className="text-slate-600 font-bold flex items-center gap-2">
+                                <Repeat className="w-4 h-4" /> {t('hud.manoeuvres')}
+                            </span>
+                            <span className="font-mono text-slate-700">
+                                {t('hud.manoeuvres.count', { tacks: manoeuvres.tacks, gybes: manoeuvres.gybes })}
+                            </span>
+                        </div>
+                        {manoeuvres.active ? (
+                            <div className="mt-1 text-sky-600 font-bold animate-pulse">
+                                {t('hud.manoeuvre.active', { kind: manoeuvres.active.kind })}
+                            </div>
+                        ) : manoeuvres.last && (
+                            <div className="mt-1 flex items-center justify-between">
+                                <span className="text-slate-500">
+                                    {t('hud.manoeuvre.last', { kind: manoeuvres.last.kind, seconds: manoeuvres.last.seconds })}
+                                </span>
+                                <span
+                                    className={`font-bold ${
+                                        manoeuvres.last.quality >= 0.8 ? 'text-emerald-600' : manoeuvres.last.quality >= 0.5 ? 'text-amber-600' : 'text-rose-600'
+                                    }`}
+                                >
+                                    {Math.round(manoeuvres.last.quality * 100)}% {t(manoeuvreLabel(manoeuvres.last.quality))}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Right-of-way foul: which rule and the penalty turn still to sail */}
+                {penalty && <PenaltyNotice penalty={penalty} />}
+
+                {/* Local wind: gust or lull compared to the mean wind */}
+                {windSpeed !== undefined && meanWindSpeed !== undefined && (
+                    <div className="flex items-center justify-between">
+                        <span className="text-slate-500">{t('hud.wind')}</span>
+                        <span className="font-mono font-bold">
+                            {number(windSpeed, 0)} <span className="text-xs">kn</span>
+                            {windSpeed > meanWindSpeed * 1.1 && <span className="ml-2 text-xs text-sky-700">{t('hud.wind.gust')}</span>}
+                            {windSpeed < meanWindSpeed * 0.9 && <span className="ml-2 text-xs text-amber-600">{t('hud.wind.lull')}</span>}
+                        </span>
+                    </div>
+                )}
+
+                {/* Wind Indicator: round instrument with true and apparent wind */}
+                {apparentWind && windSpeed !== undefined ? (
+                    <div>
+                        <WindInstrument
+                            heading={boat.heading}
+                            trueWind={{ direction: windDirection, speed: windSpeed }}
+                            apparentWind={apparentWind}
+                            noGoDeg={noGoDeg}
+                        />
+                        {onToggleApparentWind && (
+                            <label className="mt-1 flex items-center gap-2 text-xs text-slate-500 cursor-pointer" title={t('hud.apparentWind.title')}>
+                                <input type="checkbox" checked={sailOnApparentWind} onChange={onToggleApparentWind} className="accent-amber-600" />
+                                {t('hud.apparentWind')}
+                            </label>
+                        )}
+                    </div>
+                ) : (
                 <div className="flex items-center justify-between">
-                    <span className="text-slate-500">Windwinkel</span>
+                    <span className="text-slate-500">{t('hud.windAngle')}</span>
                     <div className="flex items-center gap-2">
                         <Wind className="w-4 h-4 text-slate-400" />
                         <span className="font-mono font-bold">
@@ -102,32 +575,104 @@ const Dashboard: React.FC<Props> = ({ boat, windDirection, onSteer, level, lives
                         </span>
                     </div>
                 </div>
+                )}
+
+                {/* Polar diagram: why am I slow? */}
+                {upgrades.hasSail && windSpeed !== undefined && (
+                    <div className="p-2 bg-slate-50 rounded-lg border border-slate-100 text-xs">
+                        <button
+                            type="button"
+                            onClick={() => setShowPolar(v => !v)}
+                            className="w-full flex items-center justify-between text-slate-600 font-bold"
+                            title={t('hud.polar.title')}
+                        >
+                            <span className="flex items-center gap-2">
+                                <Compass className="w-4 h-4" /> {t('hud.polar')}
+                            </span>
+                            <span className="font-mono text-slate-700">
+                                {number(boat.speed, 1)} / {number(polarTarget, 1)} kn
+                            </span>
+                        </button>
+                        {showPolar && (
+                            <div className="mt-2 flex flex-col items-center gap-2">
+                                <PolarPlot
+                                    polar={polar}
+                                    wind={sailWind}
+                                    scale={upgrades.speedMultiplier}
+                                    twa={polarTwa}
+                                    speed={boat.speed}
+                                    targetSpeed={polarTarget}
+                                    noGoDeg={noGoDeg}
+                                    upwind={upwind}
+                                    downwind={downwind}
+                                    goalTwa={goalTwa}
+                                />
+                                <div className="w-full space-y-1">
+                                    {goalVmg !== null && (
+                                        <div className="flex items-center justify-between" title={t('hud.vmg.title')}>
+                                            <span className="text-violet-700 font-bold">{t('hud.vmg')}</span>
+                                            <span className={`font-mono font-bold ${goalVmg < 0 ? 'text-rose-600' : 'text-slate-700'}`}>
+                                                {number(goalVmg, 1)} kn
+                                            </span>
+                                        </div>
+                                    )}
+                                    <div className="flex items-center justify-between" title={t('hud.bestUpwind.title')}>
+                                        <span className="text-emerald-700">{t('hud.bestUpwind')}</span>
+                                        <span className="font-mono">{upwind.twa}° · VMG {number(upwind.vmg, 1)}</span>
+                                    </div>
+                                    <div className="flex items-center justify-between" title={t('hud.bestDownwind.title')}>
+                                        <span className="text-emerald-700">{t('hud.bestDownwind')}</span>
+                                        <span className="font-mono">{downwind.twa}° · VMG {number(downwind.vmg, 1)}</span>
+                                    </div>
+                                    {onToggleRoute && (
+                                        <button
+                                            type="button"
+                                            onClick={onToggleRoute}
+                                            className={`w-full mt-1 py-1 rounded-md border font-bold flex items-center justify-center gap-1 transition-colors ${
+                                                showRoute ? 'bg-violet-600 border-violet-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-100'
+                                            }`}
+                                            title={t('hud.route.title')}
+                                        >
+                                            <Route className="w-3 h-3" />
+                                            {t('hud.route')}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
 
                 {/* Efficiency Bar */}
                 {upgrades.hasSail ? (
                     <div>
                         <div className="flex justify-between text-xs mb-1 text-slate-400">
-                            <span>Segel-Effizienz</span>
+                            <span>{t('hud.efficiency')}</span>
                             <span>{efficiency}%</span>
                         </div>
                         <div className="h-2 w-full bg-slate-200 rounded-full overflow-hidden">
                             <div 
-                                className={`h-full transition-all duration-300 ${inNoGoZone ? 'bg-red-400' : 'bg-emerald-500'}`} 
+                                className={`h-full transition-all duration-300 ${
+                                    inNoGoZone || efficiency < 50 ? 'bg-red-400' : trimState === 'ok' ? 'bg-emerald-500' : 'bg-amber-400'
+                                }`} 
                                 style={{ width: `${efficiency}%` }}
                             />
                         </div>
+                        <div className={`mt-1 text-xs font-bold ${trimState === 'ok' ? 'text-emerald-600' : 'text-amber-600'}`}>
+                            {upgrades.autoTrim ? t('trim.auto') : trimHint(trimState)}
+                        </div>
                     </div>
                 ) : (
                     <div className="text-xs text-red-500 font-bold flex items-center gap-1">
                         <AlertTriangle className="w-3 h-3" />
-                        KEIN SEGEL
+                        {t('hud.noSail')}
                     </div>
                 )}
 
                 {upgrades.hasSail && inNoGoZone && (
                     <div className="flex items-center gap-2 text-red-500 text-xs font-bold animate-pulse">
                         <AlertTriangle className="w-4 h-4" />
-                        <span>Im toten Winkel (No-Go Zone)</span>
+                        <span>{t('hud.noGo')}</span>
                     </div>
                 )}
             </div>
@@ -136,11 +681,75 @@ const Dashboard: React.FC<Props> = ({ boat, windDirection, onSteer, level, lives
                 type="button"
                 onClick={onResetRun}
                 className="mt-4 w-full bg-slate-900 text-white text-sm font-bold py-2 rounded-lg shadow hover:bg-slate-800 active:bg-slate-950 transition-colors flex items-center justify-center gap-2"
-                title="Setzt Level/Leben zurück und platziert die Felsen neu. Upgrades & Highscore bleiben."
+                title={t('hud.reset.title')}
             >
                 <RefreshCw className="w-4 h-4" />
-                Reset (neue Felsen)
+                {t('hud.reset')}
             </button>
+
+            {/* Replay: watch the current run or load an exported one */}
+            <div className="mt-2 flex gap-2">
+                <button
+                    type="button"
+                    onClick={onOpenEditor}
+                    className="flex-1 bg-sky-50 text-sky-700 border border-sky-100 text-xs font-bold py-2 rounded-lg hover:bg-sky-100 transition-colors flex items-center justify-center gap-1"
+                    title={t('hud.editor.title')}
+                >
+                    <PenTool className="w-3 h-3" />
+                    {t('hud.editor')}
+                </button>
+                <button
+                    type="button"
+                    onClick={onWatchReplay}
+                    className="flex-1 bg-violet-50 text-violet-700 border border-violet-100 text-xs font-bold py-2 rounded-lg hover:bg-violet-100 transition-colors flex items-center justify-center gap-1"
+                    title={t('hud.replay.title')}
+                >
+                    <Film className="w-3 h-3" />
+                    {t('hud.replay')}
+                </button>
+                <label
+                    className="flex-1 bg-slate-50 text-slate-600 border border-slate-100 text-xs font-bold py-2 rounded-lg hover:bg-slate-100 transition-colors flex items-center justify-center gap-1 cursor-pointer"
+                    title={t('hud.import.title')}
+                >
+                    <Upload className="w-3 h-3" />
+                    {t('hud.import')}
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onImportReplay(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+            </div>
+
+            <button
+                type="button"
+                onClick={onOpenControls}
+                className="mt-2 w-full bg-slate-50 text-slate-600 border border-slate-100 text-xs font-bold py-2 rounded-lg hover:bg-slate-100 transition-colors flex items-center justify-center gap-1"
+                title={t('hud.controls.title')}
+            >
+                <Gamepad2 className="w-3 h-3" />
+                {t('hud.controls')}
+            </button>
+
+            {/* Debug: collision shapes of hulls, rocks and edges */}
+            {onToggleDebugShapes && (
+                <button
+                    type="button"
+                    onClick={onToggleDebugShapes}
+                    className={`mt-2 w-full text-[10px] font-bold py-1 rounded-md flex items-center justify-center gap-1 transition-colors ${
+                        debugShapes ? 'bg-fuchsia-600 text-white' : 'text-slate-400 hover:text-fuchsia-600'
+                    }`}
+                    title={t('hud.debugShapes.title')}
+                >
+                    <Bug className="w-3 h-3" />
+                    {t('hud.debugShapes')}
+                </button>
+            )}
         </div>
 
         {/* Bottom Right: Upgrade / Cheat Input + Active Badges */}
@@ -148,37 +757,27 @@ const Dashboard: React.FC<Props> = ({ boat, windDirection, onSteer, level, lives
             
             {/* ACTIVE UPGRADES DISPLAY */}
             <div className="flex gap-2 mb-1 flex-wrap justify-end">
-                {upgrades.hasSail && (
-                    <div className="bg-sky-600 text-white text-[10px] font-bold px-2 py-1 rounded-lg shadow-lg flex items-center gap-1 animate-pulse">
-                        <Ship className="w-3 h-3" />
-                        SEGEL
-                    </div>
-                )}
-                {upgrades.revealMap && (
-                    <div className="bg-emerald-600 text-white text-[10px] font-bold px-2 py-1 rounded-lg shadow-lg flex items-center gap-1">
-                        <Eye className="w-3 h-3" />
-                        SICHT
-                    </div>
-                )}
-                {upgrades.turnMultiplier > 1 && (
-                    <div className="bg-violet-500 text-white text-[10px] font-bold px-2 py-1 rounded-lg shadow-lg flex items-center gap-1 animate-bounce">
-                        <RotateCw className="w-3 h-3" />
-                        SUPER LENKUNG
-                    </div>
-                )}
-                {upgrades.speedMultiplier > 1 && (
-                    <div className="bg-amber-500 text-white text-[10px] font-bold px-2 py-1 rounded-lg shadow-lg flex items-center gap-1 animate-bounce">
-                        <Zap className="w-3 h-3" />
-                        TURBO
-                    </div>
-                )}
+                <UpgradeBadges levels={upgradeLevels} />
             </div>
 
+            <button
+                type="button"
+                onClick={onOpenShop}
+                className="bg-white/90 backdrop-blur rounded-full shadow-lg border border-white/20 flex items-center gap-2 px-4 py-1.5 text-sm font-bold text-slate-700 hover:bg-white"
+                title={t('hud.shop.title')}
+            >
+                <Store className="w-4 h-4 text-sky-600" />
+                {t('hud.shop')}
+                <span className="flex items-center gap-1 font-mono text-amber-600">
+                    <Coins className="w-4 h-4" /> {coins}
+                </span>
+            </button>
+
             <div className="bg-white/90 backdrop-blur rounded-full shadow-lg border border-white/20 flex items-center p-1 pl-4 transition-all w-48 focus-within:w-64">
                 <Zap className="w-4 h-4 text-amber-500 mr-2" />
                 <input 
                     type="text" 
-                    placeholder="Upgrade Code..." 
+                    placeholder={t('hud.code.placeholder')}
                     className="bg-transparent border-none outline-none text-sm text-slate-700 w-full placeholder-slate-400"
                     value={cheatInput}
                     onChange={(e) => setCheatInput(e.target.value)}
@@ -187,42 +786,101 @@ const Dashboard: React.FC<Props> = ({ boat, windDirection, onSteer, level, lives
             </div>
         </div>
 
+        {/* Bottom Left: player two, with its own lives, upgrades and code box */}
+        {player2 && (
+            <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur rounded-xl p-3 shadow-xl border border-white/20 text-slate-700 w-56 text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                    <span className="font-bold flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full border border-slate-500" style={{ backgroundColor: PLAYER_TWO_COLOR }} />
+                        {boatName(t, PLAYER_TWO_NAME).toUpperCase()}
+                    </span>
+                    <span className="font-mono font-black text-rose-600 flex items-center gap-1">
+                        <Heart className="w-4 h-4" /> {player2.lives}/5
+                    </span>
+                </div>
+                <div className="flex items-center justify-between text-xs">
+                    <span className="text-slate-500">{t('hud.speed')}</span>
+                    <span className="font-mono font-bold text-sky-600">{number(player2.boat.speed, 1)} kn</span>
+                </div>
+                {player2Mark && (
+                    <div className="flex items-center justify-between text-xs">
+                        <span className="text-slate-500">{t('hud.mark.short')}</span>
+                        <span className="font-mono font-bold text-amber-600">{player2.markProgress.next + 1}/{marks.length}</span>
+                    </div>
+                )}
+                {player2Trim && (
+                    <div className={`text-xs font-bold ${player2Trim === 'ok' ? 'text-emerald-600' : 'text-amber-600'}`}>
+                        {player2.upgrades.autoTrim ? t('trim.auto') : trimHint(player2Trim)}
+                    </div>
+                )}
+                {player2.penalty && <PenaltyNotice penalty={player2.penalty} />}
+                <div className="flex gap-1 flex-wrap">
+                    <UpgradeBadges levels={player2Levels} />
+                </div>
+                <div className="bg-slate-50 rounded-full border border-slate-200 flex items-center px-3 py-1">
+                    <Zap className="w-4 h-4 text-amber-500 mr-2 shrink-0" />
+                    <input
+                        type="text"
+                        placeholder={t('hud.code.placeholder')}
+                        className="bg-transparent border-none outline-none text-sm text-slate-700 w-full placeholder-slate-400"
+                        value={cheatInput2}
+                        onChange={(e) => setCheatInput2(e.target.value)}
+                        onKeyDown={handleCheatSubmit2}
+                    />
+                </div>
+            </div>
+        )}
+
         {/* Bottom Center: Controls Hint */}
         <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex flex-col items-center gap-4 pointer-events-none">
             
             {/* Desktop Hints */}
+            {twoPlayer ? (
             <div className="hidden md:flex items-center gap-4 bg-black/30 backdrop-blur-sm text-white px-6 py-2 rounded-full text-sm">
                 <span className="flex items-center gap-2">
-                    <kbd className="bg-white/20 px-2 py-1 rounded">←</kbd>
-                    Links
+                    {boatName(t, PLAYER_ONE_NAME)}
+                    <Keys actions={CONTROL_ACTIONS} binding={keyBindings[1]} />
                 </span>
                 <span className="w-px h-4 bg-white/20"></span>
                 <span className="flex items-center gap-2">
-                    Rechts
-                    <kbd className="bg-white/20 px-2 py-1 rounded">→</kbd>
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: PLAYER_TWO_COLOR }} />
+                    {boatName(t, PLAYER_TWO_NAME)}
+                    <Keys actions={CONTROL_ACTIONS} binding={keyBindings[2]} />
                 </span>
             </div>
+            ) : (
+            <div className="hidden md:flex items-center gap-4 bg-black/30 backdrop-blur-sm text-white px-6 py-2 rounded-full text-sm">
+                <span className="flex items-center gap-2">
+                    <Keys actions={['left']} binding={soloKeys} />
+                    {t('hud.keys.left')}
+                </span>
+                <span className="w-px h-4 bg-white/20"></span>
+                <span className="flex items-center gap-2">
+                    {t('hud.keys.right')}
+                    <Keys actions={['right']} binding={soloKeys} />
+                </span>
+                <span className="w-px h-4 bg-white/20"></span>
+                <span className="flex items-center gap-2">
+                    <Keys actions={['sheetIn']} binding={soloKeys} />
+                    {t('hud.keys.sheetIn')}
+                    <Keys actions={['sheetOut']} binding={soloKeys} />
+                    {t('hud.keys.sheetOut')}
+                </span>
+            </div>
+            )}
 
-            {/* Mobile Controls (Pointer events re-enabled) */}
-            <div className="md:hidden flex gap-8 pointer-events-auto">
-                 <button 
-                    className="w-20 h-20 bg-white/90 rounded-full shadow-lg flex items-center justify-center active:scale-95 transition-transform"
-                    onTouchStart={() => onSteer('left')}
-                    onTouchEnd={() => onSteer('none')}
-                    onMouseDown={() => onSteer('left')}
-                    onMouseUp={() => onSteer('none')}
-                 >
-                     <RotateCcw className="w-8 h-8 text-sky-700" />
-                 </button>
-                 <button 
-                    className="w-20 h-20 bg-white/90 rounded-full shadow-lg flex items-center justify-center active:scale-95 transition-transform"
-                    onTouchStart={() => onSteer('right')}
-                    onTouchEnd={() => onSteer('none')}
-                    onMouseDown={() => onSteer('right')}
-                    onMouseUp={() => onSteer('none')}
-                 >
-                     <RotateCw className="w-8 h-8 text-sky-700" />
-                 </button>
+            {/* Mobile Controls (Pointer events re-enabled): wheel, sheet and tilt */}
+            <div className="md:hidden pointer-events-auto">
+                <TouchControls
+                    rudderAngle={boat.rudderAngle}
+                    sheet={boat.sheet}
+                    autoTrim={upgrades.autoTrim}
+                    tilt={tiltSteering}
+                    onSteer={onSteer}
+                    onSheetTarget={onSheetTarget}
+                    onToggleTilt={onToggleTilt}
+                    onCalibrateTilt={onCalibrateTilt}
+                />
             </div>
         </div>
     </>
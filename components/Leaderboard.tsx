@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, ShieldCheck, Trophy, X } from 'lucide-react';
+import { TrialDivision, TrialEntry, loadBoard } from '../utils/leaderboard';
+import { formatTrialTime } from '../utils/timeTrial';
+import { UPGRADES, levelOf } from '../utils/upgrades';
+import { LOCALES, useI18n } from '../utils/i18n';
+
+interface Props {
+  board: string; // See trialBoardKey
+  title: string; // Course and level, as shown in the HUD
+  division: TrialDivision; // Tab shown first: the one the current run counts for
+  version: number; // Bumped when a time was added, to reload
+  playerName: string;
+  onChangePlayerName: (name: string) => void;
+  onClose: () => void;
+}
+
+const MAX_SHOWN = 20;
+
+/**
+ * Bestenliste des Zeitfahrens für Kurs und Level: ehrliche Zeiten und Zeiten mit Code-Upgrades auf getrennten Tabs.
+ * Dazu der Name, unter dem neue Zeiten eingetragen werden.
+ */
+const Leaderboard: React.FC<Props> = ({ board, title, division: initialDivision, version, playerName, onChangePlayerName, onClose }) => {
+  const { t, number, locale } = useI18n();
+  const [division, setDivision] = useState<TrialDivision>(initialDivision);
+  const [entries, setEntries] = useState<TrialEntry[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    loadBoard(board, division)
+      .then(rows => {
+        if (!cancelled) setEntries(rows);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [board, division, version]);
+
+  const tab = (value: TrialDivision, Icon: typeof Trophy, label: string) => (
+      <button
+          type="button"
+          onClick={() => setDivision(value)}
+          className={`flex-1 py-1.5 rounded-lg text-xs font-bold flex items-center justify-center gap-1 ${
+              division === value ? 'bg-sky-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+          }`}
+      >
+          <Icon className="w-3 h-3" /> {label}
+      </button>
+  );
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+        <div className="bg-white rounded-xl shadow-2xl p-4 text-slate-700 w-[32rem] max-w-[calc(100vw-2rem)] space-y-3" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <span className="font-bold flex items-center gap-2">
+                    <Trophy className="w-5 h-5 text-amber-500" /> {t('trial.board.title')}
+                </span>
+                <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-700" title={t('trial.board.close')}>
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+            <div className="text-xs font-mono text-slate-500">{title}</div>
+
+            <div className="flex gap-2">
+                {tab('clean', ShieldCheck, t('trial.division.clean'))}
+                {tab('code', KeyRound, t('trial.division.code'))}
+            </div>
+
+            <div className="max-h-80 overflow-y-auto">
+                {failed ? (
+                    <div className="text-xs text-rose-600">{t('trial.board.unavailable')}</div>
+                ) : entries === null ? (
+                    <div className="text-xs text-slate-400">{t('trial.board.loading')}</div>
+                ) : entries.length === 0 ? (
+                    <div className="text-xs text-slate-400">{t('trial.board.empty')}</div>
+                ) : (
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-slate-400 text-left">
+                                <th className="font-normal pr-2">#</th>
+                                <th className="font-normal pr-2">{t('trial.board.name')}</th>
+                                <th className="font-normal pr-2 text-right">{t('trial.board.time')}</th>
+                                <th className="font-normal pr-2 text-right" title={t('trial.board.collisions.title')}>{t('trial.board.collisions')}</th>
+                                <th className="font-normal pr-2">{t('trial.board.upgrades')}</th>
+                                <th className="font-normal text-right">{t('trial.board.date')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.slice(0, MAX_SHOWN).map((entry, i) => (
+                                <tr key={entry.id} className={`border-t border-slate-100 ${i === 0 ? 'font-bold text-slate-800' : ''}`}>
+                                    <td className="font-mono pr-2 py-1">{i + 1}.</td>
+                                    <td className="pr-2 truncate max-w-[8rem]" title={entry.name}>{entry.name}</td>
+                                    <td className="font-mono pr-2 text-right">{formatTrialTime(entry.ticks, number)}</td>
+                                    <td className="font-mono pr-2 text-right">{entry.collisions}</td>
+                                    <td className="pr-2">
+                                        <span className="flex gap-0.5">
+                                            {UPGRADES.filter(u => levelOf(entry.upgrades, u.id) > 0).map(u => {
+                                                const Icon = u.icon;
+                                                return (
+                                                    <span key={u.id} className={`${u.badge.color} text-white rounded p-0.5`} title={`${t(u.name)} ${levelOf(entry.upgrades, u.id)}`}>
+                                                        <Icon className="w-3 h-3" />
+                                                    </span>
+                                                );
+                                            })}
+                                        </span>
+                                    </td>
+                                    <td className="text-right text-slate-500">{new Date(entry.date).toLocaleDateString(LOCALES[locale].intl)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <label className="flex items-center gap-2 text-xs">
+                <span className="text-slate-500">{t('trial.board.playerName')}</span>
+                <input
+                    type="text"
+                    maxLength={24}
+                    placeholder={t('trial.anonymous')}
+                    className="flex-1 min-w-0 bg-white border border-slate-200 rounded-md px-2 py-1 text-slate-700 outline-none focus:border-sky-400"
+                    value={playerName}
+                    onChange={(e) => onChangePlayerName(e.target.value)}
+                />
+            </label>
+            <div className="text-xs text-slate-500">{t('trial.board.hint')}</div>
+        </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Map as MapIcon, ZoomIn, ZoomOut, Maximize, LocateFixed } from 'lucide-react';
+import { BoatState, Mark, Rect, RockState } from '../types';
+import { Bounds } from '../utils/simulation';
+import { Camera, MAX_ZOOM, MIN_ZOOM, visibleRect } from '../utils/camera';
+import { Opponent } from '../utils/opponents';
+import { PlayerTwo } from '../utils/twoPlayer';
+import { Exploration } from '../utils/exploration';
+import ChartView from './ChartView';
+import { useI18n } from '../utils/i18n';
+
+interface Props {
+  bounds: Bounds;
+  rocks: RockState[];
+  finish: Rect;
+  marks: Mark[];
+  nextMark: number;
+  boat: BoatState;
+  player2?: PlayerTwo | null;
+  opponents?: Opponent[];
+  exploration: Exploration | null; // Erkundetes Gebiet und bekannte Felsen; null = Karte aufgedeckt
+  camera: Camera;
+  viewport: Bounds;
+  overview: boolean; // Ganze Karte statt Kamera am Boot
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onToggleOverview: () => void;
+  onOpenChart: () => void;
+}
+
+// Breite der Karte auf dem Bildschirm
+const MAP_WIDTH = 192;
+
+/**
+ * Übersichtskarte in der Ecke: Spielfeld, Felsen, Ziel bzw. Bahnmarken, Boote und der Bildausschnitt der Kamera.
+ * Darunter die Zoom-Knöpfe und der Weg zur großen Seekarte.
+ */
+const Minimap: React.FC<Props> = ({ bounds, rocks, finish, marks, nextMark, boat, player2 = null, opponents = [], exploration, camera, viewport, overview, onZoomIn, onZoomOut, onToggleOverview, onOpenChart }) => {
+  const { t } = useI18n();
+  return (
+    <div className="absolute top-4 left-4 bg-white/90 backdrop-blur rounded-xl p-2 shadow-xl border border-white/20 text-slate-700">
+        <div className="flex items-center justify-between mb-1 px-1">
+            <span className="text-[10px] font-bold text-slate-500 flex items-center gap-1">
+                <MapIcon className="w-3 h-3" /> {t('minimap.title')}
+            </span>
+            <span className="text-[10px] font-mono text-slate-400">{Math.round(camera.zoom * 100)}%</span>
+        </div>
+        <ChartView
+            width={MAP_WIDTH}
+            bounds={bounds}
+            rocks={rocks}
+            finish={finish}
+            marks={marks}
+            nextMark={nextMark}
+            boat={boat}
+            player2={player2}
+            opponents={opponents}
+            exploration={exploration}
+            view={visibleRect(camera, viewport)}
+        />
+        <div className="flex items-center justify-center gap-1 mt-1">
+            <button
+                type="button"
+                onClick={onZoomOut}
+                disabled={overview || camera.zoom <= MIN_ZOOM}
+                className="p-1 rounded-md hover:bg-slate-100 disabled:opacity-30"
+                title={t('minimap.zoomOut')}
+            >
+                <ZoomOut className="w-4 h-4" />
+            </button>
+            <button
+                type="button"
+                onClick={onZoomIn}
+                disabled={overview || camera.zoom >= MAX_ZOOM}
+                className="p-1 rounded-md hover:bg-slate-100 disabled:opacity-30"
+                title={t('minimap.zoomIn')}
+            >
+                <ZoomIn className="w-4 h-4" />
+            </button>
+            <button
+                type="button"
+                onClick={onToggleOverview}
+                className={`p-1 rounded-md hover:bg-slate-100 ${overview ? 'text-sky-600' : ''}`}
+                title={t(overview ? 'minimap.follow' : 'minimap.overview')}
+            >
+                {overview ? <LocateFixed className="w-4 h-4" /> : <Maximize className="w-4 h-4" />}
+            </button>
+            <button
+                type="button"
+                onClick={onOpenChart}
+                className="p-1 rounded-md hover:bg-slate-100 flex items-center gap-1 text-xs font-bold"
+                title={t('minimap.chart.title')}
+            >
+                <MapIcon className="w-4 h-4" /> {t('minimap.chart')}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default Minimap;
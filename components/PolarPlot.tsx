@@ -0,0 +1,146 @@
+import React, { useEffect, useRef } from 'react';
+import { WindState } from '../types';
+import { degToRad } from '../constants';
+import { VmgOptimum, polarCurve } from '../utils/physics';
+import { PolarTable } from '../utils/polar';
+
+interface Props {
+  polar: PolarTable;
+  wind: WindState; // Wind the polar is evaluated with (the one the sail works with)
+  scale?: number; // Speed multiplier from upgrades, applied to the whole curve
+  twa: number; // Current wind angle of the boat, degrees, positive = from starboard
+  speed: number; // Current boat speed
+  targetSpeed: number; // Polar speed on the current angle (incl. scale)
+  noGoDeg: number;
+  upwind: VmgOptimum;
+  downwind: VmgOptimum;
+  goalTwa?: number | null; // Wind angle of the straight line to the goal
+}
+
+const SIZE = 180;
+const C = SIZE / 2;
+const R = SIZE / 2 - 14; // Radius of the outermost speed ring
+
+/**
+ * Polar diagram, wind from the top: the target speed over the wind angle as a curve
+ * (both tacks), the no-go sector, the best VMG angles and the boat's live point.
+ */
+const PolarPlot: React.FC<Props> = ({ polar, wind, scale = 1, twa, speed, targetSpeed, noGoDeg, upwind, downwind, goalTwa = null }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== SIZE * dpr) {
+      canvas.width = SIZE * dpr;
+      canvas.height = SIZE * dpr;
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, SIZE, SIZE);
+
+    const curve = polarCurve(wind, polar).map(p => ({ twa: p.twa, speed: p.speed * scale }));
+    const top = Math.max(1, speed, ...curve.map(p => p.speed));
+    const ringStep = top > 8 ? 2 : 1;
+    const maxSpeed = Math.ceil(top / ringStep) * ringStep;
+    const k = R / maxSpeed;
+
+    // Wind from the top; a wind from starboard means the bow points left of the wind
+    const at = (angleDeg: number, v: number) => {
+      const a = degToRad(angleDeg);
+      return { x: C - Math.sin(a) * v * k, y: C - Math.cos(a) * v * k };
+    };
+
+    // Speed rings
+    ctx.strokeStyle = '#e2e8f0';
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '9px monospace';
+    ctx.lineWidth = 1;
+    for (let v = ringStep; v <= maxSpeed; v += ringStep) {
+      ctx.beginPath();
+      ctx.arc(C, C, v * k, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.fillText(String(v), C + 2, C - v * k + 9);
+    }
+    ctx.beginPath();
+    ctx.moveTo(C, C - R);
+    ctx.lineTo(C, C + R);
+    ctx.stroke();
+
+    // No-go sector
+    ctx.fillStyle = 'rgba(248, 113, 113, 0.18)';
+    ctx.beginPath();
+    ctx.moveTo(C, C);
+    ctx.arc(C, C, R, -Math.PI / 2 - degToRad(noGoDeg), -Math.PI / 2 + degToRad(noGoDeg));
+    ctx.closePath();
+    ctx.fill();
+
+    // Polar curve, mirrored for both tacks
+    ctx.strokeStyle = '#0284c7';
+    ctx.lineWidth = 2;
+    for (const side of [1, -1]) {
+      ctx.beginPath();
+      curve.forEach((p, i) => {
+        const q = at(side * p.twa, p.speed);
+        if (i === 0) ctx.moveTo(q.x, q.y);
+        else ctx.lineTo(q.x, q.y);
+      });
+      ctx.stroke();
+    }
+
+    // Best VMG angles up- and downwind
+    ctx.strokeStyle = '#059669';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([3, 3]);
+    for (const opt of [upwind, downwind]) {
+      for (const side of [1, -1]) {
+        const q = at(side * opt.twa, opt.speed * scale);
+        ctx.beginPath();
+        ctx.moveTo(C, C);
+        ctx.lineTo(q.x, q.y);
+        ctx.stroke();
+      }
+    }
+
+    // Straight line to the goal
+    if (goalTwa !== null) {
+      const q = at(goalTwa, maxSpeed);
+      ctx.strokeStyle = '#7c3aed';
+      ctx.beginPath();
+      ctx.moveTo(C, C);
+      ctx.lineTo(q.x, q.y);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    // Wind arrow at the top
+    ctx.fillStyle = '#64748b';
+    ctx.beginPath();
+    ctx.moveTo(C, 12);
+    ctx.lineTo(C - 5, 2);
+    ctx.lineTo(C + 5, 2);
+    ctx.closePath();
+    ctx.fill();
+
+    // Live point: where the boat is, and where the polar says it could be
+    const target = at(twa, targetSpeed);
+    ctx.strokeStyle = '#ea580c';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    ctx.arc(target.x, target.y, 5, 0, Math.PI * 2);
+    ctx.stroke();
+
+    const live = at(twa, speed);
+    ctx.fillStyle = '#ea580c';
+    ctx.beginPath();
+    ctx.arc(live.x, live.y, 4, 0, Math.PI * 2);
+    ctx.fill();
+  }, [polar, wind.direction, wind.speed, scale, twa, speed, targetSpeed, noGoDeg, upwind, downwind, goalTwa]);
+
+  return <canvas ref={canvasRef} style={{ width: SIZE, height: SIZE }} className="shrink-0" />;
+};
+
+export default PolarPlot;
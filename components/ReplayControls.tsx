@@ -0,0 +1,95 @@
+import React from 'react';
+import { Play, Pause, Download, X, Film } from 'lucide-react';
+import { FPS } from '../constants';
+import { useI18n } from '../utils/i18n';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+interface Props {
+  tick: number;
+  length: number;
+  playing: boolean;
+  speed: number;
+  onTogglePlay: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+// Ticks -> "m:ss"
+const formatTime = (ticks: number) => {
+  const totalSeconds = Math.floor(ticks / FPS);
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<Props> = ({ tick, length, playing, speed, onTogglePlay, onSeek, onSpeedChange, onExport, onClose }) => {
+  const { t, number } = useI18n();
+  return (
+    <div className="absolute bottom-32 md:bottom-24 left-1/2 -translate-x-1/2 z-40 bg-white/90 backdrop-blur rounded-xl shadow-xl border border-white/20 text-slate-700 p-3 w-[min(90vw,520px)]">
+        <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-bold text-violet-700 flex items-center gap-2">
+                <Film className="w-4 h-4" /> {t('replay.title')}
+            </span>
+            <button
+                type="button"
+                onClick={onClose}
+                className="text-slate-400 hover:text-slate-700"
+                title={t('replay.close')}
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+
+        <div className="flex items-center gap-3">
+            <button
+                type="button"
+                onClick={onTogglePlay}
+                className="w-9 h-9 shrink-0 rounded-full bg-violet-600 text-white flex items-center justify-center shadow hover:bg-violet-500"
+                title={t(playing ? 'replay.pause' : 'replay.play')}
+            >
+                {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+
+            <input
+                type="range"
+                min={0}
+                max={length}
+                value={tick}
+                onChange={(e) => onSeek(Number(e.target.value))}
+                className="flex-1 accent-violet-600"
+            />
+
+            <span className="font-mono text-xs w-20 text-right">
+                {formatTime(tick)}/{formatTime(length)}
+            </span>
+        </div>
+
+        <div className="flex items-center justify-between mt-2">
+            <div className="flex gap-1">
+                {REPLAY_SPEEDS.map(s => (
+                    <button
+                        key={s}
+                        type="button"
+                        onClick={() => onSpeedChange(s)}
+                        className={`px-2 py-0.5 rounded text-xs font-mono font-bold ${s === speed ? 'bg-violet-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                    >
+                        {number(s)}x
+                    </button>
+                ))}
+            </div>
+            <button
+                type="button"
+                onClick={onExport}
+                className="text-xs font-bold text-slate-600 hover:text-slate-900 flex items-center gap-1"
+            >
+                <Download className="w-3 h-3" /> {t('replay.export')}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Map as MapIcon, X } from 'lucide-react';
+import { BoatState, Mark, Rect, RockState, Vector2D } from '../types';
+import { Bounds } from '../utils/simulation';
+import { Opponent } from '../utils/opponents';
+import { PlayerTwo } from '../utils/twoPlayer';
+import { Exploration, exploredShare } from '../utils/exploration';
+import ChartView from './ChartView';
+import { useI18n } from '../utils/i18n';
+
+interface Props {
+  bounds: Bounds;
+  rocks: RockState[];
+  finish: Rect;
+  marks: Mark[];
+  nextMark: number;
+  start: Vector2D;
+  boat: BoatState;
+  player2?: PlayerTwo | null;
+  opponents?: Opponent[];
+  exploration: Exploration | null;
+  onClose: () => void;
+}
+
+/**
+ * Große Seekarte über dem Spiel: alles, was bisher auf diesem Kurs erkundet und an Felsen eingezeichnet wurde.
+ * Das Spiel läuft dahinter weiter.
+ */
+const SeaChart: React.FC<Props> = ({ bounds, rocks, finish, marks, nextMark, start, boat, player2 = null, opponents = [], exploration, onClose }) => {
+  const { t } = useI18n();
+  const width = Math.min(1000, window.innerWidth - 64, ((window.innerHeight - 160) * bounds.width) / bounds.height);
+  const charted = exploration ? exploration.rocks.filter(Boolean).length : rocks.length;
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+        <div className="bg-white rounded-xl shadow-2xl p-4 text-slate-700" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-3">
+                <span className="font-bold flex items-center gap-2">
+                    <MapIcon className="w-5 h-5 text-sky-600" /> {t('chart.title')}
+                </span>
+                <span className="text-xs text-slate-500">
+                    {exploration ? t('chart.explored', { percent: Math.round(exploredShare(exploration) * 100) }) : t('chart.revealed')} · {t('chart.rocks', { charted, total: rocks.length })}
+                </span>
+                <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-700" title={t('chart.close')}>
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+            <ChartView
+                width={width}
+                bounds={bounds}
+                rocks={rocks}
+                finish={finish}
+                marks={marks}
+                nextMark={nextMark}
+                start={start}
+                boat={boat}
+                player2={player2}
+                opponents={opponents}
+                exploration={exploration}
+                grid
+            />
+            <div className="flex flex-wrap gap-4 mt-3 text-xs text-slate-500">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-sky-50 border border-slate-300" /> {t('chart.legend.explored')}</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-slate-700/60" /> {t('chart.legend.unknown')}</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-slate-600" /> {t('chart.legend.rockInSight')}</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-slate-400/40 border border-dashed border-slate-600" /> {t('chart.legend.rockLastSeen')}</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-full border border-slate-900" /> {t('chart.legend.start')}</span>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default SeaChart;
@@ -1,39 +1,114 @@
 import React, { useRef, useEffect } from 'react';
-import { BoatState, Vector2D } from '../types';
-import { WIND_SPEED } from '../constants';
-
-// Ein einzelner Fels im Spielfeld
-export interface Rock {
-  position: Vector2D;
-  radius: number;
-}
+import { BoatState, Mark, Rect, RockState, Vector2D } from '../types';
+import { FOG_RADIUS, ROCK_VISIBLE_RADIUS, WALL_BUFFER, WIND_SPEED } from '../constants';
+import { Rng, createRng, hashSeed } from '../utils/random';
+import { GhostPose } from '../utils/ghost';
+import { trimError, trimStateOf } from '../utils/physics';
+import { WindField, gustCenterAt, windAt } from '../utils/windField';
+import { Bounds } from '../utils/simulation';
+import { CurrentField, currentAt } from '../utils/current';
+import { RouteOverlay } from '../utils/routing';
+import { Opponent } from '../utils/opponents';
+import { PLAYER_TWO_COLOR, PlayerTwo } from '../utils/twoPlayer';
+import { PENALTY_TURN, Penalty } from '../utils/rules';
+import { Camera, ZOOM_STEP, visibleRect } from '../utils/camera';
+import { EXPLORE_CELL, Exploration, isExplored, rockInSight } from '../utils/exploration';
+import { HULL_BOW, HULL_RADIUS, HULL_STARBOARD, hullHitsRock, hullPolygon, rockExtent, rockPolygon, rockTriangles } from '../utils/collision';
+import { useI18n } from '../utils/i18n';
 
 interface Props {
   boat: BoatState;
   windSpeed: number;
   windDirection: number;
+  windField?: WindField | null; // Böen/Flauten und Winddreher; ohne Angabe gleichmäßiger Wind
+  windTime?: number; // Sekunden seit Start des Versuchs (Zeitbasis des Windfelds)
+  bounds?: Bounds;
+  current?: CurrentField | null; // Strömung, als Pfeile gezeichnet
+  sailWindDirection?: number | null; // Wind, nach dem das Segel steht (wahr oder scheinbar); ohne Angabe der lokale wahre Wind
   hasSail: boolean;
   revealMap?: boolean;
-  rocks?: Rock[]; // optionale Hindernisse, damit wir SimulationCanvas schrittweise erweitern können
+  rocks?: RockState[]; // optionale Hindernisse, damit wir SimulationCanvas schrittweise erweitern können
+  seed?: number; // Kurs-Seed, damit auch die Windpartikel reproduzierbar sind
+  ghost?: GhostPose | null; // Bestzeit-Geist für dieses Level
+  finish?: Rect | null; // Zielzone; ohne Angabe der linke Rand
+  marks?: Mark[]; // Bahnmarken; wenn vorhanden, ersetzen sie die Zielzone
+  nextMark?: number;
+  routeOverlay?: RouteOverlay | null; // Trainingshilfe: Laylines, beste VMG-Richtung, schnellste Route
+  opponents?: Opponent[]; // Computer-Gegner, in ihrer Rumpffarbe mit Namen
+  player2?: PlayerTwo | null; // Zweites Boot im Zwei-Spieler-Modus
+  penalty?: Penalty | null; // Offener Strafkringel des eigenen Boots
+  debugShapes?: boolean; // Kollisionsformen einblenden: Rumpf-Polygone, Fels-Umrisse, Ränder
+  camera?: Camera | null; // Bildausschnitt der Welt; ohne Angabe Weltkoordinaten = Bildschirmpixel
+  viewport?: Bounds; // Größe der Zeichenfläche in Bildschirmpixeln
+  onZoom?: (factor: number) => void; // Mausrad: > 1 hinein, < 1 heraus
+  exploration?: Exploration | null; // Erkundetes Gebiet und bekannte Felsen dieses Kurses
 }
 
-const SimulationCanvas: React.FC<Props> = ({ boat, windSpeed, windDirection, hasSail, revealMap = false, rocks = [] }) => {
+// Wie viel Nebel über schon erkundetem Wasser weggenommen wird (0 = keiner, 1 = ganz klar)
+const REMEMBERED_CLEAR = 0.5;
+
+// Windpartikel pro Million Quadratpixel Welt
+const PARTICLE_DENSITY = 50;
+
+// Simple boat shape, drawn in boat coordinates (bow at +x); the same curves are the collision hull
+const traceHull = (ctx: CanvasRenderingContext2D) => {
+    const [c1, c2, transom] = HULL_STARBOARD;
+    ctx.beginPath();
+    ctx.moveTo(HULL_BOW.x, HULL_BOW.y); // Bow
+    ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, transom.x, transom.y); // Starboard side
+    ctx.lineTo(transom.x, -transom.y); // Stern
+    ctx.bezierCurveTo(c2.x, -c2.y, c1.x, -c1.y, HULL_BOW.x, HULL_BOW.y); // Port side
+};
+
+// Offener Strafkringel: gestrichelter Ring um das Boot, der gedrehte Anteil als volle Linie
+const drawPenaltyRing = (ctx: CanvasRenderingContext2D, position: Vector2D, penalty: Penalty) => {
+    const radius = HULL_RADIUS + 8;
+    const progress = Math.min(1, Math.abs(penalty.turned) / PENALTY_TURN);
+    ctx.save();
+    ctx.strokeStyle = '#e11d48'; // Rose 600
+    ctx.lineWidth = 2;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, radius, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+};
+
+const tracePolygon = (ctx: CanvasRenderingContext2D, polygon: Vector2D[]) => {
+    ctx.beginPath();
+    polygon.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+};
+
+const SimulationCanvas: React.FC<Props> = ({ boat, windSpeed, windDirection, windField = null, windTime = 0, bounds, current = null, sailWindDirection = null, hasSail, revealMap = false, rocks = [], seed = 0, ghost = null, finish = null, marks = [], nextMark = 0, routeOverlay = null, opponents = [], player2 = null, penalty = null, debugShapes = false, camera = null, viewport, onZoom, exploration = null }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { t } = useI18n();
   const windParticlesRef = useRef<{x: number, y: number, speed: number, len: number}[]>([]);
+  const particleRngRef = useRef<Rng>(Math.random);
+  const fogCanvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  // Initialize wind particles
+  // Initialize wind particles (new set per seed), spread over the whole world
+  const worldWidth = bounds?.width ?? window.innerWidth;
+  const worldHeight = bounds?.height ?? window.innerHeight;
   useEffect(() => {
-    if (windParticlesRef.current.length === 0) {
-        for(let i=0; i<60; i++) {
-            windParticlesRef.current.push({
-                x: Math.random() * window.innerWidth,
-                y: Math.random() * window.innerHeight,
-                speed: 10 + Math.random() * 10,
-                len: 20 + Math.random() * 30
-            });
-        }
+    const rng = createRng(hashSeed(seed, 'particles'));
+    particleRngRef.current = rng;
+    windParticlesRef.current = [];
+    const count = Math.round((worldWidth * worldHeight * PARTICLE_DENSITY) / 1e6);
+    for(let i=0; i<count; i++) {
+        windParticlesRef.current.push({
+            x: rng() * worldWidth,
+            y: rng() * worldHeight,
+            speed: 10 + rng() * 10,
+            len: 20 + rng() * 30
+        });
     }
-  }, []);
+  }, [seed, worldWidth, worldHeight]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -42,74 +117,151 @@ const SimulationCanvas: React.FC<Props> = ({ boat, windSpeed, windDirection, has
     if (!ctx) return;
 
     // Resize canvas
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
+    canvas.width = viewport?.width ?? window.innerWidth;
+    canvas.height = viewport?.height ?? window.innerHeight;
+    const screen = { width: canvas.width, height: canvas.height };
+    const fieldBounds = bounds ?? screen;
+    // Ab hier wird in Weltkoordinaten gezeichnet; view ist der sichtbare Ausschnitt der Welt
+    const view = camera ? visibleRect(camera, screen) : { x: 0, y: 0, ...screen };
+    const applyCamera = (c: CanvasRenderingContext2D) => {
+        if (camera) c.setTransform(camera.zoom, 0, 0, camera.zoom, -view.x * camera.zoom, -view.y * camera.zoom);
+    };
 
     const render = () => {
-        // Clear - White Water
-        ctx.fillStyle = '#ffffff'; 
+        // Land außerhalb des Spielfelds, dann das Wasser - White Water
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.fillStyle = '#cbd5e1'; // Slate 300
         ctx.fillRect(0, 0, canvas.width, canvas.height);
+        applyCamera(ctx);
+        ctx.fillStyle = '#ffffff'; 
+        ctx.fillRect(0, 0, fieldBounds.width, fieldBounds.height);
+
+        if (marks.length > 0) {
+            // Kurs mit Bahnmarken: keine Zielzone
+        } else if (!finish || finish.x <= 0) {
+            // Draw Target Zone (Left Side) - Adjusted for White BG
+            const gradient = ctx.createLinearGradient(0, 0, 100, 0);
+            gradient.addColorStop(0, 'rgba(16, 185, 129, 0.2)'); // Emerald with low opacity
+            gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, 100, fieldBounds.height);
+            
+            // Draw Target Line
+            ctx.strokeStyle = '#10b981'; // Emerald 500
+            ctx.setLineDash([10, 10]);
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.moveTo(10, 0);
+            ctx.lineTo(10, fieldBounds.height);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        } else {
+            // Zielzone aus dem Kurs-Editor irgendwo im Feld
+            ctx.fillStyle = 'rgba(16, 185, 129, 0.2)';
+            ctx.fillRect(finish.x, finish.y, finish.width, finish.height);
+            ctx.strokeStyle = '#10b981'; // Emerald 500
+            ctx.setLineDash([10, 10]);
+            ctx.lineWidth = 2;
+            ctx.strokeRect(finish.x, finish.y, finish.width, finish.height);
+            ctx.setLineDash([]);
+        }
 
-        // Draw Target Zone (Left Side) - Adjusted for White BG
-        const gradient = ctx.createLinearGradient(0, 0, 100, 0);
-        gradient.addColorStop(0, 'rgba(16, 185, 129, 0.2)'); // Emerald with low opacity
-        gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, 100, canvas.height);
-        
-        // Draw Target Line
-        ctx.strokeStyle = '#10b981'; // Emerald 500
-        ctx.setLineDash([10, 10]);
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        ctx.moveTo(10, 0);
-        ctx.lineTo(10, canvas.height);
-        ctx.stroke();
-        ctx.setLineDash([]);
-
-        // Draw Static Water Grid - Light Gray
+        // Draw Static Water Grid - Light Gray (nur im sichtbaren Ausschnitt)
         ctx.strokeStyle = '#e2e8f0'; // Slate 200
         ctx.lineWidth = 1;
         const gridSize = 100;
+        const left = Math.max(0, view.x);
+        const top = Math.max(0, view.y);
+        const right = Math.min(fieldBounds.width, view.x + view.width);
+        const bottom = Math.min(fieldBounds.height, view.y + view.height);
         
-        for (let x = 0; x < canvas.width; x += gridSize) {
+        for (let x = Math.ceil(left / gridSize) * gridSize; x < right; x += gridSize) {
             ctx.beginPath();
-            ctx.moveTo(x, 0);
-            ctx.lineTo(x, canvas.height);
+            ctx.moveTo(x, top);
+            ctx.lineTo(x, bottom);
             ctx.stroke();
         }
-        for (let y = 0; y < canvas.height; y += gridSize) {
+        for (let y = Math.ceil(top / gridSize) * gridSize; y < bottom; y += gridSize) {
             ctx.beginPath();
-            ctx.moveTo(0, y);
-            ctx.lineTo(canvas.width, y);
+            ctx.moveTo(left, y);
+            ctx.lineTo(right, y);
             ctx.stroke();
         }
 
+        // Wind field: gusts as darker water, lulls as pale glassy patches
+        const meanWind = { direction: windDirection, speed: windSpeed };
+        const localWind = (p: Vector2D) =>
+            windField ? windAt(windField, meanWind, rocks, fieldBounds, p, windTime) : meanWind;
+
+        if (windField) {
+            windField.gusts.forEach(gust => {
+                const c = gustCenterAt(gust, meanWind, fieldBounds, windTime);
+                const gradient = ctx.createRadialGradient(c.x, c.y, 0, c.x, c.y, gust.radius);
+                const alpha = Math.min(0.3, Math.abs(gust.strength) * 0.5);
+                const color = gust.strength > 0 ? '30, 58, 138' : '254, 243, 199'; // Blue 900 / Amber 100
+                gradient.addColorStop(0, `rgba(${color}, ${gust.strength > 0 ? alpha : alpha * 2})`);
+                gradient.addColorStop(1, `rgba(${color}, 0)`);
+                ctx.fillStyle = gradient;
+                ctx.beginPath();
+                ctx.arc(c.x, c.y, gust.radius, 0, Math.PI * 2);
+                ctx.fill();
+            });
+        }
+
+        // Current: subtle flow arrows on a coarse grid
+        if (current) {
+            ctx.strokeStyle = 'rgba(8, 145, 178, 0.35)'; // Cyan 600
+            ctx.lineWidth = 1.5;
+            const spacing = 120;
+            const firstX = Math.max(0, Math.floor(left / spacing)) * spacing + spacing / 2;
+            const firstY = Math.max(0, Math.floor(top / spacing)) * spacing + spacing / 2;
+            for (let x = firstX; x < right; x += spacing) {
+                for (let y = firstY; y < bottom; y += spacing) {
+                    const v = currentAt(current, { x, y }, windTime);
+                    const mag = Math.hypot(v.x, v.y);
+                    if (mag < 0.05) continue;
+                    const len = Math.min(40, 8 + mag * 25);
+                    const angle = Math.atan2(v.y, v.x);
+                    ctx.save();
+                    ctx.translate(x, y);
+                    ctx.rotate(angle);
+                    ctx.beginPath();
+                    ctx.moveTo(-len / 2, 0);
+                    ctx.lineTo(len / 2, 0);
+                    ctx.moveTo(len / 2 - 5, -3);
+                    ctx.lineTo(len / 2, 0);
+                    ctx.lineTo(len / 2 - 5, 3);
+                    ctx.stroke();
+                    ctx.restore();
+                }
+            }
+        }
+
         // Draw Wind - Yellow/Amber
         ctx.strokeStyle = '#d97706'; // Amber 600
         windParticlesRef.current.forEach(p => {
-            // Move particle absolute L->R
-            // Wind speed factor from props
-            const speedFactor = windSpeed / WIND_SPEED; // 1.0 at level 1, increases with level
+            // Particles follow the local wind (speed and direction)
+            const w = localWind(p);
+            const speedFactor = w.speed / WIND_SPEED; // 1.0 at level 1, increases with level
             const animationScale = 0.08; // tuned: slower at start, faster with rising wind
             const v = p.speed * speedFactor * animationScale;
-            p.x += Math.cos(windDirection) * v;
-            p.y += Math.sin(windDirection) * v;
+            p.x += Math.cos(w.direction) * v;
+            p.y += Math.sin(w.direction) * v;
 
             // Wrap
-            if (p.x > canvas.width + p.len) p.x = -p.len;
-            if (p.x < -p.len) p.x = canvas.width + p.len;
-            if (p.y > canvas.height + p.len) p.y = -p.len;
-            if (p.y < -p.len) p.y = canvas.height + p.len;
+            if (p.x > fieldBounds.width + p.len) p.x = -p.len;
+            if (p.x < -p.len) p.x = fieldBounds.width + p.len;
+            if (p.y > fieldBounds.height + p.len) p.y = -p.len;
+            if (p.y < -p.len) p.y = fieldBounds.height + p.len;
             
             // Y jitter slightly
-            p.y += (Math.random() - 0.5) * 0.5;
+            p.y += (particleRngRef.current() - 0.5) * 0.5;
 
             ctx.beginPath();
             ctx.moveTo(p.x, p.y);
             ctx.lineTo(
-                p.x + Math.cos(windDirection) * p.len,
-                p.y + Math.sin(windDirection) * p.len
+                p.x + Math.cos(w.direction) * p.len,
+                p.y + Math.sin(w.direction) * p.len
             );
             ctx.lineWidth = 2;
             ctx.stroke();
@@ -118,14 +270,20 @@ const SimulationCanvas: React.FC<Props> = ({ boat, windSpeed, windDirection, has
         // Draw Rocks (Felsen) als feste Hindernisse im Spielfeld
         // Standard: nur im Sichtkreis um das Boot zeichnen, damit Felsen im Nebel wirklich „unsichtbar“ sind.
         // Mit revealMap: kompletter Nebel weg + alle Felsen sichtbar.
-        const fogRadius = 260; // Basis-Sicht-Radius (wird auch für den Nebel genutzt)
-        const rockVisibleRadius = fogRadius * 0.9;
+        const fogRadius = FOG_RADIUS; // Basis-Sicht-Radius (wird auch für den Nebel genutzt)
+        const rockVisibleRadius = ROCK_VISIBLE_RADIUS;
+        // Zwei Spieler teilen sich den Bildschirm: Sicht um beide Boote, Karte nur offen, wenn beide sie haben
+        const viewers = player2 ? [boat.position, player2.boat.position] : [boat.position];
+        const mapRevealed = revealMap && (!player2 || player2.upgrades.revealMap);
 
         if (rocks.length > 0) {
             ctx.save();
-            if (!revealMap) {
+            if (!mapRevealed) {
                 ctx.beginPath();
-                ctx.arc(boat.position.x, boat.position.y, rockVisibleRadius, 0, Math.PI * 2);
+                viewers.forEach(p => {
+                    ctx.moveTo(p.x + rockVisibleRadius, p.y);
+                    ctx.arc(p.x, p.y, rockVisibleRadius, 0, Math.PI * 2);
+                });
                 ctx.clip();
             }
 
@@ -133,25 +291,11 @@ const SimulationCanvas: React.FC<Props> = ({ boat, windSpeed, windDirection, has
             ctx.strokeStyle = '#020617'; // Slate 950
             ctx.lineWidth = 2;
 
-            rocks.forEach((rock, index) => {
-                const spikes = 6 + (index % 4); // leicht unterschiedliche „Zackigkeit“
+            rocks.forEach(rock => {
                 const baseRadius = rock.radius;
 
-                ctx.beginPath();
-                for (let i = 0; i < spikes; i++) {
-                    const angle = (i / spikes) * Math.PI * 2;
-                    // Unregelmässigkeit: mal etwas länger, mal etwas kürzer
-                    const variance = 0.6 + 0.5 * Math.sin(i * 1.7 + index);
-                    const r = baseRadius * variance;
-                    const px = rock.position.x + Math.cos(angle) * r;
-                    const py = rock.position.y + Math.sin(angle) * r;
-                    if (i === 0) {
-                        ctx.moveTo(px, py);
-                    } else {
-                        ctx.lineTo(px, py);
-                    }
-                }
-                ctx.closePath();
+                // Umriss des Felsens, derselbe wie für die Kollision
+                tracePolygon(ctx, rockPolygon(rock));
                 ctx.fill();
                 ctx.stroke();
 
@@ -174,93 +318,341 @@ const SimulationCanvas: React.FC<Props> = ({ boat, windSpeed, windDirection, has
             ctx.restore(); // Clip beenden
         }
 
-        // Zum Schluss das Boot zeichnen
-        ctx.save();
-        ctx.translate(boat.position.x, boat.position.y);
-        ctx.rotate(boat.heading);
-
-        // Hull - Light Gray with Dark Border for contrast on White
-        ctx.fillStyle = '#f8fafc'; // Slate 50
-        ctx.strokeStyle = '#334155'; // Slate 700
-        ctx.lineWidth = 2;
-        ctx.beginPath();
-        // Simple boat shape
-        ctx.moveTo(25, 0); // Bow
-        ctx.bezierCurveTo(10, 15, -20, 15, -25, 10); // Starboard side
-        ctx.lineTo(-25, -10); // Stern
-        ctx.bezierCurveTo(-20, -15, 10, -15, 25, 0); // Port side
-        ctx.fill();
-        ctx.stroke();
-
-        // Deck details
-        ctx.fillStyle = '#cbd5e1'; // Slate 300
-        ctx.beginPath();
-        ctx.arc(-10, 0, 8, 0, Math.PI * 2); // Cockpit
-        ctx.fill();
-        ctx.stroke();
-
-        // Mast Base
-        ctx.fillStyle = '#1e293b';
-        ctx.beginPath();
-        ctx.arc(5, 0, 3, 0, Math.PI * 2);
-        ctx.fill();
-
-        // Rudder
-        ctx.save();
-        ctx.translate(-25, 0); // Stern
-        ctx.rotate(boat.rudderAngle);
-        ctx.fillStyle = '#64748b'; // Slate 500
-        ctx.fillRect(-2, -8, 8, 16);
-        ctx.restore();
-
-        // Mast & Sail - Only if hasSail is true
-        if (hasSail) {
+        // Bahnmarken: Tonnen (rot = an Backbord lassen, grün = an Steuerbord), Tore, Ziellinie.
+        // Die nächste Marke pulsiert, erledigte sind blass.
+        const pulse = 0.5 + 0.5 * Math.sin(Date.now() / 200);
+        const drawBuoy = (p: Vector2D, color: string) => {
+            ctx.beginPath();
+            ctx.arc(p.x, p.y, 9, 0, Math.PI * 2);
+            ctx.fillStyle = color;
+            ctx.fill();
+            ctx.strokeStyle = '#0f172a';
+            ctx.lineWidth = 2;
+            ctx.stroke();
+        };
+        marks.forEach((mark, index) => {
             ctx.save();
-            ctx.translate(5, 0); // Mast position
-            ctx.rotate(boat.sailAngle);
-            
-            // Boom
-            ctx.strokeStyle = '#1e293b'; // Slate 800
-            ctx.lineWidth = 4;
+            if (index < nextMark) ctx.globalAlpha = 0.25;
+            const isNext = index === nextMark;
+
+            if (isNext) {
+                const c = mark.type === 'buoy' ? mark.position : { x: (mark.a.x + mark.b.x) / 2, y: (mark.a.y + mark.b.y) / 2 };
+                const r = mark.type === 'buoy' ? 22 : Math.hypot(mark.a.x - mark.b.x, mark.a.y - mark.b.y) / 2 + 16;
+                ctx.beginPath();
+                ctx.arc(c.x, c.y, r + pulse * 8, 0, Math.PI * 2);
+                ctx.strokeStyle = `rgba(245, 158, 11, ${0.5 + 0.5 * pulse})`; // Amber 500
+                ctx.lineWidth = 3;
+                ctx.stroke();
+            }
+
+            if (mark.type === 'buoy') {
+                drawBuoy(mark.position, mark.rounding === 'port' ? '#ef4444' : '#22c55e');
+            } else {
+                ctx.beginPath();
+                ctx.moveTo(mark.a.x, mark.a.y);
+                ctx.lineTo(mark.b.x, mark.b.y);
+                ctx.setLineDash(mark.type === 'finish' ? [6, 6] : [10, 8]);
+                ctx.strokeStyle = mark.type === 'finish' ? '#0f172a' : '#f59e0b';
+                ctx.lineWidth = 2;
+                ctx.stroke();
+                ctx.setLineDash([]);
+                const color = mark.type === 'finish' ? '#f8fafc' : '#f59e0b';
+                drawBuoy(mark.a, color);
+                drawBuoy(mark.b, color);
+            }
+
+            // Reihenfolge
+            const label = mark.type === 'buoy' ? mark.position : mark.a;
+            ctx.fillStyle = '#0f172a';
+            ctx.font = 'bold 12px sans-serif';
+            ctx.fillText(mark.type === 'finish' ? t('course.finish') : String(index + 1), label.x + 12, label.y - 12);
+            ctx.restore();
+        });
+
+        // Trainingshilfe: Laylines zum Ziel (rot = Backbord-, grün = Steuerbordbug), schnellste Route, beste VMG-Richtung
+        if (routeOverlay) {
+            ctx.save();
+            ctx.lineWidth = 2;
+            ctx.setLineDash([8, 6]);
+            routeOverlay.laylines.forEach(line => {
+                ctx.strokeStyle = line.side === 'port' ? 'rgba(239, 68, 68, 0.6)' : 'rgba(34, 197, 94, 0.6)';
+                ctx.beginPath();
+                ctx.moveTo(line.from.x, line.from.y);
+                ctx.lineTo(line.to.x, line.to.y);
+                ctx.stroke();
+            });
+            ctx.setLineDash([]);
+
+            const route = routeOverlay.route;
+            if (route) {
+                ctx.strokeStyle = 'rgba(124, 58, 237, 0.7)'; // Violet 600
+                ctx.lineWidth = 3;
+                ctx.beginPath();
+                route.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+                ctx.stroke();
+                ctx.fillStyle = '#7c3aed';
+                route.slice(1, -1).forEach(p => {
+                    ctx.beginPath();
+                    ctx.arc(p.x, p.y, 4, 0, Math.PI * 2);
+                    ctx.fill();
+                });
+            }
+
+            // Pfeil vom Boot in die Richtung mit der besten VMG zum Ziel
+            const len = 80;
+            ctx.translate(boat.position.x, boat.position.y);
+            ctx.rotate(routeOverlay.bestHeading);
+            ctx.strokeStyle = '#f59e0b'; // Amber 500
+            ctx.fillStyle = '#f59e0b';
+            ctx.lineWidth = 3;
             ctx.beginPath();
-            ctx.moveTo(0, 0);
-            ctx.lineTo(-35, 0);
+            ctx.moveTo(30, 0);
+            ctx.lineTo(len, 0);
+            ctx.stroke();
+            ctx.beginPath();
+            ctx.moveTo(len + 8, 0);
+            ctx.lineTo(len - 2, -6);
+            ctx.lineTo(len - 2, 6);
+            ctx.closePath();
+            ctx.fill();
+            ctx.restore();
+        }
+
+        // Geist der Bestzeit: durchscheinender Rumpf zur gleichen Versuchszeit
+        if (ghost) {
+            const [gx, gy, gHeading] = ghost;
+            ctx.save();
+            ctx.globalAlpha = 0.35;
+            ctx.translate(gx, gy);
+            ctx.rotate(gHeading);
+            ctx.fillStyle = '#a78bfa'; // Violet 400
+            ctx.strokeStyle = '#6d28d9'; // Violet 700
+            ctx.lineWidth = 2;
+            ctx.setLineDash([4, 4]);
+            traceHull(ctx);
+            ctx.fill();
+            ctx.stroke();
+            ctx.restore();
+        }
+
+        // Gegner: Rumpf in eigener Farbe, Segel nach dem lokalen Wind, Name darüber.
+        // Boote im Ziel bleiben blass liegen.
+        for (const opponent of opponents) {
+            const { boat: o } = opponent;
+            ctx.save();
+            if (opponent.finishedTick !== null) ctx.globalAlpha = 0.4;
+            ctx.save();
+            ctx.translate(o.position.x, o.position.y);
+            ctx.rotate(o.heading);
+            ctx.fillStyle = opponent.color;
+            ctx.strokeStyle = '#334155'; // Slate 700
+            ctx.lineWidth = 2;
+            traceHull(ctx);
+            ctx.fill();
             ctx.stroke();
 
-            // Mainsail
-            // Change color to visible stone/gray for white background
+            ctx.translate(5, 0); // Mast
+            ctx.rotate(o.sailAngle);
             ctx.fillStyle = '#e7e5e4'; // Stone 200
             ctx.strokeStyle = '#57534e'; // Stone 600
-            ctx.lineWidth = 2;
             ctx.beginPath();
-            ctx.moveTo(0, 0); // Mast
-            ctx.lineTo(-35, 0); // Boom end
-            // Curve for wind fill
-            // If wind is from left (relative), curve right
-            ctx.quadraticCurveTo(-15, -10, 0, -50); // Head of sail
+            ctx.moveTo(0, 0);
+            ctx.lineTo(-35, 0);
+            ctx.quadraticCurveTo(-15, -10, 0, -50);
             ctx.closePath();
             ctx.fill();
             ctx.stroke();
+            ctx.restore();
+
+            ctx.font = 'bold 12px sans-serif';
+            ctx.textAlign = 'center';
+            ctx.fillStyle = opponent.color;
+            ctx.fillText(opponent.name, o.position.x, o.position.y - 34);
+            ctx.restore();
+            if (opponent.penalty) drawPenaltyRing(ctx, o.position, opponent.penalty);
+        }
+
+        // Eigenes Boot (und Spieler 2): Rumpf, Ruder, Segel nach dem Trimm
+        const drawBoat = (b: BoatState, hullColor: string, boatHasSail: boolean, sailWind: number) => {
+            ctx.save();
+            ctx.translate(b.position.x, b.position.y);
+            ctx.rotate(b.heading);
+
+            // Hull with Dark Border for contrast on White
+            ctx.fillStyle = hullColor;
+            ctx.strokeStyle = '#334155'; // Slate 700
+            ctx.lineWidth = 2;
+            traceHull(ctx);
+            ctx.fill();
+            ctx.stroke();
+
+            // Deck details
+            ctx.fillStyle = '#cbd5e1'; // Slate 300
+            ctx.beginPath();
+            ctx.arc(-10, 0, 8, 0, Math.PI * 2); // Cockpit
+            ctx.fill();
+            ctx.stroke();
 
-            ctx.restore(); // End Sail
+            // Mast Base
+            ctx.fillStyle = '#1e293b';
+            ctx.beginPath();
+            ctx.arc(5, 0, 3, 0, Math.PI * 2);
+            ctx.fill();
+
+            // Rudder
+            ctx.save();
+            ctx.translate(-25, 0); // Stern
+            ctx.rotate(b.rudderAngle);
+            ctx.fillStyle = '#64748b'; // Slate 500
+            ctx.fillRect(-2, -8, 8, 16);
+            ctx.restore();
+
+            // Mast & Sail - Only if hasSail is true
+            if (boatHasSail) {
+                ctx.save();
+                ctx.translate(5, 0); // Mast position
+                ctx.rotate(b.sailAngle);
+            
+                // Boom
+                ctx.strokeStyle = '#1e293b'; // Slate 800
+                ctx.lineWidth = 4;
+                ctx.beginPath();
+                ctx.moveTo(0, 0);
+                ctx.lineTo(-35, 0);
+                ctx.stroke();
+
+                // Mainsail
+                // Change color to visible stone/gray for white background
+                ctx.fillStyle = '#e7e5e4'; // Stone 200
+                ctx.strokeStyle = '#57534e'; // Stone 600
+                ctx.lineWidth = 2;
+                ctx.beginPath();
+                ctx.moveTo(0, 0); // Mast
+                ctx.lineTo(-35, 0); // Boom end
+                // Curve for wind fill
+                // If wind is from left (relative), curve right.
+                // A luffing sail flutters, an over-trimmed one is pulled flat.
+                const trim = trimStateOf(trimError(b.sheet, b.heading, sailWind));
+                const belly = trim === 'luffing' ? -10 + Math.sin(performance.now() / 40) * 9 : trim === 'stalled' ? -4 : -10;
+                ctx.quadraticCurveTo(-15, belly, 0, -50); // Head of sail
+                ctx.closePath();
+                ctx.fill();
+                ctx.stroke();
+
+                ctx.restore(); // End Sail
+            }
+
+            ctx.restore(); // End Boat
+        };
+
+        // Spieler 2 (gelb), dann zum Schluss das eigene Boot obenauf
+        if (player2) {
+            drawBoat(player2.boat, PLAYER_TWO_COLOR, player2.upgrades.hasSail, localWind(player2.boat.position).direction);
         }
+        drawBoat(boat, '#f8fafc', hasSail, sailWindDirection ?? localWind(boat.position).direction); // Slate 50
+        if (player2?.penalty) drawPenaltyRing(ctx, player2.boat.position, player2.penalty);
+        if (penalty) drawPenaltyRing(ctx, boat.position, penalty);
+
+        // Fog of War / Nebel auf eigener Ebene: Umgebung wird abgedunkelt, um jedes Boot wird die Sicht weggewischt.
+        // Schon erkundetes Wasser bleibt halb aufgehellt. revealMap: Nebel komplett aus.
+        if (!mapRevealed) {
+            const fog = fogCanvasRef.current ?? document.createElement('canvas');
+            fogCanvasRef.current = fog;
+            fog.width = canvas.width;
+            fog.height = canvas.height;
+            const fctx = fog.getContext('2d');
+            if (fctx) {
+                fctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+                fctx.fillRect(0, 0, fog.width, fog.height);
+                applyCamera(fctx);
+                fctx.globalCompositeOperation = 'destination-out';
+                if (exploration) {
+                    fctx.save();
+                    fctx.filter = 'blur(12px)'; // weiche Ränder statt Treppenstufen
+                    fctx.fillStyle = `rgba(0, 0, 0, ${REMEMBERED_CLEAR})`;
+                    fctx.beginPath();
+                    const firstCol = Math.max(0, Math.floor(left / EXPLORE_CELL));
+                    const firstRow = Math.max(0, Math.floor(top / EXPLORE_CELL));
+                    for (let row = firstRow; row * EXPLORE_CELL < bottom; row++) {
+                        for (let col = firstCol; col * EXPLORE_CELL < right; col++) {
+                            if (isExplored(exploration, col, row)) fctx.rect(col * EXPLORE_CELL, row * EXPLORE_CELL, EXPLORE_CELL, EXPLORE_CELL);
+                        }
+                    }
+                    fctx.fill();
+                    fctx.restore();
+                }
+                viewers.forEach(p => {
+                    const clear = fctx.createRadialGradient(p.x, p.y, fogRadius * 0.3, p.x, p.y, fogRadius);
+                    clear.addColorStop(0, 'rgba(0, 0, 0, 1)');   // direkt um das Boot: keine Abdunkelung
+                    clear.addColorStop(0.6, `rgba(0, 0, 0, ${1 - 0.35 / 0.85})`); // mittlerer Bereich: etwas dunkler
+                    clear.addColorStop(1, 'rgba(0, 0, 0, 0)');   // Rand: sehr dunkel
+                    fctx.fillStyle = clear;
+                    fctx.fillRect(view.x, view.y, view.width, view.height);
+                });
+                ctx.save();
+                ctx.setTransform(1, 0, 0, 1, 0, 0);
+                ctx.drawImage(fog, 0, 0);
+                ctx.restore();
+            }
 
-        ctx.restore(); // End Boat
+            // Felsen, die schon einmal in Sicht waren: zuletzt bekannter Umriss, gestrichelt über dem Nebel
+            if (exploration) {
+                ctx.save();
+                ctx.strokeStyle = 'rgba(203, 213, 225, 0.8)'; // Slate 300
+                ctx.fillStyle = 'rgba(148, 163, 184, 0.25)'; // Slate 400
+                ctx.lineWidth = 1.5;
+                ctx.setLineDash([6, 4]);
+                rocks.forEach((rock, i) => {
+                    if (!exploration.rocks[i] || rockInSight(rock, viewers)) return;
+                    tracePolygon(ctx, rockPolygon(rock));
+                    ctx.fill();
+                    ctx.stroke();
+                });
+                ctx.restore();
+            }
+        }
 
-        // Fog of War / Nebel: Umgebung wird abgedunkelt, das Zentrum um das Boot bleibt klar.
-        // revealMap: Nebel komplett aus.
-        if (!revealMap) {
+        // Debug: Kollisionsformen über allem, auch über dem Nebel.
+        // Fels-Umriss mit seinen Dreiecken, gestrichelt der Kreis der Grobprüfung; Rumpf rot bei Berührung.
+        if (debugShapes) {
             ctx.save();
-            const fogGradient = ctx.createRadialGradient(
-                boat.position.x, boat.position.y, fogRadius * 0.3,
-                boat.position.x, boat.position.y, fogRadius
-            );
-            fogGradient.addColorStop(0, 'rgba(15, 23, 42, 0.0)');   // direkt um das Boot: keine Abdunkelung
-            fogGradient.addColorStop(0.6, 'rgba(15, 23, 42, 0.35)'); // mittlerer Bereich: etwas dunkler
-            fogGradient.addColorStop(1, 'rgba(15, 23, 42, 0.85)');   // Rand: sehr dunkel
+            ctx.lineWidth = 1;
+            ctx.strokeStyle = 'rgba(217, 70, 239, 0.9)'; // Fuchsia 500
+            ctx.setLineDash([6, 4]);
+            ctx.strokeRect(WALL_BUFFER, WALL_BUFFER, fieldBounds.width - 2 * WALL_BUFFER, fieldBounds.height - 2 * WALL_BUFFER);
+            rocks.forEach(rock => {
+                ctx.beginPath();
+                ctx.arc(rock.position.x, rock.position.y, rockExtent(rock), 0, Math.PI * 2);
+                ctx.stroke();
+            });
+            ctx.setLineDash([]);
+            rocks.forEach(rock => {
+                ctx.strokeStyle = 'rgba(217, 70, 239, 0.4)';
+                rockTriangles(rock).forEach(triangle => {
+                    tracePolygon(ctx, triangle);
+                    ctx.stroke();
+                });
+                ctx.strokeStyle = 'rgba(217, 70, 239, 0.9)';
+                ctx.lineWidth = 2;
+                tracePolygon(ctx, rockPolygon(rock));
+                ctx.stroke();
+                ctx.lineWidth = 1;
+            });
 
-            ctx.fillStyle = fogGradient;
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            const hulls = [boat, ...(player2 ? [player2.boat] : []), ...opponents.map(o => o.boat)];
+            hulls.forEach(b => {
+                const touching = rocks.some(rock => hullHitsRock(b.position, b.heading, rock));
+                ctx.strokeStyle = touching ? '#dc2626' : 'rgba(217, 70, 239, 0.9)'; // Red 600
+                ctx.lineWidth = 2;
+                tracePolygon(ctx, hullPolygon(b.position, b.heading));
+                ctx.stroke();
+                ctx.lineWidth = 1;
+                ctx.setLineDash([2, 3]);
+                ctx.beginPath();
+                ctx.arc(b.position.x, b.position.y, HULL_RADIUS, 0, Math.PI * 2);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            });
             ctx.restore();
         }
     };
@@ -273,9 +665,13 @@ const SimulationCanvas: React.FC<Props> = ({ boat, windSpeed, windDirection, has
     loop();
 
     return () => cancelAnimationFrame(animationFrameId);
-  }, [boat, windSpeed, windDirection, hasSail, revealMap]);
+  }, [boat, windSpeed, windDirection, windField, windTime, bounds, current, hasSail, revealMap, ghost, finish, marks, nextMark, routeOverlay, opponents, player2, penalty, debugShapes, camera, viewport, exploration, t]);
+
+  const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
+    if (onZoom && e.deltaY !== 0) onZoom(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP);
+  };
 
-  return <canvas ref={canvasRef} className="absolute inset-0 block" />;
+  return <canvas ref={canvasRef} className="absolute inset-0 block" onWheel={handleWheel} />;
 };
 
 export default SimulationCanvas;
\ No newline at end of file
@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { ChevronsDown, ChevronsUp, Crosshair, Smartphone } from 'lucide-react';
+import { MAX_RUDDER_ANGLE } from '../utils/simulation';
+import { MAX_SHEET } from '../utils/physics';
+import { useI18n } from '../utils/i18n';
+
+interface Props {
+  rudderAngle: number; // The boat's rudder, whoever steers it: the wheel always shows it
+  sheet: number;
+  autoTrim: boolean;
+  tilt: boolean;
+  onSteer: (rudder: number) => void; // Raw wheel position in [-1, 1]
+  onSheetTarget: (sheet: number) => void;
+  onToggleTilt: () => void;
+  onCalibrateTilt: () => void;
+}
+
+const WHEEL_SIZE = 128;
+const WHEEL_DRAG = 64; // Finger travel sideways for full rudder (px)
+const WHEEL_TURN_DEG = 90; // Wheel rotation at full rudder
+const SHEET_HEIGHT = 128;
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+/**
+ * Touch-Steuerung fürs Handy: Steuerrad zum seitlichen Ziehen (Ruder proportional zum Weg, springt beim Loslassen
+ * zurück), Schot-Schieber (nach unten = dicht) und die Neigungssteuerung mit Kalibrieren.
+ */
+const TouchControls: React.FC<Props> = ({ rudderAngle, sheet, autoTrim, tilt, onSteer, onSheetTarget, onToggleTilt, onCalibrateTilt }) => {
+  const { t } = useI18n();
+  const wheelStartRef = useRef<number | null>(null);
+  const [sheetTarget, setSheetTarget] = useState<number | null>(null);
+
+  const handleWheelDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    wheelStartRef.current = e.clientX;
+  };
+  const handleWheelMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (wheelStartRef.current === null) return;
+    onSteer(clamp((e.clientX - wheelStartRef.current) / WHEEL_DRAG));
+  };
+  const handleWheelUp = () => {
+    wheelStartRef.current = null;
+    onSteer(0);
+  };
+
+  // Slider position -> sheet: bottom = sheeted in hard, top = eased all the way
+  const handleSheetPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    else if (sheetTarget === null) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const target = Math.max(0, Math.min(1, (rect.bottom - e.clientY) / rect.height)) * MAX_SHEET;
+    setSheetTarget(target);
+    onSheetTarget(target);
+  };
+
+  const wheelDeg = (rudderAngle / MAX_RUDDER_ANGLE) * WHEEL_TURN_DEG;
+  const c = WHEEL_SIZE / 2;
+
+  return (
+    <div className="flex items-end gap-4">
+        {!autoTrim && (
+            <div className="flex flex-col items-center gap-1 text-[10px] font-bold text-sky-700">
+                <ChevronsUp className="w-4 h-4" />
+                <div
+                    className="relative w-10 bg-white/90 rounded-full shadow-lg overflow-hidden touch-none"
+                    style={{ height: SHEET_HEIGHT }}
+                    onPointerDown={handleSheetPointer}
+                    onPointerMove={handleSheetPointer}
+                    onPointerUp={() => setSheetTarget(null)}
+                    onPointerCancel={() => setSheetTarget(null)}
+                    title={t('touch.sheet.title')}
+                >
+                    <div className="absolute bottom-0 left-0 right-0 bg-sky-200" style={{ height: `${(sheet / MAX_SHEET) * 100}%` }} />
+                    {sheetTarget !== null && (
+                        <div className="absolute left-1 right-1 h-1 -mb-0.5 rounded bg-sky-700" style={{ bottom: `${(sheetTarget / MAX_SHEET) * 100}%` }} />
+                    )}
+                </div>
+                <ChevronsDown className="w-4 h-4" />
+                {t('touch.sheet')}
+            </div>
+        )}
+
+        <div
+            className="touch-none select-none"
+            onPointerDown={handleWheelDown}
+            onPointerMove={handleWheelMove}
+            onPointerUp={handleWheelUp}
+            onPointerCancel={handleWheelUp}
+            title={t('touch.wheel.title')}
+        >
+            <svg width={WHEEL_SIZE} height={WHEEL_SIZE} viewBox={`0 0 ${WHEEL_SIZE} ${WHEEL_SIZE}`} className="drop-shadow-lg">
+                <circle cx={c} cy={c} r={c - 4} fill="rgba(255,255,255,0.9)" />
+                <g transform={`rotate(${wheelDeg} ${c} ${c})`} stroke="#0369a1" strokeLinecap="round">
+                    <circle cx={c} cy={c} r={c - 16} fill="none" strokeWidth={8} />
+                    {[0, 60, 120, 180, 240, 300].map(deg => (
+                        <line
+                            key={deg}
+                            x1={c} y1={c} x2={c} y2={6}
+                            strokeWidth={deg === 0 ? 6 : 4}
+                            stroke={deg === 0 ? '#f59e0b' : '#0369a1'}
+                            transform={`rotate(${deg} ${c} ${c})`}
+                        />
+                    ))}
+                    <circle cx={c} cy={c} r={10} fill="#0369a1" strokeWidth={0} />
+                </g>
+            </svg>
+        </div>
+
+        <div className="flex flex-col gap-2">
+            <button
+                type="button"
+                onClick={onToggleTilt}
+                className={`w-12 h-12 rounded-full shadow-lg flex items-center justify-center ${tilt ? 'bg-sky-600 text-white' : 'bg-white/90 text-sky-700'}`}
+                title={t('touch.tilt.title')}
+            >
+                <Smartphone className={`w-5 h-5 ${tilt ? 'rotate-12' : ''}`} />
+            </button>
+            {tilt && (
+                <button
+                    type="button"
+                    onClick={onCalibrateTilt}
+                    className="w-12 h-12 bg-white/90 rounded-full shadow-lg flex items-center justify-center text-sky-700"
+                    title={t('touch.calibrate.title')}
+                >
+                    <Crosshair className="w-5 h-5" />
+                </button>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default TouchControls;
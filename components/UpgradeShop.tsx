@@ -0,0 +1,74 @@
+import React from 'react';
+import { Coins, Store, X } from 'lucide-react';
+import { UPGRADES, UpgradeId, UpgradeLevels, levelOf, maxLevel, nextLevelPrice } from '../utils/upgrades';
+import { useI18n } from '../utils/i18n';
+
+interface Props {
+  levels: UpgradeLevels;
+  coins: number;
+  onBuy: (id: UpgradeId) => void;
+  onClose: () => void;
+}
+
+/**
+ * Die Werft: alle Upgrades aus der Registry mit Stufe und Preis der nächsten Stufe.
+ * Bezahlt wird mit Münzen aus Levels ohne verlorenes Leben. Das Spiel läuft dahinter weiter.
+ */
+const UpgradeShop: React.FC<Props> = ({ levels, coins, onBuy, onClose }) => {
+  const { t } = useI18n();
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+        <div className="bg-white rounded-xl shadow-2xl p-4 text-slate-700 w-[28rem] max-w-[calc(100vw-2rem)]" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-3">
+                <span className="font-bold flex items-center gap-2">
+                    <Store className="w-5 h-5 text-sky-600" /> {t('shop.title')}
+                </span>
+                <span className="font-mono font-bold text-amber-600 flex items-center gap-1">
+                    <Coins className="w-4 h-4" /> {coins}
+                </span>
+                <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-700" title={t('shop.close')}>
+                    <X className="w-5 h-5" />
+                </button>
+            </div>
+            <div className="space-y-2">
+                {UPGRADES.map(upgrade => {
+                    const Icon = upgrade.icon;
+                    const level = levelOf(levels, upgrade.id);
+                    const price = nextLevelPrice(levels, upgrade);
+                    return (
+                        <div key={upgrade.id} className="flex items-center gap-3 rounded-lg border border-slate-200 p-2">
+                            <div className={`${upgrade.badge.color} text-white rounded-lg p-2 shrink-0`}>
+                                <Icon className="w-5 h-5" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold text-sm flex items-center gap-2">
+                                    {t(upgrade.name)}
+                                    <span className="text-[10px] font-mono text-slate-400">{t('shop.level', { level, max: maxLevel(upgrade) })}</span>
+                                </div>
+                                <div className="text-xs text-slate-500">{t(upgrade.description)}</div>
+                            </div>
+                            {price === null ? (
+                                <span className="text-xs font-bold text-emerald-600 shrink-0">{t('shop.maxed')}</span>
+                            ) : (
+                                <button
+                                    type="button"
+                                    onClick={() => onBuy(upgrade.id)}
+                                    disabled={price > coins}
+                                    className="shrink-0 flex items-center gap-1 rounded-lg bg-amber-500 hover:bg-amber-600 text-white text-xs font-bold px-3 py-1.5 disabled:opacity-40 disabled:hover:bg-amber-500"
+                                >
+                                    <Coins className="w-3 h-3" /> {price}
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            <div className="text-xs text-slate-500 mt-3">
+                {t('shop.hint')}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default UpgradeShop;
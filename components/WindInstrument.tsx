@@ -0,0 +1,91 @@
+import React from 'react';
+import { WindState } from '../types';
+import { windAngleDeg } from '../utils/physics';
+import { useI18n } from '../utils/i18n';
+
+interface Props {
+  heading: number;
+  trueWind: WindState;
+  apparentWind: WindState;
+  noGoDeg: number;
+}
+
+const SIZE = 120;
+const R = 50; // Radius of the dial
+
+// Point on the dial for an angle relative to the bow (0 = up, clockwise = starboard)
+const onDial = (deg: number, radius: number) => {
+  const rad = ((deg - 90) * Math.PI) / 180;
+  return { x: SIZE / 2 + Math.cos(rad) * radius, y: SIZE / 2 + Math.sin(rad) * radius };
+};
+
+// Arrow from the rim towards the centre: the wind blows in from that side
+const WindArrow: React.FC<{ deg: number; color: string; inner: number }> = ({ deg, color, inner }) => {
+  const tail = onDial(deg, R - 2);
+  const tip = onDial(deg, inner);
+  const back = onDial(deg, inner + 9);
+  // Perpendicular to the arrow for the head
+  const px = Math.cos((deg * Math.PI) / 180) * 5;
+  const py = Math.sin((deg * Math.PI) / 180) * 5;
+  return (
+    <g>
+      <line x1={tail.x} y1={tail.y} x2={back.x} y2={back.y} stroke={color} strokeWidth={3} strokeLinecap="round" />
+      <path d={`M ${tip.x} ${tip.y} L ${back.x + px} ${back.y + py} L ${back.x - px} ${back.y - py} Z`} fill={color} />
+    </g>
+  );
+};
+
+/**
+ * Round wind instrument, boat up: true wind (blue) and apparent wind (amber) side by side,
+ * with the no-go sector shaded and the port/starboard halves in red/green.
+ */
+const WindInstrument: React.FC<Props> = ({ heading, trueWind, apparentWind, noGoDeg }) => {
+  const { t, number } = useI18n();
+  const twa = windAngleDeg(heading, trueWind.direction);
+  const awa = windAngleDeg(heading, apparentWind.direction);
+
+  const noGoLeft = onDial(-noGoDeg, R);
+  const noGoRight = onDial(noGoDeg, R);
+
+  return (
+    <div className="flex items-center gap-3">
+      <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} className="shrink-0">
+        <circle cx={SIZE / 2} cy={SIZE / 2} r={R} fill="#f8fafc" stroke="#cbd5e1" strokeWidth={2} />
+        {/* Backbord rot, Steuerbord grün */}
+        <path d={`M ${SIZE / 2} ${SIZE / 2 - R} A ${R} ${R} 0 0 0 ${SIZE / 2} ${SIZE / 2 + R}`} fill="none" stroke="#fecaca" strokeWidth={4} />
+        <path d={`M ${SIZE / 2} ${SIZE / 2 - R} A ${R} ${R} 0 0 1 ${SIZE / 2} ${SIZE / 2 + R}`} fill="none" stroke="#bbf7d0" strokeWidth={4} />
+        {/* No-go sector */}
+        <path
+          d={`M ${SIZE / 2} ${SIZE / 2} L ${noGoLeft.x} ${noGoLeft.y} A ${R} ${R} 0 0 1 ${noGoRight.x} ${noGoRight.y} Z`}
+          fill="rgba(248, 113, 113, 0.15)"
+        />
+        {[0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330].map(deg => {
+          const a = onDial(deg, R);
+          const b = onDial(deg, R - (deg % 90 === 0 ? 8 : 4));
+          return <line key={deg} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#94a3b8" strokeWidth={1} />;
+        })}
+        {/* Boat, bow up */}
+        <path
+          d={`M ${SIZE / 2} ${SIZE / 2 - 16} Q ${SIZE / 2 + 8} ${SIZE / 2} ${SIZE / 2 + 6} ${SIZE / 2 + 14} L ${SIZE / 2 - 6} ${SIZE / 2 + 14} Q ${SIZE / 2 - 8} ${SIZE / 2} ${SIZE / 2} ${SIZE / 2 - 16} Z`}
+          fill="#e2e8f0"
+          stroke="#475569"
+          strokeWidth={1.5}
+        />
+        <WindArrow deg={twa} color="#0284c7" inner={22} />
+        <WindArrow deg={awa} color="#d97706" inner={28} />
+      </svg>
+      <div className="text-xs space-y-2">
+        <div>
+          <div className="font-bold text-sky-700">{t('wind.true')}</div>
+          <div className="font-mono text-slate-700">{Math.round(Math.abs(twa))}° {t(twa >= 0 ? 'wind.starboard' : 'wind.port')} · {number(trueWind.speed, 0)} kn</div>
+        </div>
+        <div>
+          <div className="font-bold text-amber-600">{t('wind.apparent')}</div>
+          <div className="font-mono text-slate-700">{Math.round(Math.abs(awa))}° {t(awa >= 0 ? 'wind.starboard' : 'wind.port')} · {number(apparentWind.speed, 0)} kn</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WindInstrument;
@@ -5,6 +5,14 @@ export const ACCELERATION = 0.05;
 export const DRAG = 0.02;
 export const NO_GO_ZONE_DEG = 45; // Degrees from wind direction where lift fails
 export const FPS = 60;
+export const FIXED_TIMESTEP = 1 / FPS; // Seconds per simulation tick
+export const MAX_FRAME_TIME = 0.25; // Clamp long frames (tab switch) so the sim doesn't spiral
+export const MAX_LIVES = 5;
+export const FINISH_ZONE_X = 20; // Crossing this x (left edge) wins the level
+export const WALL_BUFFER = 20;
+export const BOAT_SAFETY_RADIUS = 25; // Roughly half a hull length
+export const FOG_RADIUS = 260; // Clear view around the boat without revealMap
+export const ROCK_VISIBLE_RADIUS = FOG_RADIUS * 0.9; // Rocks inside this radius are known
 
 // Convert degrees to radians
 export const degToRad = (deg: number) => (deg * Math.PI) / 180;
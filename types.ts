@@ -9,6 +9,7 @@ export interface BoatState {
   speed: number;      // Current scalar speed
   rudderAngle: number; // Visual rudder angle
   sailAngle: number;   // Visual sail angle relative to boat
+  sheet: number;       // How far the sheet lets the boom out (radians, 0 = sheeted in hard)
 }
 
 export interface WindState {
@@ -16,8 +17,34 @@ export interface WindState {
   speed: number;
 }
 
-// Ein fester Fels im Spielfeld, mit Position und Kollider-Radius
+// Achsenparalleles Rechteck, z.B. die Zielzone
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Bahnmarke: Tonne mit Rundungsseite, Tor aus zwei Tonnen oder Ziellinie
+export type RoundingSide = 'port' | 'starboard'; // Marke an Backbord / Steuerbord lassen
+
+export type Mark =
+  | { type: 'buoy'; position: Vector2D; rounding: RoundingSide }
+  | { type: 'gate'; a: Vector2D; b: Vector2D } // zwischen a und b hindurch
+  | { type: 'finish'; a: Vector2D; b: Vector2D }; // Ziellinie von a nach b
+
+// Ein fester Fels im Spielfeld: Position, Radius und Umriss (gezeichnet und für Kollisionen genutzt)
 export interface RockState {
   position: Vector2D;
   radius: number;
-}
\ No newline at end of file
+  outline: number[]; // Abstand der Ecken vom Mittelpunkt in Radien, Ecken gleichmäßig im Kreis verteilt (siehe rockOutline)
+}
+
+// Wirkung der freigeschalteten Upgrades auf die Bootsphysik (aus den Stufen der Registry in utils/upgrades.ts)
+export interface Upgrades {
+  hasSail: boolean;
+  turnMultiplier: number;
+  speedMultiplier: number;
+  revealMap: boolean; // "karpi": kein Nebel, alle Felsen sichtbar
+  autoTrim: boolean; // "trimmfuchs": Schot wird automatisch optimal gefahren
+}
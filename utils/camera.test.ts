@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ZOOM, MIN_ZOOM, clampZoom, followCamera, overviewZoom, visibleRect } from './camera';
+import { WORLD_BOUNDS } from './course';
+
+const VIEWPORT = { width: 1200, height: 700 };
+
+describe('zoom', () => {
+  it('stays within its limits', () => {
+    expect(clampZoom(10)).toBe(MAX_ZOOM);
+    expect(clampZoom(0)).toBe(MIN_ZOOM);
+    expect(clampZoom(1.5)).toBe(1.5);
+  });
+
+  it('fits the whole world for the overview', () => {
+    expect(overviewZoom(VIEWPORT, WORLD_BOUNDS)).toBe(0.5);
+    expect(overviewZoom({ width: 100, height: 100 }, WORLD_BOUNDS)).toBe(MIN_ZOOM);
+  });
+});
+
+describe('followCamera', () => {
+  it('keeps a single boat in the middle of the screen', () => {
+    expect(followCamera([{ x: 1000, y: 600 }], 1, VIEWPORT, WORLD_BOUNDS)).toEqual({ center: { x: 1000, y: 600 }, zoom: 1 });
+  });
+
+  it('does not look past the edge of the world', () => {
+    const camera = followCamera([{ x: 50, y: 1390 }], 1, VIEWPORT, WORLD_BOUNDS);
+    expect(camera.center).toEqual({ x: 600, y: 1400 - 350 });
+    const rect = visibleRect(camera, VIEWPORT);
+    expect(rect.x).toBe(0);
+    expect(rect.y + rect.height).toBe(WORLD_BOUNDS.height);
+  });
+
+  it('centres a world smaller than the screen', () => {
+    const small = { width: 800, height: 400 };
+    expect(followCamera([{ x: 10, y: 10 }], 1, VIEWPORT, small).center).toEqual({ x: 400, y: 200 });
+  });
+
+  it('zooms out until two boats fit, but never in', () => {
+    const camera = followCamera([{ x: 400, y: 700 }, { x: 2000, y: 700 }], 1, VIEWPORT, WORLD_BOUNDS);
+    expect(camera.center.x).toBe(1200);
+    expect(camera.zoom).toBeCloseTo(1200 / 2000);
+    expect(followCamera([{ x: 1100, y: 700 }, { x: 1300, y: 700 }], 0.8, VIEWPORT, WORLD_BOUNDS).zoom).toBe(0.8);
+  });
+});
+
+describe('visibleRect', () => {
+  it('grows as the camera zooms out', () => {
+    expect(visibleRect({ center: { x: 1200, y: 700 }, zoom: 0.5 }, VIEWPORT)).toEqual({ x: 0, y: 0, width: 2400, height: 1400 });
+  });
+});
@@ -0,0 +1,66 @@
+import { Rect, Vector2D } from '../types';
+import { Bounds } from './simulation';
+
+/**
+ * What part of the world the screen shows: the world point in the middle of the viewport
+ * and the scale (screen pixels per world pixel).
+ */
+export interface Camera {
+  center: Vector2D;
+  zoom: number;
+}
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 2;
+export const DEFAULT_ZOOM = 1;
+export const ZOOM_STEP = 1.25; // Factor per zoom click / wheel notch
+
+// Room around the boats when the camera has to fit more than one of them
+const FOLLOW_MARGIN = 200;
+
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+/**
+ * Zoom at which the whole world fits into the viewport.
+ */
+export const overviewZoom = (viewport: Bounds, world: Bounds) =>
+  clampZoom(Math.min(viewport.width / world.width, viewport.height / world.height));
+
+// Camera position on one axis: as close to `target` as possible without looking past the world's edge.
+// A world narrower than the view is centred.
+const clampAxis = (target: number, view: number, world: number) =>
+  view >= world ? world / 2 : Math.max(view / 2, Math.min(world - view / 2, target));
+
+/**
+ * Camera following the boats. One boat sits in the middle of the screen; with two the camera
+ * centres between them and zooms out (never in) until both fit.
+ */
+export const followCamera = (targets: Vector2D[], zoom: number, viewport: Bounds, world: Bounds): Camera => {
+  const xs = targets.map(p => p.x);
+  const ys = targets.map(p => p.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const fit =
+    targets.length > 1
+      ? Math.min(viewport.width / (maxX - minX + 2 * FOLLOW_MARGIN), viewport.height / (maxY - minY + 2 * FOLLOW_MARGIN))
+      : Infinity;
+  const z = clampZoom(Math.min(zoom, fit));
+  return {
+    center: {
+      x: clampAxis((minX + maxX) / 2, viewport.width / z, world.width),
+      y: clampAxis((minY + maxY) / 2, viewport.height / z, world.height),
+    },
+    zoom: z,
+  };
+};
+
+/**
+ * The world rectangle the camera shows.
+ */
+export const visibleRect = (camera: Camera, viewport: Bounds): Rect => {
+  const width = viewport.width / camera.zoom;
+  const height = viewport.height / camera.zoom;
+  return { x: camera.center.x - width / 2, y: camera.center.y - height / 2, width, height };
+};
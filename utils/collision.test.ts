@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { RockState } from '../types';
+import { BOAT_SAFETY_RADIUS } from '../constants';
+import { HULL_BOW, convexPolygonsOverlap, hullHitsRock, hullPolygon, hullsOverlap, rockOutline, rockPolygon } from './collision';
+
+// A diamond: corners 40 px out along the axes, edges running diagonally between them
+const ROCK: RockState = { position: { x: 0, y: 0 }, radius: 40, outline: [1, 1, 1, 1] };
+
+describe('hullPolygon', () => {
+  it('turns the hull with the heading', () => {
+    const [bow] = hullPolygon({ x: 100, y: 100 }, Math.PI / 2);
+    expect(bow.x).toBeCloseTo(100);
+    expect(bow.y).toBeCloseTo(100 + HULL_BOW.x);
+  });
+});
+
+describe('rockOutline', () => {
+  it('gives every rock 6 to 9 corners out from the centre', () => {
+    for (let i = 0; i < 8; i++) {
+      const outline = rockOutline(i);
+      expect(outline.length).toBeGreaterThanOrEqual(6);
+      expect(outline.length).toBeLessThanOrEqual(9);
+      for (const r of outline) expect(r).toBeGreaterThan(0);
+    }
+    expect(rockOutline(1)).not.toEqual(rockOutline(5));
+  });
+
+  it('places the corners around the rock', () => {
+    const [east, south] = rockPolygon(ROCK);
+    expect(east).toEqual({ x: 40, y: 0 });
+    expect(south.x).toBeCloseTo(0);
+    expect(south.y).toBeCloseTo(40);
+  });
+});
+
+describe('convexPolygonsOverlap', () => {
+  const square = (x: number) => [
+    { x, y: 0 },
+    { x: x + 10, y: 0 },
+    { x: x + 10, y: 10 },
+    { x, y: 10 },
+  ];
+
+  it('tells overlapping, touching and separate polygons apart', () => {
+    expect(convexPolygonsOverlap(square(0), square(5))).toBe(true);
+    expect(convexPolygonsOverlap(square(0), square(10))).toBe(true);
+    expect(convexPolygonsOverlap(square(0), square(10.01))).toBe(false);
+  });
+});
+
+describe('hullHitsRock', () => {
+  it('lets a boat pass close by the flat side of a rock', () => {
+    const position = { x: 45, y: 45 };
+    // The old circle check would have called this a crash
+    expect(Math.hypot(position.x, position.y)).toBeLessThan(ROCK.radius + BOAT_SAFETY_RADIUS);
+    expect(hullHitsRock(position, 0, ROCK)).toBe(false);
+  });
+
+  it('counts a bow reaching a corner as a hit, right up to its edge', () => {
+    expect(hullHitsRock({ x: ROCK.radius + HULL_BOW.x - 0.01, y: 0 }, Math.PI, ROCK)).toBe(true);
+    expect(hullHitsRock({ x: ROCK.radius + HULL_BOW.x + 0.01, y: 0 }, Math.PI, ROCK)).toBe(false);
+  });
+
+  it('checks the turned hull against the triangles of the rock', () => {
+    const position = { x: 0, y: 62 };
+    expect(hullHitsRock(position, 0, ROCK)).toBe(false);
+    expect(hullHitsRock(position, Math.PI / 2, ROCK)).toBe(true);
+    expect(hullHitsRock(position, -Math.PI / 2, ROCK)).toBe(true);
+  });
+
+  it('follows the outline, not the radius', () => {
+    const notched = { ...ROCK, outline: [0.5, 1, 1, 1] };
+    expect(hullHitsRock({ x: 50, y: 0 }, Math.PI, ROCK)).toBe(true);
+    expect(hullHitsRock({ x: 50, y: 0 }, Math.PI, notched)).toBe(false);
+  });
+});
+
+describe('hullsOverlap', () => {
+  it('lets boats sail side by side but not into each other', () => {
+    expect(hullsOverlap({ x: 0, y: 0 }, 0, { x: 0, y: 32 }, 0)).toBe(false);
+    expect(hullsOverlap({ x: 0, y: 0 }, 0, { x: 0, y: 20 }, 0)).toBe(true);
+    expect(hullsOverlap({ x: 0, y: 0 }, 0, { x: 0, y: 32 }, Math.PI / 2)).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import { RockState, Vector2D } from '../types';
+
+export type Polygon = Vector2D[];
+
+/**
+ * Hull shape in boat coordinates (bow at +x): the starboard side is a cubic Bézier from the bow
+ * to the transom, port is its mirror image. The renderer draws exactly these curves.
+ */
+export const HULL_BOW: Vector2D = { x: 25, y: 0 };
+export const HULL_STARBOARD: [Vector2D, Vector2D, Vector2D] = [
+  { x: 10, y: 15 },
+  { x: -20, y: 15 },
+  { x: -25, y: 10 }, // Transom corner
+];
+
+// Points per Bézier side of the collision hull; the curve is convex, so the polygon is too
+const HULL_SAMPLES = 6;
+
+const cubic = (p0: Vector2D, p1: Vector2D, p2: Vector2D, p3: Vector2D, t: number): Vector2D => {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  };
+};
+
+// Hull polygon in boat coordinates, bow first, around the starboard side and back up port
+export const HULL_OUTLINE: Polygon = (() => {
+  const [c1, c2, transom] = HULL_STARBOARD;
+  const starboard: Polygon = [];
+  for (let i = 0; i <= HULL_SAMPLES; i++) starboard.push(cubic(HULL_BOW, c1, c2, transom, i / HULL_SAMPLES));
+  const port = starboard.slice(1, -1).reverse().map(p => ({ x: p.x, y: -p.y }));
+  return [...starboard, { x: transom.x, y: -transom.y }, ...port];
+})();
+
+// Distance of the furthest hull corner from the boat's position, for a quick first check
+export const HULL_RADIUS = Math.max(...HULL_OUTLINE.map(p => Math.hypot(p.x, p.y)));
+
+/**
+ * Hull polygon in world coordinates for a boat at `position` with `heading`.
+ */
+export const hullPolygon = (position: Vector2D, heading: number): Polygon => {
+  const cos = Math.cos(heading);
+  const sin = Math.sin(heading);
+  return HULL_OUTLINE.map(p => ({ x: position.x + p.x * cos - p.y * sin, y: position.y + p.x * sin + p.y * cos }));
+};
+
+/**
+ * Outline of a new rock: 6 to 9 corners evenly spaced around the centre, each at its own
+ * distance in radii (0.1 to 1.1), so every rock gets a different jagged shape.
+ */
+export const rockOutline = (index: number): number[] => {
+  const corners = 6 + (index % 4);
+  return Array.from({ length: corners }, (_, i) => 0.6 + 0.5 * Math.sin(i * 1.7 + index));
+};
+
+/**
+ * Rock outline in world coordinates.
+ */
+export const rockPolygon = (rock: RockState): Polygon =>
+  rock.outline.map((r, i) => {
+    const angle = (i / rock.outline.length) * Math.PI * 2;
+    return { x: rock.position.x + Math.cos(angle) * r * rock.radius, y: rock.position.y + Math.sin(angle) * r * rock.radius };
+  });
+
+// Furthest point of a rock from its centre
+export const rockExtent = (rock: RockState): number => rock.radius * Math.max(...rock.outline);
+
+/**
+ * A rock outline is concave, but every corner sees the centre: split into triangles around it,
+ * each of them convex for the separating-axis test.
+ */
+export const rockTriangles = (rock: RockState): Polygon[] => {
+  const outline = rockPolygon(rock);
+  return outline.map((p, i) => [rock.position, p, outline[(i + 1) % outline.length]]);
+};
+
+const project = (polygon: Polygon, axis: Vector2D): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const p of polygon) {
+    const d = p.x * axis.x + p.y * axis.y;
+    if (d < min) min = d;
+    if (d > max) max = d;
+  }
+  return [min, max];
+};
+
+// Is there an edge normal of `a` along which the two polygons don't overlap?
+const hasSeparatingAxis = (a: Polygon, b: Polygon): boolean =>
+  a.some((p, i) => {
+    const q = a[(i + 1) % a.length];
+    const axis = { x: q.y - p.y, y: p.x - q.x };
+    const [minA, maxA] = project(a, axis);
+    const [minB, maxB] = project(b, axis);
+    return maxA < minB || maxB < minA;
+  });
+
+/**
+ * Separating-axis test: two convex polygons overlap unless some edge normal of either separates them.
+ */
+export const convexPolygonsOverlap = (a: Polygon, b: Polygon): boolean => !hasSeparatingAxis(a, b) && !hasSeparatingAxis(b, a);
+
+/**
+ * Does the hull of a boat at `position` with `heading` touch the rock's outline?
+ */
+export const hullHitsRock = (position: Vector2D, heading: number, rock: RockState): boolean => {
+  const dx = position.x - rock.position.x;
+  const dy = position.y - rock.position.y;
+  const reach = HULL_RADIUS + rockExtent(rock);
+  if (dx * dx + dy * dy >= reach * reach) return false;
+  const hull = hullPolygon(position, heading);
+  return rockTriangles(rock).some(triangle => convexPolygonsOverlap(hull, triangle));
+};
+
+/**
+ * Do two hulls touch?
+ */
+export const hullsOverlap = (a: Vector2D, headingA: number, b: Vector2D, headingB: number): boolean => {
+  if (Math.hypot(a.x - b.x, a.y - b.y) >= 2 * HULL_RADIUS) return false;
+  return convexPolygonsOverlap(hullPolygon(a, headingA), hullPolygon(b, headingB));
+};
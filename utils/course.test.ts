@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COURSE_FILE_VERSION,
+  CourseFile,
+  MAX_COURSE_BOUNDS,
+  customCourseSeed,
+  leftEdgeFinish,
+  parseCourseFile,
+  serializeCourseFile,
+} from './course';
+import { NO_CURRENT } from './current';
+import { rockOutline } from './collision';
+
+const BOUNDS = { width: 2400, height: 1400 };
+
+const FILE: CourseFile = {
+  version: COURSE_FILE_VERSION,
+  name: 'Hafenrunde',
+  bounds: BOUNDS,
+  start: { x: 1200, y: 700 },
+  finish: leftEdgeFinish(BOUNDS),
+  wind: { direction: 0.2, speed: 15 },
+  current: { direction: 1, speed: 0.5, tideSpeed: 0.2, tidePeriod: 120, tidePhase: 0 },
+  marks: [
+    { type: 'buoy', position: { x: 1800, y: 400 }, rounding: 'port' },
+    { type: 'gate', a: { x: 600, y: 500 }, b: { x: 600, y: 900 } },
+    { type: 'finish', a: { x: 200, y: 500 }, b: { x: 200, y: 900 } },
+  ],
+  rocks: [{ position: { x: 900, y: 300 }, radius: 40, outline: [1, 0.9, 1.1, 0.8, 1] }],
+};
+
+const raw = () => JSON.parse(serializeCourseFile(FILE));
+
+describe('parseCourseFile', () => {
+  it('reads back what the editor saves', () => {
+    expect(parseCourseFile(raw())).toEqual(FILE);
+  });
+
+  it('loads version 1 files without marks, current or rock outlines', () => {
+    const v1 = raw();
+    delete v1.marks;
+    delete v1.current;
+    v1.rocks = v1.rocks.map(({ position, radius }: { position: unknown; radius: unknown }) => ({ position, radius }));
+    const parsed = parseCourseFile({ ...v1, version: 1 });
+    expect(parsed?.version).toBe(COURSE_FILE_VERSION);
+    expect(parsed?.marks).toEqual([]);
+    expect(parsed?.current).toEqual(NO_CURRENT);
+    expect(parsed?.rocks[0].outline).toEqual(rockOutline(0));
+  });
+
+  it('leaves unnamed courses without a name for the UI to fill in', () => {
+    expect(parseCourseFile({ ...raw(), name: '   ' })?.name).toBe('');
+    expect(parseCourseFile({ ...raw(), name: 42 })?.name).toBe('');
+  });
+
+  it('clamps huge playfields', () => {
+    expect(parseCourseFile({ ...raw(), bounds: { width: 1e9, height: 1e9 } })?.bounds).toEqual(MAX_COURSE_BOUNDS);
+  });
+
+  it('rejects files it cannot sail', () => {
+    expect(parseCourseFile(null)).toBeNull();
+    expect(parseCourseFile('course')).toBeNull();
+    expect(parseCourseFile({ ...raw(), version: COURSE_FILE_VERSION + 1 })).toBeNull();
+    expect(parseCourseFile({ ...raw(), version: '3' })).toBeNull();
+    expect(parseCourseFile({ ...raw(), bounds: { width: 0, height: 100 } })).toBeNull();
+    expect(parseCourseFile({ ...raw(), start: { x: 'middle', y: 0 } })).toBeNull();
+    expect(parseCourseFile({ ...raw(), finish: { x: 0, y: 0, width: -5, height: 10 } })).toBeNull();
+    expect(parseCourseFile({ ...raw(), wind: { direction: 0, speed: -1 } })).toBeNull();
+    expect(parseCourseFile({ ...raw(), rocks: [{ position: { x: 0, y: 0 }, radius: 0 }] })).toBeNull();
+    expect(parseCourseFile({ ...raw(), rocks: [{ position: { x: 0, y: 0 }, radius: 10, outline: [1, 1] }] })).toBeNull();
+    expect(parseCourseFile({ ...raw(), marks: [{ type: 'buoy', position: { x: 0, y: 0 }, rounding: 'left' }] })).toBeNull();
+    expect(parseCourseFile({ ...raw(), marks: [null] })).toBeNull();
+    expect(parseCourseFile({ ...raw(), current: { ...FILE.current, tidePeriod: 0 } })).toBeNull();
+  });
+});
+
+describe('customCourseSeed', () => {
+  it('gives every version of a course its own seed', () => {
+    expect(customCourseSeed(FILE)).toEqual(customCourseSeed(parseCourseFile(raw())!));
+    expect(customCourseSeed({ ...FILE, wind: { ...FILE.wind, speed: 16 } }).seed).not.toBe(customCourseSeed(FILE).seed);
+    expect(customCourseSeed(FILE).rockCount).toBe(FILE.rocks.length);
+  });
+});
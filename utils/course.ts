@@ -0,0 +1,268 @@
+import { Mark, Rect, RockState, Vector2D, WindState } from '../types';
+import { FINISH_ZONE_X } from '../constants';
+import { Bounds } from './simulation';
+import { Rng, createRng, formatSeed, hashSeed, parseSeed } from './random';
+import { CurrentConfig, NO_CURRENT } from './current';
+import { rockOutline } from './collision';
+import { isFiniteNumber, isPositive, isRecord, parseList } from './guards';
+
+/**
+ * A reproducible run: the seed drives rocks, wind per level and the wind particles.
+ * The rock count grows with each reset, so it is part of the shareable code.
+ */
+export interface CourseSeed {
+  seed: number;
+  rockCount: number;
+}
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+export const BASE_ROCK_COUNT = 12;
+
+/**
+ * Size of a seeded playfield in world pixels, the same on every screen so a course code
+ * always gives the same course. The camera shows a part of it (see followCamera).
+ */
+export const WORLD_BOUNDS: Bounds = { width: 2400, height: 1400 };
+
+export const generateRandomRocks = (rng: Rng, opts: {
+  count: number;
+  width: number;
+  height: number;
+  targetZoneWidth: number;
+  margin: number;
+  startX: number;
+  startY: number;
+  startSafeRadius: number;
+  minLeftCount: number;
+  leftMaxX: number;
+}): RockState[] => {
+  const {
+    count,
+    width,
+    height,
+    targetZoneWidth,
+    margin,
+    startX,
+    startY,
+    startSafeRadius,
+    minLeftCount,
+    leftMaxX,
+  } = opts;
+
+  const rocks: RockState[] = [];
+  const maxAttempts = 3000;
+  const minGap = 22;
+
+  const minX = targetZoneWidth + margin;
+  const maxX = width - margin;
+  const minY = margin;
+  const maxY = height - margin;
+
+  const safeStartR = startSafeRadius;
+
+  const tryAddRock = (candidate: { x: number; y: number; radius: number }) => {
+    const { x, y, radius } = candidate;
+
+    // keep away from start
+    const dxs = x - startX;
+    const dys = y - startY;
+    if (dxs * dxs + dys * dys < (safeStartR + radius) * (safeStartR + radius)) return false;
+
+    // avoid overlapping with other rocks
+    for (const r of rocks) {
+      const dx = x - r.position.x;
+      const dy = y - r.position.y;
+      const minDist = radius + r.radius + minGap;
+      if (dx * dx + dy * dy < minDist * minDist) return false;
+    }
+
+    rocks.push({
+      position: { x: clamp(x, minX, maxX), y: clamp(y, minY, maxY) },
+      radius,
+      outline: rockOutline(rocks.length),
+    });
+    return true;
+  };
+
+  // Ensure there are always some rocks on the left side (but not inside the target zone).
+  const leftUpperX = Math.max(minX + 1, Math.min(leftMaxX, maxX));
+  if (leftUpperX > minX) {
+    let leftPlaced = 0;
+    for (let attempt = 0; attempt < maxAttempts && leftPlaced < Math.min(minLeftCount, count); attempt++) {
+      const radius = 32 + rng() * 28; // ~32..60
+      const x = minX + rng() * (leftUpperX - minX);
+      const y = minY + rng() * Math.max(1, maxY - minY);
+      if (tryAddRock({ x, y, radius })) leftPlaced++;
+    }
+  }
+
+  for (let attempt = 0; attempt < maxAttempts && rocks.length < count; attempt++) {
+    const radius = 32 + rng() * 28; // ~32..60
+
+    const x = minX + rng() * Math.max(1, maxX - minX);
+    const y = minY + rng() * Math.max(1, maxY - minY);
+    tryAddRock({ x, y, radius });
+  }
+
+  return rocks;
+};
+
+/**
+ * Rocks for a run, placed around the start in the centre of the playfield.
+ * Same code and same playfield size give the same rocks.
+ */
+export const generateCourseRocks = (course: CourseSeed, bounds: Bounds): RockState[] => {
+  const { width: w, height: h } = bounds;
+  return generateRandomRocks(createRng(hashSeed(course.seed, 'rocks')), {
+    count: course.rockCount,
+    width: w,
+    height: h,
+    targetZoneWidth: 120,
+    margin: 40,
+    startX: w / 2,
+    startY: h / 2,
+    startSafeRadius: 220,
+    minLeftCount: 2,
+    leftMaxX: w * 0.38,
+  });
+};
+
+// Wind direction varies by level: always mostly left->right (0 rad), but within +/-45deg.
+export const pickWindDirectionForLevel = (seed: number, lvl: number) => {
+  const rng = createRng(hashSeed(seed, 'wind', lvl));
+  const maxAngle = Math.min(Math.PI / 4, (Math.PI / 18) + (lvl - 1) * (Math.PI / 36)); // 10deg + 5deg/level up to 45deg
+  return (rng() * 2 - 1) * maxAngle; // [-maxAngle, +maxAngle]
+};
+
+/**
+ * Shareable code, e.g. "K7Q2M9-7" (seed, rock count). The count may be omitted.
+ */
+export const formatCourseCode = (course: CourseSeed): string =>
+  `${formatSeed(course.seed)}-${course.rockCount}`;
+
+export const parseCourseCode = (code: string): CourseSeed | null => {
+  const [seedPart, countPart] = code.trim().split('-');
+  const seed = parseSeed(seedPart ?? '');
+  if (seed === null) return null;
+  if (countPart === undefined) return { seed, rockCount: BASE_ROCK_COUNT };
+  const rockCount = Number(countPart);
+  if (!Number.isInteger(rockCount) || rockCount < 0 || rockCount > 40) return null;
+  return { seed, rockCount };
+};
+
+// --- Course files (editor) ---
+
+// v2: marks (buoys, gates, finish line). v3: current. Older files load with no marks / no current.
+export const COURSE_FILE_VERSION = 3;
+
+/**
+ * Everything that makes up a playfield: size, start, finish zone, marks and rocks.
+ * With marks the course is finished at the last mark and the finish zone is unused.
+ */
+export interface CourseLayout {
+  bounds: Bounds;
+  start: Vector2D;
+  finish: Rect;
+  marks: Mark[];
+  rocks: RockState[];
+}
+
+/**
+ * Hand-built course from the editor. Unlike seeded courses the wind and the current
+ * are fixed and do not change between levels.
+ */
+export interface CourseFile extends CourseLayout {
+  version: number;
+  name: string;
+  wind: WindState;
+  current: CurrentConfig;
+}
+
+// The classic goal: the whole left edge of the playfield
+export const leftEdgeFinish = (bounds: Bounds): Rect => ({ x: 0, y: 0, width: FINISH_ZONE_X, height: bounds.height });
+
+export const seededCourseLayout = (course: CourseSeed, bounds: Bounds): CourseLayout => ({
+  bounds,
+  start: { x: bounds.width / 2, y: bounds.height / 2 },
+  finish: leftEdgeFinish(bounds),
+  marks: [],
+  rocks: generateCourseRocks(course, bounds),
+});
+
+/**
+ * Stand-in seed for a custom course (wind particles etc.), derived from its content.
+ */
+export const customCourseSeed = (file: CourseFile): CourseSeed => ({
+  seed: hashSeed(0, serializeCourseFile(file)),
+  rockCount: file.rocks.length,
+});
+
+export const serializeCourseFile = (file: CourseFile): string => JSON.stringify(file, null, 2);
+
+const isVector = (v: unknown): v is Vector2D => isRecord(v) && isFiniteNumber(v.x) && isFiniteNumber(v.y);
+const isRect = (r: unknown): r is Rect =>
+  isRecord(r) && isFiniteNumber(r.x) && isFiniteNumber(r.y) && isPositive(r.width) && isPositive(r.height);
+
+const parseCurrent = (c: unknown): CurrentConfig | null => {
+  if (!isRecord(c)) return null;
+  const { direction, speed, tideSpeed, tidePeriod, tidePhase } = c;
+  if (!isFiniteNumber(direction) || !isFiniteNumber(speed) || !isFiniteNumber(tideSpeed) || !isFiniteNumber(tidePhase)) return null;
+  if (speed < 0 || tideSpeed < 0 || !isPositive(tidePeriod)) return null;
+  return { direction, speed, tideSpeed, tidePeriod, tidePhase };
+};
+
+const parseMark = (m: unknown): Mark | null => {
+  if (!isRecord(m)) return null;
+  const { type, position, rounding, a, b } = m;
+  if (type === 'buoy' && isVector(position) && (rounding === 'port' || rounding === 'starboard')) {
+    return { type: 'buoy', position: { x: position.x, y: position.y }, rounding };
+  }
+  if ((type === 'gate' || type === 'finish') && isVector(a) && isVector(b)) {
+    return { type, a: { x: a.x, y: a.y }, b: { x: b.x, y: b.y } };
+  }
+  return null;
+};
+
+const isOutline = (o: unknown): o is number[] => Array.isArray(o) && o.length >= 3 && o.every(isPositive);
+
+const parseRock = (r: unknown, index: number): RockState | null => {
+  if (!isRecord(r) || !isVector(r.position) || !isPositive(r.radius)) return null;
+  // Older files have no outlines: the rocks get the shape they were always drawn with
+  const outline = r.outline === undefined ? rockOutline(index) : isOutline(r.outline) ? [...r.outline] : null;
+  if (!outline) return null;
+  return { position: { x: r.position.x, y: r.position.y }, radius: r.radius, outline };
+};
+
+// Imported playfields are cut down to this: the exploration grid and the wind field grow with the playfield
+export const MAX_COURSE_BOUNDS: Bounds = { width: WORLD_BOUNDS.width * 4, height: WORLD_BOUNDS.height * 4 };
+
+/**
+ * Validates a course file (e.g. an imported JSON). Returns null if it is unusable.
+ */
+export const parseCourseFile = (raw: unknown): CourseFile | null => {
+  if (!isRecord(raw)) return null;
+  const { version, bounds, start, finish, wind } = raw;
+  if (!isFiniteNumber(version) || version < 1 || version > COURSE_FILE_VERSION) return null;
+  if (!isRecord(bounds) || !isPositive(bounds.width) || !isPositive(bounds.height)) return null;
+  if (!isVector(start)) return null;
+  if (!isRect(finish)) return null;
+  if (!isRecord(wind) || !isFiniteNumber(wind.direction) || !isFiniteNumber(wind.speed) || wind.speed < 0) return null;
+  const rocks = parseList(raw.rocks, parseRock);
+  if (!rocks) return null;
+  const marks = version === 1 ? [] : parseList(raw.marks, parseMark);
+  if (!marks) return null;
+  const current = version < 3 ? NO_CURRENT : parseCurrent(raw.current);
+  if (!current) return null;
+
+  return {
+    version: COURSE_FILE_VERSION,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : '',
+    bounds: { width: Math.min(bounds.width, MAX_COURSE_BOUNDS.width), height: Math.min(bounds.height, MAX_COURSE_BOUNDS.height) },
+    start: { x: start.x, y: start.y },
+    finish: { x: finish.x, y: finish.y, width: finish.width, height: finish.height },
+    wind: { direction: wind.direction, speed: wind.speed },
+    current,
+    marks,
+    rocks,
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { CurrentConfig, NO_CURRENT, createCurrentField, currentAt, currentForLevel, findChannels, streamSpeedAt } from './current';
+import { rockOutline } from './collision';
+
+const STREAM: CurrentConfig = { ...NO_CURRENT, direction: Math.PI / 2, speed: 0.5 };
+// Two rocks with a 100 px gap, centred on (90, 0); water squeezes through along y
+const ROCKS = [
+  { position: { x: 0, y: 0 }, radius: 40, outline: rockOutline(0) },
+  { position: { x: 180, y: 0 }, radius: 40, outline: rockOutline(0) },
+];
+const GAP = { x: 90, y: 0 };
+
+describe('streamSpeedAt', () => {
+  it('adds the tide, which turns against the stream half the cycle', () => {
+    const tidal = { ...STREAM, speed: 0.2, tideSpeed: 0.5, tidePeriod: 120 };
+    expect(streamSpeedAt(tidal, 0)).toBeCloseTo(0.2);
+    expect(streamSpeedAt(tidal, 30)).toBeCloseTo(0.7);
+    expect(streamSpeedAt(tidal, 90)).toBeCloseTo(-0.3);
+  });
+});
+
+describe('findChannels', () => {
+  it('finds the gap between two close rocks, faster the narrower it is', () => {
+    const [channel] = findChannels(ROCKS);
+    expect(channel.center).toEqual(GAP);
+    expect(channel.halfWidth).toBe(50);
+    const [narrow] = findChannels([ROCKS[0], { ...ROCKS[1], position: { x: 120, y: 0 } }]);
+    expect(narrow.gain).toBeGreaterThan(channel.gain);
+  });
+
+  it('ignores rocks far apart or touching', () => {
+    expect(findChannels([ROCKS[0], { ...ROCKS[1], position: { x: 400, y: 0 } }])).toEqual([]);
+    expect(findChannels([ROCKS[0], { ...ROCKS[1], position: { x: 70, y: 0 } }])).toEqual([]);
+  });
+});
+
+describe('currentAt', () => {
+  it('is still water without a current, and no channels either', () => {
+    const field = createCurrentField(NO_CURRENT, ROCKS);
+    expect(field.channels).toEqual([]);
+    expect(currentAt(field, GAP, 10)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('flows in the configured direction in open water', () => {
+    const flow = currentAt(createCurrentField(STREAM, ROCKS), { x: 1000, y: 1000 }, 0);
+    expect(flow.x).toBeCloseTo(0);
+    expect(flow.y).toBeCloseTo(0.5);
+  });
+
+  it('speeds up through a channel, but only the part of the stream running through it', () => {
+    const field = createCurrentField(STREAM, ROCKS);
+    expect(currentAt(field, GAP, 0).y).toBeCloseTo(0.5 * (1 + field.channels[0].gain));
+    const across = createCurrentField({ ...STREAM, direction: 0 }, ROCKS);
+    expect(currentAt(across, GAP, 0).x).toBeCloseTo(0.5);
+  });
+});
+
+describe('currentForLevel', () => {
+  it('is calm on level 1, brings a stream on level 2 and tide from level 3', () => {
+    expect(currentForLevel(42, 1)).toBe(NO_CURRENT);
+    expect(currentForLevel(42, 2)).toMatchObject({ tideSpeed: 0 });
+    expect(currentForLevel(42, 2).speed).toBeGreaterThan(0);
+    expect(currentForLevel(42, 3).tideSpeed).toBeGreaterThan(0);
+    expect(currentForLevel(42, 3)).toEqual(currentForLevel(42, 3));
+  });
+});
@@ -0,0 +1,121 @@
+import { RockState, Vector2D } from '../types';
+import { createRng, hashSeed } from './random';
+
+/**
+ * Water movement of a course. Speeds are in the boat's speed unit (pixels per frame at 60 FPS),
+ * directions point where the water flows to.
+ */
+export interface CurrentConfig {
+  direction: number;
+  speed: number; // Steady stream
+  tideSpeed: number; // Tidal stream along `direction`, reverses over a cycle
+  tidePeriod: number; // Seconds for a full cycle (flood and ebb)
+  tidePhase: number; // Radians; 0 starts at slack water turning into flood
+}
+
+/**
+ * Narrow passage between two rocks: the stream speeds up along its axis.
+ */
+export interface CurrentChannel {
+  center: Vector2D;
+  axis: Vector2D; // Unit vector across the gap, i.e. along which the water is squeezed through
+  halfWidth: number; // Half the gap between the rocks
+  halfLength: number;
+  gain: number; // Extra share of the stream on the centre line
+}
+
+export interface CurrentField {
+  config: CurrentConfig;
+  channels: CurrentChannel[];
+}
+
+export const NO_CURRENT: CurrentConfig = { direction: 0, speed: 0, tideSpeed: 0, tidePeriod: 120, tidePhase: 0 };
+
+// Gaps between rocks narrower than this form a channel; the narrower, the faster
+const MAX_CHANNEL_GAP = 180;
+const MAX_CHANNEL_GAIN = 1.5;
+
+/**
+ * Finds the narrow passages between rocks. Water squeezes through them in the
+ * direction of the gap (perpendicular to the line between the rocks).
+ */
+export const findChannels = (rocks: RockState[]): CurrentChannel[] => {
+  const channels: CurrentChannel[] = [];
+  for (let i = 0; i < rocks.length; i++) {
+    for (let j = i + 1; j < rocks.length; j++) {
+      const a = rocks[i];
+      const b = rocks[j];
+      const dx = b.position.x - a.position.x;
+      const dy = b.position.y - a.position.y;
+      const dist = Math.hypot(dx, dy);
+      const gap = dist - a.radius - b.radius;
+      if (gap <= 0 || gap >= MAX_CHANNEL_GAP) continue;
+
+      // Centre of the gap, on the line between the two rock edges
+      const ux = dx / dist;
+      const uy = dy / dist;
+      const mid = a.radius + gap / 2;
+      channels.push({
+        center: { x: a.position.x + ux * mid, y: a.position.y + uy * mid },
+        axis: { x: -uy, y: ux },
+        halfWidth: gap / 2,
+        halfLength: Math.min(a.radius, b.radius) * 1.5,
+        gain: MAX_CHANNEL_GAIN * (1 - gap / MAX_CHANNEL_GAP),
+      });
+    }
+  }
+  return channels;
+};
+
+export const createCurrentField = (config: CurrentConfig, rocks: RockState[]): CurrentField => ({
+  config,
+  channels: config.speed > 0 || config.tideSpeed > 0 ? findChannels(rocks) : [],
+});
+
+/**
+ * Seeded current for a level: calm at first, a steady stream from level 2, tide from level 3.
+ */
+export const currentForLevel = (seed: number, level: number): CurrentConfig => {
+  if (level < 2) return NO_CURRENT;
+  const rng = createRng(hashSeed(seed, 'current', level));
+  return {
+    direction: rng() * 2 * Math.PI,
+    speed: Math.min(0.8, 0.2 + (level - 2) * 0.1) * (0.5 + rng() * 0.5),
+    tideSpeed: level >= 3 ? Math.min(1, 0.3 + (level - 3) * 0.1) * (0.5 + rng() * 0.5) : 0,
+    tidePeriod: 60 + rng() * 60,
+    tidePhase: rng() * 2 * Math.PI,
+  };
+};
+
+/**
+ * Current speed along the configured direction at time t (negative while the tide runs against the stream).
+ */
+export const streamSpeedAt = (config: CurrentConfig, t: number): number =>
+  config.speed + config.tideSpeed * Math.sin((2 * Math.PI * t) / config.tidePeriod + config.tidePhase);
+
+/**
+ * Water velocity at a point and time (seconds since the attempt started), pixels per frame.
+ */
+export const currentAt = (field: CurrentField, p: Vector2D, t: number): Vector2D => {
+  const { config } = field;
+  const s = streamSpeedAt(config, t);
+  if (s === 0) return { x: 0, y: 0 };
+  let x = Math.cos(config.direction) * s;
+  let y = Math.sin(config.direction) * s;
+
+  // Channels speed up the part of the stream that runs through them
+  const baseX = x;
+  const baseY = y;
+  for (const c of field.channels) {
+    const dx = p.x - c.center.x;
+    const dy = p.y - c.center.y;
+    const along = dx * c.axis.x + dy * c.axis.y;
+    const across = dx * c.axis.y - dy * c.axis.x;
+    if (Math.abs(along) >= c.halfLength || Math.abs(across) >= c.halfWidth) continue;
+    const falloff = (1 - (across / c.halfWidth) ** 2) * (1 - (along / c.halfLength) ** 2);
+    const through = baseX * c.axis.x + baseY * c.axis.y;
+    x += c.axis.x * through * c.gain * falloff;
+    y += c.axis.y * through * c.gain * falloff;
+  }
+  return { x, y };
+};
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RockState } from '../types';
+import { ROCK_VISIBLE_RADIUS } from '../constants';
+import { EXPLORE_CELL, createExploration, explore, exploredShare, isExplored, loadExploration, saveExploration } from './exploration';
+import { knownRocks } from './routing';
+import { MAX_COURSE_BOUNDS, WORLD_BOUNDS } from './course';
+import { rockOutline } from './collision';
+
+const rock = (x: number, y: number): RockState => ({ position: { x, y }, radius: 40, outline: rockOutline(0) });
+const ROCKS = [rock(300, 300), rock(2000, 1100)];
+
+// Just enough of localStorage for the charts
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('explore', () => {
+  it('charts the water and the rocks around the boat', () => {
+    const exploration = createExploration(WORLD_BOUNDS, ROCKS.length);
+    expect(explore(exploration, [{ x: 300, y: 400 }], ROCKS)).toBe(true);
+    expect(isExplored(exploration, Math.floor(300 / EXPLORE_CELL), Math.floor(400 / EXPLORE_CELL))).toBe(true);
+    expect(isExplored(exploration, Math.floor(2000 / EXPLORE_CELL), Math.floor(1100 / EXPLORE_CELL))).toBe(false);
+    expect(exploration.rocks).toEqual([true, false]);
+  });
+
+  it('reports nothing new when sailing the same water again', () => {
+    const exploration = createExploration(WORLD_BOUNDS, ROCKS.length);
+    explore(exploration, [{ x: 300, y: 400 }], ROCKS);
+    const share = exploredShare(exploration);
+    expect(explore(exploration, [{ x: 300, y: 400 }], ROCKS)).toBe(false);
+    expect(exploredShare(exploration)).toBe(share);
+  });
+});
+
+describe('saved charts', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('come back as they were saved', () => {
+    const exploration = createExploration(WORLD_BOUNDS, ROCKS.length);
+    explore(exploration, [{ x: 300, y: 400 }, { x: 1500, y: 900 }], ROCKS);
+    saveExploration('K7Q2M9-12@2400x1400', exploration);
+    expect(loadExploration('K7Q2M9-12@2400x1400', WORLD_BOUNDS, ROCKS.length)).toEqual(exploration);
+  });
+
+  it('store the largest playfields', () => {
+    const exploration = createExploration(MAX_COURSE_BOUNDS, 0);
+    exploration.cells.fill(1);
+    saveExploration('big', exploration);
+    expect(exploredShare(loadExploration('big', MAX_COURSE_BOUNDS, 0))).toBe(1);
+  });
+
+  it('start blank for unknown courses', () => {
+    expect(exploredShare(loadExploration('unknown', WORLD_BOUNDS, ROCKS.length))).toBe(0);
+  });
+
+  it('drop broken entries and keep the rest', () => {
+    const exploration = createExploration(WORLD_BOUNDS, ROCKS.length);
+    explore(exploration, [{ x: 300, y: 400 }], ROCKS);
+    saveExploration('good', exploration);
+    const { good } = JSON.parse(localStorage.getItem('segel_sim_charts') ?? '{}');
+    const stored = {
+      good,
+      noCells: { ...good, cells: 7 },
+      brokenRock: { ...good, rocks: [0, 'one'] },
+      noRocks: { cells: good.cells, updatedAt: good.updatedAt },
+    };
+    localStorage.setItem('segel_sim_charts', JSON.stringify(stored));
+    expect(loadExploration('good', WORLD_BOUNDS, ROCKS.length)).toEqual(exploration);
+    for (const key of ['noCells', 'brokenRock', 'noRocks']) {
+      expect(exploredShare(loadExploration(key, WORLD_BOUNDS, ROCKS.length))).toBe(0);
+    }
+  });
+
+  it('save next to entries without a date or over storage that holds no charts at all', () => {
+    const exploration = createExploration(WORLD_BOUNDS, ROCKS.length);
+    explore(exploration, [{ x: 300, y: 400 }], ROCKS);
+    localStorage.setItem('segel_sim_charts', JSON.stringify({ old: { cells: '', rocks: [] } }));
+    saveExploration('a', exploration);
+    expect(loadExploration('a', WORLD_BOUNDS, ROCKS.length)).toEqual(exploration);
+    localStorage.setItem('segel_sim_charts', '[1, 2, 3]');
+    saveExploration('b', exploration);
+    expect(loadExploration('b', WORLD_BOUNDS, ROCKS.length)).toEqual(exploration);
+  });
+});
+
+describe('knownRocks', () => {
+  const position = { x: 300, y: 400 };
+
+  it('knows the rocks in sight and those on the chart', () => {
+    expect(knownRocks(ROCKS, position, false)).toEqual([ROCKS[0]]);
+    expect(knownRocks(ROCKS, position, false, [false, true])).toEqual(ROCKS);
+    expect(knownRocks(ROCKS, { x: 300 + ROCK_VISIBLE_RADIUS + 100, y: 300 }, false, [false, true])).toEqual([ROCKS[1]]);
+  });
+
+  it('knows every rock with the map revealed', () => {
+    expect(knownRocks(ROCKS, position, true)).toEqual(ROCKS);
+  });
+});
@@ -0,0 +1,161 @@
+import { RockState, Vector2D } from '../types';
+import { FOG_RADIUS, ROCK_VISIBLE_RADIUS } from '../constants';
+import { Bounds } from './simulation';
+import { rockExtent } from './collision';
+import { isInteger, isRecord, parseList } from './guards';
+
+// Edge of one cell of the explored-area grid (world pixels)
+export const EXPLORE_CELL = 40;
+// Water this close to a boat counts as explored: the clear core of its view, not the dim edge
+const EXPLORE_RADIUS = FOG_RADIUS * 0.6;
+const STORAGE_KEY = 'segel_sim_charts';
+const MAX_STORED_CHARTS = 20;
+
+/**
+ * What the skipper has seen of a course so far: a coarse grid of explored water and the rocks
+ * that were in sight at some point. Kept per course across attempts, levels and reloads.
+ */
+export interface Exploration {
+  cols: number;
+  rows: number;
+  cells: Uint8Array; // Row by row, 1 = explored
+  rocks: boolean[]; // Per rock index: charted, its outline is known
+}
+
+export const createExploration = (bounds: Bounds, rockCount: number): Exploration => {
+  const cols = Math.ceil(bounds.width / EXPLORE_CELL);
+  const rows = Math.ceil(bounds.height / EXPLORE_CELL);
+  return { cols, rows, cells: new Uint8Array(cols * rows), rocks: new Array(rockCount).fill(false) };
+};
+
+export const isExplored = (exploration: Exploration, col: number, row: number) =>
+  col >= 0 && row >= 0 && col < exploration.cols && row < exploration.rows && exploration.cells[row * exploration.cols + col] === 1;
+
+/**
+ * Is a rock in sight of one of the viewers right now?
+ */
+export const rockInSight = (rock: RockState, viewers: Vector2D[]) =>
+  viewers.some(v => Math.hypot(rock.position.x - v.x, rock.position.y - v.y) < ROCK_VISIBLE_RADIUS + rockExtent(rock));
+
+/**
+ * Marks the water around the viewers as explored and charts the rocks in sight.
+ * Works in place, since it runs every tick; returns whether anything new was found.
+ */
+export const explore = (exploration: Exploration, viewers: Vector2D[], rocks: RockState[]): boolean => {
+  let found = false;
+  const { cols, rows, cells } = exploration;
+  for (const v of viewers) {
+    const minCol = Math.max(0, Math.floor((v.x - EXPLORE_RADIUS) / EXPLORE_CELL));
+    const maxCol = Math.min(cols - 1, Math.floor((v.x + EXPLORE_RADIUS) / EXPLORE_CELL));
+    const minRow = Math.max(0, Math.floor((v.y - EXPLORE_RADIUS) / EXPLORE_CELL));
+    const maxRow = Math.min(rows - 1, Math.floor((v.y + EXPLORE_RADIUS) / EXPLORE_CELL));
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const i = row * cols + col;
+        if (cells[i]) continue;
+        const dx = (col + 0.5) * EXPLORE_CELL - v.x;
+        const dy = (row + 0.5) * EXPLORE_CELL - v.y;
+        if (dx * dx + dy * dy > EXPLORE_RADIUS * EXPLORE_RADIUS) continue;
+        cells[i] = 1;
+        found = true;
+      }
+    }
+  }
+  rocks.forEach((rock, i) => {
+    if (!exploration.rocks[i] && rockInSight(rock, viewers)) {
+      exploration.rocks[i] = true;
+      found = true;
+    }
+  });
+  return found;
+};
+
+/**
+ * Share of the course that has been explored, 0..1.
+ */
+export const exploredShare = (exploration: Exploration) =>
+  exploration.cells.reduce((sum, c) => sum + c, 0) / exploration.cells.length;
+
+// --- Storage ---
+
+interface StoredChart {
+  cells: string; // Bitset of the explored cells, base64
+  rocks: number[]; // Indices of charted rocks
+  updatedAt: string;
+}
+
+/**
+ * Seeded rocks depend on the playfield size, so the bounds are part of the key (like ghostKey).
+ */
+export const chartKey = (courseCode: string, bounds: Bounds) =>
+  `${courseCode}@${Math.round(bounds.width)}x${Math.round(bounds.height)}`;
+
+const parseChart = (value: unknown): StoredChart | null => {
+  if (!isRecord(value) || typeof value.cells !== 'string') return null;
+  const rocks = parseList(value.rocks, i => (isInteger(i) && i >= 0 ? i : null));
+  if (!rocks) return null;
+  return { cells: value.cells, rocks, updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : '' };
+};
+
+// Stored charts by key; broken entries (older versions, edited storage) are dropped
+const loadAll = (): Record<string, StoredChart> => {
+  const all: Record<string, StoredChart> = {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (!isRecord(parsed)) return all;
+    for (const [key, value] of Object.entries(parsed)) {
+      const chart = parseChart(value);
+      if (chart) all[key] = chart;
+    }
+  } catch {
+    // ignore storage failures
+  }
+  return all;
+};
+
+/**
+ * The stored exploration of a course, or a blank one.
+ */
+export const loadExploration = (key: string, bounds: Bounds, rockCount: number): Exploration => {
+  const exploration = createExploration(bounds, rockCount);
+  const stored = loadAll()[key];
+  if (!stored) return exploration;
+  try {
+    const bits = atob(stored.cells);
+    for (let i = 0; i < exploration.cells.length; i++) {
+      exploration.cells[i] = (bits.charCodeAt(i >> 3) >> (i & 7)) & 1;
+    }
+  } catch {
+    return createExploration(bounds, rockCount);
+  }
+  stored.rocks.forEach(i => {
+    if (i < rockCount) exploration.rocks[i] = true;
+  });
+  return exploration;
+};
+
+export const saveExploration = (key: string, exploration: Exploration) => {
+  const bytes = new Uint8Array(Math.ceil(exploration.cells.length / 8));
+  exploration.cells.forEach((c, i) => {
+    if (c) bytes[i >> 3] |= 1 << (i & 7);
+  });
+  // Byte by byte: spreading a large grid into fromCharCode overflows the call stack
+  let bits = '';
+  for (const byte of bytes) bits += String.fromCharCode(byte);
+  const all = loadAll();
+  all[key] = {
+    cells: btoa(bits),
+    rocks: exploration.rocks.flatMap((known, i) => (known ? [i] : [])),
+    updatedAt: new Date().toISOString(),
+  };
+  // Forget the charts of the courses sailed longest ago
+  const keys = Object.keys(all).sort((a, b) => all[a].updatedAt.localeCompare(all[b].updatedAt));
+  for (const old of keys.slice(0, Math.max(0, keys.length - MAX_STORED_CHARTS))) delete all[old];
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    // ignore storage failures
+  }
+};
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FPS } from '../constants';
+import { Mark } from '../types';
+import { leftEdgeFinish } from './course';
+import { BOAT_CLASSES } from './polar';
+import { GHOST_SAMPLE_INTERVAL, Ghost, GhostPose, ghostDelta, ghostKey, ghostPoseAt, loadGhost, saveGhostIfBest } from './ghost';
+
+const BOUNDS = { width: 2400, height: 1400 };
+const FINISH = leftEdgeFinish(BOUNDS);
+
+// Sails straight for the finish at one pixel per tick, from x = 1020 to x = 20
+const straightGhost = (): Ghost => ({
+  ticks: 1000,
+  path: Array.from({ length: 1000 / GHOST_SAMPLE_INTERVAL + 1 }, (_, i): GhostPose => [1020 - i * GHOST_SAMPLE_INTERVAL, 500, Math.PI]),
+  recordedAt: '2026-01-01T00:00:00.000Z',
+});
+
+// Just enough of localStorage for the ghosts
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('ghostDelta', () => {
+  const ghost = straightGhost();
+
+  it('is positive when the boat got there later than the ghost', () => {
+    expect(ghostDelta(ghost, 260, { x: 820, y: 500 }, 0, [], FINISH)).toBeCloseTo(60 / FPS);
+  });
+
+  it('is negative when the boat got there earlier', () => {
+    expect(ghostDelta(ghost, 150, { x: 820, y: 500 }, 0, [], FINISH)).toBeCloseTo(-50 / FPS);
+  });
+
+  it('is null once the boat is closer to the finish than the ghost ever got', () => {
+    const short = { ...ghost, path: ghost.path.slice(0, 10) };
+    expect(ghostDelta(short, 500, { x: 500, y: 500 }, 0, [], FINISH)).toBeNull();
+  });
+
+  it('measures the distance along the marks still to round', () => {
+    const marks: Mark[] = [
+      { type: 'buoy', position: { x: 500, y: 200 }, rounding: 'port' },
+      { type: 'buoy', position: { x: 500, y: 800 }, rounding: 'port' },
+    ];
+    const path: GhostPose[] = [
+      [500, 500, 0, 0],
+      [500, 300, 0, 0],
+      [500, 400, 0, 1],
+      [500, 600, 0, 1],
+    ];
+    const markGhost: Ghost = { ticks: 3 * GHOST_SAMPLE_INTERVAL, path, recordedAt: '' };
+    // Same spot, but the ghost had already rounded the first buoy by its third pose
+    expect(ghostDelta(markGhost, 20, { x: 500, y: 400 }, 1, marks, FINISH)).toBeCloseTo((20 - 2 * GHOST_SAMPLE_INTERVAL) / FPS);
+    expect(ghostDelta(markGhost, 20, { x: 500, y: 400 }, 0, marks, FINISH)).toBeCloseTo((20 - GHOST_SAMPLE_INTERVAL) / FPS);
+  });
+});
+
+describe('ghostPoseAt', () => {
+  it('interpolates between samples', () => {
+    const [x, y] = ghostPoseAt(straightGhost(), GHOST_SAMPLE_INTERVAL / 2)!;
+    expect(x).toBeCloseTo(1020 - GHOST_SAMPLE_INTERVAL / 2);
+    expect(y).toBe(500);
+  });
+
+  it('turns the short way round across ±π', () => {
+    const ghost: Ghost = {
+      ticks: GHOST_SAMPLE_INTERVAL,
+      path: [
+        [0, 0, Math.PI - 0.1],
+        [0, 0, -Math.PI + 0.1],
+      ],
+      recordedAt: '',
+    };
+    expect(ghostPoseAt(ghost, GHOST_SAMPLE_INTERVAL / 2)![2]).toBeCloseTo(Math.PI);
+  });
+
+  it('is gone once the ghost has finished', () => {
+    expect(ghostPoseAt(straightGhost(), 1001)).toBeNull();
+  });
+});
+
+describe('ghostKey', () => {
+  it('keeps one ghost per course, playfield, level and boat class', () => {
+    expect(new Set([
+      ghostKey('K7Q2M9-12', BOUNDS, 3),
+      ghostKey('K7Q2M9-12', BOUNDS, 4),
+      ghostKey('K7Q2M9-12', { width: 1000, height: 800 }, 3),
+      ghostKey('K7Q2M9-13', BOUNDS, 3),
+      ghostKey('K7Q2M9-12', BOUNDS, 3, BOAT_CLASSES[1].name),
+    ]).size).toBe(5);
+    expect(ghostKey('K7Q2M9-12', BOUNDS, 3, BOAT_CLASSES[0].name)).toBe(ghostKey('K7Q2M9-12', BOUNDS, 3));
+  });
+});
+
+describe('saved ghosts', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keep only the fastest attempt', () => {
+    const ghost = straightGhost();
+    expect(saveGhostIfBest('a', ghost)).toBe(true);
+    expect(saveGhostIfBest('a', { ...ghost, ticks: 1200 })).toBe(false);
+    expect(loadGhost('a')).toEqual(ghost);
+    expect(saveGhostIfBest('a', { ...ghost, ticks: 800 })).toBe(true);
+    expect(loadGhost('a')?.ticks).toBe(800);
+  });
+
+  it('are missing for courses not won yet', () => {
+    expect(loadGhost('unknown')).toBeNull();
+  });
+
+  it('drop broken entries and keep the rest', () => {
+    const ghost = straightGhost();
+    const stored = {
+      good: ghost,
+      noTicks: { ...ghost, ticks: 'fast' },
+      brokenPose: { ...ghost, path: [[1, 2, 'north']] },
+      noPath: { ticks: 100, recordedAt: '' },
+    };
+    localStorage.setItem('segel_sim_ghosts', JSON.stringify(stored));
+    expect(loadGhost('good')).toEqual(ghost);
+    expect(loadGhost('noTicks')).toBeNull();
+    expect(loadGhost('brokenPose')).toBeNull();
+    expect(loadGhost('noPath')).toBeNull();
+    // A broken best does not block a new one
+    expect(saveGhostIfBest('noTicks', { ...ghost, ticks: 2000 })).toBe(true);
+  });
+
+  it('start over when the storage holds no ghosts at all', () => {
+    localStorage.setItem('segel_sim_ghosts', '[1, 2, 3]');
+    expect(saveGhostIfBest('a', straightGhost())).toBe(true);
+    expect(loadGhost('a')).toEqual(straightGhost());
+  });
+});
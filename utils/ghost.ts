@@ -0,0 +1,133 @@
+import { BoatState, Mark, Rect, Vector2D } from '../types';
+import { FPS } from '../constants';
+import { Bounds } from './simulation';
+import { remainingCourseDistance } from './marks';
+import { DEFAULT_POLAR } from './polar';
+import { isFiniteNumber, isInteger, isRecord, parseList } from './guards';
+
+// One pose every few ticks is plenty for a smooth ghost and keeps localStorage small
+export const GHOST_SAMPLE_INTERVAL = 4;
+const STORAGE_KEY = 'segel_sim_ghosts';
+const MAX_STORED_GHOSTS = 30;
+
+// nextMark: index of the next mark at that moment (mark courses only)
+export type GhostPose = [x: number, y: number, heading: number, nextMark?: number];
+
+/**
+ * Trajectory of the best (fastest) winning attempt for one course and level.
+ */
+export interface Ghost {
+  ticks: number; // Attempt duration from start to finish
+  path: GhostPose[]; // path[i] is the pose after i * GHOST_SAMPLE_INTERVAL ticks
+  recordedAt: string;
+}
+
+/**
+ * Seeded rocks depend on the playfield size, so the bounds are part of the key.
+ * Boat classes sail at different speeds and get their own ghosts (the default class keeps the plain key).
+ */
+export const ghostKey = (courseCode: string, bounds: Bounds, level: number, boatClass = DEFAULT_POLAR.name) =>
+  `${courseCode}@${Math.round(bounds.width)}x${Math.round(bounds.height)}:${level}` +
+  (boatClass === DEFAULT_POLAR.name ? '' : `#${boatClass}`);
+
+export const toGhostPose = (boat: BoatState, nextMark = 0): GhostPose => [
+  Math.round(boat.position.x * 10) / 10,
+  Math.round(boat.position.y * 10) / 10,
+  Math.round(boat.heading * 1000) / 1000,
+  nextMark,
+];
+
+const parsePose = (value: unknown): GhostPose | null => {
+  if (!Array.isArray(value) || value.length < 3 || value.length > 4) return null;
+  const [x, y, heading, nextMark] = value;
+  if (!isFiniteNumber(x) || !isFiniteNumber(y) || !isFiniteNumber(heading)) return null;
+  if (nextMark === undefined) return [x, y, heading];
+  return isInteger(nextMark) && nextMark >= 0 ? [x, y, heading, nextMark] : null;
+};
+
+const parseGhost = (value: unknown): Ghost | null => {
+  if (!isRecord(value) || !isInteger(value.ticks) || value.ticks <= 0) return null;
+  const path = parseList(value.path, parsePose);
+  if (!path) return null;
+  return { ticks: value.ticks, path, recordedAt: typeof value.recordedAt === 'string' ? value.recordedAt : '' };
+};
+
+// Stored ghosts by key; broken entries (older versions, edited storage) are dropped
+const loadAll = (): Record<string, Ghost> => {
+  const all: Record<string, Ghost> = {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    if (!isRecord(parsed)) return all;
+    for (const [key, value] of Object.entries(parsed)) {
+      const ghost = parseGhost(value);
+      if (ghost) all[key] = ghost;
+    }
+  } catch {
+    // ignore storage failures
+  }
+  return all;
+};
+
+export const loadGhost = (key: string): Ghost | null => loadAll()[key] ?? null;
+
+/**
+ * Stores the ghost if it beats the current best. Returns true for a new personal best.
+ */
+export const saveGhostIfBest = (key: string, ghost: Ghost): boolean => {
+  const all = loadAll();
+  const best = all[key];
+  if (best && best.ticks <= ghost.ticks) return false;
+
+  all[key] = ghost;
+  // Drop the oldest ghosts once we store too many
+  const keys = Object.keys(all).sort((a, b) => all[a].recordedAt.localeCompare(all[b].recordedAt));
+  for (const old of keys.slice(0, Math.max(0, keys.length - MAX_STORED_GHOSTS))) delete all[old];
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    // ignore storage failures
+  }
+  return true;
+};
+
+/**
+ * Interpolated ghost pose at an attempt tick, or null once the ghost has finished.
+ */
+export const ghostPoseAt = (ghost: Ghost, tick: number): GhostPose | null => {
+  if (tick > ghost.ticks || ghost.path.length === 0) return null;
+  const f = tick / GHOST_SAMPLE_INTERVAL;
+  const i = Math.min(ghost.path.length - 1, Math.floor(f));
+  const j = Math.min(ghost.path.length - 1, i + 1);
+  const t = f - i;
+  const [x0, y0, h0] = ghost.path[i];
+  const [x1, y1, h1] = ghost.path[j];
+  // Shortest way round for the heading
+  let dh = h1 - h0;
+  if (dh > Math.PI) dh -= 2 * Math.PI;
+  if (dh < -Math.PI) dh += 2 * Math.PI;
+  return [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t, h0 + dh * t];
+};
+
+/**
+ * Time delta in seconds against the ghost: how much later (positive) or earlier
+ * (negative) than the ghost the boat got this close to the finish.
+ */
+export const ghostDelta = (
+  ghost: Ghost,
+  tick: number,
+  position: Vector2D,
+  nextMark: number,
+  marks: Mark[],
+  finish: Rect
+): number | null => {
+  const remaining = remainingCourseDistance(position, nextMark, marks, finish);
+  for (let i = 0; i < ghost.path.length; i++) {
+    const [gx, gy, , gMark = 0] = ghost.path[i];
+    if (remainingCourseDistance({ x: gx, y: gy }, gMark, marks, finish) <= remaining) {
+      return (tick - i * GHOST_SAMPLE_INTERVAL) / FPS;
+    }
+  }
+  return null;
+};
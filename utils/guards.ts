@@ -0,0 +1,25 @@
+/**
+ * Narrowing for data from outside (imported files, localStorage, IndexedDB): everything starts as unknown.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+export const isPositive = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+/**
+ * Every item of a list through `parse`, or null if it is no list or one item is broken.
+ */
+export const parseList = <T>(value: unknown, parse: (item: unknown, index: number) => T | null): T[] | null => {
+  if (!Array.isArray(value)) return null;
+  const items: T[] = [];
+  for (const [index, item] of value.entries()) {
+    const parsed = parse(item, index);
+    if (parsed === null) return null;
+    items.push(parsed);
+  }
+  return items;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createI18n, formatNumber, formatPattern } from './i18n';
+import { de } from './locales/de';
+import { en } from './locales/en';
+
+// Names of the arguments formatting a message asks for (in the branches taken without values)
+const argumentNames = (message: string) => {
+  const names = new Set<string>();
+  const values = new Proxy({}, { get: (_, name) => void names.add(String(name)) });
+  formatPattern('en', message, values);
+  return [...names].sort();
+};
+
+describe('formatPattern', () => {
+  const coins = '{coins, plural, =0 {no coins} one {# coin} other {# coins}}';
+
+  it('picks the plural branch, an exact match first', () => {
+    expect(formatPattern('en', coins, { coins: 0 })).toBe('no coins');
+    expect(formatPattern('en', coins, { coins: 1 })).toBe('1 coin');
+    expect(formatPattern('en', coins, { coins: 1500 })).toBe('1,500 coins');
+    expect(formatPattern('de', coins, { coins: 1500 })).toBe('1.500 coins');
+  });
+
+  it('formats nested arguments inside a select', () => {
+    const pattern = '{side, select, port {{n, plural, one {# buoy} other {# buoys}} to port} other {to {who}}}';
+    expect(formatPattern('en', pattern, { side: 'port', n: 2 })).toBe('2 buoys to port');
+    expect(formatPattern('en', pattern, { side: 'starboard', who: 'Kim' })).toBe('to Kim');
+  });
+
+  it('leaves missing arguments visible', () => {
+    expect(formatPattern('en', 'Ahoy {name}!')).toBe('Ahoy {name}!');
+    expect(formatPattern('en', '{side, select, port {port} other {starboard}}')).toBe('starboard');
+  });
+
+  it('formats numbers with fixed fraction digits', () => {
+    expect(formatPattern('de', '{s, number, ::.0} s', { s: 12.345 })).toBe('12,3 s');
+    expect(formatPattern('en', '{s, number, ::.0} s', { s: 12.345 })).toBe('12.3 s');
+    expect(formatPattern('en', '{s, number, ::0}', { s: 12.6 })).toBe('13');
+  });
+
+  it('keeps quoted braces and doubled quotes as text', () => {
+    expect(formatPattern('en', "'{name}' is {name}", { name: 'Kim' })).toBe('{name} is Kim');
+    expect(formatPattern('en', "it''s {n, plural, other {'#'#}}", { n: 3 })).toBe("it's #3");
+  });
+});
+
+describe('formatNumber', () => {
+  it('uses the separators of the language', () => {
+    expect(formatNumber('de', 1234.5, 1)).toBe('1.234,5');
+    expect(formatNumber('en', 1234.5, 1)).toBe('1,234.5');
+    expect(formatNumber('en', 0.1234)).toBe('0.123');
+  });
+});
+
+describe('catalogues', () => {
+  it('have the same messages in every language', () => {
+    expect(Object.keys(en).sort()).toEqual(Object.keys(de).sort());
+  });
+
+  it('use the same arguments in every language', () => {
+    for (const key of Object.keys(de) as (keyof typeof de)[]) {
+      expect([key, argumentNames(en[key])]).toEqual([key, argumentNames(de[key])]);
+    }
+  });
+
+  it('can format every message', () => {
+    for (const locale of ['de', 'en'] as const) {
+      const { t } = createI18n(locale);
+      for (const key of Object.keys(de) as (keyof typeof de)[]) expect(() => t(key, {})).not.toThrow();
+    }
+  });
+});
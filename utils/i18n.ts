@@ -0,0 +1,185 @@
+import React, { useContext } from 'react';
+import { Catalogue, de } from './locales/de';
+import { en } from './locales/en';
+import { PLAYER_ONE_NAME, PLAYER_TWO_NAME, SOLO_NAME } from './twoPlayer';
+
+/**
+ * User-facing text: one message catalogue per language, messages in ICU style.
+ * Supported: {name}, {n, number} / {n, number, ::.0} (fraction digits), {n, plural, =0 {…} one {# …} other {# …}}
+ * and {x, select, a {…} other {…}}. A quote escapes braces and #: '{' ; two quotes are one quote.
+ */
+export type Locale = 'de' | 'en';
+export type MessageKey = keyof Catalogue;
+export type MessageValues = Record<string, string | number>;
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+interface LocaleInfo {
+  name: string; // In its own language, for the switcher
+  intl: string; // BCP 47 tag for number formatting and plural rules
+  messages: Catalogue;
+}
+
+// Another language = another catalogue in ./locales and an entry here
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  de: { name: 'Deutsch', intl: 'de-DE', messages: de },
+  en: { name: 'English', intl: 'en-GB', messages: en },
+};
+
+export const DEFAULT_LOCALE: Locale = 'de';
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+/**
+ * Saved choice, else the browser language, else German.
+ */
+export const initialLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem('segel_sim_locale');
+    if (isLocale(saved)) return saved;
+  } catch {
+    // ignore storage failures
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : '';
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+// --- Numbers ---
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Locale-aware number, with a fixed number of fraction digits (like toFixed) or as it comes.
+ */
+export const formatNumber = (locale: Locale, value: number, digits?: number): string => {
+  const key = `${locale}:${digits ?? ''}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(
+      LOCALES[locale].intl,
+      digits === undefined ? { maximumFractionDigits: 3 } : { minimumFractionDigits: digits, maximumFractionDigits: digits }
+    );
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+};
+
+// --- Messages ---
+
+// Index of the brace that closes the one at `open`, skipping nested braces and quoted text
+const closingBrace = (pattern: string, open: number): number => {
+  let depth = 0;
+  for (let i = open; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "'" && /[{}#]/.test(pattern[i + 1] ?? '')) {
+      const end = pattern.indexOf("'", i + 1);
+      i = end < 0 ? pattern.length : end;
+    } else if (c === '{') {
+      depth++;
+    } else if (c === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  throw new Error(`Unclosed brace in message: ${pattern}`);
+};
+
+// "one {…} =0 {…} other {…}" -> { one: '…', '=0': '…', other: '…' }
+const parseOptions = (text: string): Record<string, string> => {
+  const options: Record<string, string> = {};
+  let i = 0;
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    if (open < 0) break;
+    const close = closingBrace(text, open);
+    options[text.slice(i, open).trim()] = text.slice(open + 1, close);
+    i = close + 1;
+  }
+  return options;
+};
+
+const formatArgument = (locale: Locale, argument: string, values: MessageValues): string => {
+  const [name, type = '', ...rest] = argument.split(',');
+  const value = values[name.trim()];
+  const style = rest.join(',').trim();
+  switch (type.trim()) {
+    case '':
+      return value === undefined ? `{${name.trim()}}` : typeof value === 'number' ? formatNumber(locale, value) : value;
+    case 'number': {
+      const digits = /^::\.(0+)$/.exec(style)?.[1].length ?? (style === '::0' ? 0 : undefined);
+      return formatNumber(locale, Number(value), digits);
+    }
+    case 'plural': {
+      const n = Number(value);
+      const options = parseOptions(style);
+      const category = new Intl.PluralRules(LOCALES[locale].intl).select(n);
+      const message = options[`=${n}`] ?? options[category] ?? options.other ?? '';
+      return formatPattern(locale, message, values, formatNumber(locale, n));
+    }
+    case 'select': {
+      const options = parseOptions(style);
+      return formatPattern(locale, options[String(value)] ?? options.other ?? '', values);
+    }
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Fills an ICU-style pattern. `pound` is what # stands for inside a plural branch.
+ */
+export const formatPattern = (locale: Locale, pattern: string, values: MessageValues = {}, pound?: string): string => {
+  let out = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "'" && pattern[i + 1] === "'") {
+      out += "'";
+      i++;
+    } else if (c === "'" && /[{}#]/.test(pattern[i + 1] ?? '')) {
+      const end = pattern.indexOf("'", i + 1);
+      out += pattern.slice(i + 1, end < 0 ? undefined : end);
+      i = end < 0 ? pattern.length : end;
+    } else if (c === '{') {
+      const close = closingBrace(pattern, i);
+      out += formatArgument(locale, pattern.slice(i + 1, close), values);
+      i = close;
+    } else if (c === '#' && pound !== undefined) {
+      out += pound;
+    } else {
+      out += c;
+    }
+  }
+  return out;
+};
+
+/**
+ * Everything the UI needs to speak one language.
+ */
+export interface I18n {
+  locale: Locale;
+  t: Translate;
+  number: (value: number, digits?: number) => string;
+}
+
+export const createI18n = (locale: Locale): I18n => ({
+  locale,
+  t: (key, values) => formatPattern(locale, LOCALES[locale].messages[key] ?? de[key] ?? key, values),
+  number: (value, digits) => formatNumber(locale, value, digits),
+});
+
+export const I18nContext = React.createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+export const useI18n = (): I18n => useContext(I18nContext);
+
+/**
+ * Display name of a boat: the human players in the current language, opponents by their name.
+ */
+export const boatName = (t: Translate, name: string) =>
+  name === SOLO_NAME ? t('player.you') : name === PLAYER_ONE_NAME ? t('player.one') : name === PLAYER_TWO_NAME ? t('player.two') : name;
+
+// Built-in boat classes by their (stored) name; imported polars keep the name from the file
+const BOAT_CLASS_NAMES: Record<string, MessageKey> = {
+  Standard: 'boatClass.standard',
+  Jolle: 'boatClass.dinghy',
+  Kielboot: 'boatClass.keelboat',
+};
+
+export const boatClassName = (t: Translate, name: string) => (name in BOAT_CLASS_NAMES ? t(BOAT_CLASS_NAMES[name]) : name);
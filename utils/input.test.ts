@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { NO_INPUT } from './simulation';
+import { SHEET_RATE } from './physics';
+import {
+  DEFAULT_INPUT_SETTINGS,
+  MAX_DEADZONE,
+  MAX_TILT_RANGE,
+  bindingLabel,
+  combineInputs,
+  keyLabel,
+  keyboardInput,
+  parseInputSettings,
+  rebindKey,
+  screenTilt,
+  shapeRudder,
+  sheetToward,
+  soloBinding,
+  tiltRudder,
+} from './input';
+
+describe('parseInputSettings', () => {
+  it('reads back saved settings', () => {
+    const settings = rebindKey({ ...DEFAULT_INPUT_SETTINGS, deadzone: 0.2, expo: 0.7, tilt: true, tiltZero: -10 }, 2, 'left', 'KeyJ');
+    expect(parseInputSettings(JSON.parse(JSON.stringify(settings)))).toEqual(settings);
+  });
+
+  it('falls back to the defaults for anything missing or broken', () => {
+    expect(parseInputSettings(null)).toEqual(DEFAULT_INPUT_SETTINGS);
+    expect(parseInputSettings('controls')).toEqual(DEFAULT_INPUT_SETTINGS);
+    expect(parseInputSettings({ keys: 'wasd' })).toEqual(DEFAULT_INPUT_SETTINGS);
+    expect(parseInputSettings({ keys: { 1: { left: 'KeyQ', right: [7] } }, deadzone: 'low', tilt: 'yes' })).toEqual(DEFAULT_INPUT_SETTINGS);
+  });
+
+  it('keeps single actions of a partly broken binding', () => {
+    const parsed = parseInputSettings({ keys: { 1: { left: ['KeyQ'], right: null } } });
+    expect(parsed.keys[1]).toEqual({ ...DEFAULT_INPUT_SETTINGS.keys[1], left: ['KeyQ'] });
+  });
+
+  it('clamps values out of range', () => {
+    const parsed = parseInputSettings({ deadzone: 5, expo: -1, tiltRange: 1000 });
+    expect(parsed.deadzone).toBe(MAX_DEADZONE);
+    expect(parsed.expo).toBe(0);
+    expect(parsed.tiltRange).toBe(MAX_TILT_RANGE);
+  });
+});
+
+describe('key bindings', () => {
+  it('moves a key to its new action', () => {
+    const settings = rebindKey(DEFAULT_INPUT_SETTINGS, 1, 'left', 'ArrowLeft');
+    expect(settings.keys[1].left).toEqual(['ArrowLeft']);
+    expect(settings.keys[2].left).toEqual([]);
+  });
+
+  it('lets both sets steer the boat when alone', () => {
+    expect(soloBinding(DEFAULT_INPUT_SETTINGS.keys).left).toEqual(['KeyA', 'ArrowLeft']);
+  });
+
+  it('reads held keys as full rudder and sheet commands', () => {
+    const binding = DEFAULT_INPUT_SETTINGS.keys[1];
+    expect(keyboardInput({ KeyA: true, KeyW: true }, binding)).toEqual({ steer: -1, sheet: -1 });
+    expect(keyboardInput({ KeyD: true, KeyS: true }, binding)).toEqual({ steer: 1, sheet: 1 });
+    expect(keyboardInput({ ArrowLeft: true }, binding)).toBe(NO_INPUT);
+  });
+
+  it('labels keys short', () => {
+    expect(keyLabel('KeyA')).toBe('A');
+    expect(keyLabel('ArrowLeft')).toBe('←');
+    expect(keyLabel('Numpad4')).toBe('Num4');
+  });
+
+  it('labels a whole binding, rudder keys first', () => {
+    expect(bindingLabel(DEFAULT_INPUT_SETTINGS.keys[1])).toBe('A/D + W/S');
+    expect(bindingLabel(DEFAULT_INPUT_SETTINGS.keys[2])).toBe('←/→ + ↑/↓');
+  });
+});
+
+describe('shapeRudder', () => {
+  const settings = { deadzone: 0.1, expo: 0.5 };
+
+  it('ignores the dead zone and keeps the sign', () => {
+    expect(shapeRudder(0.05, settings)).toBe(0);
+    expect(shapeRudder(-1, settings)).toBe(-1);
+    expect(shapeRudder(1, settings)).toBe(1);
+  });
+
+  it('is finer around the centre with expo', () => {
+    expect(shapeRudder(0.55, settings)).toBeLessThan(shapeRudder(0.55, { ...settings, expo: 0 }));
+    expect(shapeRudder(0.55, { ...settings, expo: 0 })).toBeCloseTo(0.5);
+  });
+});
+
+describe('combineInputs', () => {
+  it('takes the rudder furthest out and the first sheet command', () => {
+    expect(combineInputs([{ steer: 0.2, sheet: 0 }, { steer: -0.6, sheet: 1 }, { steer: 0, sheet: -1 }])).toEqual({ steer: -0.6, sheet: 1 });
+  });
+
+  it('quantizes the rudder for replays', () => {
+    expect(combineInputs([{ steer: 0.123456, sheet: 0 }]).steer).toBe(0.12);
+    expect(combineInputs([{ steer: 0.001, sheet: 0 }])).toBe(NO_INPUT);
+  });
+});
+
+describe('screenTilt', () => {
+  it('follows the screen orientation', () => {
+    expect(screenTilt(10, 20, 0)).toBe(20);
+    expect(screenTilt(10, 20, 90)).toBe(10);
+    expect(screenTilt(10, 20, 180)).toBe(-20);
+    expect(screenTilt(10, 20, -90)).toBe(-10);
+    expect(screenTilt(null, 20, 0)).toBeNull();
+  });
+});
+
+describe('touch and tilt', () => {
+  it('trims the sheet towards the slider until it is there', () => {
+    expect(sheetToward(1, 0.5)).toBe(1);
+    expect(sheetToward(0, 0.5)).toBe(-1);
+    expect(sheetToward(0.5 + SHEET_RATE / 2, 0.5)).toBe(0);
+  });
+
+  it('steers from the calibrated position, full rudder at the tilt range', () => {
+    const settings = { ...DEFAULT_INPUT_SETTINGS, tiltZero: -10, tiltRange: 20, expo: 0 };
+    expect(tiltRudder(-10, settings)).toBe(0);
+    expect(tiltRudder(10, settings)).toBe(1);
+    expect(tiltRudder(-40, settings)).toBe(-1);
+  });
+});
@@ -0,0 +1,253 @@
+import { NO_INPUT, SimulationInput, quantizeSteer } from './simulation';
+import { SHEET_RATE } from './physics';
+import { isFiniteNumber, isRecord } from './guards';
+
+/**
+ * Controls: keyboard (rebindable), gamepads, the touch wheel and device tilt all end up as one SimulationInput per boat.
+ * The rudder is analog in [-1, 1]; keys give full rudder, sticks, triggers, the wheel and tilt anything in between.
+ */
+export type ControlAction = 'left' | 'right' | 'sheetIn' | 'sheetOut';
+
+export const CONTROL_ACTIONS: ControlAction[] = ['left', 'right', 'sheetIn', 'sheetOut'];
+
+// Key codes (KeyboardEvent.code) per action
+export type KeyBinding = Record<ControlAction, string[]>;
+
+export interface InputSettings {
+  keys: Record<1 | 2, KeyBinding>; // Per player; alone, both sets steer the one boat
+  deadzone: number; // Stick/trigger travel around the centre that still counts as 0 (0..MAX_DEADZONE)
+  expo: number; // Sensitivity curve: 0 = linear, 1 = cubic, i.e. fine around the centre and full rudder only at the end
+  tilt: boolean; // Steer player one by tilting the phone
+  tiltZero: number; // Calibrated upright position (degrees of screen tilt)
+  tiltRange: number; // Tilt from the upright position that gives full rudder (degrees)
+}
+
+export const MAX_DEADZONE = 0.4;
+export const MIN_TILT_RANGE = 10;
+export const MAX_TILT_RANGE = 60;
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  keys: {
+    1: { left: ['KeyA'], right: ['KeyD'], sheetIn: ['KeyW'], sheetOut: ['KeyS'] },
+    2: { left: ['ArrowLeft'], right: ['ArrowRight'], sheetIn: ['ArrowUp'], sheetOut: ['ArrowDown'] },
+  },
+  deadzone: 0.12,
+  expo: 0.4,
+  tilt: false,
+  tiltZero: 0,
+  tiltRange: 25,
+};
+
+// Shortcuts of the game itself, never bound to a boat
+export const RESERVED_KEYS = ['Escape', 'KeyM', 'Equal', 'Minus', 'NumpadAdd', 'NumpadSubtract'];
+
+const STORAGE_KEY = 'segel_sim_controls';
+
+// --- Settings ---
+
+const parseBinding = (value: unknown, fallback: KeyBinding): KeyBinding => {
+  const binding = { ...fallback };
+  if (!isRecord(value)) return binding;
+  for (const action of CONTROL_ACTIONS) {
+    const codes = value[action];
+    if (Array.isArray(codes) && codes.every(code => typeof code === 'string')) binding[action] = codes;
+  }
+  return binding;
+};
+
+const clampSetting = (value: unknown, min: number, max: number, fallback: number) =>
+  isFiniteNumber(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+/**
+ * Stored settings, anything missing or broken replaced by the default.
+ */
+export const parseInputSettings = (value: unknown): InputSettings => {
+  const data = isRecord(value) ? value : {};
+  const keys = isRecord(data.keys) ? data.keys : {};
+  return {
+    keys: {
+      1: parseBinding(keys[1], DEFAULT_INPUT_SETTINGS.keys[1]),
+      2: parseBinding(keys[2], DEFAULT_INPUT_SETTINGS.keys[2]),
+    },
+    deadzone: clampSetting(data.deadzone, 0, MAX_DEADZONE, DEFAULT_INPUT_SETTINGS.deadzone),
+    expo: clampSetting(data.expo, 0, 1, DEFAULT_INPUT_SETTINGS.expo),
+    tilt: data.tilt === true,
+    tiltZero: clampSetting(data.tiltZero, -90, 90, DEFAULT_INPUT_SETTINGS.tiltZero),
+    tiltRange: clampSetting(data.tiltRange, MIN_TILT_RANGE, MAX_TILT_RANGE, DEFAULT_INPUT_SETTINGS.tiltRange),
+  };
+};
+
+export const loadInputSettings = (): InputSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return parseInputSettings(raw ? JSON.parse(raw) : null);
+  } catch {
+    return DEFAULT_INPUT_SETTINGS;
+  }
+};
+
+export const saveInputSettings = (settings: InputSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // ignore storage failures
+  }
+};
+
+/**
+ * Binds one key to an action of a player. The key is taken away from wherever it was bound before,
+ * so one key never steers two things.
+ */
+export const rebindKey = (settings: InputSettings, player: 1 | 2, action: ControlAction, code: string): InputSettings => {
+  const without = (binding: KeyBinding): KeyBinding => {
+    const next = { ...binding };
+    for (const a of CONTROL_ACTIONS) next[a] = binding[a].filter(c => c !== code);
+    return next;
+  };
+  const keys = { 1: without(settings.keys[1]), 2: without(settings.keys[2]) };
+  keys[player][action] = [code];
+  return { ...settings, keys };
+};
+
+// Alone, both players' keys steer the one boat
+export const soloBinding = (keys: InputSettings['keys']): KeyBinding => {
+  const binding = { ...keys[1] };
+  for (const action of CONTROL_ACTIONS) binding[action] = [...keys[1][action], ...keys[2][action]];
+  return binding;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Space: '␣',
+  ShiftLeft: '⇧',
+  ShiftRight: '⇧',
+  Enter: '↵',
+};
+
+/**
+ * Short label of a key code for the HUD: 'KeyA' -> 'A', 'ArrowLeft' -> '←', 'Numpad4' -> 'Num4'.
+ */
+export const keyLabel = (code: string): string =>
+  KEY_LABELS[code] ?? code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num');
+
+/**
+ * The keys of a binding in one line for messages: rudder keys, then sheet keys, e.g. 'A/D + W/S'.
+ */
+export const bindingLabel = (binding: KeyBinding): string =>
+  [[...binding.left, ...binding.right], [...binding.sheetIn, ...binding.sheetOut]].map(codes => codes.map(keyLabel).join('/')).join(' + ');
+
+// --- Reading the devices ---
+
+/**
+ * Response curve for analog rudder: dead zone around the centre, then linear blended with cubic by `expo`.
+ */
+export const shapeRudder = (raw: number, settings: Pick<InputSettings, 'deadzone' | 'expo'>): number => {
+  const magnitude = Math.abs(raw);
+  if (magnitude <= settings.deadzone) return 0;
+  const x = Math.min(1, (magnitude - settings.deadzone) / (1 - settings.deadzone));
+  return Math.sign(raw) * ((1 - settings.expo) * x + settings.expo * x ** 3);
+};
+
+export const keyboardInput = (keys: Record<string, boolean>, binding: KeyBinding): SimulationInput => {
+  const held = (codes: string[]) => codes.some(code => keys[code]);
+  const steer = held(binding.left) ? -1 : held(binding.right) ? 1 : 0;
+  // Up = sheet in (dichtholen), down = ease out (fieren)
+  const sheet = held(binding.sheetIn) ? -1 : held(binding.sheetOut) ? 1 : 0;
+  return steer === 0 && sheet === 0 ? NO_INPUT : { steer, sheet };
+};
+
+// Standard gamepad mapping (https://w3c.github.io/gamepad/#remapping)
+const PAD = { stickX: 0, leftBumper: 4, rightBumper: 5, leftTrigger: 6, rightTrigger: 7, up: 12, down: 13 };
+
+/**
+ * Connected gamepads in the order they were plugged in. Browsers only list a pad after a button press.
+ */
+export const connectedGamepads = (): Gamepad[] => {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return Array.from(navigator.getGamepads()).filter((pad): pad is Gamepad => !!pad && pad.connected);
+};
+
+/**
+ * Raw rudder of a pad in [-1, 1]: the left stick, or the triggers (right minus left), whichever is further out.
+ */
+export const gamepadRudder = (pad: Gamepad): number => {
+  const stick = pad.axes[PAD.stickX] ?? 0;
+  const triggers = (pad.buttons[PAD.rightTrigger]?.value ?? 0) - (pad.buttons[PAD.leftTrigger]?.value ?? 0);
+  return Math.abs(triggers) > Math.abs(stick) ? triggers : stick;
+};
+
+/**
+ * Rudder from the stick or triggers through the sensitivity curve; sheet in with D-pad up or the right bumper,
+ * ease with D-pad down or the left bumper.
+ */
+export const gamepadInput = (pad: Gamepad, settings: InputSettings): SimulationInput => {
+  const pressed = (index: number) => pad.buttons[index]?.pressed ?? false;
+  const steer = shapeRudder(gamepadRudder(pad), settings);
+  const sheet = pressed(PAD.up) || pressed(PAD.rightBumper) ? -1 : pressed(PAD.down) || pressed(PAD.leftBumper) ? 1 : 0;
+  return { steer, sheet };
+};
+
+// --- Touch and tilt ---
+
+/**
+ * What the touch controls hold: the wheel's rudder and, while the sheet slider has not been reached yet, its target.
+ */
+export interface TouchState {
+  steer: number;
+  sheetTarget: number | null; // Sheet (radians) to trim to, null = leave the sheet alone
+}
+
+export const NO_TOUCH: TouchState = { steer: 0, sheetTarget: null };
+
+/**
+ * Sheet command that trims towards `target`; 0 once it is closer than one tick's worth.
+ */
+export const sheetToward = (target: number, sheet: number): SimulationInput['sheet'] =>
+  target < sheet - SHEET_RATE ? -1 : target > sheet + SHEET_RATE ? 1 : 0;
+
+export const touchInput = (touch: TouchState, sheet: number): SimulationInput => ({
+  steer: touch.steer,
+  sheet: touch.sheetTarget === null ? 0 : sheetToward(touch.sheetTarget, sheet),
+});
+
+/**
+ * Sideways tilt of the screen in degrees (right edge down = positive), whichever way the phone is turned.
+ * screenAngle: screen.orientation.angle.
+ */
+export const screenTilt = (beta: number | null, gamma: number | null, screenAngle: number): number | null => {
+  if (beta === null || gamma === null) return null;
+  switch (((screenAngle % 360) + 360) % 360) {
+    case 90:
+      return beta;
+    case 180:
+      return -gamma;
+    case 270:
+      return -beta;
+    default:
+      return gamma;
+  }
+};
+
+// Small wobble around the calibrated position that still counts as straight ahead
+const TILT_DEADZONE = 0.05;
+
+export const tiltRudder = (tilt: number, settings: InputSettings): number =>
+  shapeRudder((tilt - settings.tiltZero) / settings.tiltRange, { deadzone: TILT_DEADZONE, expo: settings.expo });
+
+/**
+ * One input from several devices: the rudder furthest out wins, the first sheet command wins.
+ * The rudder is quantized so that replays reproduce the run exactly.
+ */
+export const combineInputs = (inputs: SimulationInput[]): SimulationInput => {
+  let steer = 0;
+  let sheet: SimulationInput['sheet'] = 0;
+  for (const input of inputs) {
+    if (Math.abs(input.steer) > Math.abs(steer)) steer = input.steer;
+    if (sheet === 0) sheet = input.sheet;
+  }
+  steer = quantizeSteer(steer);
+  return steer === 0 && sheet === 0 ? NO_INPUT : { steer, sheet };
+};
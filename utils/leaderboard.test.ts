@@ -0,0 +1,61 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { TrialEntry, addTrialTime, loadBoard } from './leaderboard';
+
+const entry = (board: string, ticks: number, date: string, extra: Partial<TrialEntry> = {}): TrialEntry => ({
+  board,
+  division: 'clean',
+  name: 'Kim',
+  date,
+  ticks,
+  splits: [ticks / 2],
+  collisions: 0,
+  upgrades: { sail: 1 },
+  ...extra,
+});
+
+// Writes a row past addTrialTime, as an older or broken version of the game might have
+const putRaw = (row: object) =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('segel_sim', 1);
+    request.onsuccess = () => {
+      const transaction = request.result.transaction('trialTimes', 'readwrite');
+      transaction.objectStore('trialTimes').add(row);
+      transaction.oncomplete = () => {
+        request.result.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+describe('leaderboard', () => {
+  it('ranks times fastest first, equal times by who got there first', async () => {
+    expect(await addTrialTime(entry('a', 900, '2026-01-02'))).toEqual({ rank: 1, count: 1 });
+    expect(await addTrialTime(entry('a', 600, '2026-01-03'))).toEqual({ rank: 1, count: 2 });
+    expect(await addTrialTime(entry('a', 900, '2026-01-01'))).toEqual({ rank: 2, count: 3 });
+    expect((await loadBoard('a', 'clean')).map(e => [e.ticks, e.date])).toEqual([
+      [600, '2026-01-03'],
+      [900, '2026-01-01'],
+      [900, '2026-01-02'],
+    ]);
+  });
+
+  it('keeps boards and divisions apart', async () => {
+    await addTrialTime(entry('b', 700, '2026-01-01'));
+    await addTrialTime(entry('b', 500, '2026-01-01', { division: 'code' }));
+    await addTrialTime(entry('c', 400, '2026-01-01'));
+    expect((await loadBoard('b', 'clean')).map(e => e.ticks)).toEqual([700]);
+    expect((await loadBoard('b', 'code')).map(e => e.ticks)).toEqual([500]);
+  });
+
+  it('skips broken rows and cleans up stored upgrades', async () => {
+    await addTrialTime(entry('d', 800, '2026-01-01', { upgrades: { turbo: 99 } }));
+    await putRaw({ ...entry('d', 300, '2026-01-01'), ticks: 'fast' });
+    await putRaw({ ...entry('d', 300, '2026-01-01'), splits: ['one'] });
+    const rows = await loadBoard('d', 'clean');
+    expect(rows.map(e => e.ticks)).toEqual([800]);
+    expect(rows[0].upgrades).toEqual({ turbo: 3 });
+  });
+});
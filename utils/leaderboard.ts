@@ -0,0 +1,87 @@
+import { UpgradeLevels, parseUpgradeLevels } from './upgrades';
+import { isInteger, isRecord } from './guards';
+
+/**
+ * Local leaderboards of the time trial, kept in IndexedDB (localStorage would fill up with splits).
+ * Times sailed with an upgrade from a code go on a board of their own, the 'code' division,
+ * so they never push honest times off the 'clean' one.
+ */
+export type TrialDivision = 'clean' | 'code';
+
+export interface TrialEntry {
+  id?: number; // Assigned by the database
+  board: string; // See trialBoardKey
+  division: TrialDivision;
+  name: string;
+  date: string; // ISO timestamp
+  ticks: number;
+  splits: number[];
+  collisions: number;
+  upgrades: UpgradeLevels;
+}
+
+const DB_NAME = 'segel_sim';
+const DB_VERSION = 1;
+const STORE = 'trialTimes';
+const BOARD_INDEX = 'board';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Resolves with the request's result once it succeeds
+const done = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB unavailable'));
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex(BOARD_INDEX, ['board', 'division']);
+    };
+    // A failed open (private mode, blocked storage) may work next time
+    dbPromise = done(request).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const isTrialEntry = (value: unknown): value is TrialEntry =>
+  isRecord(value) &&
+  typeof value.board === 'string' &&
+  (value.division === 'clean' || value.division === 'code') &&
+  typeof value.name === 'string' &&
+  typeof value.date === 'string' &&
+  isInteger(value.ticks) &&
+  Array.isArray(value.splits) &&
+  value.splits.every(isInteger) &&
+  isInteger(value.collisions);
+
+// Fastest first; equal times by who got there first
+const byTime = (a: TrialEntry, b: TrialEntry) => a.ticks - b.ticks || a.date.localeCompare(b.date);
+
+/**
+ * All times of one board and division, fastest first.
+ */
+export const loadBoard = (board: string, division: TrialDivision): Promise<TrialEntry[]> =>
+  openDb()
+    .then(db => done(db.transaction(STORE).objectStore(STORE).index(BOARD_INDEX).getAll([board, division])))
+    .then(rows =>
+      rows.filter(isTrialEntry).map(row => ({ ...row, upgrades: parseUpgradeLevels(row.upgrades) })).sort(byTime)
+    );
+
+/**
+ * Stores a time and returns its place on the board.
+ */
+export const addTrialTime = (entry: TrialEntry): Promise<{ rank: number; count: number }> =>
+  openDb()
+    .then(db => done(db.transaction(STORE, 'readwrite').objectStore(STORE).add(entry)))
+    .then(id => loadBoard(entry.board, entry.division).then(entries => ({
+      rank: entries.findIndex(e => e.id === id) + 1,
+      count: entries.length,
+    })));
@@ -0,0 +1,301 @@
+/**
+ * Deutsch: die Ausgangssprache. Alle anderen Kataloge haben genau diese Schlüssel (siehe Catalogue).
+ */
+export const de = {
+  // --- Spieler und Boote ---
+  'player.you': 'Du',
+  'player.one': 'Spieler 1',
+  'player.two': 'Spieler 2',
+  'boatClass.standard': 'Standard',
+  'boatClass.dinghy': 'Jolle',
+  'boatClass.keelboat': 'Kielboot',
+  'difficulty.easy': 'Leicht',
+  'difficulty.medium': 'Mittel',
+  'difficulty.hard': 'Schwer',
+
+  // --- Meldungen in der Bildmitte ---
+  'msg.playerPrefix': 'Spieler {player}: ',
+  'msg.codePrefix': 'Spieler 2 – ',
+  'msg.upgrade.owned': '{who}Info: {name} bereits vorhanden',
+  'msg.upgrade.unlocked': '{who}UPGRADE: {name}!',
+  'msg.upgrade.bought': 'UPGRADE: {name}{level, plural, =0 {} other { Stufe #}}!',
+  'msg.won': '{race}Level Aufstieg! Stärkerer Wind.',
+  'msg.won.player': 'Spieler {player} gewinnt! ',
+  'msg.won.rank': 'Platz {rank} von {count}! ',
+  'msg.personalBest': ' Neue Bestzeit!',
+  'msg.coins': '{coins, plural, one { +# Münze} other { +# Münzen}}',
+  'msg.gameOver': '{who}Game Over! Zurück zu Level 1.',
+  'msg.hitBoat': 'Boote kollidiert! Beide zurück zum Start. Leben: {lives}/{max} · {lives2}/{max}',
+  'msg.hitRock': '{who}Felsen berührt! Zurück zum Start. Leben: {lives}/{max}',
+  'msg.hitWall': '{who}Rand berührt! Zurück zum Start. Leben: {lives}/{max}',
+  'msg.penalty': '{who}{rule} verletzt! Vorfahrt hatte {against} – 360° Strafkringel drehen.',
+  'msg.penaltyServed': '{who}Strafkringel erledigt.',
+  'msg.newRun': 'Neuer Run: Level zurückgesetzt & Felsen neu platziert.',
+  'msg.invalidCourseCode': 'Ungültiger Kurs-Code',
+  'msg.courseLoaded': 'Kurs {code} geladen.',
+  'msg.customCourseLoaded': 'Kurs „{name}“ geladen.',
+  'msg.boatChanged': 'Boot: {name}. Kurs startet neu.',
+  'msg.apparentWind.on': 'Segel nach scheinbarem Wind. Kurs startet neu.',
+  'msg.apparentWind.off': 'Segel nach wahrem Wind. Kurs startet neu.',
+  'msg.opponents': '{count} Gegner ({difficulty}). Kurs startet neu.',
+  'msg.noOpponents': 'Ohne Gegner. Kurs startet neu.',
+  'msg.twoPlayer.on': 'Zwei Spieler: {keys1} gegen {keys2}. Kurs startet neu.',
+  'msg.twoPlayer.off': 'Ein Spieler. Kurs startet neu.',
+  'msg.tilt.on': 'Neigungssteuerung an – Handy gerade halten und kalibrieren.',
+  'msg.tilt.off': 'Neigungssteuerung aus.',
+  'msg.tilt.unavailable': 'Kein Neigungssensor verfügbar.',
+  'msg.tilt.calibrated': 'Neigung kalibriert: so geht es geradeaus.',
+  'msg.timeTrial.on': 'Zeitfahren: jedes Level läuft auf Zeit, allein auf dem Kurs. Kurs startet neu.',
+  'msg.timeTrial.off': 'Zeitfahren aus. Kurs startet neu.',
+  'msg.trial.time': 'Zeit {time} – Platz {rank} von {count} in der Bestenliste',
+  'msg.trial.time.code': 'Zeit {time} – Platz {rank} von {count} in der Code-Wertung',
+  'msg.trial.saveFailed': 'Zeit konnte nicht gespeichert werden.',
+  'msg.polarInvalid': 'Polare konnte nicht gelesen werden (TWA\\TWS-Tabelle erwartet).',
+  'msg.nothingRecorded': 'Noch nichts aufgezeichnet.',
+  'msg.replayInvalid': 'Replay-Datei konnte nicht gelesen werden.',
+  'msg.replayOutdated': 'Replay stammt aus einer älteren Spielversion mit anderer Physik und kann nicht abgespielt werden.',
+  'app.courseName': 'Kurs {code}',
+
+  // --- Dashboard ---
+  'hud.title': 'Segel-Simulator',
+  'hud.language': 'Sprache',
+  'hud.mark': 'Marke {n}/{count}: {task}',
+  'hud.mark.short': 'Marke',
+  'hud.mark.buoy': 'Tonne an {side, select, port {Backbord} other {Steuerbord}} runden',
+  'hud.mark.gate': 'Durch das Tor',
+  'hud.mark.finish': 'Durchs Ziel',
+  'hud.goal.finish': 'Erreiche das Ziel!',
+  'hud.goal.leftEdge': 'Erreiche den linken Rand!',
+  'hud.level': 'LEVEL',
+  'hud.highscore': 'HIGHSCORE',
+  'hud.lives': 'LEBEN',
+  'hud.lives.p1': 'LEBEN S1',
+  'hud.course': 'KURS',
+  'hud.course.placeholder': 'Kurs-Code laden...',
+  'hud.boat': 'BOOT',
+  'hud.boat.csv': 'Polare laden (CSV/TSV: erste Zeile TWA\\TWS und Windstärken, dann je Windwinkel die Bootsgeschwindigkeiten)',
+  'hud.opponents': 'GEGNER',
+  'hud.opponents.count': 'Anzahl der Computer-Gegner',
+  'hud.opponents.none': 'Keine',
+  'hud.opponents.difficulty': 'Schwierigkeit: Reaktionszeit, Kurs- und Trimmgenauigkeit der Gegner',
+  'hud.twoPlayer.title': 'Zwei Boote an einer Tastatur, jedes mit seinen Tasten (siehe Steuerung); Gamepads in der Reihenfolge des Einsteckens',
+  'hud.twoPlayer.on': 'Zwei Spieler',
+  'hud.twoPlayer.off': 'Ein Spieler',
+  'hud.timeTrial.title': 'Zeitfahren: jedes Level vom Start bis ins Ziel gestoppt, mit Zwischenzeiten an den Marken und Bestenliste',
+  'hud.timeTrial.on': 'Zeitfahren',
+  'hud.timeTrial.off': 'Freies Segeln',
+  'hud.trial.split': 'Marke {n}',
+  'hud.trial.best': 'Bestzeit',
+  'hud.trial.collisions': '{count, plural, =0 {Ohne Kollision} one {# Kollision} other {# Kollisionen}}',
+  'hud.trial.code': 'Code-Wertung',
+  'hud.trial.code.title': 'Ein Upgrade aus einem Code ist an Bord: die Zeit zählt in einer eigenen Liste',
+  'hud.trial.board': 'Bestenliste',
+  'hud.ghost': 'Bestzeit in diesem Level',
+  'hud.speed': 'Geschwindigkeit',
+  'hud.speed.title': 'Fahrt durchs Wasser (STW)',
+  'hud.groundSpeed': 'über Grund',
+  'hud.groundSpeed.title': 'Fahrt über Grund (SOG): mit Strömung und Abdrift',
+  'hud.manoeuvres': 'MANÖVER',
+  'hud.manoeuvres.count': '{tacks, plural, one {# Wende} other {# Wenden}} · {gybes, plural, one {# Halse} other {# Halsen}}',
+  'hud.manoeuvre.active': '{kind, select, tack {Wende} other {Halse}} läuft…',
+  'hud.manoeuvre.last': 'Letzte {kind, select, tack {Wende} other {Halse}} ({seconds, number, ::.0}s)',
+  'manoeuvre.clean': 'sauber',
+  'manoeuvre.ok': 'ok',
+  'manoeuvre.botched': 'verpatzt',
+  'hud.wind': 'Wind',
+  'hud.wind.gust': 'Bö',
+  'hud.wind.lull': 'Flaute',
+  'hud.apparentWind': 'Segel nach scheinbarem Wind',
+  'hud.apparentWind.title': 'Trimm und Polare nach scheinbarem statt wahrem Wind (startet den Kurs neu)',
+  'hud.windAngle': 'Windwinkel',
+  'hud.polar': 'POLARE',
+  'hud.polar.title': 'Polardiagramm ein-/ausblenden',
+  'hud.vmg': 'VMG zum Ziel',
+  'hud.vmg.title': 'Velocity Made Good: der Teil der Fahrt, der direkt aufs Ziel zu geht',
+  'hud.bestUpwind': 'Beste Höhe',
+  'hud.bestUpwind.title': 'Bester Winkel zum Wind, um direkt gegen den Wind voranzukommen',
+  'hud.bestDownwind': 'Bester Vorwind',
+  'hud.bestDownwind.title': 'Bester Winkel zum Wind, um direkt vor dem Wind voranzukommen',
+  'hud.route': 'Laylines & Route',
+  'hud.route.title': 'Laylines, beste VMG-Richtung und schnellste Route um die bekannten Felsen einblenden',
+  'hud.efficiency': 'Segel-Effizienz',
+  'hud.noSail': 'KEIN SEGEL',
+  'hud.noGo': 'Im toten Winkel (No-Go Zone)',
+  'trim.auto': 'Auto-Trimm',
+  'trim.luffing': 'Segel killt – dichtholen ↑',
+  'trim.stalled': 'Überzogen – fieren ↓',
+  'trim.ok': 'Gut getrimmt',
+  'hud.reset': 'Reset (neue Felsen)',
+  'hud.reset.title': 'Setzt Level/Leben zurück und platziert die Felsen neu. Upgrades & Highscore bleiben.',
+  'hud.editor': 'Editor',
+  'hud.editor.title': 'Eigenen Kurs bauen (Felsen, Start, Ziel, Wind)',
+  'hud.replay': 'Replay',
+  'hud.replay.title': 'Bisherigen Run als Replay ansehen',
+  'hud.import': 'Import',
+  'hud.import.title': 'Exportiertes Replay (JSON) laden',
+  'hud.debugShapes': 'Kollisionsformen',
+  'hud.debugShapes.title': 'Kollisionsformen anzeigen: Rumpf-Polygone, Fels-Umrisse und Ränder',
+  'hud.shop': 'Werft',
+  'hud.shop.title': 'Upgrades mit Münzen aus sauberen Levels kaufen',
+  'hud.controls': 'Steuerung',
+  'hud.controls.title': 'Tasten belegen, Gamepad und Empfindlichkeit einstellen',
+  'hud.code.placeholder': 'Upgrade Code...',
+  'hud.keys.left': 'Links',
+  'hud.keys.right': 'Rechts',
+  'hud.keys.sheetIn': 'Dicht',
+  'hud.keys.sheetOut': 'Fieren',
+
+  // --- Wettfahrtregeln ---
+  'penalty.rightOfWay': 'Vorfahrt hatte:',
+  'penalty.turn': 'Strafkringel drehen',
+  'penalty.finishAfter': 'Erst danach zählt das Ziel.',
+  'rule.portStarboard.title': 'Regel 10 – Backbord- vor Steuerbordbug',
+  'rule.portStarboard.explanation':
+    'Auf verschiedenen Bugen muss sich das Boot auf Backbordbug (Wind von Backbord) von dem auf Steuerbordbug freihalten.',
+  'rule.windwardLeeward.title': 'Regel 11 – Luv vor Lee',
+  'rule.windwardLeeward.explanation': 'Auf gleichem Bug und überlappend muss sich das Luv-Boot (näher am Wind) von dem Lee-Boot freihalten.',
+  'rule.clearAstern.title': 'Regel 12 – Klar achteraus',
+  'rule.clearAstern.explanation': 'Auf gleichem Bug ohne Überlappung muss sich das Boot klar achteraus von dem klar voraus freihalten.',
+  'rule.tacking.title': 'Regel 13 – Beim Wenden',
+  'rule.tacking.explanation': 'Wer durch den Wind wendet (Bug im toten Winkel), muss sich von allen anderen Booten freihalten.',
+
+  // --- Upgrades und Werft ---
+  'upgrade.sail.name': 'Segel',
+  'upgrade.sail.description': 'Ohne Segel treibt das Boot nur. Mit Segel geht es mit dem Wind voran.',
+  'upgrade.sail.badge': 'SEGEL',
+  'upgrade.steering.name': 'Super-Lenkung',
+  'upgrade.steering.description': 'Größeres Ruder: dreht schneller, auch ohne Fahrt im Boot.',
+  'upgrade.steering.badge': 'SUPER LENKUNG',
+  'upgrade.turbo.name': 'Turbo',
+  'upgrade.turbo.description': 'Leichterer Rumpf: je Stufe ein Sechstel mehr Höchstfahrt.',
+  'upgrade.turbo.badge': 'TURBO',
+  'upgrade.chart.name': 'Seekarte',
+  'upgrade.chart.description': 'Kein Nebel mehr, alle Felsen sind von Anfang an eingezeichnet.',
+  'upgrade.chart.badge': 'SICHT',
+  'upgrade.autoTrim.name': 'Auto-Trimm',
+  'upgrade.autoTrim.description': 'Die Schot wird automatisch optimal gefahren.',
+  'upgrade.autoTrim.badge': 'AUTO-TRIMM',
+  'shop.title': 'WERFT',
+  'shop.close': 'Werft schließen (Esc)',
+  'shop.level': 'Stufe {level}/{max}',
+  'shop.maxed': 'Voll ausgebaut',
+  'shop.hint':
+    'Münzen gibt es für jedes Level, das ohne verlorenes Leben geschafft wird – je höher das Level, desto mehr. Upgrade-Codes schalten ein Upgrade weiterhin sofort ganz frei.',
+
+  // --- Steuerung ---
+  'controls.title': 'STEUERUNG',
+  'controls.close': 'Steuerung schließen (Esc)',
+  'controls.keys': 'Tastatur',
+  'controls.keys.press': 'Taste…',
+  'controls.keys.unbound': '—',
+  'controls.keys.hint': 'Feld anklicken, dann die neue Taste drücken (Esc bricht ab). Alleine steuern beide Tastensätze dasselbe Boot.',
+  'controls.gamepad': 'Gamepad',
+  'controls.gamepad.none': 'Kein Gamepad erkannt – einmal einen Knopf drücken.',
+  'controls.gamepad.help': 'Linker Stick oder Trigger: Ruder. Steuerkreuz ↑ oder rechte Schultertaste: dichtholen, ↓ oder linke: fieren.',
+  'controls.deadzone': 'Totzone',
+  'controls.expo': 'Feinfühligkeit um die Mitte',
+  'controls.curve': 'Ausschlag am Stick → Ruder',
+  'controls.tilt': 'Neigungssteuerung',
+  'controls.tilt.range': 'Volles Ruder bei',
+  'controls.tilt.hint': 'Auf dem Handy über den Handy-Knopf neben dem Steuerrad einschalten und kalibrieren.',
+  'controls.reset': 'Standard wiederherstellen',
+  'touch.wheel.title': 'Steuerrad: seitlich ziehen, Loslassen stellt das Ruder mittig',
+  'touch.sheet': 'Schot',
+  'touch.sheet.title': 'Schot: nach unten dichtholen, nach oben fieren',
+  'touch.tilt.title': 'Durch Neigen steuern',
+  'touch.calibrate.title': 'Aktuelle Haltung als geradeaus übernehmen',
+
+  // --- Zeitfahren ---
+  'trial.board.title': 'Bestenliste',
+  'trial.board.close': 'Schließen',
+  'trial.board.course': '{course} · Level {level} · {boat}',
+  'trial.division.clean': 'Ohne Codes',
+  'trial.division.code': 'Mit Codes',
+  'trial.board.loading': 'Lädt…',
+  'trial.board.empty': 'Noch keine Zeiten. Segle das Level im Zeitfahren ins Ziel.',
+  'trial.board.unavailable': 'Bestenliste nicht verfügbar (kein IndexedDB in diesem Browser).',
+  'trial.board.name': 'Name',
+  'trial.board.time': 'Zeit',
+  'trial.board.collisions': 'Koll.',
+  'trial.board.collisions.title': 'Kollisionen mit Felsen und Rand auf dem Weg ins Ziel',
+  'trial.board.upgrades': 'Upgrades',
+  'trial.board.date': 'Datum',
+  'trial.board.playerName': 'Dein Name',
+  'trial.board.hint': 'Jeder Kurs, jedes Level und jede Bootsklasse hat eine eigene Liste. Zeiten mit Upgrades aus Codes stehen unter „Mit Codes“.',
+  'trial.anonymous': 'Anonym',
+
+  // --- Karte ---
+  'course.finish': 'ZIEL',
+  'course.customName': 'Eigener Kurs',
+  'minimap.title': 'KARTE',
+  'minimap.zoomOut': 'Herauszoomen (−)',
+  'minimap.zoomIn': 'Hineinzoomen (+)',
+  'minimap.follow': 'Kamera folgt wieder dem Boot',
+  'minimap.overview': 'Ganzes Spielfeld zeigen',
+  'minimap.chart': 'Seekarte',
+  'minimap.chart.title': 'Seekarte öffnen (M)',
+  'chart.title': 'SEEKARTE',
+  'chart.close': 'Seekarte schließen (M)',
+  'chart.explored': '{percent}% erkundet',
+  'chart.revealed': 'Karte aufgedeckt',
+  'chart.rocks': '{charted}/{total} Felsen eingezeichnet',
+  'chart.legend.explored': 'erkundet',
+  'chart.legend.unknown': 'unbekannt',
+  'chart.legend.rockInSight': 'Fels in Sicht',
+  'chart.legend.rockLastSeen': 'Fels, zuletzt gesehen',
+  'chart.legend.start': 'Start',
+
+  // --- Instrumente ---
+  'wind.true': 'Wahrer Wind',
+  'wind.apparent': 'Scheinbarer Wind',
+  'wind.starboard': 'Stb',
+  'wind.port': 'Bb',
+
+  // --- Replay ---
+  'replay.title': 'REPLAY',
+  'replay.close': 'Replay beenden und weitersegeln',
+  'replay.play': 'Abspielen',
+  'replay.pause': 'Pause',
+  'replay.export': 'Export (JSON)',
+
+  // --- Kurs-Editor ---
+  'editor.title': 'Kurs-Editor',
+  'editor.close': 'Editor schließen',
+  'editor.name': 'Kursname',
+  'editor.tool.select': 'Auswahl',
+  'editor.tool.rock': 'Fels',
+  'editor.tool.finish': 'Ziel',
+  'editor.tool.buoy': 'Tonne',
+  'editor.tool.gate': 'Tor',
+  'editor.tool.line': 'Ziellinie',
+  'editor.help':
+    'Felsen, Marken und Start ziehen, Fels-Griff zum Skalieren, Entf zum Löschen. Mit „Ziel“ ein neues Zielfeld aufziehen, Tor und Ziellinie von Ende zu Ende aufziehen. Sobald es Marken gibt, endet der Kurs an der letzten Marke.',
+  'editor.marks': 'Bahnmarken ({count})',
+  'editor.marks.clear': 'alle löschen',
+  'editor.template.upDown': 'Up & Down',
+  'editor.template.upDown.title': 'Kreuz zur Luvtonne, Vorwind durchs Lee-Tor, Ziel am Start',
+  'editor.template.triangle': 'Dreieck',
+  'editor.template.triangle.title': 'Luv-, Raum- und Leetonne an Backbord, Ziel am Start',
+  'editor.mark.earlier': 'Früher',
+  'editor.mark.later': 'Später',
+  'editor.mark.rounding': 'an {side, select, port {Backbord (rot)} other {Steuerbord (grün)}} lassen',
+  'editor.mark.delete': 'Marke löschen',
+  'editor.rock.radius': 'Fels-Radius',
+  'editor.rock.delete': 'Fels löschen',
+  'editor.wind': 'Wind (fest)',
+  'editor.wind.direction': 'Richtung',
+  'editor.wind.speed': 'Stärke',
+  'editor.current': 'Strömung',
+  'editor.current.direction': 'Richtung (wohin)',
+  'editor.current.speed': 'Strom',
+  'editor.current.tide': 'Gezeit (kippt)',
+  'editor.current.tidePeriod': 'Gezeiten-Zyklus',
+  'editor.current.hint': 'Zwischen eng stehenden Felsen läuft der Strom schneller.',
+  'editor.field': 'Spielfeld {width}×{height} · {rocks, plural, one {# Fels} other {# Felsen}}',
+  'editor.importError': 'Kurs-Datei konnte nicht gelesen werden.',
+  'editor.save': 'Speichern',
+  'editor.load': 'Laden',
+  'editor.play': 'Kurs segeln',
+};
+
+export type Catalogue = Record<keyof typeof de, string>;
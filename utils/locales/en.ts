@@ -0,0 +1,302 @@
+import { Catalogue } from './de';
+
+/**
+ * English.
+ */
+export const en: Catalogue = {
+  // --- Players and boats ---
+  'player.you': 'You',
+  'player.one': 'Player 1',
+  'player.two': 'Player 2',
+  'boatClass.standard': 'Standard',
+  'boatClass.dinghy': 'Dinghy',
+  'boatClass.keelboat': 'Keelboat',
+  'difficulty.easy': 'Easy',
+  'difficulty.medium': 'Medium',
+  'difficulty.hard': 'Hard',
+
+  // --- Messages in the middle of the screen ---
+  'msg.playerPrefix': 'Player {player}: ',
+  'msg.codePrefix': 'Player 2 – ',
+  'msg.upgrade.owned': '{who}Info: {name} already installed',
+  'msg.upgrade.unlocked': '{who}UPGRADE: {name}!',
+  'msg.upgrade.bought': 'UPGRADE: {name}{level, plural, =0 {} other { level #}}!',
+  'msg.won': '{race}Level up! Stronger wind.',
+  'msg.won.player': 'Player {player} wins! ',
+  'msg.won.rank': 'Place {rank} of {count}! ',
+  'msg.personalBest': ' New personal best!',
+  'msg.coins': '{coins, plural, one { +# coin} other { +# coins}}',
+  'msg.gameOver': '{who}Game over! Back to level 1.',
+  'msg.hitBoat': 'Boats collided! Both back to the start. Lives: {lives}/{max} · {lives2}/{max}',
+  'msg.hitRock': '{who}Hit a rock! Back to the start. Lives: {lives}/{max}',
+  'msg.hitWall': '{who}Hit the edge! Back to the start. Lives: {lives}/{max}',
+  'msg.penalty': '{who}{rule} broken! {against} had right of way – sail a 360° penalty turn.',
+  'msg.penaltyServed': '{who}Penalty turn done.',
+  'msg.newRun': 'New run: level reset & rocks placed anew.',
+  'msg.invalidCourseCode': 'Invalid course code',
+  'msg.courseLoaded': 'Course {code} loaded.',
+  'msg.customCourseLoaded': 'Course “{name}” loaded.',
+  'msg.boatChanged': 'Boat: {name}. Course restarts.',
+  'msg.apparentWind.on': 'Sail trimmed to the apparent wind. Course restarts.',
+  'msg.apparentWind.off': 'Sail trimmed to the true wind. Course restarts.',
+  'msg.opponents': '{count, plural, one {# opponent} other {# opponents}} ({difficulty}). Course restarts.',
+  'msg.noOpponents': 'No opponents. Course restarts.',
+  'msg.twoPlayer.on': 'Two players: {keys1} against {keys2}. Course restarts.',
+  'msg.twoPlayer.off': 'One player. Course restarts.',
+  'msg.tilt.on': 'Tilt steering on – hold the phone level and calibrate.',
+  'msg.tilt.off': 'Tilt steering off.',
+  'msg.tilt.unavailable': 'No tilt sensor available.',
+  'msg.tilt.calibrated': 'Tilt calibrated: this is straight ahead.',
+  'msg.timeTrial.on': 'Time trial: every level is timed, alone on the course. Course restarts.',
+  'msg.timeTrial.off': 'Time trial off. Course restarts.',
+  'msg.trial.time': 'Time {time} – {rank} of {count} on the leaderboard',
+  'msg.trial.time.code': 'Time {time} – {rank} of {count} in the code division',
+  'msg.trial.saveFailed': 'Could not save the time.',
+  'msg.polarInvalid': 'Could not read the polar (expected a TWA\\TWS table).',
+  'msg.nothingRecorded': 'Nothing recorded yet.',
+  'msg.replayInvalid': 'Could not read the replay file.',
+  'msg.replayOutdated': 'This replay comes from an older version of the game with different physics and cannot be played.',
+  'app.courseName': 'Course {code}',
+
+  // --- Dashboard ---
+  'hud.title': 'Sailing Simulator',
+  'hud.language': 'Language',
+  'hud.mark': 'Mark {n}/{count}: {task}',
+  'hud.mark.short': 'Mark',
+  'hud.mark.buoy': 'Leave the buoy to {side, select, port {port} other {starboard}}',
+  'hud.mark.gate': 'Through the gate',
+  'hud.mark.finish': 'Cross the finish',
+  'hud.goal.finish': 'Reach the finish!',
+  'hud.goal.leftEdge': 'Reach the left edge!',
+  'hud.level': 'LEVEL',
+  'hud.highscore': 'HIGH SCORE',
+  'hud.lives': 'LIVES',
+  'hud.lives.p1': 'LIVES P1',
+  'hud.course': 'COURSE',
+  'hud.course.placeholder': 'Load course code...',
+  'hud.boat': 'BOAT',
+  'hud.boat.csv': 'Load a polar (CSV/TSV: first row TWA\\TWS and wind speeds, then the boat speeds per wind angle)',
+  'hud.opponents': 'OPPONENTS',
+  'hud.opponents.count': 'Number of computer opponents',
+  'hud.opponents.none': 'None',
+  'hud.opponents.difficulty': 'Difficulty: reaction time, steering and trimming accuracy of the opponents',
+  'hud.twoPlayer.title': 'Two boats on one keyboard, each with its own keys (see Controls); gamepads in the order they were plugged in',
+  'hud.twoPlayer.on': 'Two players',
+  'hud.twoPlayer.off': 'One player',
+  'hud.timeTrial.title': 'Time trial: every level timed from start to finish, with split times at the marks and a leaderboard',
+  'hud.timeTrial.on': 'Time trial',
+  'hud.timeTrial.off': 'Free sailing',
+  'hud.trial.split': 'Mark {n}',
+  'hud.trial.best': 'Best',
+  'hud.trial.collisions': '{count, plural, =0 {No collisions} one {# collision} other {# collisions}}',
+  'hud.trial.code': 'Code division',
+  'hud.trial.code.title': 'An upgrade from a code is on board: the time goes on a separate list',
+  'hud.trial.board': 'Leaderboard',
+  'hud.ghost': 'Personal best on this level',
+  'hud.speed': 'Speed',
+  'hud.speed.title': 'Speed through the water (STW)',
+  'hud.groundSpeed': 'over ground',
+  'hud.groundSpeed.title': 'Speed over ground (SOG): with current and leeway',
+  'hud.manoeuvres': 'MANOEUVRES',
+  'hud.manoeuvres.count': '{tacks, plural, one {# tack} other {# tacks}} · {gybes, plural, one {# gybe} other {# gybes}}',
+  'hud.manoeuvre.active': '{kind, select, tack {Tack} other {Gybe}} in progress…',
+  'hud.manoeuvre.last': 'Last {kind, select, tack {tack} other {gybe}} ({seconds, number, ::.0}s)',
+  'manoeuvre.clean': 'clean',
+  'manoeuvre.ok': 'ok',
+  'manoeuvre.botched': 'botched',
+  'hud.wind': 'Wind',
+  'hud.wind.gust': 'Gust',
+  'hud.wind.lull': 'Lull',
+  'hud.apparentWind': 'Trim to the apparent wind',
+  'hud.apparentWind.title': 'Trim and polar use the apparent instead of the true wind (restarts the course)',
+  'hud.windAngle': 'Wind angle',
+  'hud.polar': 'POLAR',
+  'hud.polar.title': 'Show/hide the polar diagram',
+  'hud.vmg': 'VMG to goal',
+  'hud.vmg.title': 'Velocity Made Good: the part of the speed that goes straight towards the goal',
+  'hud.bestUpwind': 'Best upwind',
+  'hud.bestUpwind.title': 'Best angle to the wind to make progress straight upwind',
+  'hud.bestDownwind': 'Best downwind',
+  'hud.bestDownwind.title': 'Best angle to the wind to make progress straight downwind',
+  'hud.route': 'Laylines & route',
+  'hud.route.title': 'Show laylines, the best VMG heading and the fastest route around the known rocks',
+  'hud.efficiency': 'Sail efficiency',
+  'hud.noSail': 'NO SAIL',
+  'hud.noGo': 'In irons (no-go zone)',
+  'trim.auto': 'Auto trim',
+  'trim.luffing': 'Sail luffing – sheet in ↑',
+  'trim.stalled': 'Stalled – ease out ↓',
+  'trim.ok': 'Well trimmed',
+  'hud.reset': 'Reset (new rocks)',
+  'hud.reset.title': 'Resets level and lives and places the rocks anew. Upgrades & high score stay.',
+  'hud.editor': 'Editor',
+  'hud.editor.title': 'Build your own course (rocks, start, finish, wind)',
+  'hud.replay': 'Replay',
+  'hud.replay.title': 'Watch the run so far as a replay',
+  'hud.import': 'Import',
+  'hud.import.title': 'Load an exported replay (JSON)',
+  'hud.debugShapes': 'Collision shapes',
+  'hud.debugShapes.title': 'Show collision shapes: hull polygons, rock outlines and edges',
+  'hud.shop': 'Boatyard',
+  'hud.shop.title': 'Buy upgrades with coins from clean levels',
+  'hud.controls': 'Controls',
+  'hud.controls.title': 'Rebind keys, set up the gamepad and its sensitivity',
+  'hud.code.placeholder': 'Upgrade code...',
+  'hud.keys.left': 'Left',
+  'hud.keys.right': 'Right',
+  'hud.keys.sheetIn': 'Sheet in',
+  'hud.keys.sheetOut': 'Ease',
+
+  // --- Racing rules ---
+  'penalty.rightOfWay': 'Right of way:',
+  'penalty.turn': 'Sail a penalty turn',
+  'penalty.finishAfter': 'The finish only counts after that.',
+  'rule.portStarboard.title': 'Rule 10 – On opposite tacks',
+  'rule.portStarboard.explanation':
+    'On opposite tacks, a boat on port tack (wind from port) shall keep clear of a boat on starboard tack.',
+  'rule.windwardLeeward.title': 'Rule 11 – Same tack, overlapped',
+  'rule.windwardLeeward.explanation':
+    'On the same tack and overlapped, the windward boat (closer to the wind) shall keep clear of the leeward boat.',
+  'rule.clearAstern.title': 'Rule 12 – Same tack, not overlapped',
+  'rule.clearAstern.explanation': 'On the same tack and not overlapped, a boat clear astern shall keep clear of a boat clear ahead.',
+  'rule.tacking.title': 'Rule 13 – While tacking',
+  'rule.tacking.explanation': 'A boat tacking through the wind (bow in the no-go zone) shall keep clear of all other boats.',
+
+  // --- Upgrades and boatyard ---
+  'upgrade.sail.name': 'Sail',
+  'upgrade.sail.description': 'Without a sail the boat only drifts. With a sail it makes way with the wind.',
+  'upgrade.sail.badge': 'SAIL',
+  'upgrade.steering.name': 'Super steering',
+  'upgrade.steering.description': 'Bigger rudder: turns faster, even without way on.',
+  'upgrade.steering.badge': 'SUPER STEERING',
+  'upgrade.turbo.name': 'Turbo',
+  'upgrade.turbo.description': 'Lighter hull: one sixth more top speed per level.',
+  'upgrade.turbo.badge': 'TURBO',
+  'upgrade.chart.name': 'Sea chart',
+  'upgrade.chart.description': 'No more fog, every rock is charted from the start.',
+  'upgrade.chart.badge': 'SIGHT',
+  'upgrade.autoTrim.name': 'Auto trim',
+  'upgrade.autoTrim.description': 'The sheet is trimmed to the optimum automatically.',
+  'upgrade.autoTrim.badge': 'AUTO TRIM',
+  'shop.title': 'BOATYARD',
+  'shop.close': 'Close the boatyard (Esc)',
+  'shop.level': 'Level {level}/{max}',
+  'shop.maxed': 'Fully upgraded',
+  'shop.hint':
+    'Every level finished without losing a life pays coins – the higher the level, the more. Upgrade codes still unlock an upgrade fully at once.',
+
+  // --- Controls ---
+  'controls.title': 'CONTROLS',
+  'controls.close': 'Close the controls (Esc)',
+  'controls.keys': 'Keyboard',
+  'controls.keys.press': 'Press…',
+  'controls.keys.unbound': '—',
+  'controls.keys.hint': 'Click a field, then press the new key (Esc cancels). Alone, both key sets steer the same boat.',
+  'controls.gamepad': 'Gamepad',
+  'controls.gamepad.none': 'No gamepad found – press any of its buttons once.',
+  'controls.gamepad.help': 'Left stick or triggers: rudder. D-pad ↑ or right bumper: sheet in, ↓ or left bumper: ease.',
+  'controls.deadzone': 'Dead zone',
+  'controls.expo': 'Finer around the centre',
+  'controls.curve': 'Stick travel → rudder',
+  'controls.tilt': 'Tilt steering',
+  'controls.tilt.range': 'Full rudder at',
+  'controls.tilt.hint': 'On the phone, switch it on and calibrate with the phone button next to the wheel.',
+  'controls.reset': 'Restore defaults',
+  'touch.wheel.title': 'Wheel: drag sideways, letting go centres the rudder',
+  'touch.sheet': 'Sheet',
+  'touch.sheet.title': 'Sheet: down to sheet in, up to ease',
+  'touch.tilt.title': 'Steer by tilting',
+  'touch.calibrate.title': 'Take the current position as straight ahead',
+
+  // --- Time trial ---
+  'trial.board.title': 'Leaderboard',
+  'trial.board.close': 'Close',
+  'trial.board.course': '{course} · Level {level} · {boat}',
+  'trial.division.clean': 'Without codes',
+  'trial.division.code': 'With codes',
+  'trial.board.loading': 'Loading…',
+  'trial.board.empty': 'No times yet. Sail the level to the finish in time-trial mode.',
+  'trial.board.unavailable': 'Leaderboard unavailable (no IndexedDB in this browser).',
+  'trial.board.name': 'Name',
+  'trial.board.time': 'Time',
+  'trial.board.collisions': 'Coll.',
+  'trial.board.collisions.title': 'Collisions with rocks and the edge on the way to the finish',
+  'trial.board.upgrades': 'Upgrades',
+  'trial.board.date': 'Date',
+  'trial.board.playerName': 'Your name',
+  'trial.board.hint': 'Every course, level and boat class has its own list. Times with upgrades from codes are listed under “With codes”.',
+  'trial.anonymous': 'Anonymous',
+
+  // --- Map ---
+  'course.finish': 'FINISH',
+  'course.customName': 'Custom course',
+  'minimap.title': 'MAP',
+  'minimap.zoomOut': 'Zoom out (−)',
+  'minimap.zoomIn': 'Zoom in (+)',
+  'minimap.follow': 'Camera follows the boat again',
+  'minimap.overview': 'Show the whole playfield',
+  'minimap.chart': 'Sea chart',
+  'minimap.chart.title': 'Open the sea chart (M)',
+  'chart.title': 'SEA CHART',
+  'chart.close': 'Close the sea chart (M)',
+  'chart.explored': '{percent}% explored',
+  'chart.revealed': 'Map revealed',
+  'chart.rocks': '{charted}/{total} rocks charted',
+  'chart.legend.explored': 'explored',
+  'chart.legend.unknown': 'unknown',
+  'chart.legend.rockInSight': 'Rock in sight',
+  'chart.legend.rockLastSeen': 'Rock, last seen',
+  'chart.legend.start': 'Start',
+
+  // --- Instruments ---
+  'wind.true': 'True wind',
+  'wind.apparent': 'Apparent wind',
+  'wind.starboard': 'Stbd',
+  'wind.port': 'Port',
+
+  // --- Replay ---
+  'replay.title': 'REPLAY',
+  'replay.close': 'End the replay and sail on',
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.export': 'Export (JSON)',
+
+  // --- Course editor ---
+  'editor.title': 'Course editor',
+  'editor.close': 'Close the editor',
+  'editor.name': 'Course name',
+  'editor.tool.select': 'Select',
+  'editor.tool.rock': 'Rock',
+  'editor.tool.finish': 'Finish',
+  'editor.tool.buoy': 'Buoy',
+  'editor.tool.gate': 'Gate',
+  'editor.tool.line': 'Finish line',
+  'editor.help':
+    'Drag rocks, marks and the start, drag a rock’s handle to scale it, Del to delete. Draw a new finish area with “Finish”, draw gates and finish lines from end to end. Once there are marks, the course ends at the last mark.',
+  'editor.marks': 'Marks ({count})',
+  'editor.marks.clear': 'delete all',
+  'editor.template.upDown': 'Up & down',
+  'editor.template.upDown.title': 'Beat to the windward buoy, run through the leeward gate, finish at the start',
+  'editor.template.triangle': 'Triangle',
+  'editor.template.triangle.title': 'Windward, reaching and leeward buoys to port, finish at the start',
+  'editor.mark.earlier': 'Earlier',
+  'editor.mark.later': 'Later',
+  'editor.mark.rounding': 'leave to {side, select, port {port (red)} other {starboard (green)}}',
+  'editor.mark.delete': 'Delete mark',
+  'editor.rock.radius': 'Rock radius',
+  'editor.rock.delete': 'Delete rock',
+  'editor.wind': 'Wind (fixed)',
+  'editor.wind.direction': 'Direction',
+  'editor.wind.speed': 'Strength',
+  'editor.current': 'Current',
+  'editor.current.direction': 'Direction (towards)',
+  'editor.current.speed': 'Stream',
+  'editor.current.tide': 'Tide (turns)',
+  'editor.current.tidePeriod': 'Tidal cycle',
+  'editor.current.hint': 'The stream runs faster between rocks that stand close together.',
+  'editor.field': 'Playfield {width}×{height} · {rocks, plural, one {# rock} other {# rocks}}',
+  'editor.importError': 'Could not read the course file.',
+  'editor.save': 'Save',
+  'editor.load': 'Load',
+  'editor.play': 'Sail the course',
+};
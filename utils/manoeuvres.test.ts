@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { BoatState, Upgrades, WindState } from '../types';
+import { EMPTY_MANOEUVRE_LOG, Manoeuvre, ManoeuvreLog, manoeuvreSpeedLoss, trackManoeuvres } from './manoeuvres';
+
+const WIND: WindState = { direction: 0, speed: 15 };
+const UPGRADES: Upgrades = { hasSail: true, turnMultiplier: 1, speedMultiplier: 1, revealMap: false, autoTrim: false };
+const HEAD_TO_WIND = Math.PI;
+const NO_GO_DEG = 45;
+
+const boat = (heading: number): BoatState => ({ position: { x: 0, y: 0 }, heading, speed: 1, rudderAngle: 0, sailAngle: 0, sheet: 0 });
+
+// Turns from one heading to another at a fixed rate per tick and collects the completed manoeuvres
+const turn = (from: number, to: number, rate: number, upgrades = UPGRADES, noGoDeg = NO_GO_DEG) => {
+  let log: ManoeuvreLog = EMPTY_MANOEUVRE_LOG;
+  const completed: Manoeuvre[] = [];
+  const ticks = Math.ceil(Math.abs(to - from) / rate);
+  for (let i = 1; i <= ticks; i++) {
+    const prev = from + ((to - from) * (i - 1)) / ticks;
+    const result = trackManoeuvres(log, boat(prev), boat(from + ((to - from) * i) / ticks), WIND, upgrades, noGoDeg);
+    log = result.log;
+    if (result.completed) completed.push(result.completed);
+  }
+  return { log, completed };
+};
+
+describe('trackManoeuvres', () => {
+  it('counts a tack once the bow is through the wind', () => {
+    const { log, completed } = turn(HEAD_TO_WIND - 1.2, HEAD_TO_WIND + 1.2, 0.04);
+    expect(log).toMatchObject({ active: null, tacks: 1, gybes: 0 });
+    expect(completed).toEqual([log.last]);
+    expect(completed[0].kind).toBe('tack');
+  });
+
+  it('counts a gybe once the stern is through the wind', () => {
+    const { log } = turn(-0.6, 0.6, 0.04);
+    expect(log).toMatchObject({ tacks: 0, gybes: 1 });
+    expect(log.last?.kind).toBe('gybe');
+  });
+
+  it('does not count bearing away on the side the boat came in', () => {
+    const into = turn(HEAD_TO_WIND - 1.2, HEAD_TO_WIND - 0.3, 0.04);
+    expect(into.log.active?.kind).toBe('tack');
+    const back = trackManoeuvres(into.log, boat(HEAD_TO_WIND - 0.3), boat(HEAD_TO_WIND - 1.2), WIND, UPGRADES, NO_GO_DEG);
+    expect(back.completed).toBeNull();
+    expect(back.log).toMatchObject({ active: null, tacks: 0 });
+  });
+
+  it('rates a slow tack lower and takes more speed for it', () => {
+    const [clean] = turn(HEAD_TO_WIND - 1.2, HEAD_TO_WIND + 1.2, 0.04).completed;
+    const [sloppy] = turn(HEAD_TO_WIND - 1.2, HEAD_TO_WIND + 1.2, 0.01).completed;
+    expect(clean.quality).toBe(1);
+    expect(sloppy.quality).toBeLessThan(0.5);
+    expect(sloppy.seconds).toBeGreaterThan(clean.seconds);
+    expect(manoeuvreSpeedLoss(sloppy)).toBeGreaterThan(manoeuvreSpeedLoss(clean));
+  });
+
+  it('takes the tack zone from the boat', () => {
+    // 40° either side of head to wind: inside a 45° no-go zone all along, through a 30° one
+    expect(turn(HEAD_TO_WIND - 0.7, HEAD_TO_WIND + 0.7, 0.04).log.tacks).toBe(0);
+    expect(turn(HEAD_TO_WIND - 0.7, HEAD_TO_WIND + 0.7, 0.04, UPGRADES, 30).log.tacks).toBe(1);
+  });
+
+  it('ignores manoeuvres without a sail', () => {
+    expect(turn(HEAD_TO_WIND - 1.2, HEAD_TO_WIND + 1.2, 0.04, { ...UPGRADES, hasSail: false }).log.tacks).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { BoatState, Upgrades, WindState } from '../types';
+import { FPS, TURN_RATE, degToRad, normalizeAngle } from '../constants';
+import { MessageKey } from './i18n';
+
+export type ManoeuvreKind = 'tack' | 'gybe'; // Wende (Bug durch den Wind) / Halse (Heck durch den Wind)
+
+// Half-width of the zone around dead downwind the stern swings through in a gybe.
+// The tack zone is the boat's no-go zone, so it comes from its polar (see polarNoGoDeg).
+const GYBE_ZONE = degToRad(15);
+
+// A clean manoeuvre takes this many times the pure full-rudder turning time
+// (the boat slows down in irons and steers more sluggishly). Quality drops to 0 at three times that.
+const CLEAN_FACTOR = { tack: 1.6, gybe: 1.2 };
+const SLOPPY_FACTOR = 3;
+// Speed lost at the end of a manoeuvre: base share plus extra share for a sloppy one
+const SPEED_LOSS = {
+  tack: { base: 0.1, sloppy: 0.3 },
+  gybe: { base: 0.05, sloppy: 0.3 },
+};
+
+export interface Manoeuvre {
+  kind: ManoeuvreKind;
+  quality: number; // 0..1, 1 = turned through in the shortest possible time
+  seconds: number; // Time spent turning through the wind
+}
+
+/**
+ * Per-attempt bookkeeping of tacks and gybes.
+ */
+export interface ManoeuvreLog {
+  // Bow (tack) or stern (gybe) is currently inside the wind zone, entered on `side`
+  active: { kind: ManoeuvreKind; side: number; ticks: number } | null;
+  tacks: number;
+  gybes: number;
+  last: Manoeuvre | null;
+}
+
+export const EMPTY_MANOEUVRE_LOG: ManoeuvreLog = { active: null, tacks: 0, gybes: 0, last: null };
+
+// Which side the wind comes from: +1 / -1, sign of the heading relative to the wind
+const windSide = (heading: number, wind: WindState) => (normalizeAngle(heading - wind.direction) >= 0 ? 1 : -1);
+
+const zoneOf = (heading: number, wind: WindState, tackZone: number): ManoeuvreKind | null => {
+  const rel = Math.abs(normalizeAngle(heading - wind.direction));
+  if (rel > Math.PI - tackZone) return 'tack';
+  if (rel < GYBE_ZONE) return 'gybe';
+  return null;
+};
+
+export const manoeuvreLabel = (quality: number): MessageKey =>
+  quality >= 0.8 ? 'manoeuvre.clean' : quality >= 0.5 ? 'manoeuvre.ok' : 'manoeuvre.botched';
+
+/**
+ * Follows the boat through the tack and gybe zones. A manoeuvre counts once the boat
+ * leaves the zone on the other side; leaving on the side it came in is a bear-away, not a tack.
+ * The returned `completed` manoeuvre is what the boat's speed penalty is based on.
+ * noGoDeg: half-angle of the boat's no-go zone, the tack zone.
+ */
+export const trackManoeuvres = (
+  log: ManoeuvreLog,
+  prevBoat: BoatState,
+  boat: BoatState,
+  wind: WindState,
+  upgrades: Upgrades,
+  noGoDeg: number
+): { log: ManoeuvreLog; completed: Manoeuvre | null } => {
+  const tackZone = degToRad(noGoDeg);
+  const zone = zoneOf(boat.heading, wind, tackZone);
+
+  if (log.active) {
+    if (zone === log.active.kind) {
+      return { log: { ...log, active: { ...log.active, ticks: log.active.ticks + 1 } }, completed: null };
+    }
+    const { kind, side, ticks } = log.active;
+    const cleared = { ...log, active: null };
+    if (windSide(boat.heading, wind) === side) return { log: cleared, completed: null };
+
+    const width = kind === 'tack' ? 2 * tackZone : 2 * GYBE_ZONE;
+    const cleanTicks = (width / (TURN_RATE * upgrades.turnMultiplier)) * CLEAN_FACTOR[kind];
+    const quality = Math.max(0, Math.min(1, (SLOPPY_FACTOR - ticks / cleanTicks) / (SLOPPY_FACTOR - 1)));
+    const completed: Manoeuvre = { kind, quality, seconds: ticks / FPS };
+    return {
+      log: {
+        ...cleared,
+        tacks: log.tacks + (kind === 'tack' ? 1 : 0),
+        gybes: log.gybes + (kind === 'gybe' ? 1 : 0),
+        last: completed,
+      },
+      completed,
+    };
+  }
+
+  // Only entering from outside counts (the boat starts head to wind, that is no tack yet)
+  if (zone && upgrades.hasSail && zoneOf(prevBoat.heading, wind, tackZone) !== zone) {
+    return { log: { ...log, active: { kind: zone, side: windSide(prevBoat.heading, wind), ticks: 1 } }, completed: null };
+  }
+  return { log, completed: null };
+};
+
+/**
+ * Share of boat speed lost by a completed manoeuvre.
+ */
+export const manoeuvreSpeedLoss = (m: Manoeuvre) => SPEED_LOSS[m.kind].base + SPEED_LOSS[m.kind].sloppy * (1 - m.quality);
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { Mark, Vector2D } from '../types';
+import {
+  MarkProgress,
+  START_PROGRESS,
+  advanceMarks,
+  currentGoal,
+  remainingCourseDistance,
+  requiredSweep,
+  segmentsIntersect,
+} from './marks';
+
+const START: Vector2D = { x: 200, y: 500 };
+const BUOY: Mark = { type: 'buoy', position: { x: 1000, y: 500 }, rounding: 'port' };
+const FINISH = { x: 0, y: 0, width: 20, height: 1000 };
+
+// Sails the points one after the other and returns the progress at the end
+const sail = (marks: Mark[], points: Vector2D[], progress: MarkProgress = START_PROGRESS) => {
+  for (let i = 1; i < points.length; i++) progress = advanceMarks(progress, marks, START, points[i - 1], points[i]);
+  return progress;
+};
+
+const line = (from: Vector2D, to: Vector2D, steps = 100): Vector2D[] =>
+  Array.from({ length: steps + 1 }, (_, i) => ({ x: from.x + ((to.x - from.x) * i) / steps, y: from.y + ((to.y - from.y) * i) / steps }));
+
+// Straight past the buoy, 40 px to one side (screen y points down: larger y is south of it)
+const passSouth = line({ x: 700, y: 540 }, { x: 1300, y: 540 });
+const passNorth = line({ x: 700, y: 460 }, { x: 1300, y: 460 });
+
+describe('advanceMarks', () => {
+  it('rounds a buoy passed on the required side', () => {
+    // Sailing east with the buoy to the north: it stays to port
+    expect(sail([BUOY], passSouth).next).toBe(1);
+    expect(sail([{ ...BUOY, rounding: 'starboard' }], passNorth).next).toBe(1);
+  });
+
+  it('does not count a buoy left on the wrong side', () => {
+    expect(sail([BUOY], passNorth).next).toBe(0);
+    expect(sail([{ ...BUOY, rounding: 'starboard' }], passSouth).next).toBe(0);
+  });
+
+  it('forgets the sweep once the boat leaves the buoy', () => {
+    const halfWay = sail([BUOY], line({ x: 850, y: 540 }, { x: 1000, y: 540 }));
+    expect(halfWay.sweep).toBeLessThan(0);
+    expect(sail([BUOY], [{ x: 1000, y: 540 }, { x: 1000, y: 900 }], halfWay)).toEqual(START_PROGRESS);
+  });
+
+  it('counts a gate only when sailed between its ends', () => {
+    const gate: Mark = { type: 'gate', a: { x: 600, y: 400 }, b: { x: 600, y: 600 } };
+    expect(sail([gate], [{ x: 500, y: 500 }, { x: 700, y: 500 }]).next).toBe(1);
+    expect(sail([gate], [{ x: 500, y: 700 }, { x: 700, y: 700 }]).next).toBe(0);
+  });
+
+  it('takes the marks in order', () => {
+    const finish: Mark = { type: 'finish', a: { x: 600, y: 400 }, b: { x: 600, y: 600 } };
+    expect(sail([BUOY, finish], [{ x: 500, y: 500 }, { x: 700, y: 500 }]).next).toBe(0);
+  });
+});
+
+describe('requiredSweep', () => {
+  it('asks for a U-turn at a windward mark and less when carrying on', () => {
+    const windward = requiredSweep([BUOY, { type: 'buoy', position: START, rounding: 'port' }], 0, START);
+    const straight = requiredSweep([BUOY], 0, START);
+    expect(windward).toBeCloseTo(1.5 * Math.PI);
+    expect(straight).toBeCloseTo(0.75 * Math.PI);
+  });
+
+  it('is zero for lines', () => {
+    expect(requiredSweep([{ type: 'gate', a: START, b: BUOY.position }], 0, START)).toBe(0);
+  });
+});
+
+describe('segmentsIntersect', () => {
+  it('needs a proper crossing', () => {
+    expect(segmentsIntersect({ x: 0, y: 0 }, { x: 2, y: 2 }, { x: 0, y: 2 }, { x: 2, y: 0 })).toBe(true);
+    expect(segmentsIntersect({ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 0 }, { x: 2, y: 2 })).toBe(false);
+  });
+});
+
+describe('remainingCourseDistance', () => {
+  const marks: Mark[] = [BUOY, { type: 'gate', a: { x: 1000, y: 900 }, b: { x: 1200, y: 900 } }];
+
+  it('adds up the legs still to sail', () => {
+    expect(remainingCourseDistance({ x: 1000, y: 200 }, 0, marks, FINISH)).toBeCloseTo(300 + Math.hypot(100, 400));
+    expect(remainingCourseDistance({ x: 1000, y: 200 }, 2, marks, FINISH)).toBe(0);
+  });
+
+  it('measures to the finish zone without marks', () => {
+    expect(remainingCourseDistance({ x: 520, y: 500 }, 0, [], FINISH)).toBe(500);
+  });
+});
+
+describe('currentGoal', () => {
+  it('is the next mark, and nothing once all are passed', () => {
+    const gate: Mark = { type: 'gate', a: { x: 1000, y: 900 }, b: { x: 1200, y: 900 } };
+    expect(currentGoal(START, 0, [BUOY, gate], FINISH)).toEqual(BUOY.position);
+    expect(currentGoal(START, 1, [BUOY, gate], FINISH)).toEqual({ x: 1100, y: 900 });
+    expect(currentGoal(START, 2, [BUOY, gate], FINISH)).toBeNull();
+  });
+
+  it('is the nearest point of the finish zone without marks', () => {
+    expect(currentGoal({ x: 500, y: 1200 }, 0, [], FINISH)).toEqual({ x: 20, y: 1000 });
+  });
+});
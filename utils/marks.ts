@@ -0,0 +1,182 @@
+import { Mark, Rect, Vector2D, WindState } from '../types';
+import { Bounds } from './simulation';
+
+// Sweep around a buoy only counts while the boat is this close to it
+export const ROUNDING_RADIUS = 180;
+// Share of the geometric sweep at a buoy the boat has to achieve (cutting corners is fine)
+const ROUNDING_SHARE = 0.75;
+
+/**
+ * How far a boat has got along the marks of a course.
+ */
+export interface MarkProgress {
+  next: number; // Index of the next mark to pass; marks.length = course finished
+  sweep: number; // Signed angle swept around the next buoy so far (radians)
+}
+
+export const START_PROGRESS: MarkProgress = { next: 0, sweep: 0 };
+
+export const markCenter = (mark: Mark): Vector2D =>
+  mark.type === 'buoy'
+    ? mark.position
+    : { x: (mark.a.x + mark.b.x) / 2, y: (mark.a.y + mark.b.y) / 2 };
+
+const cross = (o: Vector2D, a: Vector2D, b: Vector2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+/**
+ * True if segment p1-p2 properly crosses segment q1-q2.
+ */
+export const segmentsIntersect = (p1: Vector2D, p2: Vector2D, q1: Vector2D, q2: Vector2D): boolean => {
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+const angleOf = (from: Vector2D, to: Vector2D) => Math.atan2(to.y - from.y, to.x - from.x);
+
+const wrapPositive = (a: number) => {
+  const t = a % (2 * Math.PI);
+  return t <= 0 ? t + 2 * Math.PI : t;
+};
+
+/**
+ * Angle the boat has to sweep around buoy `index`, going the correct way round from
+ * the incoming leg to the outgoing leg. Screen y points down, so leaving a mark to
+ * port (anticlockwise on screen) is a negative sweep.
+ * Sailing straight past is a sweep of PI, a full U-turn (windward mark) close to 2 PI.
+ */
+export const requiredSweep = (marks: Mark[], index: number, start: Vector2D): number => {
+  const mark = marks[index];
+  if (mark.type !== 'buoy') return 0;
+  const m = mark.position;
+  const prev = index > 0 ? markCenter(marks[index - 1]) : start;
+  // Last buoy without a successor: carry straight on
+  const next = index + 1 < marks.length ? markCenter(marks[index + 1]) : { x: 2 * m.x - prev.x, y: 2 * m.y - prev.y };
+  const u = angleOf(m, prev);
+  const v = angleOf(m, next);
+  let turn = mark.rounding === 'port' ? wrapPositive(u - v) : wrapPositive(v - u);
+  // Legs (nearly) on top of each other: the boat has to go right round the mark
+  if (turn < Math.PI / 2) turn = 2 * Math.PI - turn;
+  return Math.max(Math.PI, turn) * ROUNDING_SHARE;
+};
+
+/**
+ * Updates mark progress for a boat that moved from `from` to `to` this tick.
+ * Buoys are rounded by sweeping around them on the required side (not by mere proximity),
+ * gates and the finish line by crossing the line between their two ends.
+ */
+export const advanceMarks = (
+  progress: MarkProgress,
+  marks: Mark[],
+  start: Vector2D,
+  from: Vector2D,
+  to: Vector2D
+): MarkProgress => {
+  const mark = marks[progress.next];
+  if (!mark) return progress;
+
+  if (mark.type !== 'buoy') {
+    return segmentsIntersect(from, to, mark.a, mark.b) ? { next: progress.next + 1, sweep: 0 } : progress;
+  }
+
+  const m = mark.position;
+  if (Math.hypot(to.x - m.x, to.y - m.y) > ROUNDING_RADIUS) {
+    return progress.sweep === 0 ? progress : { ...progress, sweep: 0 };
+  }
+
+  let delta = angleOf(m, to) - angleOf(m, from);
+  if (delta > Math.PI) delta -= 2 * Math.PI;
+  if (delta < -Math.PI) delta += 2 * Math.PI;
+  const sweep = progress.sweep + delta;
+
+  const needed = requiredSweep(marks, progress.next, start);
+  const rounded = mark.rounding === 'port' ? sweep <= -needed : sweep >= needed;
+  return rounded ? { next: progress.next + 1, sweep: 0 } : { ...progress, sweep };
+};
+
+const distance = (a: Vector2D, b: Vector2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const distanceToRect = (p: Vector2D, rect: Rect) => {
+  const dx = Math.max(rect.x - p.x, 0, p.x - (rect.x + rect.width));
+  const dy = Math.max(rect.y - p.y, 0, p.y - (rect.y + rect.height));
+  return Math.hypot(dx, dy);
+};
+
+/**
+ * Straight-line distance still to sail: to the next mark and then along the remaining legs.
+ * Without marks it is the distance to the finish zone.
+ */
+export const remainingCourseDistance = (position: Vector2D, next: number, marks: Mark[], finish: Rect): number => {
+  if (marks.length === 0) return distanceToRect(position, finish);
+  if (next >= marks.length) return 0;
+  let total = distance(position, markCenter(marks[next]));
+  for (let i = next + 1; i < marks.length; i++) {
+    total += distance(markCenter(marks[i - 1]), markCenter(marks[i]));
+  }
+  return total;
+};
+
+/**
+ * Point the boat is currently heading for: the next mark, or the nearest point of the
+ * finish zone on courses without marks. Null once all marks are passed.
+ */
+export const currentGoal = (position: Vector2D, next: number, marks: Mark[], finish: Rect): Vector2D | null => {
+  if (marks.length === 0) {
+    return {
+      x: Math.max(finish.x, Math.min(finish.x + finish.width, position.x)),
+      y: Math.max(finish.y, Math.min(finish.y + finish.height, position.y)),
+    };
+  }
+  return next < marks.length ? markCenter(marks[next]) : null;
+};
+
+// --- Templates for the editor ---
+
+const MARK_MARGIN = 80;
+
+const offset = (p: Vector2D, angle: number, dist: number, bounds: Bounds): Vector2D => ({
+  x: Math.max(MARK_MARGIN, Math.min(bounds.width - MARK_MARGIN, p.x + Math.cos(angle) * dist)),
+  y: Math.max(MARK_MARGIN, Math.min(bounds.height - MARK_MARGIN, p.y + Math.sin(angle) * dist)),
+});
+
+// Finish line through `p`, across the wind
+const finishLineAt = (p: Vector2D, wind: WindState, bounds: Bounds): Mark => ({
+  type: 'finish',
+  a: offset(p, wind.direction + Math.PI / 2, 70, bounds),
+  b: offset(p, wind.direction - Math.PI / 2, 70, bounds),
+});
+
+/**
+ * Up and down: beat to the windward mark, run to the leeward gate, finish back at the start.
+ */
+export const windwardLeewardMarks = (start: Vector2D, wind: WindState, bounds: Bounds): Mark[] => {
+  const leg = Math.min(bounds.width, bounds.height) * 0.4;
+  const upwind = wind.direction + Math.PI;
+  const leeward = offset(start, wind.direction, leg * 0.6, bounds);
+  return [
+    { type: 'buoy', position: offset(start, upwind, leg, bounds), rounding: 'port' },
+    {
+      type: 'gate',
+      a: offset(leeward, wind.direction + Math.PI / 2, 60, bounds),
+      b: offset(leeward, wind.direction - Math.PI / 2, 60, bounds),
+    },
+    finishLineAt(start, wind, bounds),
+  ];
+};
+
+/**
+ * Olympic-style triangle: windward, wing and leeward mark, all left to port.
+ */
+export const triangleMarks = (start: Vector2D, wind: WindState, bounds: Bounds): Mark[] => {
+  const leg = Math.min(bounds.width, bounds.height) * 0.4;
+  const upwind = wind.direction + Math.PI;
+  const windward = offset(start, upwind, leg, bounds);
+  return [
+    { type: 'buoy', position: windward, rounding: 'port' },
+    { type: 'buoy', position: offset(windward, wind.direction + Math.PI / 3, leg * 0.8, bounds), rounding: 'port' },
+    { type: 'buoy', position: offset(start, wind.direction, leg * 0.3, bounds), rounding: 'port' },
+    finishLineAt(start, wind, bounds),
+  ];
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_TIMESTEP } from '../constants';
+import { Upgrades } from '../types';
+import { advanceRun, createRunState } from './run';
+import { DEFAULT_POLAR } from './polar';
+import { remainingCourseDistance } from './marks';
+import { DIFFICULTIES, MAX_OPPONENTS, OpponentSetup, createOpponents, isOpponentSetup, raceStandings, stepOpponents } from './opponents';
+import { rockOutline } from './collision';
+
+const BOUNDS = { width: 2400, height: 1400 };
+const UPGRADES: Upgrades = { hasSail: true, turnMultiplier: 1, speedMultiplier: 1, revealMap: false, autoTrim: false };
+const SETUP: OpponentSetup = { count: 2, difficulty: 'hard' };
+
+// Open water, so the skippers only have the wind to deal with
+const openRun = (setup = SETUP) => {
+  const run = createRunState({ seed: 99, rockCount: 12 }, BOUNDS, UPGRADES, null, DEFAULT_POLAR, false, setup);
+  return { ...run, sim: { ...run.sim, rocks: [] } };
+};
+
+describe('createOpponents', () => {
+  const { sim } = openRun();
+
+  it('lines the boats up next to the player, at most three', () => {
+    const opponents = createOpponents({ count: 5, difficulty: 'easy' }, sim);
+    expect(opponents).toHaveLength(MAX_OPPONENTS);
+    expect(new Set(opponents.map(o => o.name)).size).toBe(MAX_OPPONENTS);
+    for (const o of opponents) expect(o.slot).not.toEqual(sim.start);
+  });
+
+  it('starts a boat on the player start when its slot lies in a rock', () => {
+    const [first] = createOpponents(SETUP, sim);
+    const rocks = [{ position: first.slot, radius: 30, outline: rockOutline(0) }];
+    expect(createOpponents(SETUP, { ...sim, rocks })[0].slot).toEqual(sim.start);
+  });
+});
+
+describe('isOpponentSetup', () => {
+  it('accepts known difficulties and sensible counts only', () => {
+    expect(isOpponentSetup(SETUP)).toBe(true);
+    expect(isOpponentSetup({ count: MAX_OPPONENTS + 1, difficulty: 'hard' })).toBe(false);
+    expect(isOpponentSetup({ count: 1.5, difficulty: 'hard' })).toBe(false);
+    expect(isOpponentSetup({ count: 1, difficulty: 'expert' })).toBe(false);
+    expect(isOpponentSetup(null)).toBe(false);
+  });
+});
+
+describe('stepOpponents', () => {
+  const sail = (ticks: number) => {
+    let sim = openRun().sim;
+    for (let tick = 0; tick < ticks; tick++) sim = { ...sim, opponents: stepOpponents(sim, 99, FIXED_TIMESTEP), tick: tick + 1 };
+    return sim;
+  };
+
+  it('sails the boats towards the goal', () => {
+    const start = openRun().sim;
+    const sim = sail(600);
+    sim.opponents.forEach((o, i) => {
+      const left = (position = o.boat.position) => remainingCourseDistance(position, 0, sim.marks, sim.finish);
+      expect(left()).toBeLessThan(left(start.opponents[i].boat.position) - 200);
+    });
+  });
+
+  it('is deterministic, so replays see the same race', () => {
+    expect(sail(300).opponents).toEqual(sail(300).opponents);
+  });
+
+  it('searches a route for one boat per tick at most', () => {
+    let sim = openRun({ count: MAX_OPPONENTS, difficulty: 'hard' }).sim;
+    const searches: number[] = [];
+    for (let tick = 0; tick < 900; tick++) {
+      sim = { ...sim, opponents: stepOpponents(sim, 99, FIXED_TIMESTEP), tick: tick + 1 };
+      searches.push(sim.opponents.filter(o => o.plannedAt === tick).length);
+    }
+    expect(searches.slice(0, MAX_OPPONENTS)).toEqual([1, 1, 1]);
+    expect(Math.max(...searches)).toBe(1);
+    // A boat decides every few ticks, but searches only when its route runs out of date
+    const decisions = (MAX_OPPONENTS * 900) / DIFFICULTIES.hard.reactionTicks;
+    expect(searches.reduce((a, b) => a + b)).toBeLessThan(decisions / 10);
+  });
+
+  it('sends a boat that hits a rock back to its slot and leaves finished boats be', () => {
+    const { sim } = openRun();
+    const [first, second] = sim.opponents;
+    const rocks = [{ position: first.boat.position, radius: 30, outline: rockOutline(0) }];
+    const finished = { ...second, finishedTick: 10 };
+    const [crashed, waiting] = stepOpponents({ ...sim, rocks, opponents: [{ ...first, plannedAt: 0 }, finished] }, 99, FIXED_TIMESTEP);
+    expect(crashed.boat.position).toEqual(first.slot);
+    expect(crashed.plannedAt).toBe(-1);
+    expect(waiting).toBe(finished);
+  });
+});
+
+describe('raceStandings', () => {
+  it('puts finished boats first by time, the rest by the distance still to sail', () => {
+    const { sim } = openRun();
+    const [first, second] = sim.opponents;
+    const ahead = { ...first, boat: { ...first.boat, position: { x: 100, y: 700 } } };
+    const done = { ...second, finishedTick: 500 };
+    expect(raceStandings({ ...sim, opponents: [ahead, done] }).map(e => e.name)).toEqual([second.name, first.name, 'Du']);
+    expect(raceStandings({ ...sim, opponents: [ahead, done] }, 400).map(e => e.name)).toEqual(['Du', second.name, first.name]);
+  });
+});
+
+describe('advanceRun with opponents', () => {
+  it('starts the race over when the player crashes', () => {
+    let run = openRun();
+    for (let i = 0; i < 120; i++) run = advanceRun(run, { steer: 0, sheet: 0 }, FIXED_TIMESTEP).run;
+    const crash = { ...run, sim: { ...run.sim, boat: { ...run.sim.boat, position: { x: BOUNDS.width - 2, y: 700 } } } };
+    const { run: after, event } = advanceRun(crash, { steer: 0, sheet: 0 }, FIXED_TIMESTEP);
+    expect(event).toBe('hitWall');
+    after.sim.opponents.forEach(o => expect(o.boat.position).toEqual(o.slot));
+  });
+});
@@ -0,0 +1,405 @@
+import { BoatState, Upgrades, Vector2D, WindState } from '../types';
+import { FPS, degToRad, normalizeAngle } from '../constants';
+import { hashSeed } from './random';
+import { calculateApparentWind, calculateSailTrim, headingForWindAngle, optimalVmg, windAngleDeg } from './physics';
+import { MarkProgress, ROUNDING_RADIUS, START_PROGRESS, advanceMarks, currentGoal, markCenter, remainingCourseDistance } from './marks';
+import { EMPTY_MANOEUVRE_LOG, ManoeuvreLog, manoeuvreSpeedLoss, trackManoeuvres } from './manoeuvres';
+import { planRoute, routeTarget } from './routing';
+import { windAt } from './windField';
+import { currentAt } from './current';
+import { polarNoGoDeg } from './polar';
+import { SimulationInput, SimulationState, createBoatAtStart, detectCollision, stepBoat } from './simulation';
+import { PLAYER_TWO_COLOR, PLAYER_TWO_NAME, playerOneName } from './twoPlayer';
+import { Penalty, trackPenalty } from './rules';
+import { MessageKey } from './i18n';
+import { isInteger, isRecord } from './guards';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * How well a computer skipper sails: how often it looks up (reaction), how exactly it
+ * holds a course and trims, and how often it plans its route anew.
+ */
+interface DifficultyProfile {
+  label: MessageKey;
+  reactionTicks: number; // Ticks between two decisions about the course to steer
+  headingTolerance: number; // Radians off the target heading it accepts before steering
+  headingNoise: number; // Radians of random error in every decision
+  trimTolerance: number; // Radians the sheet may be off before it is trimmed
+  replanTicks: number; // Ticks after which a route is searched anew, e.g. for a wind shift
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultyProfile> = {
+  easy: { label: 'difficulty.easy', reactionTicks: 30, headingTolerance: degToRad(6), headingNoise: degToRad(6), trimTolerance: degToRad(15), replanTicks: 600 },
+  medium: { label: 'difficulty.medium', reactionTicks: 15, headingTolerance: degToRad(4), headingNoise: degToRad(3), trimTolerance: degToRad(8), replanTicks: 420 },
+  hard: { label: 'difficulty.hard', reactionTicks: 5, headingTolerance: degToRad(2), headingNoise: degToRad(1), trimTolerance: degToRad(3), replanTicks: 300 },
+};
+
+/**
+ * Opponents chosen for a run: how many boats and how good they are.
+ */
+export interface OpponentSetup {
+  count: number;
+  difficulty: Difficulty;
+}
+
+export const NO_OPPONENTS: OpponentSetup = { count: 0, difficulty: 'medium' };
+export const MAX_OPPONENTS = 3;
+
+export const isOpponentSetup = (value: unknown): value is OpponentSetup =>
+  isRecord(value) &&
+  isInteger(value.count) &&
+  value.count >= 0 &&
+  value.count <= MAX_OPPONENTS &&
+  typeof value.difficulty === 'string' &&
+  Object.prototype.hasOwnProperty.call(DIFFICULTIES, value.difficulty);
+
+// Hull colours and names, one per opponent
+const OPPONENT_STYLES = [
+  { name: 'Möwe', color: '#f97316' }, // Orange 500
+  { name: 'Kormoran', color: '#0ea5e9' }, // Sky 500
+  { name: 'Albatros', color: '#e11d48' }, // Rose 600
+];
+
+/**
+ * A computer-controlled boat. Sails with the same physics, wind, current and rocks as the player.
+ */
+export interface Opponent {
+  name: string;
+  color: string;
+  difficulty: Difficulty;
+  slot: Vector2D; // Own start position, next to the player's
+  boat: BoatState;
+  markProgress: MarkProgress;
+  manoeuvres: ManoeuvreLog;
+  penalty: Penalty | null; // Open penalty turn, sailed before anything else
+  route: Vector2D[]; // Waypoints of the last route search, tack points included
+  waypoint: number; // Index of the waypoint it is sailing to
+  plannedAt: number; // Tick of the last route search (-1 = none yet)
+  plannedFor: number; // Mark index the route leads to
+  targetHeading: number;
+  finishedTick: number | null; // Attempt tick it crossed the finish, null while racing
+}
+
+// The computer always sails with a plain sail: no upgrades, but it knows where the rocks are
+const OPPONENT_UPGRADES: Upgrades = { hasSail: true, turnMultiplier: 1, speedMultiplier: 1, revealMap: true, autoTrim: false };
+// Distance between the boats on the start line
+const SLOT_SPACING = 60;
+// A waypoint counts as reached this close
+const WAYPOINT_RADIUS = 40;
+// Further off the planned leg than this and the route is searched anew
+const OFF_ROUTE = 60;
+// Wind angle (degrees) of a waypoint that counts as dead upwind, no tack is preferred there
+const DEAD_UPWIND = 10;
+// Stuck head to wind below this speed, the skipper bears away to this wind angle to get going again
+const STALL_SPEED = 0.5;
+const BEAR_AWAY_TWA = 90;
+// Slower than this a tack would end in irons, so the skipper doesn't start one
+const TACK_SPEED = 2;
+// Circle the boat sails around a buoy to round it, and how far ahead on that circle it aims
+const ORBIT_RADIUS = 70;
+const ORBIT_LEAD = degToRad(60);
+// Points the skipper checks for rocks and edges: distance ahead (pixels) and angle off the bow
+const LOOKOUT: [number, number][] = [[25, 0], [40, degToRad(-30)], [40, degToRad(30)], [50, 0], [80, 0]];
+// Up to this speed the lookout distances above apply, faster boats look proportionally further
+const LOOKOUT_SPEED = 2.5;
+
+/**
+ * Start position number `index` (1, 2, ...) next to the player's: alternately on either side, across the wind.
+ * A slot that would lie in a rock or outside the field falls back to the player's start.
+ */
+export const startSlot = (state: Pick<SimulationState, 'start' | 'wind' | 'rocks' | 'bounds'>, index: number): Vector2D => {
+  const across = state.wind.direction + Math.PI / 2;
+  const offset = Math.ceil(index / 2) * SLOT_SPACING * (index % 2 === 1 ? 1 : -1);
+  const candidate = { x: state.start.x + Math.cos(across) * offset, y: state.start.y + Math.sin(across) * offset };
+  const heading = normalizeAngle(state.wind.direction + Math.PI);
+  return detectCollision(candidate, heading, state.rocks, state.bounds, null) ? state.start : candidate;
+};
+
+/**
+ * Opponents on the start line, behind the first `taken` slots (the second player's boat).
+ */
+export const createOpponents = (
+  setup: OpponentSetup,
+  state: Pick<SimulationState, 'start' | 'wind' | 'rocks' | 'bounds'>,
+  taken = 0
+): Opponent[] =>
+  OPPONENT_STYLES.slice(0, Math.max(0, Math.min(MAX_OPPONENTS, setup.count))).map((style, i) => {
+    const slot = startSlot(state, taken + i + 1);
+    return {
+      ...style,
+      difficulty: setup.difficulty,
+      slot,
+      boat: createBoatAtStart(slot, state.wind.direction),
+      markProgress: START_PROGRESS,
+      manoeuvres: EMPTY_MANOEUVRE_LOG,
+      penalty: null,
+      route: [],
+      waypoint: 0,
+      plannedAt: -1,
+      plannedFor: 0,
+      targetHeading: normalizeAngle(state.wind.direction + Math.PI),
+      finishedTick: null,
+    };
+  });
+
+/**
+ * All opponents back on their start slots, e.g. when the player's attempt starts over.
+ */
+export const resetOpponents = (opponents: Opponent[], windDirection: number): Opponent[] =>
+  opponents.map(o => ({
+    ...o,
+    boat: createBoatAtStart(o.slot, windDirection),
+    markProgress: START_PROGRESS,
+    manoeuvres: EMPTY_MANOEUVRE_LOG,
+    penalty: null,
+    route: [],
+    waypoint: 0,
+    plannedAt: -1,
+    plannedFor: 0,
+    targetHeading: normalizeAngle(windDirection + Math.PI),
+    finishedTick: null,
+  }));
+
+// Deterministic noise in [-1, 1) per opponent and tick, so replays see the same mistakes
+const noise = (seed: number, index: number, tick: number) => (hashSeed(seed, 'opponent', index, tick) / 4294967296) * 2 - 1;
+
+// Where to sail for the next mark. Buoys are rounded by circling them on the required side.
+const aimPoint = (o: Opponent, state: SimulationState): Vector2D | null => {
+  const goal = currentGoal(o.boat.position, o.markProgress.next, state.marks, state.finish);
+  const mark = state.marks[o.markProgress.next];
+  if (!goal || !mark || mark.type !== 'buoy') return goal;
+  const m = markCenter(mark);
+  const angle = Math.atan2(o.boat.position.y - m.y, o.boat.position.x - m.x);
+  const lead = mark.rounding === 'port' ? -ORBIT_LEAD : ORBIT_LEAD;
+  return { x: m.x + Math.cos(angle + lead) * ORBIT_RADIUS, y: m.y + Math.sin(angle + lead) * ORBIT_RADIUS };
+};
+
+// Distance of a point to the leg the boat is sailing, from the previous waypoint to the next
+const offRoute = (position: Vector2D, route: Vector2D[], waypoint: number): number => {
+  const a = route[waypoint - 1] ?? route[0];
+  const b = route[waypoint] ?? route[route.length - 1];
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((position.x - a.x) * dx + (position.y - a.y) * dy) / len2)) : 0;
+  return Math.hypot(a.x + dx * t - position.x, a.y + dy * t - position.y);
+};
+
+// First obstacle (rock or edge) a few boat lengths along a heading, like a skipper keeping a lookout.
+// A fast boat needs more room to turn, so it looks further ahead.
+const obstacleAhead = (position: Vector2D, heading: number, speed: number, state: SimulationState) => {
+  const range = Math.max(1, speed / LOOKOUT_SPEED);
+  for (const [ahead, angle] of LOOKOUT) {
+    const probe = {
+      x: position.x + Math.cos(heading + angle) * ahead * range,
+      y: position.y + Math.sin(heading + angle) * ahead * range,
+    };
+    const hit = detectCollision(probe, heading + angle, state.rocks, state.bounds, state.marks.length > 0 ? null : state.finish);
+    if (hit === 'won') return null;
+    if (hit) return { probe, hit };
+  }
+  return null;
+};
+
+// A new decision: follow the route, beat close-hauled while the waypoint is in the no-go zone.
+// The route is kept as long as the boat stays on it, so it does not change its mind every few seconds.
+// Without `mayReplan` a due route search waits for a later tick.
+const decide = (o: Opponent, index: number, state: SimulationState, wind: WindState, seed: number, mayReplan: boolean): Opponent => {
+  const aim = aimPoint(o, state);
+  if (!aim) return o;
+  const profile = DIFFICULTIES[o.difficulty];
+  const { position } = o.boat;
+  const tack = windAngleDeg(o.boat.heading, wind.direction) >= 0 ? 1 : -1;
+
+  let { route, waypoint, plannedAt, plannedFor } = o;
+  const mark = state.marks[o.markProgress.next];
+  const nearBuoy =
+    mark?.type === 'buoy' && Math.hypot(mark.position.x - position.x, mark.position.y - position.y) < ROUNDING_RADIUS;
+  if (nearBuoy) {
+    // Rounding: no route search, just keep circling
+    route = [aim];
+    waypoint = 0;
+  } else if (
+    plannedAt < 0 ||
+    plannedFor !== o.markProgress.next ||
+    route.length < 2 ||
+    state.tick - plannedAt >= profile.replanTicks ||
+    offRoute(position, route, waypoint) > OFF_ROUTE
+  ) {
+    if (mayReplan) {
+      const target = routeTarget(o.markProgress.next, state.marks, state.finish) ?? aim;
+      route = planRoute(position, target, state.rocks, state.bounds, wind, state.polar, tack) ?? [position, aim];
+      waypoint = 1;
+      plannedAt = state.tick;
+      plannedFor = o.markProgress.next;
+    } else if (plannedFor !== o.markProgress.next || route.length < 2) {
+      // Straight for the goal until it is this boat's turn to search
+      route = [position, aim];
+      waypoint = 1;
+    }
+  }
+  while (waypoint < route.length - 1 && Math.hypot(route[waypoint].x - position.x, route[waypoint].y - position.y) < WAYPOINT_RADIUS) {
+    waypoint++;
+  }
+
+  const target = route[Math.min(waypoint, route.length - 1)];
+  const bearing = Math.atan2(target.y - position.y, target.x - position.x);
+  const { upwind } = optimalVmg(wind, state.polar);
+  // Waypoint too close to the wind: sail close-hauled on the tack it lies on until it can be fetched,
+  // dead upwind stay on the current tack
+  const bearingTwa = windAngleDeg(bearing, wind.direction);
+  const side = Math.abs(bearingTwa) < DEAD_UPWIND ? tack : Math.sign(bearingTwa);
+  const wanted = Math.abs(bearingTwa) < upwind.twa ? side * upwind.twa : bearingTwa;
+  const clear = (twa: number) => !obstacleAhead(position, headingForWindAngle(twa, wind.direction), o.boat.speed, state);
+  // Stuck head to wind: bear away where there is room. Without speed a tack ends in irons,
+  // so a slow boat first gets going on the current tack if it can.
+  const stalled = o.boat.speed < STALL_SPEED && Math.abs(windAngleDeg(o.boat.heading, wind.direction)) < upwind.twa;
+  const slow = o.boat.speed < TACK_SPEED && Math.sign(wanted) !== tack && Math.abs(wanted) < 90;
+  const twa = stalled
+    ? (clear(tack * BEAR_AWAY_TWA) ? tack : -tack) * BEAR_AWAY_TWA
+    : slow && clear(tack * upwind.twa)
+      ? tack * upwind.twa
+      : wanted;
+  const heading = twa === bearingTwa ? bearing : headingForWindAngle(twa, wind.direction);
+
+  return {
+    ...o,
+    route,
+    waypoint,
+    plannedAt,
+    plannedFor,
+    targetHeading: normalizeAngle(heading + noise(seed, index, state.tick) * profile.headingNoise),
+  };
+};
+
+// Rudder for an obstacle ahead (rock or edge), null if neither the heading nor the target course is blocked.
+// Turns towards a clear target course, holds a heading that is clear, otherwise turns away.
+const avoidance = (boat: BoatState, targetHeading: number, state: SimulationState): -1 | 0 | 1 | null => {
+  const { position, heading, speed } = boat;
+  const ahead = obstacleAhead(position, heading, speed, state);
+  if (!obstacleAhead(position, targetHeading, speed, state)) {
+    if (!ahead) return null;
+    const off = normalizeAngle(targetHeading - heading);
+    return off > 0 ? 1 : -1;
+  }
+  if (!ahead) return 0;
+  // Turn away from the nearest rock, or towards the middle of the field at an edge
+  const { probe, hit } = ahead;
+  const rock = hit === 'hitRock'
+    ? state.rocks.reduce((a, b) =>
+        Math.hypot(a.position.x - probe.x, a.position.y - probe.y) < Math.hypot(b.position.x - probe.x, b.position.y - probe.y) ? a : b)
+    : null;
+  const away = rock
+    ? { x: position.x - rock.position.x, y: position.y - rock.position.y }
+    : { x: state.bounds.width / 2 - position.x, y: state.bounds.height / 2 - position.y };
+  return Math.cos(heading) * away.y - Math.sin(heading) * away.x >= 0 ? 1 : -1;
+};
+
+// Rudder and sheet towards the current decision, within the skipper's tolerances.
+// A penalty turn is sailed with the rudder hard over, always the same way round, unless a rock is in the way.
+const controls = (o: Opponent, state: SimulationState, sailWind: WindState): SimulationInput => {
+  const profile = DIFFICULTIES[o.difficulty];
+  const off = normalizeAngle(o.targetHeading - o.boat.heading);
+  const steer = o.penalty
+    ? avoidance(o.boat, o.boat.heading, state) ?? (o.penalty.turned < 0 ? -1 : 1)
+    : avoidance(o.boat, o.targetHeading, state) ?? (Math.abs(off) <= profile.headingTolerance ? 0 : off > 0 ? 1 : -1);
+  const trimError = o.boat.sheet - Math.abs(calculateSailTrim(o.boat.heading, sailWind.direction));
+  const sheet = trimError > profile.trimTolerance ? -1 : trimError < -profile.trimTolerance ? 1 : 0;
+  return { steer, sheet };
+};
+
+/**
+ * Advances every opponent by one tick with the same physics as the player's boat.
+ * Call with the state before the player's step, so all boats see the same wind time.
+ * An opponent that hits a rock or the edge goes back to its start slot; one that finishes stays put.
+ * With an open penalty it turns its circle first and can't finish before.
+ */
+export const stepOpponents = (state: SimulationState, seed: number, dt: number): Opponent[] => {
+  // Route searches are the expensive part: at most one boat searches per tick, the others on a later one
+  let replanned = false;
+  return state.opponents.map((o, index) => {
+    if (o.finishedTick !== null) return o;
+    const t = state.tick / FPS;
+    const wind = windAt(state.windField, state.wind, state.rocks, state.bounds, o.boat.position, t);
+    const profile = DIFFICULTIES[o.difficulty];
+    // Stagger the decisions of the boats over the reaction interval
+    const decided =
+      (state.tick + index * 7) % profile.reactionTicks === 0 || o.plannedAt < 0 ? decide(o, index, state, wind, seed, !replanned) : o;
+    replanned ||= decided.plannedAt === state.tick;
+
+    const sailWind = state.sailOnApparentWind ? calculateApparentWind(decided.boat.heading, decided.boat.speed, wind) : wind;
+    const input = controls(decided, state, sailWind);
+    let boat = stepBoat(decided.boat, input, wind, OPPONENT_UPGRADES, state.polar, state.sailOnApparentWind, dt);
+    const frames = dt * FPS;
+    const current = currentAt(state.current, decided.boat.position, t);
+    boat = { ...boat, position: { x: boat.position.x + current.x * frames, y: boat.position.y + current.y * frames } };
+
+    const { log: manoeuvres, completed } = trackManoeuvres(decided.manoeuvres, decided.boat, boat, wind, OPPONENT_UPGRADES, polarNoGoDeg(state.polar));
+    if (completed) boat = { ...boat, speed: boat.speed * (1 - manoeuvreSpeedLoss(completed)) };
+    const penalty = trackPenalty(decided.penalty, decided.boat.heading, boat.heading);
+
+    const hasMarks = state.marks.length > 0;
+    const markProgress = hasMarks
+      ? advanceMarks(decided.markProgress, state.marks, state.start, decided.boat.position, boat.position)
+      : decided.markProgress;
+    const detected =
+      hasMarks && markProgress.next >= state.marks.length
+        ? 'won'
+        : detectCollision(boat.position, boat.heading, state.rocks, state.bounds, hasMarks ? null : state.finish);
+    const collision = detected === 'won' && penalty ? null : detected;
+
+    if (collision === 'won') {
+      return { ...decided, boat: { ...boat, speed: 0 }, markProgress, manoeuvres, finishedTick: state.tick + 1 };
+    }
+    if (collision) {
+      return { ...resetOpponents([decided], state.wind.direction)[0] };
+    }
+    return { ...decided, boat, markProgress, manoeuvres, penalty };
+  });
+};
+
+/**
+ * One line of the race result, the player included.
+ */
+export interface RaceEntry {
+  name: string;
+  color: string;
+  isPlayer: boolean; // A human boat
+  ticks: number | null; // Finish time, null if still racing
+}
+
+/**
+ * Current order of the race: finished boats by time, the rest by the distance still to sail.
+ * playerTicks / player2Ticks are set once player one / player two has finished.
+ */
+export const raceStandings = (state: SimulationState, playerTicks: number | null = null, player2Ticks: number | null = null): RaceEntry[] => {
+  const remaining = (position: Vector2D, progress: MarkProgress) =>
+    remainingCourseDistance(position, progress.next, state.marks, state.finish);
+  const { player2 } = state;
+  const entries = [
+    {
+      entry: { name: playerOneName(state), color: '#f8fafc', isPlayer: true, ticks: playerTicks },
+      left: playerTicks === null ? remaining(state.boat.position, state.markProgress) : 0,
+    },
+    ...(player2
+      ? [
+          {
+            entry: { name: PLAYER_TWO_NAME, color: PLAYER_TWO_COLOR, isPlayer: true, ticks: player2Ticks },
+            left: player2Ticks === null ? remaining(player2.boat.position, player2.markProgress) : 0,
+          },
+        ]
+      : []),
+    ...state.opponents.map(o => ({
+      entry: { name: o.name, color: o.color, isPlayer: false, ticks: o.finishedTick },
+      left: o.finishedTick === null ? remaining(o.boat.position, o.markProgress) : 0,
+    })),
+  ];
+  entries.sort((a, b) => {
+    if (a.entry.ticks !== null && b.entry.ticks !== null) return a.entry.ticks - b.entry.ticks;
+    if (a.entry.ticks !== null) return -1;
+    if (b.entry.ticks !== null) return 1;
+    return a.left - b.left;
+  });
+  return entries.map(e => e.entry);
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { WindState } from '../types';
+import { degToRad } from '../constants';
+import {
+  calculateApparentWind,
+  calculateSailTrim,
+  headingForWindAngle,
+  isInNoGoZone,
+  optimalVmg,
+  polarCurve,
+  swingBoom,
+  trimEfficiency,
+  trimError,
+  trimStateOf,
+  vmgToward,
+  windAngleDeg,
+} from './physics';
+import { DEFAULT_POLAR, polarNoGoDeg, polarSpeed } from './polar';
+
+// Blows towards the east, i.e. comes from the west
+const WIND: WindState = { direction: 0, speed: 15 };
+const HEAD_TO_WIND = Math.PI;
+const BEAM_REACH = Math.PI / 2; // Heading south (screen y points down), wind from starboard
+const RUN = 0;
+
+describe('windAngleDeg', () => {
+  it('is 0 head to wind, 180 dead downwind and positive with the wind from starboard', () => {
+    expect(windAngleDeg(HEAD_TO_WIND, WIND.direction)).toBeCloseTo(0);
+    expect(Math.abs(windAngleDeg(RUN, WIND.direction))).toBeCloseTo(180);
+    expect(windAngleDeg(BEAM_REACH, WIND.direction)).toBeCloseTo(90);
+    expect(windAngleDeg(-BEAM_REACH, WIND.direction)).toBeCloseTo(-90);
+  });
+});
+
+describe('calculateApparentWind', () => {
+  it('is the true wind on a boat that does not move', () => {
+    const apparent = calculateApparentWind(BEAM_REACH, 0, WIND);
+    expect(apparent.direction).toBeCloseTo(WIND.direction);
+    expect(apparent.speed).toBeCloseTo(WIND.speed);
+  });
+
+  it('adds the boat speed upwind and takes it away downwind', () => {
+    expect(calculateApparentWind(HEAD_TO_WIND, 5, WIND).speed).toBeCloseTo(20);
+    expect(calculateApparentWind(RUN, 5, WIND).speed).toBeCloseTo(10);
+  });
+
+  it('moves forward on a reach and blows stronger', () => {
+    const apparent = calculateApparentWind(BEAM_REACH, 5, WIND);
+    expect(apparent.speed).toBeCloseTo(Math.hypot(15, 5));
+    expect(windAngleDeg(BEAM_REACH, apparent.direction)).toBeCloseTo(90 - (Math.atan2(5, 15) * 180) / Math.PI);
+  });
+});
+
+describe('isInNoGoZone', () => {
+  it('covers the angles too close to the wind for the given polar', () => {
+    expect(isInNoGoZone(HEAD_TO_WIND - degToRad(30), WIND.direction)).toBe(true);
+    expect(isInNoGoZone(BEAM_REACH, WIND.direction)).toBe(false);
+    expect(isInNoGoZone(HEAD_TO_WIND - degToRad(35), WIND.direction, 30)).toBe(false);
+  });
+});
+
+describe('sail trim', () => {
+  const optimum = Math.abs(calculateSailTrim(BEAM_REACH, WIND.direction));
+
+  it('eases the boom further out the more the wind comes from behind', () => {
+    expect(Math.abs(calculateSailTrim(RUN + 0.01, WIND.direction))).toBeGreaterThan(optimum);
+    expect(Math.abs(calculateSailTrim(HEAD_TO_WIND - degToRad(50), WIND.direction))).toBeLessThan(optimum);
+  });
+
+  it('tells luffing from stalling', () => {
+    expect(trimStateOf(trimError(optimum, BEAM_REACH, WIND.direction))).toBe('ok');
+    expect(trimStateOf(trimError(optimum + 0.3, BEAM_REACH, WIND.direction))).toBe('luffing');
+    expect(trimStateOf(trimError(optimum - 0.3, BEAM_REACH, WIND.direction))).toBe('stalled');
+  });
+
+  it('loses all drive luffing but keeps a little stalled', () => {
+    expect(trimEfficiency(optimum, BEAM_REACH, WIND.direction)).toBe(1);
+    expect(trimEfficiency(optimum + degToRad(40), BEAM_REACH, WIND.direction)).toBe(0);
+    expect(trimEfficiency(0, RUN + 0.01, WIND.direction)).toBeGreaterThan(0);
+  });
+});
+
+describe('swingBoom', () => {
+  it('swings over at a limited rate instead of jumping', () => {
+    expect(swingBoom(-1, 1, 1)).toBeCloseTo(-0.9);
+    expect(swingBoom(0.95, 1, 1)).toBe(1);
+  });
+});
+
+describe('polar diagram', () => {
+  it('puts the wind at the asked angle off the bow', () => {
+    expect(windAngleDeg(headingForWindAngle(60, WIND.direction), WIND.direction)).toBeCloseTo(60);
+    expect(windAngleDeg(headingForWindAngle(-120, WIND.direction), WIND.direction)).toBeCloseTo(-120);
+  });
+
+  it('plots the polar the physics sails on', () => {
+    const curve = polarCurve(WIND);
+    expect(curve).toHaveLength(91);
+    expect(curve[45]).toEqual({ twa: 90, speed: polarSpeed(DEFAULT_POLAR, 90, WIND.speed) });
+  });
+
+  it('finds the best angles to beat and to run', () => {
+    const { upwind, downwind } = optimalVmg(WIND);
+    expect(upwind.twa).toBeGreaterThanOrEqual(polarNoGoDeg(DEFAULT_POLAR));
+    expect(upwind.twa).toBeLessThan(90);
+    expect(downwind.twa).toBeGreaterThan(90);
+    expect(upwind.vmg).toBeCloseTo(upwind.speed * Math.cos(degToRad(upwind.twa)));
+  });
+
+  it('measures VMG towards a point', () => {
+    const boat = { position: { x: 0, y: 0 }, heading: 0, speed: 4, rudderAngle: 0, sailAngle: 0, sheet: 0 };
+    expect(vmgToward(boat, { x: 100, y: 0 })).toBeCloseTo(4);
+    expect(vmgToward(boat, { x: 0, y: 100 })).toBeCloseTo(0);
+    expect(vmgToward(boat, { x: -100, y: 0 })).toBeCloseTo(-4);
+  });
+});
@@ -1,77 +1,155 @@
-import { BoatState, WindState } from '../types';
-import { MAX_BOAT_SPEED, NO_GO_ZONE_DEG, WIND_SPEED, degToRad, normalizeAngle } from '../constants';
+import { BoatState, Vector2D, WindState } from '../types';
+import { NO_GO_ZONE_DEG, degToRad, normalizeAngle, radToDeg } from '../constants';
+import { DEFAULT_POLAR, PolarTable, polarSpeed } from './polar';
 
 /**
- * Helper to determine if the boat is in the No-Go Zone (dead angle).
+ * Wind angle relative to the bow in degrees (-180..180): where the wind comes from,
+ * 0 = straight ahead, positive = from starboard. Works for true and apparent wind alike.
  */
-export const isInNoGoZone = (heading: number, windDirection: number): boolean => {
-  const angleOfAttack = Math.abs(normalizeAngle(heading - windDirection));
-  const angleFromIntoWind = Math.PI - angleOfAttack; 
-  const angleDeg = (angleFromIntoWind * 180) / Math.PI;
-  return Math.abs(angleDeg) < NO_GO_ZONE_DEG;
-};
+export const windAngleDeg = (heading: number, windDirection: number): number =>
+  radToDeg(normalizeAngle(windDirection + Math.PI - heading));
 
 /**
- * Calculates the target speed of the boat based on its angle relative to the wind.
- * This simulates a standard "Polar Diagram" for a sailboat.
+ * Apparent wind: the true wind minus the boat's own motion through the air.
+ * Boat speed and wind speed share the same unit ("kn" in the dashboard).
  */
-export const calculateTargetSpeed = (heading: number, wind: WindState): number => {
-  // Wind flows from Left to Right (0 radians).
-  
-  // Angle between boat heading and wind direction
-  const angleOfAttack = Math.abs(normalizeAngle(heading - wind.direction));
-  
-  // Calculate angle distance from "Into the Wind" (West / PI)
-  const angleFromIntoWind = Math.PI - angleOfAttack; 
-  const angleDeg = (angleFromIntoWind * 180) / Math.PI;
-
-  if (Math.abs(angleDeg) < NO_GO_ZONE_DEG) {
-    // In the No-Go Zone (Irons)
-    return 0;
-  }
-
-  // Simple polar curve approximation
-  // Peak at 90 degrees (Beam Reach)
-  // Dip at 180 (Running)
-  // Zero at 0 (Irons)
-  
-  // Normalized 0..1 performance factor
-  let performance = 0;
-  
-  if (Math.abs(angleDeg) >= 90) {
-      // From beam reach to running
-      // Running (180) is usually slower than beam reach (90)
-      // Lerp from 1.0 down to 0.7
-      const t = (Math.abs(angleDeg) - 90) / 90;
-      performance = 1.0 - (t * 0.3);
-  } else {
-      // From close hauled to beam reach
-      // Ramp from 0.4 (close hauled) to 1.0 (beam reach)
-      // angleDeg is between 45 and 90
-      const t = (Math.abs(angleDeg) - NO_GO_ZONE_DEG) / (90 - NO_GO_ZONE_DEG);
-      performance = 0.3 + (t * 0.7);
-  }
+export const calculateApparentWind = (heading: number, boatSpeed: number, wind: WindState): WindState => {
+  const x = Math.cos(wind.direction) * wind.speed - Math.cos(heading) * boatSpeed;
+  const y = Math.sin(wind.direction) * wind.speed - Math.sin(heading) * boatSpeed;
+  return { direction: Math.atan2(y, x), speed: Math.hypot(x, y) };
+};
 
-  // Make speed meaningfully scale with wind strength, but keep it bounded.
-  // Level 1 windSpeed is WIND_SPEED, higher levels increase it in App.tsx.
-  const windFactorRaw = wind.speed / WIND_SPEED; // 1.0 at level 1
-  const windFactor = Math.max(0.6, Math.min(2.2, windFactorRaw));
+/**
+ * Helper to determine if the boat is in the No-Go Zone (dead angle).
+ * noGoDeg: half-angle of the zone, depends on the boat's polar.
+ */
+export const isInNoGoZone = (heading: number, windDirection: number, noGoDeg = NO_GO_ZONE_DEG): boolean =>
+  Math.abs(windAngleDeg(heading, windDirection)) < noGoDeg;
 
-  return performance * MAX_BOAT_SPEED * windFactor;
-};
+/**
+ * Calculates the target speed of the boat based on its angle relative to the wind,
+ * looked up in the boat's polar table (default: the classic built-in curve).
+ */
+export const calculateTargetSpeed = (heading: number, wind: WindState, polar: PolarTable = DEFAULT_POLAR): number =>
+  polarSpeed(polar, windAngleDeg(heading, wind.direction), wind.speed);
 
 /**
- * Calculates the ideal sail angle visually based on wind.
+ * Calculates the ideal sail angle based on wind: the optimum the sheet is judged against
+ * (and what the auto-trim upgrade sets).
  */
 export const calculateSailTrim = (heading: number, windDirection: number): number => {
-  let relAngle = normalizeAngle(heading - windDirection + Math.PI); 
+  const relAngle = normalizeAngle(heading - windDirection + Math.PI); 
   
   const absAngle = Math.abs(relAngle);
   
   // Boom angle magnitude
-  let boomMag = (absAngle / Math.PI) * 85 * (Math.PI / 180); // Up to 85 degrees
+  const boomMag = (absAngle / Math.PI) * 85 * (Math.PI / 180); // Up to 85 degrees
   
-  const cross = -Math.sin(heading); 
+  // Boom goes out on the side away from the wind
+  const cross = Math.sin(heading - windDirection);
   
-  return boomMag * (cross > 0 ? -1 : 1);
-};
\ No newline at end of file
+  return boomMag * (cross < 0 ? -1 : 1);
+};
+
+// Sheet handling: how fast the sheet runs, how far the boom can go out at most
+export const SHEET_RATE = 0.03; // Radians per frame at 60 FPS
+export const MAX_SHEET = degToRad(85);
+// Trim error that still counts as perfect, and the errors at which luffing / stalling bottom out
+const TRIM_TOLERANCE = degToRad(5);
+const LUFF_RANGE = degToRad(30);
+const STALL_RANGE = degToRad(45);
+const STALL_FLOOR = 0.25; // An over-trimmed sail still pulls a little
+
+export type TrimState = 'ok' | 'luffing' | 'stalled';
+
+/**
+ * How far the sail is from its optimum for the current true wind angle, in radians.
+ * Positive = eased too far (luffing), negative = sheeted in too tight (stalled).
+ */
+export const trimError = (sheet: number, heading: number, windDirection: number): number =>
+  sheet - Math.abs(calculateSailTrim(heading, windDirection));
+
+export const trimStateOf = (error: number): TrimState =>
+  error > TRIM_TOLERANCE ? 'luffing' : error < -TRIM_TOLERANCE ? 'stalled' : 'ok';
+
+/**
+ * Share of the polar speed the sail delivers with this trim (0..1).
+ * A luffing sail loses drive quickly, a stalled one keeps pulling a bit.
+ */
+export const trimEfficiency = (sheet: number, heading: number, windDirection: number): number => {
+  const error = trimError(sheet, heading, windDirection);
+  const beyond = Math.abs(error) - TRIM_TOLERANCE;
+  if (beyond <= 0) return 1;
+  return error > 0
+    ? Math.max(0, 1 - beyond / LUFF_RANGE)
+    : Math.max(STALL_FLOOR, 1 - beyond / STALL_RANGE);
+};
+
+/**
+ * Boom angle for a given sheet: out as far as the sheet lets it, but never past
+ * the point where the sail streams with the wind.
+ */
+export const sheetedBoomAngle = (sheet: number, heading: number, windDirection: number): number => {
+  const optimum = calculateSailTrim(heading, windDirection);
+  const windAngle = Math.abs(normalizeAngle(heading - windDirection + Math.PI));
+  const side = optimum < 0 ? -1 : 1;
+  return side * Math.min(sheet, windAngle);
+};
+
+// Fastest the boom swings across (radians per frame at 60 FPS), a gybe takes about half a second
+const BOOM_SWING_RATE = 0.1;
+
+/**
+ * Moves the boom from its current angle towards the trimmed angle at a limited rate,
+ * so it swings across in a gybe instead of snapping to the other side.
+ */
+export const swingBoom = (current: number, target: number, frames: number): number => {
+  const maxStep = BOOM_SWING_RATE * frames;
+  return current + Math.max(-maxStep, Math.min(maxStep, target - current));
+};
+/**
+ * Heading that puts the wind at `twaDeg` off the bow (positive = wind from starboard).
+ */
+export const headingForWindAngle = (twaDeg: number, windDirection: number): number =>
+  normalizeAngle(windDirection + Math.PI - degToRad(twaDeg));
+
+/**
+ * Polar curve for the polar diagram: target speed for every wind angle from 0 to 180°,
+ * evaluated with calculateTargetSpeed so the plot is exactly what the physics uses.
+ */
+export const polarCurve = (wind: WindState, polar: PolarTable = DEFAULT_POLAR, stepDeg = 2): { twa: number; speed: number }[] => {
+  const curve: { twa: number; speed: number }[] = [];
+  for (let twa = 0; twa <= 180; twa += stepDeg) {
+    curve.push({ twa, speed: calculateTargetSpeed(headingForWindAngle(twa, wind.direction), wind, polar) });
+  }
+  return curve;
+};
+
+export interface VmgOptimum {
+  twa: number; // Degrees off the wind
+  speed: number; // Boat speed on that angle
+  vmg: number; // Speed made good straight up- or downwind
+}
+
+/**
+ * Best angles to sail straight upwind (beat) and straight downwind (run) on this polar:
+ * the points where the component of the boat speed along the wind is largest.
+ */
+export const optimalVmg = (wind: WindState, polar: PolarTable = DEFAULT_POLAR): { upwind: VmgOptimum; downwind: VmgOptimum } => {
+  let upwind: VmgOptimum = { twa: 0, speed: 0, vmg: 0 };
+  let downwind: VmgOptimum = { twa: 180, speed: 0, vmg: 0 };
+  for (const { twa, speed } of polarCurve(wind, polar, 1)) {
+    const vmg = speed * Math.cos(degToRad(twa));
+    if (vmg > upwind.vmg) upwind = { twa, speed, vmg };
+    if (-vmg > downwind.vmg) downwind = { twa, speed, vmg: -vmg };
+  }
+  return { upwind, downwind };
+};
+
+/**
+ * Velocity made good towards a point: the part of the boat's speed that brings it closer.
+ */
+export const vmgToward = (boat: BoatState, target: Vector2D): number => {
+  const bearing = Math.atan2(target.y - boat.position.y, target.x - boat.position.x);
+  return boat.speed * Math.cos(boat.heading - bearing);
+};
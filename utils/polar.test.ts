@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { BOAT_CLASSES, DEFAULT_POLAR, PolarTable, parsePolarCsv, parsePolarTable, polarMaxSpeed, polarNoGoDeg, polarSpeed } from './polar';
+
+const TABLE: PolarTable = {
+  name: 'Test',
+  twa: [0, 40, 90, 180],
+  tws: [10, 20],
+  speeds: [
+    [0, 0],
+    [2, 4],
+    [4, 6],
+    [3, 5],
+  ],
+};
+
+describe('polarSpeed', () => {
+  it('interpolates between angles and wind speeds', () => {
+    expect(polarSpeed(TABLE, 90, 10)).toBe(4);
+    expect(polarSpeed(TABLE, 65, 15)).toBeCloseTo(4);
+    expect(polarSpeed(TABLE, -90, 15)).toBe(5);
+  });
+
+  it('clamps wind speeds outside the table', () => {
+    expect(polarSpeed(TABLE, 90, 5)).toBe(4);
+    expect(polarSpeed(TABLE, 90, 30)).toBe(6);
+  });
+
+  it('gives no speed inside the no-go zone', () => {
+    expect(polarSpeed(TABLE, 39, 15)).toBe(0);
+    expect(polarSpeed(TABLE, 40, 15)).toBe(3);
+    const [, , keelboat] = BOAT_CLASSES; // zero rows at 0° and 40°, speed from 50°
+    expect(polarSpeed(keelboat, 45, 15)).toBe(0);
+    expect(polarSpeed(keelboat, -45, 15)).toBe(0);
+    expect(polarSpeed(keelboat, 50, 15)).toBe(3.9);
+  });
+
+  it('is the top of the curve in polarMaxSpeed', () => {
+    expect(polarMaxSpeed(TABLE, 20)).toBe(6);
+  });
+});
+
+describe('polarNoGoDeg', () => {
+  it('is the first angle the boat makes way at', () => {
+    expect(polarNoGoDeg(TABLE)).toBe(40);
+    for (const boatClass of BOAT_CLASSES) expect(polarNoGoDeg(boatClass)).toBeLessThan(90);
+  });
+});
+
+describe('parsePolarTable', () => {
+  it('accepts the built-in classes', () => {
+    for (const boatClass of BOAT_CLASSES) expect(parsePolarTable(JSON.parse(JSON.stringify(boatClass)))).toEqual(boatClass);
+  });
+
+  it('rejects broken tables', () => {
+    expect(parsePolarTable(null)).toBeNull();
+    expect(parsePolarTable({ ...TABLE, name: 1 })).toBeNull();
+    expect(parsePolarTable({ ...TABLE, twa: [0, 90, 40, 180] })).toBeNull();
+    expect(parsePolarTable({ ...TABLE, twa: [0, 40, 90, 200] })).toBeNull();
+    expect(parsePolarTable({ ...TABLE, speeds: TABLE.speeds.slice(1) })).toBeNull();
+    expect(parsePolarTable({ ...TABLE, speeds: [...TABLE.speeds.slice(1), [1]] })).toBeNull();
+    expect(parsePolarTable({ ...TABLE, speeds: [[0, 0], [2, -4], [4, 6], [3, 5]] })).toBeNull();
+    expect(parsePolarTable({ ...TABLE, speeds: [null, ...TABLE.speeds.slice(1)] })).toBeNull();
+    expect(parsePolarTable({ ...TABLE, speeds: 'fast' })).toBeNull();
+  });
+
+  it('rejects a boat that never makes way', () => {
+    expect(parsePolarTable({ ...TABLE, speeds: TABLE.speeds.map(row => row.map(() => 0)) })).toBeNull();
+  });
+});
+
+describe('parsePolarCsv', () => {
+  it('reads the common TWA\\TWS format with a decimal comma', () => {
+    const text = ['# Testboot', 'TWA\\TWS;10;20', '0;;', '40;2;4', '90;4;6', '180;3;5,5', ''].join('\r\n');
+    expect(parsePolarCsv(text, 'Test')).toEqual({ ...TABLE, speeds: [[0, 0], [2, 4], [4, 6], [3, 5.5]] });
+  });
+
+  it('reads tab and comma separated files', () => {
+    const tab = ['\t10\t20', '0\t0\t0', '40\t2\t4', '90\t4\t6', '180\t3\t5'].join('\n');
+    const comma = ['twa/tws,10,20', '0,0,0', '40,2,4', '90,4,6', '180,3,5'].join('\n');
+    expect(parsePolarCsv(tab, 'Test')).toEqual(TABLE);
+    expect(parsePolarCsv(comma, 'Test')).toEqual(TABLE);
+  });
+
+  it('rejects text that is no polar', () => {
+    expect(parsePolarCsv('', 'Test')).toBeNull();
+    expect(parsePolarCsv('hello\nworld', 'Test')).toBeNull();
+  });
+
+  it('survives a round trip of the default class', () => {
+    const text = [
+      ['TWA\\TWS', ...DEFAULT_POLAR.tws].join('\t'),
+      ...DEFAULT_POLAR.twa.map((twa, i) => [twa, ...DEFAULT_POLAR.speeds[i]].join('\t')),
+    ].join('\n');
+    expect(parsePolarCsv(text, DEFAULT_POLAR.name)).toEqual(DEFAULT_POLAR);
+  });
+});
@@ -0,0 +1,148 @@
+import { isFiniteNumber, isRecord, parseList } from './guards';
+
+/**
+ * Polar tables: boat speed over true wind angle (TWA, degrees) x true wind speed (TWS).
+ * Speeds are in the game's speed unit (the "kn" shown in the dashboard).
+ */
+export interface PolarTable {
+  name: string;
+  twa: number[]; // Ascending, 0..180
+  tws: number[]; // Ascending
+  speeds: number[][]; // speeds[i][j] = boat speed at twa[i], tws[j]
+}
+
+/**
+ * The original built-in curve as a table: nothing below 45°, 0.3 -> 1.0 of the top speed
+ * from 45° to 90°, back down to 0.7 at 180°. Top speed 5 at TWS 15, scaling linearly with
+ * the wind between TWS 9 and 33 and clamped outside (table edges clamp as well).
+ */
+export const DEFAULT_POLAR: PolarTable = {
+  name: 'Standard',
+  twa: [45, 90, 180],
+  tws: [9, 33],
+  speeds: [
+    [0.9, 3.3],
+    [3, 11],
+    [2.1, 7.7],
+  ],
+};
+
+// Richtwerte für eine Einhand-Jolle (keine Messdaten): höher am Wind, schneller auf Raumschots
+const DINGHY_POLAR: PolarTable = {
+  name: 'Jolle',
+  twa: [0, 38, 45, 60, 90, 120, 150, 180],
+  tws: [6, 10, 15, 20, 30],
+  speeds: [
+    [0, 0, 0, 0, 0],
+    [0, 0, 0, 0, 0],
+    [1.6, 2.6, 3.4, 3.8, 4.2],
+    [2.2, 3.4, 4.4, 5, 5.6],
+    [2.6, 4, 5.6, 7, 8.4],
+    [2.4, 3.8, 5.8, 7.6, 9.6],
+    [2, 3.4, 5, 6.6, 8.4],
+    [1.7, 3, 4.4, 5.6, 7],
+  ],
+};
+
+// Richtwerte für ein kleines Kielboot: läuft schon bei wenig Wind, wird aber nicht so schnell
+const KEELBOAT_POLAR: PolarTable = {
+  name: 'Kielboot',
+  twa: [0, 40, 50, 70, 90, 120, 150, 180],
+  tws: [6, 10, 15, 20, 30],
+  speeds: [
+    [0, 0, 0, 0, 0],
+    [0, 0, 0, 0, 0],
+    [2.4, 3.4, 3.9, 4.1, 4.2],
+    [2.8, 3.9, 4.5, 4.8, 5],
+    [3, 4.1, 4.9, 5.3, 5.6],
+    [2.7, 3.9, 5, 5.6, 6.2],
+    [2.2, 3.4, 4.5, 5.2, 5.8],
+    [1.9, 3, 4.1, 4.8, 5.4],
+  ],
+};
+
+export const BOAT_CLASSES: PolarTable[] = [DEFAULT_POLAR, DINGHY_POLAR, KEELBOAT_POLAR];
+
+export const isBuiltInPolar = (table: PolarTable) => BOAT_CLASSES.some(c => c.name === table.name);
+
+// Lower index, upper index and weight of `value` on an ascending axis (clamped at the ends)
+const bracket = (axis: number[], value: number): [number, number, number] => {
+  const last = axis.length - 1;
+  if (value <= axis[0]) return [0, 0, 0];
+  if (value >= axis[last]) return [last, last, 0];
+  let i = 0;
+  while (axis[i + 1] < value) i++;
+  return [i, i + 1, (value - axis[i]) / (axis[i + 1] - axis[i])];
+};
+
+/**
+ * Half-angle of the no-go zone: the first TWA at which the boat makes way at all.
+ */
+export const polarNoGoDeg = (table: PolarTable): number => {
+  const i = table.speeds.findIndex(row => row.some(v => v > 0));
+  return i < 0 ? 180 : table.twa[i];
+};
+
+/**
+ * Boat speed for a true wind angle (degrees, either side) and true wind speed,
+ * bilinearly interpolated. Angles inside the no-go zone give 0: the last row without
+ * speed is not blended into the first one with speed.
+ */
+export const polarSpeed = (table: PolarTable, twaDeg: number, tws: number): number => {
+  const twa = Math.min(180, Math.abs(twaDeg));
+  if (twa < table.twa[0] || twa < polarNoGoDeg(table)) return 0;
+  const [i0, i1, ti] = bracket(table.twa, twa);
+  const [j0, j1, tj] = bracket(table.tws, tws);
+  const at = (i: number) => table.speeds[i][j0] + (table.speeds[i][j1] - table.speeds[i][j0]) * tj;
+  return at(i0) + (at(i1) - at(i0)) * ti;
+};
+
+/**
+ * Best speed on any angle at this wind speed (the top of the polar curve).
+ */
+export const polarMaxSpeed = (table: PolarTable, tws: number): number => {
+  const [j0, j1, tj] = bracket(table.tws, tws);
+  return Math.max(...table.speeds.map(row => row[j0] + (row[j1] - row[j0]) * tj));
+};
+
+const isAscending = (axis: number[]) => axis.every((v, i) => i === 0 || v > axis[i - 1]);
+
+/**
+ * Validates a polar table (e.g. from localStorage or a replay). Returns null if unusable.
+ */
+export const parsePolarTable = (raw: unknown): PolarTable | null => {
+  if (!isRecord(raw) || typeof raw.name !== 'string') return null;
+  const { name, twa, tws, speeds } = raw;
+  const isNumbers = (a: unknown): a is number[] => Array.isArray(a) && a.length > 0 && a.every(isFiniteNumber);
+  if (!isNumbers(twa) || !isNumbers(tws) || !isAscending(twa) || !isAscending(tws)) return null;
+  if (twa[0] < 0 || twa[twa.length - 1] > 180) return null;
+  const rows = parseList(speeds, row => (isNumbers(row) && row.length === tws.length && row.every(v => v >= 0) ? [...row] : null));
+  if (!rows || rows.length !== twa.length) return null;
+  if (polarNoGoDeg({ name, twa, tws, speeds: rows }) >= 180) return null;
+  return { name, twa: [...twa], tws: [...tws], speeds: rows };
+};
+
+/**
+ * Reads the common polar text format: first row "TWA\TWS" followed by the wind speeds,
+ * then one row per true wind angle with the boat speeds. Separator is tab, semicolon or comma
+ * (with tab/semicolon a decimal comma is accepted), empty cells count as 0, lines with # are comments.
+ */
+export const parsePolarCsv = (text: string, name: string): PolarTable | null => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.trimEnd()) // keep a leading tab, it is the empty corner cell
+    .filter(line => line.trim() !== '' && !line.trim().startsWith('#'));
+  if (lines.length < 2) return null;
+
+  const separator = lines[0].includes('\t') ? '\t' : lines[0].includes(';') ? ';' : ',';
+  const toNumber = (cell: string) => {
+    const clean = (separator === ',' ? cell : cell.replace(',', '.')).trim();
+    return clean === '' ? 0 : Number(clean);
+  };
+  const rows = lines.map(line => line.split(separator));
+
+  const tws = rows[0].slice(1).filter(cell => cell.trim() !== '').map(toNumber);
+  const twa = rows.slice(1).map(row => toNumber(row[0]));
+  const speeds = rows.slice(1).map(row => tws.map((_, j) => toNumber(row[j + 1] ?? '')));
+  return parsePolarTable({ name, twa, tws, speeds });
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { SEED_CODE_LENGTH, createRng, formatSeed, hashSeed, parseSeed } from './random';
+import { BASE_ROCK_COUNT, formatCourseCode, generateCourseRocks, parseCourseCode, pickWindDirectionForLevel } from './course';
+
+const BOUNDS = { width: 2400, height: 1400 };
+
+const draw = (seed: number, count: number) => {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, rng);
+};
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(draw(1234, 50)).toEqual(draw(1234, 50));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(draw(1234, 10)).not.toEqual(draw(1235, 10));
+  });
+
+  it('stays in [0, 1)', () => {
+    for (const value of draw(99, 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('hashSeed', () => {
+  it('derives stable, independent streams', () => {
+    expect(hashSeed(42, 'wind', 1)).toBe(hashSeed(42, 'wind', 1));
+    expect(hashSeed(42, 'wind', 1)).not.toBe(hashSeed(42, 'wind', 2));
+    expect(hashSeed(42, 'wind', 1)).not.toBe(hashSeed(42, 'rocks'));
+  });
+});
+
+describe('seed codes', () => {
+  it('round-trips through formatSeed and parseSeed', () => {
+    for (const seed of [0, 1, 35, 36, 1234567, Math.pow(36, SEED_CODE_LENGTH) - 1]) {
+      const code = formatSeed(seed);
+      expect(code).toHaveLength(SEED_CODE_LENGTH);
+      expect(parseSeed(code)).toBe(seed);
+    }
+  });
+
+  it('accepts lower case and surrounding blanks', () => {
+    expect(parseSeed(' k7q2m9 ')).toBe(parseSeed('K7Q2M9'));
+  });
+
+  it('rejects codes with other characters or too long', () => {
+    expect(parseSeed('')).toBeNull();
+    expect(parseSeed('K7-Q2')).toBeNull();
+    expect(parseSeed('ABCDEFG')).toBeNull();
+  });
+});
+
+describe('course codes', () => {
+  it('round-trips seed and rock count', () => {
+    const course = { seed: 987654, rockCount: 17 };
+    expect(parseCourseCode(formatCourseCode(course))).toEqual(course);
+  });
+
+  it('uses the base rock count when the count is left out', () => {
+    expect(parseCourseCode('K7Q2M9')?.rockCount).toBe(BASE_ROCK_COUNT);
+  });
+
+  it('rejects rock counts out of range', () => {
+    expect(parseCourseCode('K7Q2M9-41')).toBeNull();
+    expect(parseCourseCode('K7Q2M9-x')).toBeNull();
+  });
+
+  it('places the same rocks and wind for the same code', () => {
+    const course = { seed: 4711, rockCount: 12 };
+    expect(generateCourseRocks(course, BOUNDS)).toEqual(generateCourseRocks(course, BOUNDS));
+    expect(generateCourseRocks(course, BOUNDS)).not.toEqual(generateCourseRocks({ ...course, seed: 4712 }, BOUNDS));
+    expect(pickWindDirectionForLevel(4711, 3)).toBe(pickWindDirectionForLevel(4711, 3));
+  });
+
+  it('keeps the wind within 45° of left to right', () => {
+    for (let level = 1; level <= 20; level++) {
+      expect(Math.abs(pickWindDirectionForLevel(4711, level))).toBeLessThanOrEqual(Math.PI / 4);
+    }
+  });
+});
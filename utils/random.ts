@@ -0,0 +1,51 @@
+/**
+ * Deterministic random numbers, so a course can be shared and sailed again.
+ */
+export type Rng = () => number;
+
+/**
+ * Mulberry32 PRNG: small, fast and good enough for placing rocks.
+ * Returns floats in [0, 1) like Math.random().
+ */
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Derives an independent sub-seed (FNV-1a), e.g. hashSeed(seed, 'wind', level).
+ * Keeps the streams for rocks, wind and particles from influencing each other.
+ */
+export const hashSeed = (seed: number, ...parts: (string | number)[]): number => {
+  let h = 0x811c9dc5 ^ (seed >>> 0);
+  const text = parts.join(':');
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// 6 base-36 characters: short enough to read out loud
+export const SEED_CODE_LENGTH = 6;
+const SEED_RANGE = Math.pow(36, SEED_CODE_LENGTH);
+
+/**
+ * Fresh seed for a new run (the only place that still needs Math.random()).
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * SEED_RANGE);
+
+export const formatSeed = (seed: number): string =>
+  (seed % SEED_RANGE).toString(36).toUpperCase().padStart(SEED_CODE_LENGTH, '0');
+
+export const parseSeed = (code: string): number | null => {
+  const clean = code.trim().toUpperCase();
+  if (!/^[0-9A-Z]{1,6}$/.test(clean)) return null;
+  return parseInt(clean, 36);
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_TIMESTEP } from '../constants';
+import { Upgrades } from '../types';
+import { SimulationInput } from './simulation';
+import { RunState, advanceRun, createRunState } from './run';
+import { MAX_COURSE_BOUNDS } from './course';
+import {
+  REPLAY_VERSION,
+  Replay,
+  advanceReplay,
+  createReplay,
+  createReplayPlayer,
+  isOutdatedReplay,
+  parseReplay,
+  recordInput,
+  recordUpgrades,
+  replayLength,
+  seekReplay,
+  serializeReplay,
+} from './replay';
+
+const COURSE = { seed: 31337, rockCount: 12 };
+const BOUNDS = { width: 2400, height: 1400 };
+const UPGRADES: Upgrades = { hasSail: true, turnMultiplier: 1, speedMultiplier: 1, revealMap: false, autoTrim: false };
+const TURBO: Upgrades = { ...UPGRADES, speedMultiplier: 1.5 };
+
+const inputAt = (tick: number): SimulationInput => ({
+  steer: tick % 240 < 120 ? 0.37 : -0.5,
+  sheet: tick % 5 === 0 ? 1 : tick % 7 === 0 ? -1 : 0,
+});
+
+// Sails a run live while recording it, with an upgrade bought halfway
+const recordRun = (ticks: number): { run: RunState; replay: Replay } => {
+  let run = createRunState(COURSE, BOUNDS, UPGRADES);
+  const replay = createReplay(COURSE, BOUNDS, UPGRADES);
+  for (let tick = 0; tick < ticks; tick++) {
+    if (tick === ticks / 2) {
+      run = { ...run, sim: { ...run.sim, upgrades: TURBO } };
+      recordUpgrades(replay, TURBO);
+    }
+    recordInput(replay, inputAt(tick));
+    run = advanceRun(run, inputAt(tick), FIXED_TIMESTEP).run;
+  }
+  return { run, replay };
+};
+
+const roundTrip = (replay: Replay) => parseReplay(JSON.parse(serializeReplay(replay)));
+
+describe('recording', () => {
+  it('run-length encodes the inputs', () => {
+    const replay = createReplay(COURSE, BOUNDS, UPGRADES);
+    for (let i = 0; i < 10; i++) recordInput(replay, { steer: 0.5, sheet: 0 });
+    recordInput(replay, { steer: 0, sheet: 1 });
+    expect(replay.inputs).toEqual([
+      [50, 0, 10],
+      [0, 1, 1],
+    ]);
+    expect(replayLength(replay)).toBe(11);
+  });
+
+  it('only records upgrades that change something', () => {
+    const replay = createReplay(COURSE, BOUNDS, UPGRADES);
+    recordUpgrades(replay, UPGRADES);
+    expect(replay.upgradeChanges).toEqual([]);
+    recordUpgrades(replay, TURBO);
+    expect(replay.upgradeChanges).toEqual([{ tick: 0, upgrades: TURBO }]);
+  });
+});
+
+describe('playback', () => {
+  it('reproduces the live run tick for tick after a round trip through JSON', () => {
+    const { run, replay } = recordRun(900);
+    const player = createReplayPlayer(roundTrip(replay)!);
+    let frame = seekReplay(player, 0);
+    while (frame.tick < player.length) frame = advanceReplay(player, frame);
+    expect(frame.run).toEqual(run);
+  });
+
+  it('seeks to the same frame as playing through', () => {
+    const { replay } = recordRun(700);
+    const player = createReplayPlayer(replay);
+    let frame = seekReplay(player, 0);
+    while (frame.tick < 450) frame = advanceReplay(player, frame);
+    expect(seekReplay(player, 450)).toEqual(frame);
+  });
+});
+
+describe('two-player replays', () => {
+  it('play back both boats tick for tick', () => {
+    const NIMBLE = { ...UPGRADES, turnMultiplier: 2 };
+    let run = createRunState(COURSE, BOUNDS, UPGRADES, null, undefined, false, undefined, NIMBLE);
+    const replay = createReplay(COURSE, BOUNDS, UPGRADES, null, undefined, false, undefined, NIMBLE);
+    for (let tick = 0; tick < 400; tick++) {
+      recordInput(replay, inputAt(tick), inputAt(tick + 60));
+      run = advanceRun(run, inputAt(tick), FIXED_TIMESTEP, inputAt(tick + 60)).run;
+    }
+    const player = createReplayPlayer(roundTrip(replay)!);
+    expect(seekReplay(player, player.length).run).toEqual(run);
+  });
+
+  it('reject a second track of another length', () => {
+    const replay = createReplay(COURSE, BOUNDS, UPGRADES, null, undefined, false, undefined, UPGRADES);
+    recordInput(replay, inputAt(0), inputAt(0));
+    const raw = JSON.parse(serializeReplay(replay));
+    expect(parseReplay({ ...raw, player2: { ...raw.player2, inputs: [] } })).toBeNull();
+  });
+});
+
+describe('parseReplay', () => {
+  const { replay } = recordRun(60);
+  const raw = () => JSON.parse(serializeReplay(replay));
+
+  it('accepts its own recordings', () => {
+    expect(roundTrip(replay)).toEqual(replay);
+  });
+
+  it('refuses replays of older versions and reports them as outdated', () => {
+    const old = { ...raw(), version: REPLAY_VERSION - 1 };
+    expect(parseReplay(old)).toBeNull();
+    expect(isOutdatedReplay(old)).toBe(true);
+    expect(isOutdatedReplay(raw())).toBe(false);
+    expect(isOutdatedReplay({ version: REPLAY_VERSION + 1 })).toBe(false);
+    expect(parseReplay({ ...raw(), version: REPLAY_VERSION + 1 })).toBeNull();
+  });
+
+  it('rejects broken files', () => {
+    expect(parseReplay(null)).toBeNull();
+    expect(parseReplay([])).toBeNull();
+    expect(parseReplay({ ...raw(), course: 'not a code' })).toBeNull();
+    expect(parseReplay({ ...raw(), bounds: { width: -1, height: 100 } })).toBeNull();
+    expect(parseReplay({ ...raw(), upgrades: { hasSail: 'yes' } })).toBeNull();
+    expect(parseReplay({ ...raw(), polar: { name: 'Broken' } })).toBeNull();
+    expect(parseReplay({ ...raw(), inputs: [[500, 0, 1]] })).toBeNull();
+    expect(parseReplay({ ...raw(), inputs: [[0, 2, 1]] })).toBeNull();
+    expect(parseReplay({ ...raw(), inputs: [[0, 0, 0]] })).toBeNull();
+    expect(parseReplay({ ...raw(), inputs: [[0, 1]] })).toBeNull();
+    expect(parseReplay({ ...raw(), opponents: { count: 'many' } })).toBeNull();
+    expect(parseReplay({ ...raw(), recordedAt: 42 })?.recordedAt).toBe('');
+  });
+
+  it('clamps huge playfields', () => {
+    const parsed = parseReplay({ ...raw(), bounds: { width: 1e9, height: 1e9 } });
+    expect(parsed?.bounds).toEqual(MAX_COURSE_BOUNDS);
+  });
+});
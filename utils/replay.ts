@@ -0,0 +1,287 @@
+import { Upgrades } from '../types';
+import { FIXED_TIMESTEP } from '../constants';
+import { Bounds, NO_INPUT, STEER_STEPS, SimulationInput } from './simulation';
+import { CourseFile, CourseSeed, MAX_COURSE_BOUNDS, formatCourseCode, parseCourseCode, parseCourseFile } from './course';
+import { RunState, advanceRun, createRunState } from './run';
+import { DEFAULT_POLAR, PolarTable, parsePolarTable } from './polar';
+import { NO_OPPONENTS, OpponentSetup, isOpponentSetup } from './opponents';
+import { isInteger, isPositive, isRecord } from './guards';
+
+// Bumped whenever a tick of the simulation changes (stepBoat, advanceRun): the same inputs would sail a different
+// course, so older replays are refused instead of played back wrong (see isOutdatedReplay).
+// 2: sheet input per tick, 3: analog rudder, 4: tack zone from the polar, 5: racing rules use the polar's no-go zone,
+// 6: no speed inside the polar's no-go zone, 7: opponents share route searches
+export const REPLAY_VERSION = 7;
+
+// Snapshot spacing for scrubbing: seeking never re-simulates more than this many ticks
+const KEYFRAME_INTERVAL = 300;
+
+export interface UpgradeChange {
+  tick: number; // First tick simulated with these upgrades
+  upgrades: Upgrades;
+}
+
+type InputRuns = [number, number, number][]; // Run-length encoded: [steer in 1/STEER_STEPS, sheet, number of ticks]
+
+/**
+ * Player two's part of a two-player recording, one input per tick like player one's.
+ */
+export interface PlayerTwoTrack {
+  upgrades: Upgrades; // Active at tick 0
+  upgradeChanges: UpgradeChange[];
+  inputs: InputRuns;
+}
+
+/**
+ * A recorded run: course, start conditions and one steering/sheet input per tick.
+ * Re-simulating it with the fixed-timestep core reproduces the run exactly.
+ */
+export interface Replay {
+  version: number;
+  course: string; // Kurs-Code, see formatCourseCode
+  customCourse?: CourseFile; // Editor course, replaces the seeded layout
+  bounds: Bounds;
+  upgrades: Upgrades; // Active at tick 0
+  polar?: PolarTable; // Boat class, default polar when missing
+  sailOnApparentWind?: boolean;
+  opponents?: OpponentSetup; // Computer opponents, none when missing
+  upgradeChanges: UpgradeChange[];
+  inputs: InputRuns;
+  player2?: PlayerTwoTrack; // Set for two-player runs
+  recordedAt: string;
+}
+
+export const createReplay = (
+  course: CourseSeed,
+  bounds: Bounds,
+  upgrades: Upgrades,
+  customCourse: CourseFile | null = null,
+  polar: PolarTable = DEFAULT_POLAR,
+  sailOnApparentWind = false,
+  opponents: OpponentSetup = NO_OPPONENTS,
+  player2Upgrades: Upgrades | null = null
+): Replay => ({
+  version: REPLAY_VERSION,
+  course: formatCourseCode(course),
+  ...(customCourse ? { customCourse } : {}),
+  bounds: { ...bounds },
+  upgrades: { ...upgrades },
+  polar,
+  sailOnApparentWind,
+  opponents: { ...opponents },
+  upgradeChanges: [],
+  inputs: [],
+  ...(player2Upgrades ? { player2: { upgrades: { ...player2Upgrades }, upgradeChanges: [], inputs: [] } } : {}),
+  recordedAt: new Date().toISOString(),
+});
+
+export const replayLength = (replay: Replay): number => runsLength(replay.inputs);
+
+const pushInput = (inputs: InputRuns, input: SimulationInput) => {
+  const steer = Math.round(input.steer * STEER_STEPS);
+  const last = inputs[inputs.length - 1];
+  if (last && last[0] === steer && last[1] === input.sheet) {
+    last[2]++;
+  } else {
+    inputs.push([steer, input.sheet, 1]);
+  }
+};
+
+/**
+ * Appends one tick, for player two too on two-player recordings.
+ * Mutates the replay, it is called every tick while recording.
+ */
+export const recordInput = (replay: Replay, input: SimulationInput, input2: SimulationInput = NO_INPUT) => {
+  pushInput(replay.inputs, input);
+  if (replay.player2) pushInput(replay.player2.inputs, input2);
+};
+
+const upgradesAt = (track: Pick<Replay, 'upgrades' | 'upgradeChanges'>, tick: number): Upgrades => {
+  let current = track.upgrades;
+  for (const change of track.upgradeChanges) {
+    if (change.tick <= tick) current = change.upgrades;
+  }
+  return current;
+};
+
+/**
+ * Records upgrades of player one (or two) that take effect from the next recorded tick on.
+ */
+export const recordUpgrades = (replay: Replay, upgrades: Upgrades, player: 1 | 2 = 1) => {
+  const track = player === 2 ? replay.player2 : replay;
+  if (!track) return;
+  const tick = replayLength(replay);
+  if (JSON.stringify(upgradesAt(track, tick)) === JSON.stringify(upgrades)) return;
+  track.upgradeChanges = track.upgradeChanges.filter(c => c.tick !== tick);
+  track.upgradeChanges.push({ tick, upgrades: { ...upgrades } });
+};
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+const isUpgrades = (value: unknown): value is Upgrades =>
+  isRecord(value) &&
+  typeof value.hasSail === 'boolean' &&
+  typeof value.turnMultiplier === 'number' &&
+  typeof value.speedMultiplier === 'number' &&
+  typeof value.revealMap === 'boolean' &&
+  typeof value.autoTrim === 'boolean';
+
+const isUpgradeChanges = (value: unknown): value is UpgradeChange[] =>
+  Array.isArray(value) && value.every((c: unknown) => isRecord(c) && isInteger(c.tick) && isUpgrades(c.upgrades));
+
+const isInputRun = (value: unknown): value is InputRuns[number] => {
+  if (!Array.isArray(value) || value.length !== 3) return false;
+  const [steer, sheet, ticks]: unknown[] = value;
+  return isInteger(steer) && Math.abs(steer) <= STEER_STEPS && (sheet === -1 || sheet === 0 || sheet === 1) && isInteger(ticks) && ticks > 0;
+};
+
+const isInputRuns = (value: unknown): value is InputRuns => Array.isArray(value) && value.every(isInputRun);
+
+const runsLength = (inputs: InputRuns): number => inputs.reduce((sum, [, , ticks]) => sum + ticks, 0);
+
+/**
+ * A replay of an earlier version of the game: recorded under other physics, it can't be played back.
+ */
+export const isOutdatedReplay = (raw: unknown): boolean =>
+  isRecord(raw) && isInteger(raw.version) && raw.version >= 1 && raw.version < REPLAY_VERSION;
+
+/**
+ * Validates an imported replay. Returns null for anything we can't play back.
+ */
+export const parseReplay = (raw: unknown): Replay | null => {
+  if (!isRecord(raw)) return null;
+  const { version, course, bounds, upgrades, upgradeChanges, inputs } = raw;
+  if (version !== REPLAY_VERSION) return null;
+  if (typeof course !== 'string' || !parseCourseCode(course)) return null;
+  const customCourse = raw.customCourse === undefined ? null : parseCourseFile(raw.customCourse);
+  if (raw.customCourse !== undefined && !customCourse) return null;
+  if (!isRecord(bounds) || !isPositive(bounds.width) || !isPositive(bounds.height)) return null;
+  if (!isUpgrades(upgrades)) return null;
+  const polar = raw.polar === undefined ? DEFAULT_POLAR : parsePolarTable(raw.polar);
+  if (!polar) return null;
+  const opponents = raw.opponents === undefined ? NO_OPPONENTS : raw.opponents;
+  if (!isOpponentSetup(opponents)) return null;
+  if (!isUpgradeChanges(upgradeChanges) || !isInputRuns(inputs)) return null;
+
+  let player2: PlayerTwoTrack | null = null;
+  if (raw.player2 !== undefined) {
+    const track = raw.player2;
+    if (
+      !isRecord(track) ||
+      !isUpgrades(track.upgrades) ||
+      !isUpgradeChanges(track.upgradeChanges) ||
+      !isInputRuns(track.inputs) ||
+      runsLength(track.inputs) !== runsLength(inputs)
+    ) {
+      return null;
+    }
+    player2 = { upgrades: track.upgrades, upgradeChanges: track.upgradeChanges, inputs: track.inputs };
+  }
+  return {
+    version: REPLAY_VERSION,
+    course,
+    ...(customCourse ? { customCourse } : {}),
+    bounds: { width: Math.min(bounds.width, MAX_COURSE_BOUNDS.width), height: Math.min(bounds.height, MAX_COURSE_BOUNDS.height) },
+    upgrades,
+    polar,
+    sailOnApparentWind: raw.sailOnApparentWind === true,
+    opponents,
+    upgradeChanges,
+    inputs,
+    ...(player2 ? { player2 } : {}),
+    recordedAt: typeof raw.recordedAt === 'string' ? raw.recordedAt : '',
+  };
+};
+
+// --- Playback ---
+
+export interface ReplayFrame {
+  run: RunState;
+  tick: number; // Number of recorded ticks already simulated
+}
+
+export interface ReplayPlayer {
+  replay: Replay;
+  steer: Int8Array; // Decoded inputs, one per tick (rudder in 1/STEER_STEPS)
+  sheet: Int8Array;
+  steer2: Int8Array; // Player two's, all 0 on single-player replays
+  sheet2: Int8Array;
+  length: number;
+  keyframes: ReplayFrame[]; // keyframes[i] is the frame at tick i * KEYFRAME_INTERVAL
+}
+
+const startFrame = (replay: Replay): ReplayFrame => ({
+  run: createRunState(
+    parseCourseCode(replay.course)!,
+    replay.bounds,
+    replay.upgrades,
+    replay.customCourse ?? null,
+    replay.polar ?? DEFAULT_POLAR,
+    replay.sailOnApparentWind ?? false,
+    replay.opponents ?? NO_OPPONENTS,
+    replay.player2?.upgrades ?? null
+  ),
+  tick: 0,
+});
+
+const advanceFrame = (player: Omit<ReplayPlayer, 'length' | 'keyframes'>, frame: ReplayFrame): ReplayFrame => {
+  const { replay } = player;
+  let run = frame.run;
+  const change = replay.upgradeChanges.find(c => c.tick === frame.tick);
+  if (change) run = { ...run, sim: { ...run.sim, upgrades: change.upgrades } };
+  const change2 = replay.player2?.upgradeChanges.find(c => c.tick === frame.tick);
+  if (change2 && run.sim.player2) run = { ...run, sim: { ...run.sim, player2: { ...run.sim.player2, upgrades: change2.upgrades } } };
+  const input: SimulationInput = {
+    steer: player.steer[frame.tick] / STEER_STEPS,
+    sheet: player.sheet[frame.tick] as SimulationInput['sheet'],
+  };
+  const input2: SimulationInput = {
+    steer: player.steer2[frame.tick] / STEER_STEPS,
+    sheet: player.sheet2[frame.tick] as SimulationInput['sheet'],
+  };
+  return { run: advanceRun(run, input, FIXED_TIMESTEP, input2).run, tick: frame.tick + 1 };
+};
+
+const decodeInputs = (inputs: InputRuns, length: number) => {
+  const steer = new Int8Array(length);
+  const sheet = new Int8Array(length);
+  let i = 0;
+  for (const [steerValue, sheetValue, ticks] of inputs) {
+    steer.fill(steerValue, i, i + ticks);
+    sheet.fill(sheetValue, i, i + ticks);
+    i += ticks;
+  }
+  return { steer, sheet };
+};
+
+/**
+ * Decodes a replay and simulates it once to collect keyframes for scrubbing.
+ */
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const length = replayLength(replay);
+  const { steer, sheet } = decodeInputs(replay.inputs, length);
+  const { steer: steer2, sheet: sheet2 } = decodeInputs(replay.player2?.inputs ?? [], length);
+
+  const keyframes: ReplayFrame[] = [];
+  let frame = startFrame(replay);
+  while (true) {
+    if (frame.tick % KEYFRAME_INTERVAL === 0) keyframes.push(frame);
+    if (frame.tick >= length) break;
+    frame = advanceFrame({ replay, steer, sheet, steer2, sheet2 }, frame);
+  }
+
+  return { replay, steer, sheet, steer2, sheet2, length, keyframes };
+};
+
+/**
+ * Next tick of playback. Stays on the last frame once the recording ends.
+ */
+export const advanceReplay = (player: ReplayPlayer, frame: ReplayFrame): ReplayFrame =>
+  frame.tick >= player.length ? frame : advanceFrame(player, frame);
+
+export const seekReplay = (player: ReplayPlayer, tick: number): ReplayFrame => {
+  const target = Math.max(0, Math.min(player.length, Math.round(tick)));
+  let frame = player.keyframes[Math.floor(target / KEYFRAME_INTERVAL)];
+  while (frame.tick < target) frame = advanceFrame(player, frame);
+  return frame;
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { RockState, Upgrades, Vector2D, WindState } from '../types';
+import { BOAT_SAFETY_RADIUS } from '../constants';
+import { windAngleDeg } from './physics';
+import { DEFAULT_POLAR, polarNoGoDeg } from './polar';
+import { bestVmgHeading, computeRouteOverlay, laylines, planRoute, routeField } from './routing';
+import { createRunState } from './run';
+import { rockOutline } from './collision';
+
+const BOUNDS = { width: 2400, height: 1400 };
+// Blows towards the east: the goal in the west lies upwind
+const WIND: WindState = { direction: 0, speed: 15 };
+const ROCK: RockState = { position: { x: 1200, y: 700 }, radius: 60, outline: rockOutline(0) };
+
+// Closest distance of a point to the segment a-b
+const distanceToSegment = (p: Vector2D, a: Vector2D, b: Vector2D) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy)));
+  return Math.hypot(a.x + dx * t - p.x, a.y + dy * t - p.y);
+};
+
+describe('bestVmgHeading', () => {
+  it('sails straight at a goal on a reach', () => {
+    expect(bestVmgHeading(Math.PI / 2, WIND, DEFAULT_POLAR).heading).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('points as high as pays off for a goal straight upwind', () => {
+    const { heading, vmg } = bestVmgHeading(Math.PI, WIND, DEFAULT_POLAR);
+    expect(Math.abs(windAngleDeg(heading, WIND.direction))).toBeGreaterThanOrEqual(polarNoGoDeg(DEFAULT_POLAR));
+    expect(vmg).toBeGreaterThan(0);
+  });
+});
+
+describe('laylines', () => {
+  it('runs one line on each tack through the goal', () => {
+    const goal = { x: 200, y: 700 };
+    const lines = laylines(goal, { x: 2000, y: 700 }, WIND, DEFAULT_POLAR, 1000);
+    expect(lines.map(l => l.side)).toEqual(['starboard', 'port']);
+    for (const line of lines) {
+      expect(line.from).toEqual(goal);
+      expect(Math.hypot(line.to.x - goal.x, line.to.y - goal.y)).toBeCloseTo(1000);
+    }
+    // Mirrored about the wind axis
+    expect(lines[0].to.y - goal.y).toBeCloseTo(goal.y - lines[1].to.y);
+  });
+});
+
+describe('planRoute', () => {
+  it('sails straight on a reach in open water', () => {
+    const from = { x: 600, y: 300 };
+    const goal = { x: 600, y: 1100 };
+    expect(planRoute(from, goal, [], BOUNDS, WIND, DEFAULT_POLAR)).toEqual([from, goal]);
+  });
+
+  it('beats to a goal straight upwind', () => {
+    const route = planRoute({ x: 2000, y: 700 }, { x: 400, y: 700 }, [], BOUNDS, WIND, DEFAULT_POLAR)!;
+    expect(route.length).toBeGreaterThan(2);
+    for (let k = 1; k < route.length; k++) {
+      const heading = Math.atan2(route[k].y - route[k - 1].y, route[k].x - route[k - 1].x);
+      expect(Math.abs(windAngleDeg(heading, WIND.direction))).toBeGreaterThanOrEqual(polarNoGoDeg(DEFAULT_POLAR) - 1);
+    }
+  });
+
+  it('goes round a rock in the way', () => {
+    const from = { x: 1200, y: 300 };
+    const goal = { x: 1200, y: 1100 };
+    const route = planRoute(from, goal, [ROCK], BOUNDS, WIND, DEFAULT_POLAR)!;
+    expect(route[0]).toEqual(from);
+    expect(route[route.length - 1]).toEqual(goal);
+    for (let k = 1; k < route.length; k++) {
+      expect(distanceToSegment(ROCK.position, route[k - 1], route[k])).toBeGreaterThanOrEqual(ROCK.radius + BOAT_SAFETY_RADIUS - 1e-6);
+    }
+  });
+
+  it('heads for the nearest part of a finish zone', () => {
+    const zone = { x: 0, y: 0, width: 20, height: BOUNDS.height };
+    const route = planRoute({ x: 600, y: 300 }, zone, [], BOUNDS, { direction: Math.PI / 2, speed: 15 }, DEFAULT_POLAR);
+    expect(route).toEqual([{ x: 600, y: 300 }, { x: 20, y: 300 }]);
+  });
+
+  it('gives up when the boat cannot sail at all', () => {
+    const becalmed = { ...DEFAULT_POLAR, speeds: DEFAULT_POLAR.speeds.map(row => row.map(() => 0)) };
+    expect(planRoute({ x: 600, y: 300 }, { x: 600, y: 1100 }, [], BOUNDS, WIND, becalmed)).toBeNull();
+  });
+});
+
+describe('routeField', () => {
+  it('is searched once for all winds of a sector', () => {
+    const goal = { x: 400, y: 700 };
+    const field = routeField(goal, [ROCK], BOUNDS, WIND, DEFAULT_POLAR);
+    expect(routeField({ ...goal }, [{ ...ROCK }], BOUNDS, { direction: 0.02, speed: 16 }, DEFAULT_POLAR)).toBe(field);
+    expect(routeField(goal, [ROCK], BOUNDS, { direction: Math.PI / 2, speed: 15 }, DEFAULT_POLAR)).not.toBe(field);
+    expect(routeField(goal, [], BOUNDS, WIND, DEFAULT_POLAR)).not.toBe(field);
+  });
+});
+
+describe('computeRouteOverlay', () => {
+  it('leads into the finish zone from either side of the start', () => {
+    const upgrades: Upgrades = { hasSail: true, turnMultiplier: 1, speedMultiplier: 1, revealMap: true, autoTrim: false };
+    const { sim } = createRunState({ seed: 99, rockCount: 12 }, BOUNDS, upgrades);
+    const { finish } = sim;
+    for (const y of [sim.start.y - 200, sim.start.y + 200]) {
+      const state = { ...sim, boat: { ...sim.boat, position: { x: sim.start.x, y } } };
+      const route = computeRouteOverlay(state, sim.wind, null)?.route;
+      const end = route?.[route.length - 1];
+      expect(end?.x).toBeGreaterThanOrEqual(finish.x);
+      expect(end?.x).toBeLessThanOrEqual(finish.x + finish.width);
+      expect(end?.y).toBeGreaterThanOrEqual(finish.y);
+      expect(end?.y).toBeLessThanOrEqual(finish.y + finish.height);
+    }
+  });
+});
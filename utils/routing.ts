@@ -0,0 +1,429 @@
+import { Mark, Rect, RockState, Vector2D, WindState } from '../types';
+import { BOAT_SAFETY_RADIUS, FPS, ROCK_VISIBLE_RADIUS, WALL_BUFFER, normalizeAngle } from '../constants';
+import { VmgOptimum, calculateTargetSpeed, headingForWindAngle, optimalVmg, windAngleDeg } from './physics';
+import { PolarTable, polarMaxSpeed } from './polar';
+import { currentGoal, markCenter } from './marks';
+import { Bounds, SimulationState } from './simulation';
+import { Exploration } from './exploration';
+
+// Waypoints around each rock for the route search; more = smoother, but quadratic cost
+const NODES_PER_ROCK = 8;
+// Extra room the route keeps from rocks and edges: boats make leeway and don't steer perfectly
+export const ROUTE_MARGIN = 30;
+// Tack points keep this far from the edges, a boat needs room to turn
+const EDGE_MARGIN = 60;
+// Bearing sectors for the VMG bound in the route search
+const VMG_SECTORS = 72;
+// Time a tack costs in the route search (frames), so the planner doesn't zigzag for nothing
+const TACK_PENALTY = 3 * FPS;
+// Wind sectors and speed steps the route search rounds the wind to, so similar winds share a search
+const WIND_SECTORS = 36;
+const WIND_SPEED_STEP = 5;
+// Route fields kept per polar
+const MAX_ROUTE_FIELDS = 64;
+
+/**
+ * Layline: the line along which the boat just fetches the goal on the best VMG angle.
+ * Starboard = wind from starboard (twa > 0) on that line.
+ */
+export interface Layline {
+  side: 'port' | 'starboard';
+  from: Vector2D; // The goal
+  to: Vector2D; // Far end, away from the goal
+}
+
+/**
+ * Training overlay: laylines to the goal, the heading with the best VMG right now
+ * and the fastest route around the known rocks (tacks included).
+ */
+export interface RouteOverlay {
+  goal: Vector2D;
+  laylines: Layline[];
+  bestHeading: number;
+  route: Vector2D[] | null; // Null if no route around the known rocks was found
+}
+
+/**
+ * Rocks the sailor can know about: all with revealMap, otherwise those in sight and those charted
+ * on earlier attempts (charted[i] for rock i, see Exploration).
+ */
+export const knownRocks = (rocks: RockState[], position: Vector2D, revealMap: boolean, charted: boolean[] = []): RockState[] =>
+  revealMap
+    ? rocks
+    : rocks.filter(
+        (r, i) =>
+          charted[i] || Math.hypot(r.position.x - position.x, r.position.y - position.y) < ROCK_VISIBLE_RADIUS + r.radius
+      );
+
+const unit = (heading: number): Vector2D => ({ x: Math.cos(heading), y: Math.sin(heading) });
+
+/**
+ * Heading with the best VMG towards a bearing (radians) on this polar.
+ */
+export const bestVmgHeading = (bearing: number, wind: WindState, polar: PolarTable): { heading: number; vmg: number } => {
+  let best = { heading: bearing, vmg: -Infinity };
+  for (let twa = -180; twa < 180; twa++) {
+    const heading = headingForWindAngle(twa, wind.direction);
+    const vmg = calculateTargetSpeed(heading, wind, polar) * Math.cos(heading - bearing);
+    if (vmg > best.vmg) best = { heading, vmg };
+  }
+  return best;
+};
+
+/**
+ * The two laylines through the goal: close-hauled if the goal lies upwind of the boat, otherwise
+ * on the best downwind angle.
+ */
+export const laylines = (goal: Vector2D, position: Vector2D, wind: WindState, polar: PolarTable, length: number): Layline[] => {
+  const bearing = Math.atan2(goal.y - position.y, goal.x - position.x);
+  const { upwind, downwind } = optimalVmg(wind, polar);
+  const opt = Math.abs(windAngleDeg(bearing, wind.direction)) < 90 ? upwind : downwind;
+  return (['starboard', 'port'] as const).map(side => {
+    const u = unit(headingForWindAngle(side === 'starboard' ? opt.twa : -opt.twa, wind.direction));
+    return { side, from: goal, to: { x: goal.x - u.x * length, y: goal.y - u.y * length } };
+  });
+};
+
+// Does the segment a-b keep clear of all rocks? Next to a rock that already holds an end point
+// it only must not get any closer, so a boat (or mark) right next to a rock can still leave it.
+const segmentClear = (a: Vector2D, b: Vector2D, rocks: RockState[]): boolean => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  return rocks.every(rock => {
+    const { x, y } = rock.position;
+    const c2 = Math.min((rock.radius + BOAT_SAFETY_RADIUS) ** 2, (a.x - x) ** 2 + (a.y - y) ** 2, (b.x - x) ** 2 + (b.y - y) ** 2);
+    const t = len2 > 0 ? Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / len2)) : 0;
+    return (a.x + dx * t - x) ** 2 + (a.y + dy * t - y) ** 2 >= c2 - 1e-6;
+  });
+};
+
+// Is the point far enough from every rock to sail through it?
+const pointClear = (p: Vector2D, rocks: RockState[]): boolean =>
+  rocks.every(rock => (p.x - rock.position.x) ** 2 + (p.y - rock.position.y) ** 2 >= (rock.radius + BOAT_SAFETY_RADIUS) ** 2);
+
+interface Leg {
+  time: number; // Frames
+  via: Vector2D[]; // Tack or gybe points, if the leg can't be sailed straight (fast enough)
+}
+
+// More boards make a beat narrower, so it fits between the walls and rocks
+const MAX_BOARDS_PER_SIDE = 4;
+const MIN_BOARD = 60;
+
+// Tack points of n boards on each side, starting with `first`
+const zigzag = (a: Vector2D, first: Vector2D, firstLen: number, second: Vector2D, secondLen: number, n: number): Vector2D[] => {
+  const via: Vector2D[] = [];
+  let p = a;
+  for (let k = 0; k < n; k++) {
+    const q = { x: p.x + first.x * firstLen, y: p.y + first.y * firstLen };
+    via.push(q);
+    p = { x: q.x + second.x * secondLen, y: q.y + second.y * secondLen };
+    if (k < n - 1) via.push(p);
+  }
+  return via;
+};
+
+// Fastest way to sail from a to b: straight, or tacking/gybing on the best VMG angles
+const planLeg = (
+  a: Vector2D,
+  b: Vector2D,
+  wind: WindState,
+  polar: PolarTable,
+  vmg: { upwind: VmgOptimum; downwind: VmgOptimum },
+  rocks: RockState[],
+  inBounds: (p: Vector2D) => boolean,
+  firstTack = 1
+): Leg | null => {
+  const d = { x: b.x - a.x, y: b.y - a.y };
+  const dist = Math.hypot(d.x, d.y);
+  if (dist === 0) return { time: 0, via: [] };
+
+  let best: Leg | null = null;
+  const direct = calculateTargetSpeed(Math.atan2(d.y, d.x), wind, polar);
+  if (direct > 0 && segmentClear(a, b, rocks)) best = { time: dist / direct, via: [] };
+
+  for (const opt of [vmg.upwind, vmg.downwind]) {
+    if (opt.speed <= 0) continue;
+    const u1 = unit(headingForWindAngle(opt.twa, wind.direction));
+    const u2 = unit(headingForWindAngle(-opt.twa, wind.direction));
+    // Split the leg into a part on each tack: d = s1 * u1 + s2 * u2
+    const det = u1.x * u2.y - u1.y * u2.x;
+    if (Math.abs(det) < 1e-6) continue;
+    const s1 = (d.x * u2.y - d.y * u2.x) / det;
+    const s2 = (u1.x * d.y - u1.y * d.x) / det;
+    if (s1 < 0 || s2 < 0) continue;
+
+    // Each side split into n boards: 2n - 1 tacks, starting on either tack
+    for (let n = 1; n <= MAX_BOARDS_PER_SIDE; n++) {
+      // Shorter boards than that are eaten up by the tacks
+      if (n > 1 && Math.min(s1, s2) / n < MIN_BOARD) break;
+      const time = (s1 + s2) / opt.speed + (2 * n - 1) * TACK_PENALTY;
+      if (best && best.time <= time) break;
+      const orders = [zigzag(a, u1, s1 / n, u2, s2 / n, n), zigzag(a, u2, s2 / n, u1, s1 / n, n)];
+      const via = (firstTack < 0 ? orders.reverse() : orders).find(
+        points => points.every(p => inBounds(p) && pointClear(p, rocks)) && [a, ...points, b].every((q, k, all) => k === 0 || segmentClear(all[k - 1], q, rocks))
+      );
+      if (via) {
+        best = { time, via };
+        break;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Where a route leads: a point (a mark) or a zone (the finish without marks), whose nearest point counts.
+ */
+export type RouteTarget = Vector2D | Rect;
+
+const nearestTargetPoint = (target: RouteTarget, p: Vector2D): Vector2D =>
+  'width' in target
+    ? { x: Math.max(target.x, Math.min(target.x + target.width, p.x)), y: Math.max(target.y, Math.min(target.y + target.height, p.y)) }
+    : target;
+
+/**
+ * Every route to one target, searched once: for each waypoint placed around the rocks the fastest
+ * way on to the target (Dijkstra from the target backwards), so any boat only has to find the best
+ * waypoint to join. Planned with the wind of its sector (see routeField).
+ */
+export interface RouteField {
+  target: RouteTarget;
+  wind: WindState;
+  polar: PolarTable;
+  obstacles: RockState[]; // Rocks grown by the margin
+  inBounds: (p: Vector2D) => boolean;
+  vmg: { upwind: VmgOptimum; downwind: VmgOptimum };
+  lowerBound: (a: Vector2D, b: Vector2D) => number; // Never more than the real sailing time
+  nodes: Vector2D[];
+  time: number[]; // Frames from each waypoint to the target, Infinity if it can't get there
+  next: { node: number; via: Vector2D[] }[]; // Next waypoint (-1 = the target) and tack points on the way
+  side: number[]; // Tack each waypoint is left on (+1 = starboard)
+}
+
+// Sign of the wind angle of the course from a to b: the tack it is sailed on
+const tackOf = (a: Vector2D, b: Vector2D, wind: WindState) =>
+  windAngleDeg(Math.atan2(b.y - a.y, b.x - a.x), wind.direction) >= 0 ? 1 : -1;
+
+const searchRouteField = (
+  target: RouteTarget,
+  rocks: RockState[],
+  bounds: Bounds,
+  wind: WindState,
+  polar: PolarTable,
+  margin: number
+): RouteField => {
+  // Rocks grown by the margin, so every check below keeps that much extra room
+  const obstacles = rocks.map(rock => ({ ...rock, radius: rock.radius + margin }));
+  // Close to the target the boat may tack nearer the edge, targets often lie right at it
+  const inBounds = (p: Vector2D) => {
+    const goal = nearestTargetPoint(target, p);
+    const edge = WALL_BUFFER + (Math.hypot(p.x - goal.x, p.y - goal.y) < 2 * EDGE_MARGIN ? ROUTE_MARGIN : EDGE_MARGIN);
+    return p.x >= edge && p.x <= bounds.width - edge && p.y >= edge && p.y <= bounds.height - edge;
+  };
+
+  // Waypoints on a polygon around each rock whose edges just keep clear of it
+  const nodes: Vector2D[] = [];
+  obstacles.forEach(rock => {
+    const r = (rock.radius + BOAT_SAFETY_RADIUS) / Math.cos(Math.PI / NODES_PER_ROCK) + 4;
+    for (let i = 0; i < NODES_PER_ROCK; i++) {
+      const angle = (i / NODES_PER_ROCK) * 2 * Math.PI;
+      const p = { x: rock.position.x + Math.cos(angle) * r, y: rock.position.y + Math.sin(angle) * r };
+      if (inBounds(p) && pointClear(p, obstacles)) nodes.push(p);
+    }
+  });
+
+  const vmg = optimalVmg(wind, polar);
+  // Best VMG per bearing sector (upper bound over the sector and its neighbours), to prune legs cheaply
+  const sectors = Array.from({ length: VMG_SECTORS }, (_, k) => bestVmgHeading((k / VMG_SECTORS) * 2 * Math.PI, wind, polar).vmg);
+  const vmgBound = (bearing: number) => {
+    const k = Math.round((bearing / (2 * Math.PI)) * VMG_SECTORS);
+    const at = (i: number) => sectors[((i % VMG_SECTORS) + VMG_SECTORS) % VMG_SECTORS];
+    return Math.max(at(k - 1), at(k), at(k + 1));
+  };
+  const lowerBound = (a: Vector2D, b: Vector2D) => {
+    const dist = Math.hypot(b.x - a.x, b.y - a.y);
+    return dist > 0 ? dist / vmgBound(Math.atan2(b.y - a.y, b.x - a.x)) : 0;
+  };
+  const field: RouteField = {
+    target,
+    wind,
+    polar,
+    obstacles,
+    inBounds,
+    vmg,
+    lowerBound,
+    nodes,
+    time: nodes.map(() => Infinity),
+    next: nodes.map(() => ({ node: -1, via: [] })),
+    side: nodes.map(() => 1),
+  };
+  if (polarMaxSpeed(polar, wind.speed) <= 0) return field;
+  const { time, next, side } = field;
+
+  // Every waypoint that reaches the target directly starts off with that time
+  nodes.forEach((p, j) => {
+    const goal = nearestTargetPoint(target, p);
+    const leg = planLeg(p, goal, wind, polar, vmg, obstacles, inBounds);
+    if (!leg) return;
+    time[j] = leg.time;
+    next[j] = { node: -1, via: leg.via };
+    side[j] = tackOf(p, leg.via[0] ?? goal, wind);
+  });
+
+  const done = nodes.map(() => false);
+  for (;;) {
+    let i = -1;
+    for (let k = 0; k < nodes.length; k++) {
+      if (!done[k] && time[k] < Infinity && (i < 0 || time[k] < time[i])) i = k;
+    }
+    if (i < 0) break;
+    done[i] = true;
+    for (let j = 0; j < nodes.length; j++) {
+      if (done[j]) continue;
+      // Not even with the best VMG towards it would this be an improvement
+      if (time[i] + lowerBound(nodes[j], nodes[i]) >= time[j]) continue;
+      const leg = planLeg(nodes[j], nodes[i], wind, polar, vmg, obstacles, inBounds);
+      if (!leg) continue;
+      // Arriving on another tack than the one the waypoint is left on costs a tack or gybe too
+      const turn = tackOf(leg.via[leg.via.length - 1] ?? nodes[j], nodes[i], wind) === side[i] ? 0 : TACK_PENALTY;
+      if (time[i] + leg.time + turn < time[j]) {
+        time[j] = time[i] + leg.time + turn;
+        next[j] = { node: i, via: leg.via };
+        side[j] = tackOf(nodes[j], leg.via[0] ?? nodes[i], wind);
+      }
+    }
+  }
+  return field;
+};
+
+// Searched fields per polar and situation; a pure cache, so replays get the very same routes
+const routeFields = new WeakMap<PolarTable, Map<string, RouteField>>();
+
+/**
+ * The route field to a target, shared by every boat (and the overlay) heading there. The wind is
+ * rounded to its sector first, so small shifts and gusts reuse the search instead of repeating it.
+ */
+export const routeField = (
+  target: RouteTarget,
+  rocks: RockState[],
+  bounds: Bounds,
+  wind: WindState,
+  polar: PolarTable,
+  margin = ROUTE_MARGIN
+): RouteField => {
+  const sector = (2 * Math.PI) / WIND_SECTORS;
+  const direction = normalizeAngle(Math.round(wind.direction / sector) * sector);
+  const speed = wind.speed > 0 ? Math.max(1, Math.round(wind.speed / WIND_SPEED_STEP)) * WIND_SPEED_STEP : 0;
+  const key = [
+    target.x,
+    target.y,
+    'width' in target ? `${target.width},${target.height}` : '',
+    bounds.width,
+    bounds.height,
+    direction.toFixed(4),
+    speed,
+    margin,
+    ...rocks.map(r => `${r.position.x},${r.position.y},${r.radius}`),
+  ].join(';');
+  let fields = routeFields.get(polar);
+  if (!fields) {
+    fields = new Map();
+    routeFields.set(polar, fields);
+  }
+  let field = fields.get(key);
+  if (!field) {
+    field = searchRouteField(target, rocks, bounds, { direction, speed }, polar, margin);
+    // Oldest first out, a run only ever needs a handful
+    const [oldest] = fields.keys();
+    if (fields.size >= MAX_ROUTE_FIELDS && oldest !== undefined) fields.delete(oldest);
+    fields.set(key, field);
+  }
+  return field;
+};
+
+/**
+ * Fastest route from `from` through a route field: straight or tacking to the target or the best
+ * waypoint, then on along the field. Returns the route including tack points, or null if the
+ * target can't be reached.
+ */
+export const routeFrom = (field: RouteField, from: Vector2D, firstTack = 1): Vector2D[] | null => {
+  const { target, wind, polar, obstacles, inBounds, vmg, lowerBound, nodes, time, next, side } = field;
+  if (polarMaxSpeed(polar, wind.speed) <= 0) return null;
+  const leave = (leg: Leg, to: Vector2D) => (tackOf(from, leg.via[0] ?? to, wind) === firstTack ? 0 : TACK_PENALTY);
+
+  // Straight to the target, if it can be sailed at all
+  const goal = nearestTargetPoint(target, from);
+  const direct = planLeg(from, goal, wind, polar, vmg, obstacles, inBounds, firstTack);
+  let best = direct && { node: -1, via: direct.via, time: leave(direct, goal) + direct.time };
+  // Most promising waypoints first, so the rest can be skipped once nothing beats the best so far
+  const order = nodes
+    .map((p, j) => ({ j, bound: time[j] + lowerBound(from, p) }))
+    .filter(n => n.bound < Infinity)
+    .sort((a, b) => a.bound - b.bound || a.j - b.j);
+  for (const { j, bound } of order) {
+    if (best && bound >= best.time) break;
+    const leg = planLeg(from, nodes[j], wind, polar, vmg, obstacles, inBounds, firstTack);
+    if (!leg) continue;
+    const arrive = tackOf(leg.via[leg.via.length - 1] ?? from, nodes[j], wind) === side[j] ? 0 : TACK_PENALTY;
+    const total = leave(leg, nodes[j]) + leg.time + arrive + time[j];
+    if (!best || total < best.time) best = { node: j, via: leg.via, time: total };
+  }
+  if (!best) return null;
+
+  const route: Vector2D[] = [from, ...best.via];
+  let last = from;
+  for (let j = best.node; j >= 0; j = next[j].node) {
+    route.push(nodes[j], ...next[j].via);
+    last = nodes[j];
+  }
+  route.push(nearestTargetPoint(target, last));
+  return route;
+};
+
+/**
+ * Fastest route from `from` to a target around the given rocks: every leg is sailed straight or
+ * tacking/gybing on the best VMG angles, so legs into the no-go zone come out as a beat.
+ * Current and wind shifts are ignored, the wind is rounded to its sector (see routeField).
+ * Returns the route including tack points, or null if the target can't be reached with the given margin.
+ */
+export const planRoute = (
+  from: Vector2D,
+  target: RouteTarget,
+  rocks: RockState[],
+  bounds: Bounds,
+  wind: WindState,
+  polar: PolarTable,
+  firstTack = 1, // Tack the boat is on (+1 = starboard): leaving it costs a tack, so replanning mid-beat keeps it
+  margin = ROUTE_MARGIN
+): Vector2D[] | null => routeFrom(routeField(target, rocks, bounds, wind, polar, margin), from, firstTack);
+
+/**
+ * Target of the route to the next mark: the mark itself, or without marks the whole finish zone.
+ */
+export const routeTarget = (next: number, marks: Mark[], finish: Rect): RouteTarget | null =>
+  marks.length === 0 ? finish : next < marks.length ? markCenter(marks[next]) : null;
+
+/**
+ * Overlay for the boat's current situation, planned with the wind at the boat.
+ * Without revealMap only rocks in sight or on the chart are taken into account (fog of war).
+ * The route joins the cached route field, so a search only runs for a new goal, wind sector or rock.
+ */
+export const computeRouteOverlay = (
+  state: SimulationState,
+  wind: WindState,
+  exploration: Exploration | null
+): RouteOverlay | null => {
+  const { boat, marks, markProgress, finish, bounds, polar, upgrades } = state;
+  const goal = currentGoal(boat.position, markProgress.next, marks, finish);
+  if (!goal) return null;
+  const bearing = Math.atan2(goal.y - boat.position.y, goal.x - boat.position.x);
+  const rocks = knownRocks(state.rocks, boat.position, upgrades.revealMap, exploration?.rocks);
+  return {
+    goal,
+    laylines: laylines(goal, boat.position, wind, polar, Math.hypot(bounds.width, bounds.height)),
+    bestHeading: bestVmgHeading(bearing, wind, polar).heading,
+    route: planRoute(boat.position, routeTarget(markProgress.next, marks, finish) ?? goal, rocks, bounds, wind, polar),
+  };
+};
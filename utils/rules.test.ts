@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { degToRad } from '../constants';
+import { Vector2D, WindState } from '../types';
+import { PENALTY_TURN, Penalty, RuleBoat, judgeRules, trackPenalty } from './rules';
+import { HULL_BOW, HULL_STARBOARD } from './collision';
+
+// Wind from the west (blowing east, screen y down): heading south is starboard tack, north is port tack
+const WIND: WindState = { direction: 0, speed: 15 };
+const SOUTH = Math.PI / 2;
+const NORTH = -Math.PI / 2;
+const HULL_LENGTH = HULL_BOW.x - HULL_STARBOARD[2].x;
+
+const boat = (name: string, position: Vector2D, heading: number, noGoDeg = 45, penalty: Penalty | null = null): RuleBoat => ({
+  name,
+  boat: { position, heading, speed: 3, rudderAngle: 0, sailAngle: 0, sheet: 0.5 },
+  wind: WIND,
+  noGoDeg,
+  penalty,
+});
+
+// Heading that puts the wind this many degrees off the bow, from starboard
+const offWind = (deg: number) => Math.PI - degToRad(deg);
+
+describe('judgeRules', () => {
+  it('leaves boats alone that keep clear', () => {
+    expect(judgeRules([boat('A', { x: 500, y: 500 }, NORTH), boat('B', { x: 700, y: 500 }, SOUTH)])).toEqual([null, null]);
+  });
+
+  it('makes port tack keep clear of starboard tack', () => {
+    expect(judgeRules([boat('A', { x: 500, y: 500 }, NORTH), boat('B', { x: 512, y: 500 }, SOUTH)])).toEqual([
+      { rule: 'portStarboard', against: 'B', turned: 0 },
+      null,
+    ]);
+  });
+
+  it('makes the windward boat keep clear when overlapped on the same tack', () => {
+    expect(judgeRules([boat('A', { x: 512, y: 500 }, SOUTH), boat('B', { x: 500, y: 500 }, SOUTH)])).toEqual([
+      null,
+      { rule: 'windwardLeeward', against: 'A', turned: 0 },
+    ]);
+  });
+
+  it('makes the boat clear astern keep clear', () => {
+    const ahead = boat('A', { x: 500, y: 500 + HULL_LENGTH + 5 }, SOUTH);
+    const astern = boat('B', { x: 500, y: 500 }, SOUTH);
+    expect(judgeRules([ahead, astern])).toEqual([null, { rule: 'clearAstern', against: 'A', turned: 0 }]);
+  });
+
+  it('makes a tacking boat keep clear of one on a tack', () => {
+    expect(judgeRules([boat('A', { x: 500, y: 500 }, SOUTH), boat('B', { x: 512, y: 500 }, Math.PI)])).toEqual([
+      null,
+      { rule: 'tacking', against: 'A', turned: 0 },
+    ]);
+  });
+
+  it('takes the no-go zone from the boat, not a fixed angle', () => {
+    const pointing = (noGoDeg: number) => boat('B', { x: 512, y: 500 }, offWind(47), noGoDeg);
+    const other = boat('A', { x: 500, y: 500 }, NORTH);
+    expect(judgeRules([other, pointing(45)])[0]?.rule).toBe('portStarboard');
+    expect(judgeRules([other, pointing(50)])[1]?.rule).toBe('tacking');
+  });
+
+  it('does not judge a boat again while it sails its penalty turn', () => {
+    const open: Penalty = { rule: 'tacking', against: 'C', turned: 1 };
+    expect(judgeRules([boat('A', { x: 500, y: 500 }, NORTH, 45, open), boat('B', { x: 512, y: 500 }, SOUTH)])).toEqual([open, null]);
+  });
+});
+
+describe('trackPenalty', () => {
+  const open: Penalty = { rule: 'portStarboard', against: 'B', turned: 0 };
+
+  it('adds up the turn and clears after a full circle', () => {
+    let penalty: Penalty | null = open;
+    let heading = 0;
+    for (let i = 0; i < 35 && penalty; i++) {
+      penalty = trackPenalty(penalty, heading, heading + degToRad(10));
+      heading += degToRad(10);
+    }
+    expect(penalty?.turned).toBeCloseTo(degToRad(350));
+    expect(trackPenalty(penalty, heading, heading + degToRad(11))).toBeNull();
+  });
+
+  it('takes back what is turned the other way', () => {
+    const half = { ...open, turned: PENALTY_TURN / 2 };
+    expect(trackPenalty(half, 0.5, 0)?.turned).toBeCloseTo(PENALTY_TURN / 2 - 0.5);
+  });
+
+  it('has nothing to track without a penalty', () => {
+    expect(trackPenalty(null, 0, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { BoatState, Vector2D, WindState } from '../types';
+import { normalizeAngle } from '../constants';
+import { windAngleDeg } from './physics';
+import { MessageKey } from './i18n';
+import { HULL_BOW, HULL_RADIUS, HULL_STARBOARD, Polygon, convexPolygonsOverlap, hullPolygon } from './collision';
+
+/**
+ * Right-of-way rules between boats (Wettfahrtregeln, Teil 2), as far as the simulator can judge them.
+ */
+export type RuleId = 'portStarboard' | 'windwardLeeward' | 'clearAstern' | 'tacking';
+
+export interface RuleInfo {
+  title: MessageKey;
+  explanation: MessageKey;
+}
+
+export const RULES: Record<RuleId, RuleInfo> = {
+  portStarboard: { title: 'rule.portStarboard.title', explanation: 'rule.portStarboard.explanation' },
+  windwardLeeward: { title: 'rule.windwardLeeward.title', explanation: 'rule.windwardLeeward.explanation' },
+  clearAstern: { title: 'rule.clearAstern.title', explanation: 'rule.clearAstern.explanation' },
+  tacking: { title: 'rule.tacking.title', explanation: 'rule.tacking.explanation' },
+};
+
+/**
+ * An open penalty: the boat has to sail a full 360° turn before it may finish.
+ */
+export interface Penalty {
+  rule: RuleId;
+  against: string; // Name of the boat that had right of way
+  turned: number; // Radians turned since the penalty, signed: turning back undoes it
+}
+
+export const PENALTY_TURN = 2 * Math.PI;
+
+// Less water than this between two hulls (pixels) and the give-way boat has failed to keep clear
+const KEEP_CLEAR_GAP = 10;
+// Along-course distance below which two boats on the same tack overlap (one hull length)
+const HULL_LENGTH = HULL_BOW.x - HULL_STARBOARD[2].x;
+
+/**
+ * Follows the penalty turn. Returns null once the boat has turned a full circle.
+ */
+export const trackPenalty = (penalty: Penalty | null, prevHeading: number, heading: number): Penalty | null => {
+  if (!penalty) return null;
+  const turned = penalty.turned + normalizeAngle(heading - prevHeading);
+  return Math.abs(turned) >= PENALTY_TURN ? null : { ...penalty, turned };
+};
+
+/**
+ * A boat as the rules see it.
+ */
+export interface RuleBoat {
+  name: string;
+  boat: BoatState;
+  wind: WindState; // Local wind at the boat
+  noGoDeg: number; // Half-angle of the boat's no-go zone, from its polar
+  penalty: Penalty | null;
+}
+
+// Bow inside the no-go zone: turning through the wind or stuck in irons
+const isTacking = (b: RuleBoat) => Math.abs(windAngleDeg(b.boat.heading, b.wind.direction)) < b.noGoDeg;
+
+// +1 = starboard tack (wind from starboard), -1 = port tack
+const tackOf = (b: RuleBoat) => (windAngleDeg(b.boat.heading, b.wind.direction) >= 0 ? 1 : -1);
+
+// How far upwind a position lies: against the direction the wind blows to
+const upwind = (p: Vector2D, wind: WindState) => -(p.x * Math.cos(wind.direction) + p.y * Math.sin(wind.direction));
+
+// Which of two boats has to keep clear, and by which rule; null when the rules don't decide it
+const giveWay = (a: RuleBoat, b: RuleBoat): { boat: RuleBoat; other: RuleBoat; rule: RuleId } | null => {
+  const tackingA = isTacking(a);
+  if (tackingA !== isTacking(b)) return tackingA ? { boat: a, other: b, rule: 'tacking' } : { boat: b, other: a, rule: 'tacking' };
+  if (tackingA) return null;
+
+  const tackA = tackOf(a);
+  const tackB = tackOf(b);
+  if (tackA !== tackB) return tackA < 0 ? { boat: a, other: b, rule: 'portStarboard' } : { boat: b, other: a, rule: 'portStarboard' };
+
+  // Same tack: overlapped unless one is a full hull length ahead along b's course
+  const along =
+    (a.boat.position.x - b.boat.position.x) * Math.cos(b.boat.heading) +
+    (a.boat.position.y - b.boat.position.y) * Math.sin(b.boat.heading);
+  if (along <= -HULL_LENGTH) return { boat: a, other: b, rule: 'clearAstern' };
+  if (along >= HULL_LENGTH) return { boat: b, other: a, rule: 'clearAstern' };
+
+  const wind = a.wind;
+  return upwind(a.boat.position, wind) > upwind(b.boat.position, wind)
+    ? { boat: a, other: b, rule: 'windwardLeeward' }
+    : { boat: b, other: a, rule: 'windwardLeeward' };
+};
+
+// Distance of a point to the segment from a to b
+const segmentDistance = (p: Vector2D, a: Vector2D, b: Vector2D): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy)));
+  return Math.hypot(a.x + dx * t - p.x, a.y + dy * t - p.y);
+};
+
+// Closest distance of any corner of `a` to the outline of `b`
+const cornerGap = (a: Polygon, b: Polygon): number =>
+  Math.min(...a.map(p => Math.min(...b.map((q, i) => segmentDistance(p, q, b[(i + 1) % b.length])))));
+
+// Water between two hulls (0 when they touch)
+const hullGap = (a: BoatState, b: BoatState): number => {
+  if (Math.hypot(a.position.x - b.position.x, a.position.y - b.position.y) >= 2 * HULL_RADIUS + KEEP_CLEAR_GAP) return Infinity;
+  const hullA = hullPolygon(a.position, a.heading);
+  const hullB = hullPolygon(b.position, b.heading);
+  if (convexPolygonsOverlap(hullA, hullB)) return 0;
+  return Math.min(cornerGap(hullA, hullB), cornerGap(hullB, hullA));
+};
+
+/**
+ * Judges every pair of boats in close quarters and hands the give-way boat a penalty.
+ * A boat still sailing its penalty turn keeps clear of everyone and is not judged again until it is done.
+ * Returns the penalties of all boats, in the same order.
+ */
+export const judgeRules = (boats: RuleBoat[]): (Penalty | null)[] => {
+  const penalties = boats.map(b => b.penalty);
+  for (let i = 0; i < boats.length; i++) {
+    for (let j = i + 1; j < boats.length; j++) {
+      if (penalties[i] || penalties[j]) continue;
+      if (hullGap(boats[i].boat, boats[j].boat) >= KEEP_CLEAR_GAP) continue;
+      const decision = giveWay(boats[i], boats[j]);
+      if (!decision) continue;
+      const index = decision.boat === boats[i] ? i : j;
+      penalties[index] = { rule: decision.rule, against: decision.other.name, turned: 0 };
+    }
+  }
+  return penalties;
+};
@@ -0,0 +1,199 @@
+import { BoatState, Upgrades, WindState } from '../types';
+import { FPS, MAX_LIVES, WIND_SPEED } from '../constants';
+import { Bounds, NO_INPUT, SimulationEvent, SimulationInput, SimulationState, createBoatAtStart, endAttempt, step } from './simulation';
+import { CourseFile, CourseSeed, pickWindDirectionForLevel, seededCourseLayout } from './course';
+import { START_PROGRESS } from './marks';
+import { EMPTY_MANOEUVRE_LOG } from './manoeuvres';
+import { DEFAULT_POLAR, PolarTable, polarNoGoDeg } from './polar';
+import { createWindField, windAt } from './windField';
+import { createCurrentField, currentForLevel } from './current';
+import { NO_OPPONENTS, OpponentSetup, RaceEntry, createOpponents, raceStandings, resetOpponents, stepOpponents } from './opponents';
+import { PLAYER_TWO_NAME, PlayerTwoStepResult, boatsCollide, createPlayerTwo, endPlayerTwoAttempt, playerOneName, stepPlayerTwo } from './twoPlayer';
+import { Penalty, RuleBoat, judgeRules } from './rules';
+
+/**
+ * A whole run on one course: the simulation plus the level it is on.
+ * Level changes (and with them the wind) are applied in the same tick as the event,
+ * so a live run and its replay stay tick-for-tick identical.
+ */
+export interface RunState {
+  course: CourseSeed;
+  customCourse: CourseFile | null; // Set when sailing an editor course instead of a seeded one
+  sim: SimulationState;
+  level: number;
+  opponentSetup: OpponentSetup;
+}
+
+// Wind increases with level
+export const windForLevel = (seed: number, level: number): WindState => ({
+  direction: pickWindDirectionForLevel(seed, level),
+  speed: WIND_SPEED + (level - 1) * 3,
+});
+
+const runWind = (run: Pick<RunState, 'course' | 'customCourse'>, level: number): WindState =>
+  run.customCourse ? { ...run.customCourse.wind } : windForLevel(run.course.seed, level);
+
+const runCurrent = (run: Pick<RunState, 'course' | 'customCourse'>, level: number) =>
+  run.customCourse ? run.customCourse.current : currentForLevel(run.course.seed, level);
+
+/**
+ * Fresh run at level 1. Custom courses bring their own bounds, the given bounds are
+ * only used to lay out seeded courses. With player2Upgrades a second human boat races along.
+ */
+export const createRunState = (
+  course: CourseSeed,
+  bounds: Bounds,
+  upgrades: Upgrades,
+  customCourse: CourseFile | null = null,
+  polar: PolarTable = DEFAULT_POLAR,
+  sailOnApparentWind = false,
+  opponentSetup: OpponentSetup = NO_OPPONENTS,
+  player2Upgrades: Upgrades | null = null
+): RunState => {
+  const layout = customCourse ?? seededCourseLayout(course, bounds);
+  const wind = runWind({ course, customCourse }, 1);
+  const startLine = { start: layout.start, wind, rocks: layout.rocks, bounds: layout.bounds };
+  return {
+    course,
+    customCourse,
+    sim: {
+      boat: createBoatAtStart(layout.start, wind.direction),
+      wind,
+      windField: createWindField(course.seed, 1, layout.bounds),
+      current: createCurrentField(runCurrent({ course, customCourse }, 1), layout.rocks),
+      rocks: layout.rocks,
+      bounds: layout.bounds,
+      start: layout.start,
+      finish: layout.finish,
+      marks: layout.marks,
+      markProgress: START_PROGRESS,
+      manoeuvres: EMPTY_MANOEUVRE_LOG,
+      penalty: null,
+      upgrades,
+      polar,
+      sailOnApparentWind,
+      lives: MAX_LIVES,
+      tick: 0,
+      groundVelocity: { x: 0, y: 0 },
+      opponents: createOpponents(opponentSetup, startLine, player2Upgrades ? 1 : 0),
+      player2: player2Upgrades ? createPlayerTwo(startLine, player2Upgrades) : null,
+    },
+    level: 1,
+    opponentSetup,
+  };
+};
+
+/**
+ * Right of way between all boats still racing, after they have moved: whoever failed to keep clear
+ * gets a penalty turn (see judgeRules).
+ */
+const judgeRun = (sim: SimulationState): SimulationState => {
+  // All boats of a run sail the same class
+  const noGoDeg = polarNoGoDeg(sim.polar);
+  const ruleBoat = (name: string, boat: BoatState, penalty: Penalty | null): RuleBoat => ({
+    name,
+    boat,
+    wind: windAt(sim.windField, sim.wind, sim.rocks, sim.bounds, boat.position, sim.tick / FPS),
+    noGoDeg,
+    penalty,
+  });
+  const { player2 } = sim;
+  const one = ruleBoat(playerOneName(sim), sim.boat, sim.penalty);
+  const two = player2 ? ruleBoat(PLAYER_TWO_NAME, player2.boat, player2.penalty) : null;
+  const racing = new Map(sim.opponents.filter(o => o.finishedTick === null).map(o => [o, ruleBoat(o.name, o.boat, o.penalty)]));
+  const boats = [one, ...(two ? [two] : []), ...racing.values()];
+  if (boats.length < 2) return sim;
+
+  const judged = judgeRules(boats);
+  const penalties = new Map(boats.map((boat, i) => [boat, judged[i]]));
+  const penaltyOf = (boat: RuleBoat) => penalties.get(boat) ?? null;
+  return {
+    ...sim,
+    penalty: penaltyOf(one),
+    player2: player2 && two ? { ...player2, penalty: penaltyOf(two) } : player2,
+    opponents: sim.opponents.map(o => {
+      const boat = racing.get(o);
+      return boat ? { ...o, penalty: penaltyOf(boat) } : o;
+    }),
+  };
+};
+
+export interface RunStepResult {
+  run: RunState;
+  event: SimulationEvent | null;
+  player: 1 | 2; // Whose boat the event belongs to (2 only in the two-player mode; hitBoat counts for player one)
+  event2: SimulationEvent | null; // Player two's crash in the same tick as an event of player one's
+  standings: RaceEntry[] | null; // Final order when a race against opponents or player two was won
+}
+
+/**
+ * One fixed tick of a run: steps the opponents, player two and the simulation, then levels up or restarts on events.
+ * Every attempt of player one is a new race, so the opponents go back to the start with that boat.
+ * Player two sails its own attempts: its crashes only put its own boat back. Whoever finishes first wins the level
+ * for both, and when either boat loses its last life the whole run starts over.
+ * After the boats have moved the racing rules are judged between them.
+ */
+export const advanceRun = (run: RunState, input: SimulationInput, dt: number, input2: SimulationInput = NO_INPUT): RunStepResult => {
+  const opponents = stepOpponents(run.sim, run.course.seed, dt);
+  let { state, event } = step(run.sim, input, dt);
+  let second: PlayerTwoStepResult | null = run.sim.player2 ? stepPlayerTwo(run.sim, run.sim.player2, input2, dt) : null;
+
+  // Boats that touch both go back to the start, like after hitting a rock
+  if (run.sim.player2 && second && !event && !second.event && boatsCollide(state.boat, second.player.boat)) {
+    ({ state, event } = endAttempt(run.sim, 'hitBoat'));
+    second = endPlayerTwoAttempt(run.sim, run.sim.player2, 'hitBoat');
+  }
+
+  const winner = event === 'won' ? 1 : second?.event === 'won' ? 2 : null;
+  const standings =
+    winner && (opponents.length > 0 || second)
+      ? raceStandings({ ...run.sim, opponents }, winner === 1 ? run.sim.tick + 1 : null, winner === 2 ? run.sim.tick + 1 : null)
+      : null;
+
+  if (winner || event === 'gameOver' || second?.event === 'gameOver') {
+    const won = winner !== null;
+    const level = won ? run.level + 1 : 1;
+    const wind = runWind(run, level);
+    // Player one's attempt ends with player two's, without costing a life
+    const p1 = event === 'won' || event === 'gameOver' ? state : endAttempt(run.sim, 'won').state;
+    const startLine = { ...p1, wind };
+    const player2 = run.sim.player2
+      ? { ...createPlayerTwo(startLine, run.sim.player2.upgrades), lives: won && second ? second.player.lives : MAX_LIVES }
+      : null;
+    const sim = {
+      ...p1,
+      lives: won ? p1.lives : MAX_LIVES,
+      wind,
+      windField: createWindField(run.course.seed, level, p1.bounds),
+      current: createCurrentField(runCurrent(run, level), p1.rocks),
+      opponents: createOpponents(run.opponentSetup, startLine, player2 ? 1 : 0),
+      player2,
+    };
+    return {
+      run: { ...run, sim, level },
+      event: won ? 'won' : 'gameOver',
+      player: winner ?? (event === 'gameOver' ? 1 : 2),
+      event2: null,
+      standings,
+    };
+  }
+
+  const player2 = second?.player ?? null;
+  if (event) {
+    return {
+      run: { ...run, sim: judgeRun({ ...state, opponents: resetOpponents(opponents, state.wind.direction), player2 }) },
+      event,
+      player: 1,
+      // Touching boats are one event for both
+      event2: event === 'hitBoat' ? null : (second?.event ?? null),
+      standings,
+    };
+  }
+  return {
+    run: { ...run, sim: judgeRun({ ...state, opponents, player2 }) },
+    event: second?.event ?? null,
+    player: second?.event ? 2 : 1,
+    event2: null,
+    standings,
+  };
+};
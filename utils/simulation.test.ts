@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_TIMESTEP, MAX_LIVES, WIND_SPEED, normalizeAngle } from '../constants';
+import { BoatState, Upgrades, WindState } from '../types';
+import { MAX_SHEET, calculateSailTrim } from './physics';
+import { DEFAULT_POLAR } from './polar';
+import { createWindField } from './windField';
+import { NO_CURRENT, createCurrentField } from './current';
+import { leftEdgeFinish } from './course';
+import { START_PROGRESS } from './marks';
+import { EMPTY_MANOEUVRE_LOG } from './manoeuvres';
+import { rockOutline } from './collision';
+import { NO_INPUT, SimulationState, createBoatAtStart, detectCollision, endAttempt, step, stepBoat } from './simulation';
+
+const WIND: WindState = { direction: 0, speed: WIND_SPEED };
+const BARE: Upgrades = { hasSail: false, turnMultiplier: 1, speedMultiplier: 1, revealMap: false, autoTrim: false };
+const WITH_SAIL: Upgrades = { ...BARE, hasSail: true };
+const BOUNDS = { width: 2400, height: 1400 };
+const FINISH = leftEdgeFinish(BOUNDS);
+
+const sail = (boat: BoatState, ticks: number, upgrades = WITH_SAIL) => {
+  for (let i = 0; i < ticks; i++) boat = stepBoat(boat, NO_INPUT, WIND, upgrades, DEFAULT_POLAR, false, FIXED_TIMESTEP);
+  return boat;
+};
+
+const START = { x: 1200, y: 700 };
+const STATE: SimulationState = {
+  boat: createBoatAtStart(START, WIND.direction),
+  wind: WIND,
+  windField: createWindField(7, 1, BOUNDS),
+  current: createCurrentField(NO_CURRENT, []),
+  rocks: [{ position: { x: 1200, y: 300 }, radius: 40, outline: rockOutline(0) }],
+  bounds: BOUNDS,
+  start: START,
+  finish: FINISH,
+  marks: [],
+  markProgress: START_PROGRESS,
+  manoeuvres: EMPTY_MANOEUVRE_LOG,
+  penalty: null,
+  upgrades: WITH_SAIL,
+  polar: DEFAULT_POLAR,
+  sailOnApparentWind: false,
+  lives: MAX_LIVES,
+  tick: 0,
+  groundVelocity: { x: 0, y: 0 },
+  opponents: [],
+  player2: null,
+};
+
+describe('stepBoat', () => {
+  const start = createBoatAtStart({ x: 500, y: 500 }, WIND.direction);
+
+  it('starts head to wind and stopped', () => {
+    expect(start.heading).toBeCloseTo(normalizeAngle(WIND.direction + Math.PI));
+    expect(start.speed).toBe(0);
+  });
+
+  it('does not gain speed head to wind', () => {
+    expect(sail(start, 120).speed).toBeLessThan(0.05);
+  });
+
+  it('picks up speed on a beam reach, but not without a sail', () => {
+    const reach = { ...start, heading: WIND.direction + Math.PI / 2 };
+    expect(sail(reach, 300).speed).toBeGreaterThan(0.5);
+    expect(sail(reach, 300, BARE).speed).toBeLessThan(sail(reach, 300).speed);
+  });
+
+  it('sails slower downwind on the apparent wind', () => {
+    let trueWind = { ...start, heading: WIND.direction + 0.3, speed: 1, sheet: MAX_SHEET };
+    let apparent = trueWind;
+    for (let i = 0; i < 300; i++) {
+      trueWind = stepBoat(trueWind, NO_INPUT, WIND, WITH_SAIL, DEFAULT_POLAR, false, FIXED_TIMESTEP);
+      apparent = stepBoat(apparent, NO_INPUT, WIND, WITH_SAIL, DEFAULT_POLAR, true, FIXED_TIMESTEP);
+    }
+    expect(apparent.speed).toBeLessThan(trueWind.speed);
+  });
+
+  it('turns with the rudder', () => {
+    const turned = stepBoat(start, { steer: 1, sheet: 0 }, WIND, { ...WITH_SAIL, turnMultiplier: 2 }, DEFAULT_POLAR, false, FIXED_TIMESTEP);
+    expect(turned.heading).not.toBeCloseTo(start.heading);
+  });
+});
+
+describe('sheet', () => {
+  const reach = { ...createBoatAtStart({ x: 500, y: 500 }, WIND.direction), heading: WIND.direction + Math.PI / 2 };
+  const optimum = Math.abs(calculateSailTrim(reach.heading, WIND.direction));
+
+  it('is slower with a luffing or a stalled sail', () => {
+    const trimmed = sail({ ...reach, sheet: optimum }, 300).speed;
+    expect(sail({ ...reach, sheet: MAX_SHEET }, 300).speed).toBeLessThan(trimmed);
+    expect(sail({ ...reach, sheet: 0 }, 300).speed).toBeLessThan(trimmed);
+  });
+
+  it('runs within its range', () => {
+    const eased = stepBoat({ ...reach, sheet: MAX_SHEET }, { steer: 0, sheet: 1 }, WIND, WITH_SAIL, DEFAULT_POLAR, false, FIXED_TIMESTEP);
+    expect(eased.sheet).toBe(MAX_SHEET);
+    const hauled = stepBoat({ ...reach, sheet: 0 }, { steer: 0, sheet: -1 }, WIND, WITH_SAIL, DEFAULT_POLAR, false, FIXED_TIMESTEP);
+    expect(hauled.sheet).toBe(0);
+  });
+
+  it('is kept at the optimum with auto-trim', () => {
+    const trimmed = stepBoat({ ...reach, sheet: 0 }, NO_INPUT, WIND, { ...WITH_SAIL, autoTrim: true }, DEFAULT_POLAR, false, FIXED_TIMESTEP);
+    expect(trimmed.sheet).toBeCloseTo(optimum);
+  });
+});
+
+describe('detectCollision', () => {
+  it('reports the edges of the playfield', () => {
+    expect(detectCollision({ x: 2395, y: 500 }, 0, [], BOUNDS, FINISH)).toBe('hitWall');
+    expect(detectCollision({ x: 500, y: 500 }, 0, [], BOUNDS, FINISH)).toBeNull();
+  });
+
+  it('reports the finish zone before the edge', () => {
+    expect(detectCollision({ x: 5, y: 500 }, 0, [], BOUNDS, FINISH)).toBe('won');
+  });
+
+  it('reports rocks', () => {
+    expect(detectCollision({ x: 1200, y: 320 }, 0, STATE.rocks, BOUNDS, FINISH)).toBe('hitRock');
+  });
+});
+
+describe('step', () => {
+  it('puts the boat back on the start and costs a life on a crash', () => {
+    const boat = { ...STATE.boat, position: { x: 1200, y: 320 } };
+    const { state, event } = step({ ...STATE, boat, tick: 100 }, NO_INPUT, FIXED_TIMESTEP);
+    expect(event).toBe('hitRock');
+    expect(state.lives).toBe(MAX_LIVES - 1);
+    expect(state.tick).toBe(0);
+    expect(state.boat.position).toEqual(START);
+  });
+
+  it('turns the last life lost into a game over with full lives', () => {
+    const boat = { ...STATE.boat, position: { x: 1200, y: 320 } };
+    const { state, event } = step({ ...STATE, boat, lives: 1 }, NO_INPUT, FIXED_TIMESTEP);
+    expect(event).toBe('gameOver');
+    expect(state.lives).toBe(MAX_LIVES);
+  });
+
+  it('keeps the lives on a win', () => {
+    expect(endAttempt({ ...STATE, lives: 2 }, 'won').state.lives).toBe(2);
+  });
+
+  it('does not let the boat finish before its penalty turn is sailed', () => {
+    const boat = { ...STATE.boat, position: { x: 5, y: 500 } };
+    const penalty = { rule: 'portStarboard' as const, against: 'B', turned: 0 };
+    expect(step({ ...STATE, boat }, NO_INPUT, FIXED_TIMESTEP).event).toBe('won');
+    const { state, event } = step({ ...STATE, boat, penalty }, NO_INPUT, FIXED_TIMESTEP);
+    expect(event).toBeNull();
+    expect(state.penalty).toEqual(penalty);
+  });
+
+  it('lets the current carry the boat over ground', () => {
+    const current = createCurrentField({ ...NO_CURRENT, direction: Math.PI / 2, speed: 1 }, []);
+    const still = step(STATE, NO_INPUT, FIXED_TIMESTEP).state;
+    const carried = step({ ...STATE, current }, NO_INPUT, FIXED_TIMESTEP).state;
+    expect(carried.boat.position.y - still.boat.position.y).toBeCloseTo(1);
+    expect(carried.groundVelocity.y - still.groundVelocity.y).toBeCloseTo(1);
+  });
+
+  it('is deterministic: the same inputs give the same state', () => {
+    const sailState = () => {
+      let state = STATE;
+      for (let i = 0; i < 600; i++) state = step(state, { steer: i % 200 < 100 ? 1 : -1, sheet: i % 3 === 0 ? 1 : 0 }, FIXED_TIMESTEP).state;
+      return state;
+    };
+    expect(sailState()).toEqual(sailState());
+  });
+});
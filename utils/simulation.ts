@@ -0,0 +1,320 @@
+import { BoatState, Mark, Rect, RockState, Upgrades, Vector2D, WindState } from '../types';
+import {
+  ACCELERATION,
+  DRAG,
+  FPS,
+  MAX_LIVES,
+  TURN_RATE,
+  WALL_BUFFER,
+  WIND_SPEED,
+  normalizeAngle,
+} from '../constants';
+import {
+  MAX_SHEET,
+  SHEET_RATE,
+  calculateApparentWind,
+  calculateSailTrim,
+  calculateTargetSpeed,
+  isInNoGoZone,
+  sheetedBoomAngle,
+  swingBoom,
+  trimEfficiency,
+} from './physics';
+import { MarkProgress, START_PROGRESS, advanceMarks } from './marks';
+import { PolarTable, polarMaxSpeed, polarNoGoDeg } from './polar';
+import { WindField, windAt } from './windField';
+import { CurrentField, currentAt } from './current';
+import { EMPTY_MANOEUVRE_LOG, ManoeuvreLog, manoeuvreSpeedLoss, trackManoeuvres } from './manoeuvres';
+import { hullHitsRock } from './collision';
+import { Opponent } from './opponents';
+import { PlayerTwo } from './twoPlayer';
+import { Penalty, trackPenalty } from './rules';
+
+/**
+ * Input for a single tick. steer: rudder from -1 = hard to port (left) to 1 = hard to starboard (right),
+ * in steps of 1/STEER_STEPS (see quantizeSteer). sheet: -1 = sheet in (dichtholen), 1 = ease out (fieren).
+ */
+export interface SimulationInput {
+  steer: number;
+  sheet: -1 | 0 | 1;
+}
+
+// Rudder resolution: replays store the rudder in these steps, so live runs must steer in them too
+export const STEER_STEPS = 100;
+
+export const quantizeSteer = (steer: number): number =>
+  Math.round(Math.max(-1, Math.min(1, steer)) * STEER_STEPS) / STEER_STEPS;
+
+// Visual rudder angle (radians) at full rudder
+export const MAX_RUDDER_ANGLE = 0.5;
+
+export interface Bounds {
+  width: number;
+  height: number;
+}
+
+/**
+ * Everything the simulation needs to advance one tick. Pure data, no React.
+ */
+export interface SimulationState {
+  boat: BoatState;
+  wind: WindState; // Mean wind of the level
+  windField: WindField; // Gusts, lulls and shifts on top of the mean wind
+  current: CurrentField; // Streams and tide, moving the boat over ground
+  rocks: RockState[];
+  bounds: Bounds;
+  start: Vector2D;
+  finish: Rect; // Reaching this zone wins the level (only on courses without marks)
+  marks: Mark[]; // Ordered marks to round/pass; the last one finishes the course
+  markProgress: MarkProgress;
+  manoeuvres: ManoeuvreLog; // Tacks and gybes of the current attempt
+  penalty: Penalty | null; // Open penalty turn for a right-of-way foul, judged by the run (see judgeRules)
+  upgrades: Upgrades;
+  polar: PolarTable; // Boat class: speed over wind angle and wind speed
+  sailOnApparentWind: boolean; // Trim and polar use the apparent instead of the true wind
+  lives: number;
+  tick: number; // Ticks since the current attempt started
+  groundVelocity: Vector2D; // Movement over ground in the last tick (pixels per frame), incl. leeway and current
+  opponents: Opponent[]; // Computer boats racing the player, stepped by the run (see stepOpponents)
+  player2: PlayerTwo | null; // Second human boat in the two-player mode, stepped by the run (see stepPlayerTwo)
+}
+
+// hitBoat: two boats touched, only reported by the run in the two-player mode
+export type SimulationEvent = 'won' | 'hitWall' | 'hitRock' | 'hitBoat' | 'gameOver';
+
+export interface StepResult {
+  state: SimulationState;
+  event: SimulationEvent | null;
+}
+
+export const NO_INPUT: SimulationInput = { steer: 0, sheet: 0 };
+
+// Sheet at the start: about right for a beam reach
+const START_SHEET = MAX_SHEET / 2;
+
+/**
+ * Boat at the start position, facing into the wind.
+ */
+export const createBoatAtStart = (start: Vector2D, windDirection: number): BoatState => ({
+  position: { x: start.x, y: start.y },
+  heading: normalizeAngle(windDirection + Math.PI),
+  speed: 0,
+  rudderAngle: 0,
+  sailAngle: 0,
+  sheet: START_SHEET,
+});
+
+/**
+ * Advances a single boat by dt seconds (steering, sheet, speed, leeway, sail trim).
+ * All tuning constants are "per frame at 60 FPS", so they are scaled by dt * FPS.
+ * With sailOnApparentWind the sail (trim, polar, no-go) sees the apparent wind,
+ * leeway and drift always come from the true wind.
+ */
+export const stepBoat = (
+  prevBoat: BoatState,
+  input: SimulationInput,
+  wind: WindState,
+  upgrades: Upgrades,
+  polar: PolarTable,
+  sailOnApparentWind: boolean,
+  dt: number
+): BoatState => {
+  const frames = dt * FPS;
+  const newBoat: BoatState = { ...prevBoat, position: { ...prevBoat.position } };
+
+  // 1. Steering
+  // Apply Turn Multiplier from Upgrades; half rudder turns half as fast
+  const effectiveTurnRate = TURN_RATE * upgrades.turnMultiplier;
+  const turn = input.steer * effectiveTurnRate;
+  newBoat.rudderAngle = input.steer * MAX_RUDDER_ANGLE; // Visual rudder
+
+  // Turn effectiveness
+  // If we have no sail (moving slowly/drifting), turning is sluggish unless we have super steering
+  const speedRatio = Math.min(1, prevBoat.speed / 2);
+  const turnEffectiveness = upgrades.turnMultiplier > 1 ? 1 : Math.max(0.1, speedRatio);
+
+  newBoat.heading = normalizeAngle(prevBoat.heading + turn * turnEffectiveness * frames);
+
+  // Wind in the sail: true wind, or true wind minus the boat's own motion
+  const sailWind = sailOnApparentWind ? calculateApparentWind(newBoat.heading, prevBoat.speed, wind) : wind;
+
+  // Sheet: held by the player, or kept at the optimum with the auto-trim upgrade
+  newBoat.sheet = upgrades.autoTrim
+    ? Math.abs(calculateSailTrim(newBoat.heading, sailWind.direction))
+    : Math.max(0, Math.min(MAX_SHEET, prevBoat.sheet + input.sheet * SHEET_RATE * frames));
+
+  // 2. Physics / Speed
+  let driftX = 0;
+  let driftY = 0;
+
+  if (!upgrades.hasSail) {
+    // NO SAIL MODE:
+    // No target speed generation from wind.
+    // Boat purely drifts with wind + drag slows down any residual momentum.
+    driftX = Math.cos(wind.direction) * wind.speed * 0.02; // Slow drift downwind
+    driftY = Math.sin(wind.direction) * wind.speed * 0.02;
+
+    // Decelerate existing speed
+    newBoat.speed *= Math.pow(0.95, frames);
+  } else {
+    // SAILING MODE:
+    // Apply Speed Multiplier from Upgrades
+    // A badly trimmed sail (luffing or stalled) only delivers part of the polar speed
+    let targetSpeed = calculateTargetSpeed(newBoat.heading, sailWind, polar);
+    targetSpeed *= trimEfficiency(newBoat.sheet, newBoat.heading, sailWind.direction);
+    targetSpeed *= upgrades.speedMultiplier;
+
+    const effectiveAcceleration = ACCELERATION * upgrades.speedMultiplier;
+
+    // Accelerate or Decelerate
+    if (prevBoat.speed < targetSpeed) {
+      newBoat.speed += effectiveAcceleration * frames;
+    } else {
+      newBoat.speed -= DRAG * frames;
+    }
+
+    if (targetSpeed === 0) {
+      newBoat.speed *= Math.pow(0.98, frames); // Drag stops boat eventually
+    }
+
+    // DRIFT / LEEWAY Logic (Sailing):
+    // Stronger wind should feel harder: more downwind push (especially at inefficient angles).
+    const windFactorRaw = wind.speed / WIND_SPEED; // 1.0 at level 1
+    const windFactor = Math.max(0.8, Math.min(2.2, windFactorRaw));
+
+    const polarMax = polarMaxSpeed(polar, wind.speed);
+    const efficiency = polarMax > 0 ? Math.max(0, Math.min(1, targetSpeed / polarMax)) : 0;
+
+    const leewayMag = wind.speed * 0.010 * windFactor * (1 - efficiency);
+    driftX += Math.cos(wind.direction) * leewayMag;
+    driftY += Math.sin(wind.direction) * leewayMag;
+
+    // If in No-Go Zone (dead angle), drift even more with the wind (irons)
+    if (isInNoGoZone(newBoat.heading, sailWind.direction, polarNoGoDeg(polar))) {
+      const ironsDrift = wind.speed * 0.020 * windFactor;
+      driftX += Math.cos(wind.direction) * ironsDrift;
+      driftY += Math.sin(wind.direction) * ironsDrift;
+    }
+  }
+
+  newBoat.speed = Math.max(0, newBoat.speed);
+
+  // 3. Move
+  // Forward component: only when sailing.
+  // Without sail, the boat should drift with the wind (movement handled via driftX/driftY).
+  const forwardSpeed = upgrades.hasSail ? newBoat.speed : 0;
+  newBoat.position.x += (Math.cos(newBoat.heading) * forwardSpeed + driftX) * frames;
+  newBoat.position.y += (Math.sin(newBoat.heading) * forwardSpeed + driftY) * frames;
+
+  // 4. Boom follows the sheet, it swings over instead of jumping
+  const trim = upgrades.hasSail ? sheetedBoomAngle(newBoat.sheet, newBoat.heading, sailWind.direction) : 0;
+  newBoat.sailAngle = swingBoom(prevBoat.sailAngle, trim, frames);
+
+  return newBoat;
+};
+
+export const isInRect = (p: Vector2D, rect: Rect) =>
+  p.x >= rect.x && p.x <= rect.x + rect.width && p.y >= rect.y && p.y <= rect.y + rect.height;
+
+/**
+ * Checks the boat against the finish zone, the edges and the rocks.
+ * The finish and the edges count from the boat's position, rocks are hit by the hull outline.
+ * Pass finish = null on mark courses, they are finished via the marks instead.
+ */
+export const detectCollision = (
+  position: Vector2D,
+  heading: number,
+  rocks: RockState[],
+  bounds: Bounds,
+  finish: Rect | null
+): SimulationEvent | null => {
+  const { x, y } = position;
+
+  // Zielzone erreicht (Levelaufstieg) – hat Vorrang vor dem Rand, sie liegt meist direkt daran
+  if (finish && isInRect(position, finish)) return 'won';
+
+  // Ränder bedeuten „Kollisionsfehler“
+  if (x < WALL_BUFFER || x > bounds.width - WALL_BUFFER || y < WALL_BUFFER || y > bounds.height - WALL_BUFFER) {
+    return 'hitWall';
+  }
+
+  // Felsenkollision: Rumpf-Polygon gegen den Umriss des Felsens
+  if (rocks.some(rock => hullHitsRock(position, heading, rock))) return 'hitRock';
+
+  return null;
+};
+
+/**
+ * Local wind where the boat is. The wind field runs on attempt time,
+ * so every attempt starts with the same gusts.
+ */
+export const boatWind = (state: SimulationState): WindState =>
+  windAt(state.windField, state.wind, state.rocks, state.bounds, state.boat.position, state.tick / FPS);
+
+/**
+ * Advances the whole simulation by one fixed timestep.
+ * The boat sails in the local wind at its position.
+ * Tacks and gybes cost speed depending on how cleanly they were sailed.
+ * With an open penalty the boat can't finish until it has turned a full circle.
+ * Winning or crashing puts the boat back on the start; crashing also costs a life.
+ * When the last life is lost the lives are refilled and 'gameOver' is reported,
+ * the caller decides what a new run looks like (level, rocks, wind).
+ */
+export const step = (state: SimulationState, input: SimulationInput, dt: number): StepResult => {
+  const wind = boatWind(state);
+  let boat = stepBoat(state.boat, input, wind, state.upgrades, state.polar, state.sailOnApparentWind, dt);
+
+  // The water carries the boat: current adds to the track over ground
+  const frames = dt * FPS;
+  const current = currentAt(state.current, state.boat.position, state.tick / FPS);
+  boat = { ...boat, position: { x: boat.position.x + current.x * frames, y: boat.position.y + current.y * frames } };
+  const groundVelocity = {
+    x: (boat.position.x - state.boat.position.x) / frames,
+    y: (boat.position.y - state.boat.position.y) / frames,
+  };
+
+  const { log: manoeuvres, completed } = trackManoeuvres(state.manoeuvres, state.boat, boat, wind, state.upgrades, polarNoGoDeg(state.polar));
+  if (completed) boat = { ...boat, speed: boat.speed * (1 - manoeuvreSpeedLoss(completed)) };
+  const penalty = trackPenalty(state.penalty, state.boat.heading, boat.heading);
+
+  const hasMarks = state.marks.length > 0;
+  const markProgress = hasMarks
+    ? advanceMarks(state.markProgress, state.marks, state.start, state.boat.position, boat.position)
+    : state.markProgress;
+  const detected =
+    hasMarks && markProgress.next >= state.marks.length
+      ? 'won'
+      : detectCollision(boat.position, boat.heading, state.rocks, state.bounds, hasMarks ? null : state.finish);
+  // The finish only counts once the penalty is sailed
+  const collision = detected === 'won' && penalty ? null : detected;
+
+  if (!collision) {
+    return { state: { ...state, boat, markProgress, manoeuvres, penalty, tick: state.tick + 1, groundVelocity }, event: null };
+  }
+  return endAttempt(state, collision);
+};
+
+/**
+ * Ends the current attempt with the given event: the boat goes back on the start,
+ * a crash costs a life and the last life lost turns into 'gameOver'.
+ */
+export const endAttempt = (state: SimulationState, event: SimulationEvent): StepResult => {
+  const reset = {
+    boat: createBoatAtStart(state.start, state.wind.direction),
+    markProgress: START_PROGRESS,
+    manoeuvres: EMPTY_MANOEUVRE_LOG,
+    penalty: null,
+    tick: 0,
+    groundVelocity: { x: 0, y: 0 },
+  };
+
+  if (event === 'won') {
+    return { state: { ...state, ...reset }, event: 'won' };
+  }
+
+  const lives = state.lives - 1;
+  if (lives <= 0) {
+    return { state: { ...state, ...reset, lives: MAX_LIVES }, event: 'gameOver' };
+  }
+  return { state: { ...state, ...reset, lives }, event };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { FPS } from '../constants';
+import { RunState, createRunState } from './run';
+import { formatTrialTime, startClock, tickClock, trialBoardKey, withUpgrades } from './timeTrial';
+import { WORLD_BOUNDS } from './course';
+import { BOAT_CLASSES } from './polar';
+import { upgradesFromLevels } from './upgrades';
+
+const RUN = createRunState({ seed: 555, rockCount: 12 }, WORLD_BOUNDS, upgradesFromLevels({ sail: 1 }));
+const atMark = (run: RunState, next: number): RunState => ({ ...run, sim: { ...run.sim, markProgress: { next, sweep: 0 } } });
+const fixed = (value: number, digits = 0) => value.toFixed(digits);
+
+describe('tickClock', () => {
+  it('counts every tick and takes a split at every mark', () => {
+    let clock = startClock({}, []);
+    clock = tickClock(clock, RUN, RUN, null);
+    clock = tickClock(clock, RUN, atMark(RUN, 1), null);
+    clock = tickClock(clock, atMark(RUN, 1), atMark(RUN, 1), null);
+    expect(clock.ticks).toBe(3);
+    expect(clock.splits).toEqual([2]);
+  });
+
+  it('keeps running through a crash but starts the splits over', () => {
+    let clock = tickClock(startClock({}, []), RUN, atMark(RUN, 1), null);
+    clock = tickClock(clock, atMark(RUN, 1), RUN, 'hitRock');
+    expect(clock).toMatchObject({ ticks: 2, splits: [], collisions: 1 });
+  });
+});
+
+describe('withUpgrades', () => {
+  it('remembers the highest level on board during the level', () => {
+    let clock = startClock({ turbo: 2 }, ['autoTrim']);
+    clock = withUpgrades(clock, { turbo: 1, steering: 1 }, ['autoTrim']);
+    expect(clock.upgrades).toEqual({ turbo: 2, steering: 1 });
+    expect(clock.code).toBe(false);
+  });
+
+  it('moves the time to the code board once a code upgrade was on board', () => {
+    const clock = withUpgrades(startClock({}, ['autoTrim']), { autoTrim: 1 }, ['autoTrim']);
+    expect(withUpgrades(clock, {}, []).code).toBe(true);
+  });
+});
+
+describe('trialBoardKey', () => {
+  it('keeps boat classes and the apparent wind option apart', () => {
+    const keys = new Set([
+      trialBoardKey(RUN),
+      trialBoardKey({ ...RUN, level: 2 }),
+      trialBoardKey({ ...RUN, sim: { ...RUN.sim, polar: BOAT_CLASSES[2] } }),
+      trialBoardKey({ ...RUN, sim: { ...RUN.sim, sailOnApparentWind: true } }),
+    ]);
+    expect(keys.size).toBe(4);
+  });
+});
+
+describe('formatTrialTime', () => {
+  it('shows minutes, seconds and tenths', () => {
+    expect(formatTrialTime(65.3 * FPS, fixed)).toBe('1:05.3');
+    expect(formatTrialTime(12 * FPS, fixed)).toBe('0:12.0');
+    expect(formatTrialTime(59.96 * FPS, fixed)).toBe('1:00.0');
+  });
+});
@@ -0,0 +1,74 @@
+import { FPS } from '../constants';
+import { SimulationEvent } from './simulation';
+import { RunState } from './run';
+import { formatCourseCode } from './course';
+import { ghostKey } from './ghost';
+import { UPGRADES, UpgradeId, UpgradeLevels, levelOf } from './upgrades';
+
+/**
+ * Time trial: every level is timed from its start to the finish. Crashes put the boat back on the start
+ * but the clock keeps running, so a collision costs the time sailed so far. Split times are taken at every
+ * mark of the attempt that finishes.
+ */
+export interface TrialClock {
+  ticks: number; // Since the level started, across all attempts
+  splits: number[]; // splits[i]: clock ticks when mark i was rounded in the current attempt
+  collisions: number;
+  upgrades: UpgradeLevels; // Highest level of each upgrade on board at any time during the level
+  code: boolean; // An upgrade unlocked by code was on board: the time goes on the separate board
+}
+
+const usesCode = (levels: UpgradeLevels, codeUpgrades: UpgradeId[]) =>
+  codeUpgrades.some(id => levelOf(levels, id) > 0);
+
+export const startClock = (levels: UpgradeLevels, codeUpgrades: UpgradeId[]): TrialClock => ({
+  ticks: 0,
+  splits: [],
+  collisions: 0,
+  upgrades: { ...levels },
+  code: usesCode(levels, codeUpgrades),
+});
+
+/**
+ * Upgrades bought or unlocked during the level count for the whole level.
+ */
+export const withUpgrades = (clock: TrialClock, levels: UpgradeLevels, codeUpgrades: UpgradeId[]): TrialClock => {
+  const upgrades = { ...clock.upgrades };
+  for (const { id } of UPGRADES) {
+    const level = Math.max(levelOf(clock.upgrades, id), levelOf(levels, id));
+    if (level > 0) upgrades[id] = level;
+  }
+  return { ...clock, upgrades, code: clock.code || usesCode(levels, codeUpgrades) };
+};
+
+/**
+ * The clock after one run tick from `prev` to `next`. On 'won' the clock holds the finishing time;
+ * what happens after a win or a game over is up to the caller.
+ */
+export const tickClock = (clock: TrialClock, prev: RunState, next: RunState, event: SimulationEvent | null): TrialClock => {
+  const ticks = clock.ticks + 1;
+  if (event === 'hitRock' || event === 'hitWall' || event === 'hitBoat') {
+    return { ...clock, ticks, splits: [], collisions: clock.collisions + 1 };
+  }
+  if (!event && next.sim.markProgress.next > prev.sim.markProgress.next) {
+    return { ...clock, ticks, splits: [...clock.splits, ticks] };
+  }
+  return { ...clock, ticks };
+};
+
+/**
+ * One leaderboard per course, level, playfield, boat class and physics option. Editor courses
+ * have a course code hashed from their file, so every version of a course gets its own board.
+ */
+export const trialBoardKey = (run: RunState): string =>
+  ghostKey(formatCourseCode(run.course), run.sim.bounds, run.level, run.sim.polar.name) +
+  (run.sim.sailOnApparentWind ? '~aw' : '');
+
+/**
+ * Clock display, e.g. "1:05.3" (decimal separator of the locale).
+ */
+export const formatTrialTime = (ticks: number, number: (value: number, digits?: number) => string): string => {
+  const tenths = Math.round((ticks / FPS) * 10);
+  const seconds = number((tenths % 600) / 10, 1);
+  return `${Math.floor(tenths / 600)}:${seconds.length < 4 ? '0' : ''}${seconds}`;
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_TIMESTEP, MAX_LIVES } from '../constants';
+import { Upgrades, Vector2D } from '../types';
+import { NO_INPUT } from './simulation';
+import { RunState, advanceRun, createRunState } from './run';
+import { DEFAULT_POLAR } from './polar';
+import { NO_OPPONENTS } from './opponents';
+import { PLAYER_TWO_NAME, PlayerTwo, boatsCollide, createPlayerTwo } from './twoPlayer';
+
+const BOUNDS = { width: 2400, height: 1400 };
+const UPGRADES: Upgrades = { hasSail: true, turnMultiplier: 1, speedMultiplier: 1, revealMap: false, autoTrim: false };
+const NIMBLE: Upgrades = { ...UPGRADES, turnMultiplier: 2 };
+const STEER = { steer: 1 as const, sheet: 0 as const };
+
+// Two boats in open water, so only what the test does can end an attempt
+const twoPlayerRun = (): RunState => {
+  const run = createRunState({ seed: 5, rockCount: 12 }, BOUNDS, UPGRADES, null, DEFAULT_POLAR, false, NO_OPPONENTS, NIMBLE);
+  return { ...run, sim: { ...run.sim, rocks: [] } };
+};
+
+const player2Of = (run: RunState): PlayerTwo => {
+  if (!run.sim.player2) throw new Error('no player two');
+  return run.sim.player2;
+};
+
+const moveBoats = (run: RunState, p1: Vector2D, p2: Vector2D): RunState => {
+  const player2 = player2Of(run);
+  return {
+    ...run,
+    sim: {
+      ...run.sim,
+      boat: { ...run.sim.boat, position: p1 },
+      player2: { ...player2, boat: { ...player2.boat, position: p2 } },
+    },
+  };
+};
+
+describe('createPlayerTwo', () => {
+  it('starts next to player one with its own upgrades and full lives', () => {
+    const { sim } = twoPlayerRun();
+    const player2 = createPlayerTwo(sim, NIMBLE);
+    expect(player2.slot).not.toEqual(sim.start);
+    expect(player2.boat.position).toEqual(player2.slot);
+    expect(player2.upgrades).toBe(NIMBLE);
+    expect(player2.lives).toBe(MAX_LIVES);
+  });
+});
+
+describe('advanceRun with two players', () => {
+  it('steers each boat with its own input and upgrades', () => {
+    const run = twoPlayerRun();
+    const onlyTwo = advanceRun(run, NO_INPUT, FIXED_TIMESTEP, STEER).run;
+    expect(onlyTwo.sim.boat.heading).toBeCloseTo(run.sim.boat.heading);
+    expect(player2Of(onlyTwo).boat.heading).not.toBeCloseTo(player2Of(run).boat.heading);
+
+    const both = advanceRun(run, STEER, FIXED_TIMESTEP, STEER).run;
+    const turned = (before: number, after: number) => Math.abs(after - before);
+    expect(turned(player2Of(run).boat.heading, player2Of(both).boat.heading)).toBeGreaterThan(
+      turned(run.sim.boat.heading, both.sim.boat.heading)
+    );
+  });
+
+  it('costs only player two a life when it crashes', () => {
+    const run = moveBoats(twoPlayerRun(), { x: 1200, y: 700 }, { x: BOUNDS.width - 2, y: 700 });
+    const { run: after, event, player } = advanceRun(run, NO_INPUT, FIXED_TIMESTEP);
+    expect([event, player]).toEqual(['hitWall', 2]);
+    expect(player2Of(after).lives).toBe(MAX_LIVES - 1);
+    expect(player2Of(after).boat.position).toEqual(player2Of(run).slot);
+    expect(after.sim.lives).toBe(MAX_LIVES);
+    expect(after.sim.tick).toBe(run.sim.tick + 1);
+  });
+
+  it('reports a crash of player two in the same tick as one of player one', () => {
+    const run = moveBoats(twoPlayerRun(), { x: BOUNDS.width - 2, y: 300 }, { x: BOUNDS.width - 2, y: 1100 });
+    const { run: after, event, player, event2 } = advanceRun(run, NO_INPUT, FIXED_TIMESTEP);
+    expect([event, player, event2]).toEqual(['hitWall', 1, 'hitWall']);
+    expect(after.sim.lives).toBe(MAX_LIVES - 1);
+    expect(player2Of(after).lives).toBe(MAX_LIVES - 1);
+  });
+
+  it('sends both boats back when they touch', () => {
+    const run = moveBoats(twoPlayerRun(), { x: 1200, y: 700 }, { x: 1205, y: 700 });
+    expect(boatsCollide(run.sim.boat, player2Of(run).boat)).toBe(true);
+    const { run: after, event, event2 } = advanceRun(run, NO_INPUT, FIXED_TIMESTEP);
+    expect(event).toBe('hitBoat');
+    expect(event2).toBeNull();
+    expect(after.sim.boat.position).toEqual(run.sim.start);
+    expect(player2Of(after).boat.position).toEqual(player2Of(run).slot);
+    expect(after.sim.lives).toBe(MAX_LIVES - 1);
+    expect(player2Of(after).lives).toBe(MAX_LIVES - 1);
+  });
+
+  it('gives the level to whoever finishes first, with player two in the standings', () => {
+    const run = moveBoats(twoPlayerRun(), { x: 1200, y: 700 }, { x: 5, y: 700 });
+    const { run: after, event, player, standings } = advanceRun(run, NO_INPUT, FIXED_TIMESTEP);
+    expect([event, player]).toEqual(['won', 2]);
+    expect(after.level).toBe(run.level + 1);
+    expect(standings?.[0].name).toBe(PLAYER_TWO_NAME);
+  });
+
+  it('starts the whole run over when player two loses its last life', () => {
+    const run = moveBoats(twoPlayerRun(), { x: 1200, y: 700 }, { x: BOUNDS.width - 2, y: 700 });
+    const lastLife = { ...run, level: 3, sim: { ...run.sim, player2: { ...player2Of(run), lives: 1 } } };
+    const { run: after, event, player } = advanceRun(lastLife, NO_INPUT, FIXED_TIMESTEP);
+    expect([event, player]).toEqual(['gameOver', 2]);
+    expect(after.level).toBe(1);
+    expect(player2Of(after).lives).toBe(MAX_LIVES);
+  });
+
+  it('hands each boat its own penalty, opponents included', () => {
+    const run = createRunState({ seed: 5, rockCount: 12 }, BOUNDS, UPGRADES, null, DEFAULT_POLAR, false, { count: 1, difficulty: 'easy' }, NIMBLE);
+    const { wind } = run.sim;
+    const [opponent] = run.sim.opponents;
+    const player2 = player2Of(run);
+    // Player two on port tack right to windward of the opponent on starboard tack, player one far off
+    const at = { x: 1200, y: 700 };
+    const downwind = { x: at.x + Math.cos(wind.direction) * 12, y: at.y + Math.sin(wind.direction) * 12 };
+    const foul: RunState = {
+      ...run,
+      sim: {
+        ...run.sim,
+        rocks: [],
+        boat: { ...run.sim.boat, position: { x: 300, y: 300 } },
+        player2: { ...player2, boat: { ...player2.boat, position: at, heading: wind.direction - Math.PI / 2, speed: 3 } },
+        opponents: [{ ...opponent, boat: { ...opponent.boat, position: downwind, heading: wind.direction + Math.PI / 2, speed: 3 } }],
+      },
+    };
+    const { sim } = advanceRun(foul, NO_INPUT, FIXED_TIMESTEP).run;
+    expect(sim.penalty).toBeNull();
+    expect(sim.player2?.penalty).toEqual({ rule: 'portStarboard', against: opponent.name, turned: 0 });
+    expect(sim.opponents[0].penalty).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { BoatState, Upgrades, Vector2D } from '../types';
+import { MAX_LIVES } from '../constants';
+import { MarkProgress, START_PROGRESS } from './marks';
+import { EMPTY_MANOEUVRE_LOG, ManoeuvreLog } from './manoeuvres';
+import { hullsOverlap } from './collision';
+import { Penalty } from './rules';
+import { startSlot } from './opponents';
+import { SimulationEvent, SimulationInput, SimulationState, createBoatAtStart, endAttempt, step } from './simulation';
+
+export const PLAYER_ONE_NAME = 'Spieler 1';
+export const PLAYER_TWO_NAME = 'Spieler 2';
+// Player one when sailing alone. The names also identify the boats in standings and penalties, the UI translates them
+export const SOLO_NAME = 'Du';
+export const PLAYER_TWO_COLOR = '#facc15'; // Yellow 400
+
+/**
+ * The second human boat of the two-player mode: its own boat, lives and upgrades
+ * on the same course, in the same wind and current as the first.
+ */
+export interface PlayerTwo {
+  slot: Vector2D; // Own start position, next to player one's
+  boat: BoatState;
+  markProgress: MarkProgress;
+  manoeuvres: ManoeuvreLog;
+  penalty: Penalty | null;
+  upgrades: Upgrades;
+  lives: number;
+  groundVelocity: Vector2D;
+}
+
+export const playerOneName = (state: Pick<SimulationState, 'player2'>) => (state.player2 ? PLAYER_ONE_NAME : SOLO_NAME);
+
+export const createPlayerTwo = (state: Pick<SimulationState, 'start' | 'wind' | 'rocks' | 'bounds'>, upgrades: Upgrades): PlayerTwo => {
+  const slot = startSlot(state, 1);
+  return {
+    slot,
+    boat: createBoatAtStart(slot, state.wind.direction),
+    markProgress: START_PROGRESS,
+    manoeuvres: EMPTY_MANOEUVRE_LOG,
+    penalty: null,
+    upgrades,
+    lives: MAX_LIVES,
+    groundVelocity: { x: 0, y: 0 },
+  };
+};
+
+// The simulation as player two sees it: its boat on its slot, the rest shared with player one
+const asSimulation = (state: SimulationState, player: PlayerTwo): SimulationState => ({
+  ...state,
+  boat: player.boat,
+  start: player.slot,
+  markProgress: player.markProgress,
+  manoeuvres: player.manoeuvres,
+  penalty: player.penalty,
+  upgrades: player.upgrades,
+  lives: player.lives,
+  groundVelocity: player.groundVelocity,
+  opponents: [],
+  player2: null,
+});
+
+const fromSimulation = (player: PlayerTwo, sim: SimulationState): PlayerTwo => ({
+  ...player,
+  boat: sim.boat,
+  markProgress: sim.markProgress,
+  manoeuvres: sim.manoeuvres,
+  penalty: sim.penalty,
+  lives: sim.lives,
+  groundVelocity: sim.groundVelocity,
+});
+
+export interface PlayerTwoStepResult {
+  player: PlayerTwo;
+  event: SimulationEvent | null;
+}
+
+/**
+ * Advances player two by one tick with exactly the player's physics (see step).
+ * Call with the state before player one's step, so both boats see the same wind time.
+ */
+export const stepPlayerTwo = (state: SimulationState, player: PlayerTwo, input: SimulationInput, dt: number): PlayerTwoStepResult => {
+  const { state: sim, event } = step(asSimulation(state, player), input, dt);
+  return { player: fromSimulation(player, sim), event };
+};
+
+/**
+ * Ends player two's attempt like endAttempt does for player one: back on the slot, a crash costs a life.
+ */
+export const endPlayerTwoAttempt = (state: SimulationState, player: PlayerTwo, event: SimulationEvent): PlayerTwoStepResult => {
+  const { state: sim, event: result } = endAttempt(asSimulation(state, player), event);
+  return { player: fromSimulation(player, sim), event: result };
+};
+
+/**
+ * Do the hulls of two boats touch?
+ */
+export const boatsCollide = (a: BoatState, b: BoatState): boolean => hullsOverlap(a.position, a.heading, b.position, b.heading);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BASE_UPGRADES,
+  UPGRADES,
+  levelReward,
+  levelsFromUpgrades,
+  maxLevel,
+  nextLevelPrice,
+  parseUpgradeLevels,
+  upgradeForCode,
+  upgradesFromLevels,
+} from './upgrades';
+
+const upgrade = (id: string) => UPGRADES.find(u => u.id === id)!;
+
+describe('parseUpgradeLevels', () => {
+  it('keeps the levels of known upgrades', () => {
+    expect(parseUpgradeLevels({ sail: 1, turbo: 2 })).toEqual({ sail: 1, turbo: 2 });
+  });
+
+  it('drops unknown upgrades and broken levels, and caps at the highest level', () => {
+    expect(parseUpgradeLevels({ sail: 0, steering: 1.5, turbo: '2', chart: 99, rocket: 1 })).toEqual({ chart: maxLevel(upgrade('chart')) });
+  });
+
+  it('reads anything else as no upgrades', () => {
+    expect(parseUpgradeLevels(null)).toEqual({});
+    expect(parseUpgradeLevels('sail')).toEqual({});
+    expect(parseUpgradeLevels([1, 2, 3])).toEqual({});
+  });
+});
+
+describe('levelsFromUpgrades', () => {
+  it('carries over codes saved before the registry at the highest level', () => {
+    expect(levelsFromUpgrades({ hasSail: true, turnMultiplier: 3, speedMultiplier: 1, revealMap: false, autoTrim: true })).toEqual({
+      sail: 1,
+      steering: 3,
+      autoTrim: 1,
+    });
+  });
+
+  it('ignores broken values', () => {
+    expect(levelsFromUpgrades({ hasSail: 'yes', turnMultiplier: '3' })).toEqual({});
+    expect(levelsFromUpgrades(undefined)).toEqual({});
+  });
+});
+
+describe('upgradesFromLevels', () => {
+  it('is the bare boat without upgrades', () => {
+    expect(upgradesFromLevels({})).toEqual(BASE_UPGRADES);
+  });
+
+  it('applies each owned level', () => {
+    const upgrades = upgradesFromLevels({ sail: 1, turbo: 3, chart: 1 });
+    expect(upgrades.hasSail).toBe(true);
+    expect(upgrades.speedMultiplier).toBeCloseTo(1.5);
+    expect(upgrades.revealMap).toBe(true);
+    expect(upgrades.turnMultiplier).toBe(1);
+  });
+
+  it('steers faster with every steering level', () => {
+    const rates = [1, 2, 3].map(steering => upgradesFromLevels({ steering }).turnMultiplier);
+    expect(rates[0]).toBeLessThan(rates[1]);
+    expect(rates[1]).toBeLessThan(rates[2]);
+  });
+});
+
+describe('shop', () => {
+  it('prices the next level until the upgrade is maxed out', () => {
+    const steering = upgrade('steering');
+    expect(nextLevelPrice({}, steering)).toBe(steering.prices[0]);
+    expect(nextLevelPrice({ steering: 1 }, steering)).toBe(steering.prices[1]);
+    expect(nextLevelPrice({ steering: maxLevel(steering) }, steering)).toBeNull();
+  });
+
+  it('finds upgrades by code regardless of case and blanks', () => {
+    expect(upgradeForCode(' TURBO ')?.id).toBe('turbo');
+    expect(upgradeForCode('nitro')).toBeUndefined();
+  });
+
+  it('only pays for clean levels, more on higher ones', () => {
+    expect(levelReward(3, false)).toBe(0);
+    expect(levelReward(3, true)).toBeGreaterThan(levelReward(1, true));
+  });
+});
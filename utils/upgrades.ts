@@ -0,0 +1,143 @@
+import { Eye, LucideIcon, RotateCw, Ship, Sparkles, Zap } from 'lucide-react';
+import { Upgrades } from '../types';
+import { MessageKey } from './i18n';
+import { isFiniteNumber, isInteger, isRecord } from './guards';
+
+export type UpgradeId = 'sail' | 'steering' | 'turbo' | 'chart' | 'autoTrim';
+
+/**
+ * One upgrade of the registry: how it is shown, what it costs in the shop, which code unlocks it
+ * and what each level does to the boat's physics.
+ */
+export interface UpgradeDefinition {
+  id: UpgradeId;
+  name: MessageKey;
+  description: MessageKey;
+  icon: LucideIcon;
+  badge: { label: MessageKey; color: string; animation?: string }; // HUD badge, Tailwind classes
+  code: string; // Secret code, unlocks the highest level at once
+  prices: number[]; // Coins per level: prices[0] buys level 1, the length is the highest level
+  apply: (upgrades: Upgrades, level: number) => Upgrades; // Effect of `level` (>= 1) on the physics parameters
+}
+
+export const UPGRADES: UpgradeDefinition[] = [
+  {
+    id: 'sail',
+    name: 'upgrade.sail.name',
+    description: 'upgrade.sail.description',
+    icon: Ship,
+    badge: { label: 'upgrade.sail.badge', color: 'bg-sky-600', animation: 'animate-pulse' },
+    code: 'teamtage',
+    prices: [30],
+    apply: u => ({ ...u, hasSail: true }),
+  },
+  {
+    id: 'steering',
+    name: 'upgrade.steering.name',
+    description: 'upgrade.steering.description',
+    icon: RotateCw,
+    badge: { label: 'upgrade.steering.badge', color: 'bg-violet-500', animation: 'animate-bounce' },
+    code: 'kiimedias',
+    prices: [20, 40, 80],
+    apply: (u, level) => ({ ...u, turnMultiplier: 1 + (2 / 3) * level }),
+  },
+  {
+    id: 'turbo',
+    name: 'upgrade.turbo.name',
+    description: 'upgrade.turbo.description',
+    icon: Zap,
+    badge: { label: 'upgrade.turbo.badge', color: 'bg-amber-500', animation: 'animate-bounce' },
+    code: 'turbo',
+    prices: [25, 50, 100],
+    apply: (u, level) => ({ ...u, speedMultiplier: 1 + level / 6 }),
+  },
+  {
+    id: 'chart',
+    name: 'upgrade.chart.name',
+    description: 'upgrade.chart.description',
+    icon: Eye,
+    badge: { label: 'upgrade.chart.badge', color: 'bg-emerald-600' },
+    code: 'karpi',
+    prices: [120],
+    apply: u => ({ ...u, revealMap: true }),
+  },
+  {
+    id: 'autoTrim',
+    name: 'upgrade.autoTrim.name',
+    description: 'upgrade.autoTrim.description',
+    icon: Sparkles,
+    badge: { label: 'upgrade.autoTrim.badge', color: 'bg-teal-600' },
+    code: 'trimmfuchs',
+    prices: [60],
+    apply: u => ({ ...u, autoTrim: true }),
+  },
+];
+
+/**
+ * Owned level per upgrade; missing = not owned.
+ */
+export type UpgradeLevels = Partial<Record<UpgradeId, number>>;
+
+// The bare boat: no sail, plain rudder, fog
+export const BASE_UPGRADES: Upgrades = {
+  hasSail: false,
+  turnMultiplier: 1,
+  speedMultiplier: 1,
+  revealMap: false,
+  autoTrim: false,
+};
+
+export const maxLevel = (upgrade: UpgradeDefinition) => upgrade.prices.length;
+
+export const levelOf = (levels: UpgradeLevels, id: UpgradeId) => levels[id] ?? 0;
+
+/**
+ * Physics parameters of the owned upgrades, applied in registry order.
+ */
+export const upgradesFromLevels = (levels: UpgradeLevels): Upgrades =>
+  UPGRADES.reduce((u, upgrade) => (levelOf(levels, upgrade.id) > 0 ? upgrade.apply(u, levelOf(levels, upgrade.id)) : u), BASE_UPGRADES);
+
+export const upgradeForCode = (code: string): UpgradeDefinition | undefined =>
+  UPGRADES.find(upgrade => upgrade.code === code.toLowerCase().trim());
+
+export const isUpgradeId = (value: unknown): value is UpgradeId => UPGRADES.some(upgrade => upgrade.id === value);
+
+/**
+ * Price of the next level, null once the upgrade is maxed out.
+ */
+export const nextLevelPrice = (levels: UpgradeLevels, upgrade: UpgradeDefinition): number | null =>
+  upgrade.prices[levelOf(levels, upgrade.id)] ?? null;
+
+/**
+ * Stored levels (e.g. from localStorage), anything unknown or out of range dropped.
+ */
+export const parseUpgradeLevels = (value: unknown): UpgradeLevels => {
+  const levels: UpgradeLevels = {};
+  if (!isRecord(value)) return levels;
+  for (const upgrade of UPGRADES) {
+    const level = value[upgrade.id];
+    if (isInteger(level) && level > 0) levels[upgrade.id] = Math.min(level, maxLevel(upgrade));
+  }
+  return levels;
+};
+
+/**
+ * Levels matching the physics parameters saved before the registry existed (codes only, always the highest level).
+ */
+export const levelsFromUpgrades = (value: unknown): UpgradeLevels => {
+  if (!isRecord(value)) return {};
+  return parseUpgradeLevels({
+    sail: value.hasSail === true ? 1 : 0,
+    steering: isFiniteNumber(value.turnMultiplier) && value.turnMultiplier > 1 ? 3 : 0,
+    turbo: isFiniteNumber(value.speedMultiplier) && value.speedMultiplier > 1 ? 3 : 0,
+    chart: value.revealMap === true ? 1 : 0,
+    autoTrim: value.autoTrim === true ? 1 : 0,
+  });
+};
+
+// --- Coins ---
+
+/**
+ * Coins for winning a level: only a clean completion (no life lost on the level) pays, more on higher levels.
+ */
+export const levelReward = (level: number, clean: boolean) => (clean ? 10 + 5 * level : 0);
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { WindState } from '../types';
+import { GustPatch, WindField, createWindField, gustCenterAt, shiftedDirection, windAt } from './windField';
+import { rockOutline } from './collision';
+
+const BOUNDS = { width: 2400, height: 1400 };
+const MEAN: WindState = { direction: 0, speed: 15 };
+const CALM: WindField = {
+  gusts: [],
+  oscillation: { amplitude: 0, period: 60, phase: 0 },
+  persistentShift: { rate: 0, max: 0 },
+};
+const GUST: GustPatch = { position: { x: 1000, y: 700 }, radius: 200, strength: 0.4, veer: 0.1, drift: 30 };
+const ROCK = { position: { x: 1000, y: 700 }, radius: 40, outline: rockOutline(0) };
+
+describe('createWindField', () => {
+  it('is the same for the same seed and level', () => {
+    expect(createWindField(42, 3, BOUNDS)).toEqual(createWindField(42, 3, BOUNDS));
+    expect(createWindField(42, 3, BOUNDS)).not.toEqual(createWindField(43, 3, BOUNDS));
+  });
+
+  it('brings more patches on higher levels', () => {
+    expect(createWindField(42, 5, BOUNDS).gusts.length).toBeGreaterThan(createWindField(42, 1, BOUNDS).gusts.length);
+  });
+});
+
+describe('gustCenterAt', () => {
+  it('drifts downwind and wraps around the playfield', () => {
+    expect(gustCenterAt(GUST, MEAN, BOUNDS, 10)).toEqual({ x: 1300, y: 700 });
+    const wrapped = gustCenterAt(GUST, MEAN, BOUNDS, 60);
+    expect(wrapped.x).toBeCloseTo(1000 + 1800 - (BOUNDS.width + 2 * GUST.radius));
+  });
+});
+
+describe('shiftedDirection', () => {
+  it('swings back and forth around the mean', () => {
+    const field = { ...CALM, oscillation: { amplitude: 0.1, period: 60, phase: 0 } };
+    expect(shiftedDirection(field, MEAN, 15)).toBeCloseTo(0.1);
+    expect(shiftedDirection(field, MEAN, 45)).toBeCloseTo(-0.1);
+  });
+
+  it('keeps a persistent shift within its limit', () => {
+    const field = { ...CALM, persistentShift: { rate: 0.01, max: 0.2 } };
+    expect(shiftedDirection(field, MEAN, 10)).toBeCloseTo(0.1);
+    expect(shiftedDirection(field, MEAN, 1000)).toBeCloseTo(0.2);
+  });
+});
+
+describe('windAt', () => {
+  it('is the mean wind without gusts, shifts or rocks', () => {
+    expect(windAt(CALM, MEAN, [], BOUNDS, { x: 500, y: 500 }, 30)).toEqual(MEAN);
+  });
+
+  it('blows stronger and veers in the centre of a gust, and not outside it', () => {
+    const field = { ...CALM, gusts: [GUST] };
+    const centre = windAt(field, MEAN, [], BOUNDS, GUST.position, 0);
+    expect(centre.speed).toBeCloseTo(MEAN.speed * 1.4);
+    expect(centre.direction).toBeCloseTo(0.1);
+    expect(windAt(field, MEAN, [], BOUNDS, { x: 1000, y: 950 }, 0)).toEqual(MEAN);
+  });
+
+  it('never drops below a breath in a deep lull', () => {
+    const field = { ...CALM, gusts: [{ ...GUST, strength: -5 }] };
+    expect(windAt(field, MEAN, [], BOUNDS, GUST.position, 0).speed).toBeGreaterThan(0);
+  });
+
+  it('is weaker in the shadow downwind of a rock, fading with distance', () => {
+    const close = windAt(CALM, MEAN, [ROCK], BOUNDS, { x: 1060, y: 700 }, 0).speed;
+    const far = windAt(CALM, MEAN, [ROCK], BOUNDS, { x: 1200, y: 700 }, 0).speed;
+    expect(close).toBeLessThan(far);
+    expect(far).toBeLessThan(MEAN.speed);
+    expect(windAt(CALM, MEAN, [ROCK], BOUNDS, { x: 940, y: 700 }, 0).speed).toBe(MEAN.speed);
+    expect(windAt(CALM, MEAN, [ROCK], BOUNDS, { x: 1060, y: 800 }, 0).speed).toBe(MEAN.speed);
+  });
+});
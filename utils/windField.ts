@@ -0,0 +1,129 @@
+import { RockState, Vector2D, WindState } from '../types';
+import { degToRad } from '../constants';
+import { createRng, hashSeed } from './random';
+import { Bounds } from './simulation';
+
+/**
+ * A patch of stronger (gust, Bö) or weaker (lull, Flaute) wind that drifts downwind.
+ */
+export interface GustPatch {
+  position: Vector2D; // Centre at t = 0
+  radius: number;
+  strength: number; // Relative change of wind speed in the centre, +0.4 = 40% more wind
+  veer: number; // Direction change in the centre (radians)
+  drift: number; // Pixels per second along the mean wind
+}
+
+/**
+ * Variations on top of the mean wind of a level. Pure data, queried with windAt.
+ */
+export interface WindField {
+  gusts: GustPatch[];
+  oscillation: { amplitude: number; period: number; phase: number }; // Shift back and forth (radians, seconds)
+  persistentShift: { rate: number; max: number }; // Steady turn of the wind (radians per second, capped)
+}
+
+// Wind shadow behind rocks: length and width in rock radii, share of the wind taken away right behind it
+const SHADOW_LENGTH = 6;
+const SHADOW_SPREAD = 0.25; // The shadow widens by this much per radius downwind
+const SHADOW_DEPTH = 0.6;
+const MIN_WIND_FACTOR = 0.2;
+
+/**
+ * Seeded wind field for a level: more and stronger patches on higher levels.
+ */
+export const createWindField = (seed: number, level: number, bounds: Bounds): WindField => {
+  const rng = createRng(hashSeed(seed, 'windfield', level));
+  const between = (min: number, max: number) => min + rng() * (max - min);
+
+  const gusts: GustPatch[] = [];
+  const count = Math.min(12, 3 + level);
+  for (let i = 0; i < count; i++) {
+    const isLull = rng() < 0.4;
+    gusts.push({
+      position: { x: rng() * bounds.width, y: rng() * bounds.height },
+      radius: between(110, 260),
+      strength: (isLull ? -1 : 1) * between(0.2, 0.35 + Math.min(level, 5) * 0.03),
+      veer: degToRad(between(-12, 12)),
+      drift: between(15, 45),
+    });
+  }
+
+  return {
+    gusts,
+    oscillation: {
+      amplitude: degToRad(between(4, 6 + Math.min(level, 6))),
+      period: between(40, 90),
+      phase: rng() * 2 * Math.PI,
+    },
+    persistentShift: {
+      rate: (rng() < 0.5 ? -1 : 1) * degToRad(between(2, 6)) / 60, // A few degrees per minute
+      max: degToRad(15),
+    },
+  };
+};
+
+const wrap = (value: number, min: number, size: number) => min + ((((value - min) % size) + size) % size);
+
+/**
+ * Centre of a patch at time t: drifted downwind, wrapping around the playfield.
+ */
+export const gustCenterAt = (gust: GustPatch, mean: WindState, bounds: Bounds, t: number): Vector2D => {
+  const d = gust.drift * t;
+  const r = gust.radius;
+  return {
+    x: wrap(gust.position.x + Math.cos(mean.direction) * d, -r, bounds.width + 2 * r),
+    y: wrap(gust.position.y + Math.sin(mean.direction) * d, -r, bounds.height + 2 * r),
+  };
+};
+
+/**
+ * Direction of the mean wind after oscillating and persistent shifts at time t.
+ */
+export const shiftedDirection = (field: WindField, mean: WindState, t: number): number => {
+  const { amplitude, period, phase } = field.oscillation;
+  const { rate, max } = field.persistentShift;
+  const persistent = Math.max(-max, Math.min(max, rate * t));
+  return mean.direction + amplitude * Math.sin((2 * Math.PI * t) / period + phase) + persistent;
+};
+
+/**
+ * Local wind at a point and time (seconds since the attempt started):
+ * shifted mean wind, plus gusts and lulls, minus the wind shadow of rocks upwind.
+ */
+export const windAt = (
+  field: WindField,
+  mean: WindState,
+  rocks: RockState[],
+  bounds: Bounds,
+  p: Vector2D,
+  t: number
+): WindState => {
+  let direction = shiftedDirection(field, mean, t);
+  let factor = 1;
+
+  for (const gust of field.gusts) {
+    const c = gustCenterAt(gust, mean, bounds, t);
+    const d2 = ((p.x - c.x) ** 2 + (p.y - c.y) ** 2) / (gust.radius * gust.radius);
+    if (d2 >= 1) continue;
+    const falloff = (1 - d2) * (1 - d2); // Smooth edge
+    factor += gust.strength * falloff;
+    direction += gust.veer * falloff;
+  }
+
+  // Wind shadow: a widening wedge downwind of each rock
+  const wx = Math.cos(direction);
+  const wy = Math.sin(direction);
+  for (const rock of rocks) {
+    const dx = p.x - rock.position.x;
+    const dy = p.y - rock.position.y;
+    const along = (dx * wx + dy * wy) / rock.radius;
+    if (along <= 0 || along >= SHADOW_LENGTH) continue;
+    const across = Math.abs(dx * wy - dy * wx) / rock.radius;
+    const width = 1 + along * SHADOW_SPREAD;
+    if (across >= width) continue;
+    factor *= 1 - SHADOW_DEPTH * (1 - along / SHADOW_LENGTH) * (1 - across / width);
+  }
+
+  return { direction, speed: mean.speed * Math.max(MIN_WIND_FACTOR, factor) };
+};